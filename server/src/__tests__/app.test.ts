@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
 import request from 'supertest';
 import { createApp } from '../app.js';
 import type { Application } from 'express';
@@ -60,6 +60,52 @@ describe('Express App', () => {
     });
   });
 
+  describe('Request IDs', () => {
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('should assign a request ID and return it in errors', async () => {
+      const response = await request(app).get('/unknown-route').expect(404);
+
+      expect(response.headers['x-request-id']).toMatch(/^[0-9a-f-]{36}$/);
+      expect(response.body.requestId).toBe(response.headers['x-request-id']);
+    });
+
+    it('should reuse a valid incoming request ID', async () => {
+      const response = await request(app)
+        .get('/health')
+        .set('X-Request-Id', 'upstream-abc.123')
+        .expect(200);
+
+      expect(response.headers['x-request-id']).toBe('upstream-abc.123');
+    });
+
+    it('should replace a malformed incoming request ID', async () => {
+      const response = await request(app)
+        .get('/health')
+        .set('X-Request-Id', 'not a valid id')
+        .expect(200);
+
+      expect(response.headers['x-request-id']).not.toBe('not a valid id');
+    });
+
+    it('should include the request ID in request log lines', async () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      await request(app)
+        .get('/unknown-route')
+        .set('X-Request-Id', 'log-me')
+        .expect(404);
+
+      const lines = warn.mock.calls.map(([line]) => String(line));
+      expect(lines.some((line) => line.includes('404 Not Found'))).toBe(true);
+      expect(lines.every((line) => line.includes('"requestId":"log-me"'))).toBe(
+        true
+      );
+    });
+  });
+
   describe('Security Headers', () => {
     it('should include security headers', async () => {
       const response = await request(app).get('/health').expect(200);
@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { anonymizeStoredClicks } from '../jobs/clickAnonymize.js';
+import { ClickEventModel } from '../database/models/ClickEvent.js';
+
+vi.mock('../database/models/ClickEvent.js');
+
+const chromeOnWindows =
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36';
+
+const options = {
+  ipMode: 'truncate',
+  ipSalt: '',
+  userAgentMode: 'reduced',
+  honorPrivacySignals: true,
+};
+
+describe('anonymizeStoredClicks', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(ClickEventModel.updateVisitors).mockResolvedValue();
+  });
+
+  it('should reduce stored visitor details page by page', async () => {
+    vi.mocked(ClickEventModel.findUnreduced)
+      .mockResolvedValueOnce([
+        {
+          id: 'click-1',
+          ip_address: '203.0.113.5',
+          user_agent: chromeOnWindows,
+        },
+        { id: 'click-2', ip_address: '2001:db8:1:2::1', user_agent: null },
+      ])
+      .mockResolvedValueOnce([
+        { id: 'click-3', ip_address: null, user_agent: chromeOnWindows },
+      ]);
+
+    expect(await anonymizeStoredClicks(options, 2)).toBe(3);
+
+    expect(ClickEventModel.findUnreduced).toHaveBeenNthCalledWith(1, null, 2);
+    expect(ClickEventModel.findUnreduced).toHaveBeenNthCalledWith(
+      2,
+      'click-2',
+      2
+    );
+    expect(ClickEventModel.updateVisitors).toHaveBeenNthCalledWith(1, [
+      {
+        id: 'click-1',
+        ip_address: '203.0.113.0',
+        browser: 'Chrome',
+        os: 'Windows',
+        device_type: 'desktop',
+      },
+      { id: 'click-2', ip_address: '2001:db8:1::' },
+    ]);
+    expect(ClickEventModel.updateVisitors).toHaveBeenNthCalledWith(2, [
+      {
+        id: 'click-3',
+        browser: 'Chrome',
+        os: 'Windows',
+        device_type: 'desktop',
+      },
+    ]);
+  });
+
+  it('should hash IPs in hash mode', async () => {
+    vi.mocked(ClickEventModel.findUnreduced).mockResolvedValueOnce([
+      { id: 'click-1', ip_address: '203.0.113.5', user_agent: null },
+    ]);
+
+    await anonymizeStoredClicks({
+      ...options,
+      ipMode: 'hash',
+      ipSalt: 'salt',
+    });
+
+    expect(ClickEventModel.updateVisitors).toHaveBeenCalledWith([
+      { id: 'click-1', ip_hash: expect.stringMatching(/^[0-9a-f]{64}$/) },
+    ]);
+  });
+
+  it('should do nothing when every click is already reduced', async () => {
+    vi.mocked(ClickEventModel.findUnreduced).mockResolvedValueOnce([]);
+
+    expect(await anonymizeStoredClicks(options)).toBe(0);
+    expect(ClickEventModel.updateVisitors).not.toHaveBeenCalled();
+  });
+});
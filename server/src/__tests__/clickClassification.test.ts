@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  classifyClick,
+  isBotUserAgent,
+  isPrefetchRequest,
+} from '../utils/clickClassification.js';
+import { ClickEventModel } from '../database/models/ClickEvent.js';
+import { MemoryRateLimitStore } from '../utils/rateLimitStore.js';
+
+vi.mock('../database/models/ClickEvent.js');
+
+const chrome =
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+
+describe('isBotUserAgent', () => {
+  it('recognises crawlers, link previews and HTTP libraries', () => {
+    expect(
+      isBotUserAgent('Googlebot/2.1 (+http://www.google.com/bot.html)')
+    ).toBe(true);
+    expect(isBotUserAgent('facebookexternalhit/1.1')).toBe(true);
+    expect(isBotUserAgent('Slackbot-LinkExpanding 1.0')).toBe(true);
+    expect(isBotUserAgent('curl/8.4.0')).toBe(true);
+    expect(isBotUserAgent('python-requests/2.31.0')).toBe(true);
+  });
+
+  it('treats a missing user agent as a bot', () => {
+    expect(isBotUserAgent(undefined)).toBe(true);
+    expect(isBotUserAgent('  ')).toBe(true);
+  });
+
+  it('accepts browsers and honours extra patterns', () => {
+    expect(isBotUserAgent(chrome)).toBe(false);
+    expect(isBotUserAgent(chrome, ['win64'])).toBe(true);
+  });
+});
+
+describe('isPrefetchRequest', () => {
+  it('detects prefetch and preview headers', () => {
+    expect(isPrefetchRequest({ purpose: 'prefetch' })).toBe(true);
+    expect(isPrefetchRequest({ 'sec-purpose': 'prefetch;prerender' })).toBe(
+      true
+    );
+    expect(isPrefetchRequest({ 'x-purpose': 'preview' })).toBe(true);
+    expect(isPrefetchRequest({ 'x-moz': 'prefetch' })).toBe(true);
+    expect(isPrefetchRequest({ accept: 'text/html' })).toBe(false);
+  });
+});
+
+describe('classifyClick', () => {
+  const options = { duplicateWindowSeconds: 30, botUserAgents: [] };
+  const click = {
+    linkId: 'link-1',
+    userAgent: chrome,
+    ipAddress: '203.0.113.7',
+    sessionId: 'session-1',
+    headers: {},
+  };
+  let store: MemoryRateLimitStore;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(ClickEventModel.hasRecentSessionClick).mockResolvedValue(false);
+    store = new MemoryRateLimitStore();
+  });
+
+  it('marks ordinary clicks as valid', async () => {
+    await expect(classifyClick(click, options, store)).resolves.toEqual({
+      classification: 'valid',
+      reason: null,
+    });
+    expect(ClickEventModel.hasRecentSessionClick).toHaveBeenCalledWith(
+      'link-1',
+      'session-1',
+      30
+    );
+  });
+
+  it('marks bots without looking for duplicates', async () => {
+    const result = await classifyClick(
+      { ...click, userAgent: 'Twitterbot/1.0' },
+      options,
+      store
+    );
+
+    expect(result).toEqual({ classification: 'bot', reason: 'user_agent' });
+    expect(ClickEventModel.hasRecentSessionClick).not.toHaveBeenCalled();
+    expect(store.size).toBe(0);
+  });
+
+  it('marks repeat clicks in a session inside the window as duplicates', async () => {
+    vi.mocked(ClickEventModel.hasRecentSessionClick).mockResolvedValue(true);
+
+    await expect(classifyClick(click, options, store)).resolves.toEqual({
+      classification: 'duplicate',
+      reason: 'same_session',
+    });
+  });
+
+  it('marks repeat clicks from an IP inside the window as duplicates', async () => {
+    await classifyClick(click, options, store);
+
+    await expect(
+      classifyClick({ ...click, sessionId: 'session-2' }, options, store)
+    ).resolves.toEqual({ classification: 'duplicate', reason: 'same_ip' });
+  });
+
+  it('counts clicks from different IPs on the same network', async () => {
+    await expect(classifyClick(click, options, store)).resolves.toEqual({
+      classification: 'valid',
+      reason: null,
+    });
+    await expect(
+      classifyClick(
+        { ...click, ipAddress: '203.0.113.8', sessionId: 'session-2' },
+        options,
+        store
+      )
+    ).resolves.toEqual({ classification: 'valid', reason: null });
+  });
+
+  it('skips duplicate detection when the window is 0', async () => {
+    await classifyClick(
+      click,
+      { ...options, duplicateWindowSeconds: 0 },
+      store
+    );
+
+    expect(ClickEventModel.hasRecentSessionClick).not.toHaveBeenCalled();
+    expect(store.size).toBe(0);
+  });
+
+  it('ignores client addresses that are not IPs', async () => {
+    await classifyClick({ ...click, ipAddress: 'unknown' }, options, store);
+
+    expect(store.size).toBe(0);
+  });
+});
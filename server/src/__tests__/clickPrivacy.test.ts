@@ -0,0 +1,162 @@
+import { describe, it, expect } from 'vitest';
+import {
+  clickVisitor,
+  hashIp,
+  parseUserAgent,
+  truncateIp,
+} from '../utils/clickPrivacy.js';
+
+const chromeOnWindows =
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36';
+const safariOnIphone =
+  'Mozilla/5.0 (iPhone; CPU iPhone OS 17_4 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.4 Mobile/15E148 Safari/604.1';
+const edgeOnMac =
+  'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36 Edg/124.0.2478.51';
+const firefoxOnAndroidTablet =
+  'Mozilla/5.0 (Android 14; Tablet; rv:125.0) Gecko/125.0 Firefox/125.0';
+const chromeOnAndroidPhone =
+  'Mozilla/5.0 (Linux; Android 14; Pixel 8) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Mobile Safari/537.36';
+
+describe('parseUserAgent', () => {
+  it('should keep only browser, OS and device type', () => {
+    expect(parseUserAgent(chromeOnWindows)).toEqual({
+      browser: 'Chrome',
+      os: 'Windows',
+      device_type: 'desktop',
+    });
+    expect(parseUserAgent(safariOnIphone)).toEqual({
+      browser: 'Safari',
+      os: 'iOS',
+      device_type: 'mobile',
+    });
+    expect(parseUserAgent(chromeOnAndroidPhone)).toEqual({
+      browser: 'Chrome',
+      os: 'Android',
+      device_type: 'mobile',
+    });
+  });
+
+  it('should tell browsers built on Chrome apart from Chrome', () => {
+    expect(parseUserAgent(edgeOnMac)).toMatchObject({
+      browser: 'Edge',
+      os: 'macOS',
+    });
+  });
+
+  it('should recognise tablets', () => {
+    expect(parseUserAgent(firefoxOnAndroidTablet)).toEqual({
+      browser: 'Firefox',
+      os: 'Android',
+      device_type: 'tablet',
+    });
+  });
+
+  it('should report unknown user agents as other', () => {
+    expect(parseUserAgent('Test Browser')).toEqual({
+      browser: 'Other',
+      os: 'Other',
+      device_type: 'other',
+    });
+  });
+});
+
+describe('truncateIp', () => {
+  it('should zero the last octet of IPv4 addresses', () => {
+    expect(truncateIp('203.0.113.57')).toBe('203.0.113.0');
+    expect(truncateIp('::ffff:203.0.113.57')).toBe('::ffff:203.0.113.0');
+  });
+
+  it('should keep the first 48 bits of IPv6 addresses', () => {
+    expect(truncateIp('2001:db8:85a3:8d3:1319:8a2e:370:7348')).toBe(
+      '2001:db8:85a3::'
+    );
+    expect(truncateIp('2001:db8::1')).toBe('2001:db8:0::');
+    expect(truncateIp('::1')).toBe('0:0:0::');
+  });
+
+  it('should return null for anything else', () => {
+    expect(truncateIp('unknown')).toBeNull();
+  });
+});
+
+describe('clickVisitor', () => {
+  const options = {
+    ipMode: 'truncate',
+    ipSalt: 'pepper',
+    userAgentMode: 'reduced',
+    honorPrivacySignals: true,
+  };
+
+  it('should store truncated IPs and reduced user agents by default', () => {
+    expect(clickVisitor('203.0.113.57', chromeOnWindows, {}, options)).toEqual({
+      ip_address: '203.0.113.0',
+      browser: 'Chrome',
+      os: 'Windows',
+      device_type: 'desktop',
+    });
+  });
+
+  it('should store a salted hash instead of the IP', () => {
+    const visitor = clickVisitor(
+      '203.0.113.57',
+      chromeOnWindows,
+      {},
+      { ...options, ipMode: 'hash' }
+    );
+
+    expect(visitor.ip_address).toBeUndefined();
+    expect(visitor.ip_hash).toBe(hashIp('203.0.113.57', 'pepper'));
+    expect(visitor.ip_hash).not.toBe(hashIp('203.0.113.57', 'salt'));
+    expect(visitor.ip_hash).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('should store no IP when hashing without a salt', () => {
+    expect(
+      clickVisitor(
+        '203.0.113.57',
+        undefined,
+        {},
+        { ...options, ipMode: 'hash', ipSalt: '' }
+      )
+    ).toEqual({});
+  });
+
+  it('should keep everything in full mode', () => {
+    expect(
+      clickVisitor(
+        '203.0.113.57',
+        chromeOnWindows,
+        {},
+        { ...options, ipMode: 'full', userAgentMode: 'full' }
+      )
+    ).toMatchObject({
+      ip_address: '203.0.113.57',
+      user_agent: chromeOnWindows,
+      browser: 'Chrome',
+    });
+  });
+
+  it('should leave out the IP and full user agent on privacy signals', () => {
+    const full = { ...options, ipMode: 'full', userAgentMode: 'full' };
+    const expected = {
+      browser: 'Chrome',
+      os: 'Windows',
+      device_type: 'desktop',
+    };
+
+    expect(
+      clickVisitor('203.0.113.57', chromeOnWindows, { dnt: '1' }, full)
+    ).toEqual(expected);
+    expect(
+      clickVisitor('203.0.113.57', chromeOnWindows, { 'sec-gpc': '1' }, full)
+    ).toEqual(expected);
+    expect(
+      clickVisitor(
+        '203.0.113.57',
+        chromeOnWindows,
+        { dnt: '1' },
+        { ...full, honorPrivacySignals: false }
+      ).ip_address
+    ).toBe('203.0.113.57');
+  });
+});
@@ -0,0 +1,200 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, readFile, readdir, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { gunzipSync } from 'zlib';
+import {
+  ensureClickPartitions,
+  runClickRetention,
+  scheduleClickPartitions,
+} from '../jobs/clickRetention.js';
+import { ClickPartitionModel } from '../database/models/ClickPartition.js';
+import { ClickRollupModel } from '../database/models/ClickRollup.js';
+import type {
+  ClickEvent,
+  ClickEventPartition,
+} from '../database/models/types.js';
+
+vi.mock('../database/models/ClickPartition.js');
+vi.mock('../database/models/ClickRollup.js');
+
+const partition = (month: string): ClickEventPartition => ({
+  name: `click_events_${month.replace('-', '_')}`,
+  month,
+  total_bytes: 8192,
+  estimated_rows: 2,
+});
+
+const click = (id: string, timestamp: string): ClickEvent => ({
+  id,
+  link_id: '123e4567-e89b-12d3-a456-426614174001',
+  timestamp: new Date(timestamp),
+  user_agent: 'Mozilla/5.0',
+  referrer: null,
+  ip_address: '203.0.113.5',
+  ip_hash: null,
+  browser: null,
+  os: null,
+  device_type: null,
+  session_id: 'session-1',
+  country_code: 'JP',
+  classification: 'valid',
+  classification_reason: null,
+  variant: null,
+  created_at: new Date(timestamp),
+});
+
+describe('runClickRetention', () => {
+  const now = new Date('2024-05-10T09:00:00.000Z');
+  const clicks = [
+    click('00000000-0000-0000-0000-000000000001', '2024-02-03T10:00:00.000Z'),
+    click('00000000-0000-0000-0000-000000000002', '2024-02-20T18:30:00.000Z'),
+  ];
+  let archiveDir: string;
+
+  const options = (months: number) => ({
+    months,
+    archiveDir,
+    intervalMinutes: 0,
+  });
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    archiveDir = await mkdtemp(path.join(tmpdir(), 'click-archive-'));
+
+    vi.mocked(ClickPartitionModel.createPartition).mockImplementation(
+      async (month) => `click_events_${month.slice(0, 7).replace('-', '_')}`
+    );
+    vi.mocked(ClickPartitionModel.purgeIdempotencyKeys).mockResolvedValue(0);
+    vi.mocked(ClickPartitionModel.listPartitions).mockResolvedValue(
+      ['2024-02', '2024-03', '2024-04', '2024-05'].map(partition)
+    );
+    vi.mocked(ClickPartitionModel.streamPartition).mockImplementation(
+      async function* () {
+        yield clicks;
+      }
+    );
+    vi.mocked(ClickPartitionModel.countRows).mockResolvedValue(clicks.length);
+    vi.mocked(ClickRollupModel.getCoverage).mockResolvedValue({
+      from: '2024-01-15',
+      through: '2024-05-08',
+    });
+    vi.mocked(ClickRollupModel.getFirstClickDay).mockResolvedValue(
+      '2024-02-03'
+    );
+  });
+
+  afterEach(async () => {
+    await rm(archiveDir, { recursive: true, force: true });
+  });
+
+  it('should create the partitions for this month and the next three', async () => {
+    expect(await ensureClickPartitions(now)).toEqual([
+      'click_events_2024_05',
+      'click_events_2024_06',
+      'click_events_2024_07',
+      'click_events_2024_08',
+    ]);
+  });
+
+  it('should create partitions daily whether or not retention runs', async () => {
+    vi.useFakeTimers();
+    try {
+      const timer = scheduleClickPartitions();
+      await vi.advanceTimersByTimeAsync(0);
+      expect(ClickPartitionModel.createPartition).toHaveBeenCalledTimes(4);
+
+      await vi.advanceTimersByTimeAsync(24 * 60 * 60 * 1000);
+      expect(ClickPartitionModel.createPartition).toHaveBeenCalledTimes(8);
+      clearInterval(timer);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should only create partitions and purge keys when retention is off', async () => {
+    const result = await runClickRetention(options(0), now);
+
+    expect(result).toEqual({ archived: [], skipped: [] });
+    expect(ClickPartitionModel.createPartition).toHaveBeenCalledTimes(4);
+    expect(ClickPartitionModel.purgeIdempotencyKeys).toHaveBeenCalledWith(2);
+    expect(ClickPartitionModel.dropPartition).not.toHaveBeenCalled();
+  });
+
+  it('should export months past the retention period before dropping them', async () => {
+    const result = await runClickRetention(options(2), now);
+
+    // May plus March and April are kept
+    expect(result.archived).toEqual(['2024-02']);
+    const filePath = path.join(archiveDir, 'click_events_2024_02.ndjson.gz');
+    const lines = gunzipSync(await readFile(filePath))
+      .toString()
+      .trim()
+      .split('\n')
+      .map((line) => JSON.parse(line));
+    expect(lines).toHaveLength(2);
+    expect(lines[0]).toMatchObject({
+      id: clicks[0].id,
+      timestamp: '2024-02-03T10:00:00.000Z',
+      country_code: 'JP',
+    });
+    for (const column of [
+      'session_id',
+      'ip_address',
+      'ip_hash',
+      'user_agent',
+      'referrer',
+    ]) {
+      expect(lines[0]).not.toHaveProperty(column);
+    }
+
+    expect(ClickPartitionModel.dropPartition).toHaveBeenCalledWith(
+      'click_events_2024_02',
+      expect.objectContaining({
+        month: '2024-02',
+        file_path: filePath,
+        row_count: 2,
+        file_bytes: expect.any(Number),
+      })
+    );
+  });
+
+  it('should keep months whose days are not all rolled up', async () => {
+    vi.mocked(ClickRollupModel.getCoverage).mockResolvedValue({
+      from: '2024-01-15',
+      through: '2024-02-28',
+    });
+
+    const result = await runClickRetention(options(1), now);
+
+    // February ends on the 29th in 2024
+    expect(result).toEqual({
+      archived: [],
+      skipped: ['2024-02', '2024-03'],
+    });
+    expect(ClickPartitionModel.streamPartition).not.toHaveBeenCalled();
+    expect(ClickPartitionModel.dropPartition).not.toHaveBeenCalled();
+  });
+
+  it('should keep every month when the rollups start after the oldest click', async () => {
+    vi.mocked(ClickRollupModel.getCoverage).mockResolvedValue({
+      from: '2024-02-10',
+      through: '2024-05-08',
+    });
+
+    const result = await runClickRetention(options(2), now);
+
+    expect(result.skipped).toEqual(['2024-02']);
+    expect(ClickPartitionModel.dropPartition).not.toHaveBeenCalled();
+  });
+
+  it('should not drop a partition when the export misses clicks', async () => {
+    vi.mocked(ClickPartitionModel.countRows).mockResolvedValue(3);
+
+    await expect(runClickRetention(options(2), now)).rejects.toThrow(
+      'Exported 2 of 3 clicks from click_events_2024_02'
+    );
+    expect(ClickPartitionModel.dropPartition).not.toHaveBeenCalled();
+    expect(await readdir(archiveDir)).toEqual([]);
+  });
+});
@@ -0,0 +1,151 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { runClickRollup } from '../jobs/clickRollup.js';
+import { ClickRollupModel } from '../database/models/ClickRollup.js';
+import { addDays, rollupRange } from '../utils/clickRollups.js';
+
+vi.mock('../database/models/ClickRollup.js');
+
+describe('rollupRange', () => {
+  const coverage = { from: '2024-01-01', through: '2024-03-30' };
+
+  it('should read whole rolled up days from the rollups', () => {
+    expect(
+      rollupRange(
+        new Date('2024-03-01T00:00:00.000Z'),
+        new Date('2024-03-31T23:59:59.999Z'),
+        coverage
+      )
+    ).toEqual({
+      rollupStart: new Date('2024-03-01T00:00:00.000Z'),
+      // The 31st is not rolled up yet
+      rollupEnd: new Date('2024-03-31T00:00:00.000Z'),
+    });
+  });
+
+  it('should leave partial days at either end to the raw events', () => {
+    expect(
+      rollupRange(
+        new Date('2024-02-01T12:30:00.000Z'),
+        new Date('2024-02-10T08:00:00.000Z'),
+        coverage
+      )
+    ).toEqual({
+      rollupStart: new Date('2024-02-02T00:00:00.000Z'),
+      rollupEnd: new Date('2024-02-10T00:00:00.000Z'),
+    });
+  });
+
+  it('should read everything raw outside the rolled up days', () => {
+    const start = new Date('2023-12-31T06:00:00.000Z');
+    const end = new Date('2024-01-01T18:00:00.000Z');
+
+    expect(rollupRange(start, end, coverage)).toEqual({
+      rollupStart: start,
+      rollupEnd: start,
+    });
+    expect(rollupRange(start, end, null)).toEqual({
+      rollupStart: start,
+      rollupEnd: start,
+    });
+  });
+});
+
+describe('runClickRollup', () => {
+  const now = new Date('2024-03-10T09:00:00.000Z');
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(ClickRollupModel.rollUpDay).mockResolvedValue(0);
+  });
+
+  const rolledUpDays = () =>
+    vi.mocked(ClickRollupModel.rollUpDay).mock.calls.map(([day]) => day);
+
+  it('should roll up new days and the days late clicks can still reach', async () => {
+    vi.mocked(ClickRollupModel.getCoverage).mockResolvedValue({
+      from: '2024-01-01',
+      through: '2024-03-09',
+    });
+
+    const result = await runClickRollup(undefined, now);
+
+    expect(result.days).toEqual(['2024-03-08', '2024-03-09']);
+    expect(rolledUpDays()).toEqual(['2024-03-08', '2024-03-09']);
+  });
+
+  it('should catch up on missed days', async () => {
+    vi.mocked(ClickRollupModel.getCoverage).mockResolvedValue({
+      from: '2024-01-01',
+      through: '2024-03-04',
+    });
+
+    await runClickRollup(undefined, now);
+
+    expect(rolledUpDays()).toEqual([
+      '2024-03-05',
+      '2024-03-06',
+      '2024-03-07',
+      '2024-03-08',
+      '2024-03-09',
+    ]);
+  });
+
+  it('should start at the oldest click on the first run', async () => {
+    vi.mocked(ClickRollupModel.getCoverage).mockResolvedValue(null);
+    vi.mocked(ClickRollupModel.getFirstClickDay).mockResolvedValue(
+      '2024-03-07'
+    );
+
+    await runClickRollup(undefined, now);
+
+    expect(rolledUpDays()).toEqual(['2024-03-07', '2024-03-08', '2024-03-09']);
+  });
+
+  it('should backfill from an earlier day without leaving gaps', async () => {
+    vi.mocked(ClickRollupModel.getCoverage).mockResolvedValue({
+      from: '2024-03-01',
+      through: '2024-03-05',
+    });
+    vi.mocked(ClickRollupModel.getFirstClickDay).mockResolvedValue(
+      '2024-01-15'
+    );
+
+    await runClickRollup('2024-02-28', now);
+    expect(rolledUpDays()[0]).toBe('2024-02-28');
+    expect(rolledUpDays()).toHaveLength(11);
+
+    vi.mocked(ClickRollupModel.rollUpDay).mockClear();
+    await runClickRollup('2024-03-08', now);
+    expect(rolledUpDays()[0]).toBe('2024-03-06');
+  });
+
+  it('should not recompute days whose clicks were archived', async () => {
+    vi.mocked(ClickRollupModel.getCoverage).mockResolvedValue({
+      from: '2024-01-01',
+      through: '2024-03-09',
+    });
+    vi.mocked(ClickRollupModel.getFirstClickDay).mockResolvedValue(
+      '2024-03-01'
+    );
+
+    await runClickRollup('2024-01-01', now);
+
+    expect(rolledUpDays()[0]).toBe('2024-03-01');
+    expect(rolledUpDays()).toHaveLength(9);
+  });
+
+  it('should do nothing before the first click', async () => {
+    vi.mocked(ClickRollupModel.getCoverage).mockResolvedValue(null);
+    vi.mocked(ClickRollupModel.getFirstClickDay).mockResolvedValue(null);
+
+    expect(await runClickRollup(undefined, now)).toEqual({ days: [] });
+    expect(ClickRollupModel.rollUpDay).not.toHaveBeenCalled();
+  });
+});
+
+describe('addDays', () => {
+  it('should move across month and year ends', () => {
+    expect(addDays('2024-02-28', 2)).toBe('2024-03-01');
+    expect(addDays('2024-01-01', -1)).toBe('2023-12-31');
+  });
+});
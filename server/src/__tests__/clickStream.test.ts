@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  AGGREGATE_WINDOW_MINUTES,
+  ClickStream,
+  type ClickStreamListener,
+} from '../utils/clickStream.js';
+import { AffiliateLinkModel } from '../database/models/AffiliateLink.js';
+import { ClickEventModel } from '../database/models/ClickEvent.js';
+import type { AffiliateLink, ClickEvent } from '../database/models/types.js';
+
+vi.mock('../database/models/AffiliateLink.js');
+vi.mock('../database/models/ClickEvent.js');
+
+const click: ClickEvent = {
+  id: 'click-1',
+  link_id: '123e4567-e89b-12d3-a456-426614174000',
+  timestamp: new Date('2024-01-01T12:34:56Z'),
+  user_agent: 'Mozilla/5.0',
+  referrer: null,
+  ip_address: '203.0.113.7',
+  ip_hash: null,
+  browser: null,
+  os: null,
+  device_type: null,
+  session_id: 'session-1',
+  country_code: 'JP',
+  classification: 'valid',
+  classification_reason: null,
+  variant: 'b',
+  created_at: new Date('2024-01-01T12:34:56Z'),
+};
+
+const listener = (): ClickStreamListener => ({
+  click: vi.fn(),
+  aggregates: vi.fn(),
+  close: vi.fn(),
+});
+
+describe('ClickStream', () => {
+  let stream: ClickStream;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    stream = new ClickStream();
+    vi.mocked(ClickEventModel.getClicksByMinute).mockResolvedValue([]);
+    vi.mocked(AffiliateLinkModel.findById).mockResolvedValue({
+      title: 'Test Link',
+    } as AffiliateLink);
+  });
+
+  afterEach(() => {
+    stream.close();
+  });
+
+  it('should do nothing while nobody is subscribed', () => {
+    stream.publish(click);
+
+    expect(AffiliateLinkModel.findById).not.toHaveBeenCalled();
+    expect(ClickEventModel.getClicksByMinute).not.toHaveBeenCalled();
+  });
+
+  it('should push clicks with their link title but without visitor details', async () => {
+    const subscriber = listener();
+    stream.subscribe(subscriber);
+
+    stream.publish(click);
+    stream.publish({ ...click, id: 'click-2' });
+
+    await vi.waitFor(() => expect(subscriber.click).toHaveBeenCalledTimes(2));
+    expect(subscriber.click).toHaveBeenCalledWith({
+      id: 'click-1',
+      link_id: click.link_id,
+      title: 'Test Link',
+      timestamp: '2024-01-01T12:34:56.000Z',
+      classification: 'valid',
+      variant: 'b',
+      country_code: 'JP',
+    });
+    expect(AffiliateLinkModel.findById).toHaveBeenCalledTimes(1);
+  });
+
+  it('should send every minute of the window, oldest first', async () => {
+    vi.mocked(ClickEventModel.getClicksByMinute).mockResolvedValue([
+      {
+        minute: new Date('2024-01-01T12:34:00Z'),
+        valid: 3,
+        bot: 1,
+        duplicate: 0,
+      },
+    ]);
+    const subscriber = listener();
+    stream.subscribe(subscriber);
+
+    await stream.refresh(new Date('2024-01-01T12:34:56Z'));
+
+    expect(ClickEventModel.getClicksByMinute).toHaveBeenLastCalledWith(
+      new Date('2024-01-01T11:35:00Z')
+    );
+    const aggregates = vi.mocked(subscriber.aggregates).mock.lastCall![0];
+    expect(aggregates).toHaveLength(AGGREGATE_WINDOW_MINUTES);
+    expect(aggregates[0]).toEqual({
+      minute: '2024-01-01T11:35:00.000Z',
+      valid: 0,
+      bot: 0,
+      duplicate: 0,
+    });
+    expect(aggregates[AGGREGATE_WINDOW_MINUTES - 1]).toEqual({
+      minute: '2024-01-01T12:34:00.000Z',
+      valid: 3,
+      bot: 1,
+      duplicate: 0,
+    });
+
+    // Later subscribers get the current aggregates right away
+    const late = listener();
+    stream.subscribe(late);
+    expect(late.aggregates).toHaveBeenCalledWith(aggregates);
+  });
+
+  it('should refresh the aggregates until the last subscriber leaves', async () => {
+    vi.useFakeTimers();
+    try {
+      stream = new ClickStream(1000);
+      const unsubscribe = stream.subscribe(listener());
+      expect(ClickEventModel.getClicksByMinute).toHaveBeenCalledTimes(1);
+
+      await vi.advanceTimersByTimeAsync(2000);
+      expect(ClickEventModel.getClicksByMinute).toHaveBeenCalledTimes(3);
+
+      unsubscribe();
+      await vi.advanceTimersByTimeAsync(5000);
+      expect(ClickEventModel.getClicksByMinute).toHaveBeenCalledTimes(3);
+      expect(stream.subscriberCount).toBe(0);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should end open streams on close', () => {
+    const subscriber = listener();
+    stream.subscribe(subscriber);
+
+    stream.close();
+
+    expect(subscriber.close).toHaveBeenCalled();
+  });
+});
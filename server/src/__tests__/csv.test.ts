@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CsvParseError,
+  formatCsvRow,
+  parseCsv,
+  parseCsvRows,
+} from '../utils/csv.js';
+
+describe('CSV utilities', () => {
+  it('parses quoted fields with delimiters, quotes and line breaks', () => {
+    expect(parseCsvRows('a,"b, ""c""","d\r\ne"\r\nf,g,h\r\n')).toEqual([
+      ['a', 'b, "c"', 'd\r\ne'],
+      ['f', 'g', 'h'],
+    ]);
+  });
+
+  it('keys records by the normalized header and skips blank lines', () => {
+    expect(parseCsv('\uFEFFTitle , URL\nOne,https://example.com\n\n')).toEqual([
+      { title: 'One', url: 'https://example.com' },
+    ]);
+  });
+
+  it('fills missing trailing fields with empty strings', () => {
+    expect(parseCsv('a,b,c\n1')).toEqual([{ a: '1', b: '', c: '' }]);
+  });
+
+  it('rejects rows with more fields than the header', () => {
+    expect(() => parseCsv('a,b\n1,2,3')).toThrow(CsvParseError);
+  });
+
+  it('rejects unterminated quotes', () => {
+    expect(() => parseCsvRows('"abc')).toThrow('Unterminated quoted field');
+  });
+
+  it('round-trips formatted rows', () => {
+    const values = ['plain', 'with, comma', 'with "quote"', 'multi\nline', ''];
+    expect(parseCsvRows(formatCsvRow(values))).toEqual([values]);
+  });
+});
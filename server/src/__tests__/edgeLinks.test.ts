@@ -0,0 +1,184 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  CloudflareKvStore,
+  MemoryEdgeLinkStore,
+  createEdgeLinkStore,
+  publishLink,
+  setEdgeLinkStore,
+  unpublishLink,
+} from '../utils/edgeLinks.js';
+import { CategoryModel } from '../database/models/Category.js';
+import type { AffiliateLink, Category } from '../database/models/types.js';
+
+vi.mock('../database/models/Category.js');
+
+const link: AffiliateLink = {
+  id: '123e4567-e89b-12d3-a456-426614174000',
+  title: 'Test Link',
+  description: 'Test affiliate link',
+  url: 'https://example.com',
+  affiliate_url: 'https://affiliate.example.com/ref123',
+  slug: 'summer-sale',
+  url_template: null,
+  destinations: [],
+  sticky_destinations: false,
+  category_id: '789e0123-e89b-12d3-a456-426614174002',
+  tags: [],
+  image_url: null,
+  commission_rate: null,
+  featured: false,
+  status: 'active',
+  click_count: 0,
+  publish_at: null,
+  expires_at: new Date('2030-01-01T00:00:00Z'),
+  deleted_at: null,
+  created_at: new Date('2024-01-01T00:00:00Z'),
+  updated_at: new Date('2024-01-01T00:00:00Z'),
+};
+
+describe('Edge link publishing', () => {
+  let store: MemoryEdgeLinkStore;
+
+  beforeEach(() => {
+    store = new MemoryEdgeLinkStore();
+    setEdgeLinkStore(store);
+    vi.mocked(CategoryModel.findById).mockResolvedValue(null);
+  });
+
+  afterEach(() => {
+    setEdgeLinkStore(null);
+  });
+
+  it('should publish the destination under the link id and slug', async () => {
+    expect(await publishLink(link)).toBe(true);
+
+    const expected = {
+      id: link.id,
+      affiliate_url: 'https://affiliate.example.com/ref123',
+      status: 'active',
+      publish_at: null,
+      expires_at: '2030-01-01T00:00:00.000Z',
+      url_template: null,
+      destinations: [],
+      sticky_destinations: false,
+    };
+    expect(JSON.parse(store.entries.get(`link:${link.id}`)!)).toEqual(expected);
+    expect(JSON.parse(store.entries.get('slug:summer-sale')!)).toEqual(
+      expected
+    );
+  });
+
+  it("should publish the category's URL template unless the link has one", async () => {
+    vi.mocked(CategoryModel.findById).mockResolvedValue({
+      url_template: '{affiliate_url}&subid={click_id}',
+    } as Category);
+
+    await publishLink(link);
+    expect(JSON.parse(store.entries.get(`link:${link.id}`)!).url_template).toBe(
+      '{affiliate_url}&subid={click_id}'
+    );
+
+    await publishLink({ ...link, url_template: '{affiliate_url}&s={link_id}' });
+    expect(JSON.parse(store.entries.get(`link:${link.id}`)!).url_template).toBe(
+      '{affiliate_url}&s={link_id}'
+    );
+  });
+
+  it('should stop resolving a replaced slug', async () => {
+    await publishLink(link);
+    await publishLink({ ...link, slug: 'winter-sale' }, link);
+
+    expect(store.entries.has('slug:summer-sale')).toBe(false);
+    expect(store.entries.has('slug:winter-sale')).toBe(true);
+
+    await publishLink({ ...link, slug: null }, { slug: 'winter-sale' });
+    expect([...store.entries.keys()]).toEqual([`link:${link.id}`]);
+  });
+
+  it('should remove trashed links', async () => {
+    await publishLink(link);
+    await publishLink({ ...link, deleted_at: new Date() });
+
+    expect(store.entries.size).toBe(0);
+  });
+
+  it('should log publish failures instead of throwing', async () => {
+    vi.spyOn(store, 'put').mockRejectedValue(new Error('KV unavailable'));
+
+    expect(await publishLink(link)).toBe(false);
+    expect(await unpublishLink(link)).toBe(true);
+  });
+
+  it('should do nothing while no store is configured', async () => {
+    setEdgeLinkStore(null);
+
+    expect(await publishLink(link)).toBe(false);
+    expect(
+      createEdgeLinkStore({ accountId: '', namespaceId: '', apiToken: '' })
+    ).toBeNull();
+  });
+});
+
+describe('CloudflareKvStore', () => {
+  const store = new CloudflareKvStore({
+    accountId: 'account',
+    namespaceId: 'namespace',
+    apiToken: 'api-token',
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should write values through the Workers KV API', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response(null));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await store.put('slug:summer-sale', '{}');
+
+    expect(fetchMock).toHaveBeenCalledWith(
+      'https://api.cloudflare.com/client/v4/accounts/account/storage/kv/namespaces/namespace/values/slug%3Asummer-sale',
+      expect.objectContaining({
+        method: 'PUT',
+        body: '{}',
+        headers: expect.objectContaining({
+          Authorization: 'Bearer api-token',
+        }),
+      })
+    );
+  });
+
+  it('should fail on errors but ignore deleting missing keys', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn().mockResolvedValue(new Response(null, { status: 404 }))
+    );
+
+    await expect(store.delete('link:missing')).resolves.toBeUndefined();
+    await expect(store.put('link:missing', '{}')).rejects.toThrow(
+      'Workers KV PUT link:missing failed: 404'
+    );
+  });
+
+  it('should give up on requests that take too long', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(
+        (_url: string, init: RequestInit) =>
+          new Promise((_resolve, reject) => {
+            init.signal!.addEventListener('abort', () =>
+              reject(init.signal!.reason)
+            );
+          })
+      )
+    );
+    const slowStore = new CloudflareKvStore({
+      accountId: 'account',
+      namespaceId: 'namespace',
+      apiToken: 'api-token',
+      timeoutMs: 10,
+    });
+
+    await expect(slowStore.put('link:slow', '{}')).rejects.toThrow();
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { durationToMs, parsePostbackSecrets } from '../config/environment.js';
+
+describe('parsePostbackSecrets', () => {
+  it('should parse network:secret pairs', () => {
+    expect(parsePostbackSecrets(' impact:abc123 , cj:def456')).toEqual({
+      impact: 'abc123',
+      cj: 'def456',
+    });
+  });
+
+  it('should keep secrets that contain a colon whole', () => {
+    expect(parsePostbackSecrets('impact:abc:123:xyz')).toEqual({
+      impact: 'abc:123:xyz',
+    });
+  });
+
+  it('should skip pairs without a network or secret', () => {
+    expect(parsePostbackSecrets('impact,:abc,cj:,')).toEqual({});
+  });
+});
+
+describe('durationToMs', () => {
+  it('should accept every format jsonwebtoken accepts', () => {
+    expect(durationToMs('15m')).toBe(15 * 60 * 1000);
+    expect(durationToMs('1w')).toBe(7 * 24 * 60 * 60 * 1000);
+    expect(durationToMs('7 days')).toBe(7 * 24 * 60 * 60 * 1000);
+    expect(durationToMs('2.5h')).toBe(2.5 * 60 * 60 * 1000);
+  });
+
+  it('should reject anything else', () => {
+    expect(() => durationToMs('2h 30m')).toThrow('Invalid duration: 2h 30m');
+    expect(() => durationToMs('soon')).toThrow('Invalid duration');
+  });
+});
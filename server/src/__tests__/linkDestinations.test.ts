@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import {
+  chooseDestination,
+  hashToUnitInterval,
+} from '../utils/linkDestinations.js';
+import type { AffiliateLink } from '../database/models/types.js';
+
+const link: Pick<
+  AffiliateLink,
+  'id' | 'affiliate_url' | 'destinations' | 'sticky_destinations'
+> = {
+  id: '123e4567-e89b-12d3-a456-426614174000',
+  affiliate_url: 'https://affiliate.example.com/ref123',
+  destinations: [
+    { variant: 'a', url: 'https://merchant-a.example.com', weight: 75 },
+    { variant: 'paused', url: 'https://paused.example.com', weight: 0 },
+    { variant: 'b', url: 'https://merchant-b.example.com', weight: 25 },
+  ],
+  sticky_destinations: false,
+};
+
+describe('chooseDestination', () => {
+  it('should use the affiliate URL without active destinations', () => {
+    expect(chooseDestination({ ...link, destinations: [] })).toEqual({
+      url: 'https://affiliate.example.com/ref123',
+      variant: null,
+    });
+    expect(
+      chooseDestination({
+        ...link,
+        destinations: [{ ...link.destinations[1] }],
+      })
+    ).toEqual({ url: 'https://affiliate.example.com/ref123', variant: null });
+  });
+
+  it('should split clicks by weight and skip paused destinations', () => {
+    expect(chooseDestination(link, null, () => 0).variant).toBe('a');
+    expect(chooseDestination(link, null, () => 0.74).variant).toBe('a');
+    expect(chooseDestination(link, null, () => 0.75).variant).toBe('b');
+    expect(chooseDestination(link, null, () => 0.99).variant).toBe('b');
+  });
+
+  it('should keep a session on the same destination when sticky', () => {
+    const sticky = { ...link, sticky_destinations: true };
+    const variants = new Set(
+      [0, 0.5, 0.99].map(
+        (value) => chooseDestination(sticky, 'session-1', () => value).variant
+      )
+    );
+    expect(variants.size).toBe(1);
+
+    // Sessions still spread over both destinations
+    const spread = new Set(
+      Array.from(
+        { length: 50 },
+        (_, i) => chooseDestination(sticky, `session-${i}`).variant
+      )
+    );
+    expect(spread).toEqual(new Set(['a', 'b']));
+  });
+});
+
+describe('hashToUnitInterval', () => {
+  it('should map strings onto [0, 1) deterministically', () => {
+    const value = hashToUnitInterval('link:session');
+    expect(value).toBe(hashToUnitInterval('link:session'));
+    expect(value).toBeGreaterThanOrEqual(0);
+    expect(value).toBeLessThan(1);
+  });
+});
@@ -0,0 +1,234 @@
+import {
+  describe,
+  it,
+  expect,
+  beforeAll,
+  afterAll,
+  beforeEach,
+  vi,
+} from 'vitest';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { checkUrl, runLinkHealthCheck } from '../jobs/linkHealthCheck.js';
+import { AffiliateLinkModel } from '../database/models/AffiliateLink.js';
+import { AuditEventModel } from '../database/models/AuditEvent.js';
+import { LinkHealthCheckModel } from '../database/models/LinkHealthCheck.js';
+import type {
+  AffiliateLink,
+  AuditEvent,
+  LinkHealthCheck,
+  LinkHealthResult,
+  LinkHealthTarget,
+} from '../database/models/types.js';
+
+vi.mock('../database/models/AffiliateLink.js');
+vi.mock('../database/models/AuditEvent.js');
+vi.mock('../database/models/LinkHealthCheck.js');
+
+// Local stand-in for link destinations
+const server = http.createServer((req, res) => {
+  switch (req.url) {
+    case '/ok':
+      res.writeHead(200).end('ok');
+      break;
+    case '/moved':
+      res.writeHead(301, { Location: '/ok' }).end();
+      break;
+    case '/get-only':
+      res.writeHead(req.method === 'HEAD' ? 405 : 200).end();
+      break;
+    case '/slow':
+      setTimeout(() => res.writeHead(200).end(), 500);
+      break;
+    default:
+      res.writeHead(404).end();
+  }
+});
+
+let baseUrl: string;
+
+beforeAll(async () => {
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+describe('checkUrl', () => {
+  it('reports the status of a reachable URL', async () => {
+    const result = await checkUrl(`${baseUrl}/ok`, 1000);
+
+    expect(result).toMatchObject({
+      status_code: 200,
+      final_url: `${baseUrl}/ok`,
+      error: null,
+      healthy: true,
+    });
+  });
+
+  it('follows redirects and records the final URL', async () => {
+    const result = await checkUrl(`${baseUrl}/moved`, 1000);
+
+    expect(result.status_code).toBe(200);
+    expect(result.final_url).toBe(`${baseUrl}/ok`);
+  });
+
+  it('marks error responses as unhealthy', async () => {
+    const result = await checkUrl(`${baseUrl}/gone`, 1000);
+
+    expect(result).toMatchObject({ status_code: 404, healthy: false });
+  });
+
+  it('falls back to GET when HEAD is not allowed', async () => {
+    const result = await checkUrl(`${baseUrl}/get-only`, 1000);
+
+    expect(result).toMatchObject({ status_code: 200, healthy: true });
+  });
+
+  it('gives up after the timeout', async () => {
+    const result = await checkUrl(`${baseUrl}/slow`, 100);
+
+    expect(result).toMatchObject({
+      status_code: null,
+      final_url: null,
+      error: 'Timed out after 100ms',
+      healthy: false,
+    });
+  });
+});
+
+describe('runLinkHealthCheck', () => {
+  const options = {
+    intervalMinutes: 0,
+    timeoutMs: 1000,
+    concurrency: 2,
+    failureThreshold: 3,
+  };
+
+  const link = (overrides: Partial<AffiliateLink>): AffiliateLink => ({
+    id: 'link-1',
+    title: 'Link',
+    description: 'Description',
+    url: `${baseUrl}/ok`,
+    affiliate_url: `${baseUrl}/ok`,
+    slug: null,
+    url_template: null,
+    destinations: [],
+    sticky_destinations: false,
+    category_id: 'category-1',
+    tags: [],
+    image_url: null,
+    commission_rate: null,
+    featured: false,
+    status: 'active',
+    click_count: 0,
+    publish_at: null,
+    expires_at: null,
+    deleted_at: null,
+    created_at: new Date('2024-01-01T00:00:00Z'),
+    updated_at: new Date('2024-01-01T00:00:00Z'),
+    ...overrides,
+  });
+
+  // Simulate the stored failure streak: `previousFailures` before this run
+  const recordWithStreak =
+    (previousFailures: number) =>
+    async (
+      linkId: string,
+      target: LinkHealthTarget,
+      checkedUrl: string,
+      result: LinkHealthResult
+    ): Promise<LinkHealthCheck> => ({
+      link_id: linkId,
+      target,
+      checked_url: checkedUrl,
+      ...result,
+      consecutive_failures: result.healthy ? 0 : previousFailures + 1,
+      checked_at: new Date(),
+    });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(AffiliateLinkModel.update).mockImplementation(async (id) =>
+      link({ id, status: 'inactive' })
+    );
+    vi.mocked(AuditEventModel.record).mockResolvedValue({} as AuditEvent);
+  });
+
+  it('records every destination of each link', async () => {
+    vi.mocked(LinkHealthCheckModel.findLinksToCheck).mockResolvedValue([
+      link({ image_url: `${baseUrl}/missing.jpg` }),
+    ]);
+    vi.mocked(LinkHealthCheckModel.record).mockImplementation(
+      recordWithStreak(0)
+    );
+
+    const result = await runLinkHealthCheck(options);
+
+    expect(result).toEqual({ checked: 1, unhealthy: 1, deactivated: [] });
+    expect(LinkHealthCheckModel.record).toHaveBeenCalledTimes(3);
+    expect(LinkHealthCheckModel.record).toHaveBeenCalledWith(
+      'link-1',
+      'image_url',
+      `${baseUrl}/missing.jpg`,
+      expect.objectContaining({ status_code: 404, healthy: false })
+    );
+    expect(LinkHealthCheckModel.deleteOtherTargets).toHaveBeenCalledWith(
+      'link-1',
+      ['url', 'affiliate_url', 'image_url']
+    );
+  });
+
+  it('deactivates a link once its affiliate URL reaches the threshold', async () => {
+    vi.mocked(LinkHealthCheckModel.findLinksToCheck).mockResolvedValue([
+      link({ affiliate_url: `${baseUrl}/gone` }),
+    ]);
+    vi.mocked(LinkHealthCheckModel.record).mockImplementation(
+      recordWithStreak(2)
+    );
+
+    const result = await runLinkHealthCheck(options);
+
+    expect(result.deactivated).toEqual(['link-1']);
+    expect(AffiliateLinkModel.update).toHaveBeenCalledWith('link-1', {
+      status: 'inactive',
+    });
+    expect(AuditEventModel.record).toHaveBeenCalledWith(
+      expect.objectContaining({
+        action: 'update',
+        entity_id: 'link-1',
+        metadata: expect.objectContaining({ source: 'health_check' }),
+      })
+    );
+  });
+
+  it('does not deactivate links for broken images', async () => {
+    vi.mocked(LinkHealthCheckModel.findLinksToCheck).mockResolvedValue([
+      link({ image_url: `${baseUrl}/missing.jpg` }),
+    ]);
+    vi.mocked(LinkHealthCheckModel.record).mockImplementation(
+      recordWithStreak(5)
+    );
+
+    const result = await runLinkHealthCheck(options);
+
+    expect(result.deactivated).toEqual([]);
+    expect(AffiliateLinkModel.update).not.toHaveBeenCalled();
+  });
+
+  it('never deactivates links when the threshold is 0', async () => {
+    vi.mocked(LinkHealthCheckModel.findLinksToCheck).mockResolvedValue([
+      link({ url: `${baseUrl}/gone` }),
+    ]);
+    vi.mocked(LinkHealthCheckModel.record).mockImplementation(
+      recordWithStreak(10)
+    );
+
+    await runLinkHealthCheck({ ...options, failureThreshold: 0 });
+
+    expect(AffiliateLinkModel.update).not.toHaveBeenCalled();
+  });
+});
@@ -1,5 +1,12 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { logger, LogLevel } from '../utils/logger.js';
+import {
+  createConsoleTransport,
+  logger,
+  Logger,
+  LogLevel,
+} from '../utils/logger.js';
+import type { LogEntry } from '../utils/logger.js';
+import { requestContext } from '../utils/requestContext.js';
 
 describe('Logger', () => {
   let consoleSpy: {
@@ -97,4 +104,67 @@ describe('Logger', () => {
       expect(loggedMessage).toMatch(/^\[.+\] INFO: Test message$/);
     });
   });
+
+  describe('levels', () => {
+    it('should drop entries below the configured level', () => {
+      const entries: LogEntry[] = [];
+      const warnLogger = new Logger({
+        level: LogLevel.WARN,
+        transports: [(entry) => entries.push(entry)],
+      });
+
+      warnLogger.info('ignored');
+      warnLogger.warn('kept');
+      warnLogger.error('kept too');
+
+      expect(entries.map((entry) => entry.level)).toEqual([
+        LogLevel.WARN,
+        LogLevel.ERROR,
+      ]);
+    });
+  });
+
+  describe('request context', () => {
+    it('should attach the current request ID', () => {
+      requestContext.run({ requestId: 'req-123' }, () => {
+        logger.info('Inside request', { path: '/api' });
+      });
+
+      expect(consoleSpy.info.mock.calls[0][0]).toMatch(
+        /INFO: Inside request {"requestId":"req-123","path":"\/api"}$/
+      );
+    });
+  });
+
+  describe('json format', () => {
+    const jsonLogger = new Logger({
+      level: LogLevel.DEBUG,
+      transports: [createConsoleTransport('json')],
+    });
+
+    it('should write one JSON object per entry with metadata merged in', () => {
+      requestContext.run({ requestId: 'req-456' }, () => {
+        jsonLogger.warn('Slow query', { duration: '1200ms' });
+      });
+
+      expect(JSON.parse(consoleSpy.warn.mock.calls[0][0])).toEqual({
+        timestamp: expect.any(String),
+        level: 'warn',
+        message: 'Slow query',
+        requestId: 'req-456',
+        duration: '1200ms',
+      });
+    });
+
+    it('should serialize errors with their message and stack', () => {
+      jsonLogger.error('Failed', new Error('boom'));
+
+      const line = JSON.parse(consoleSpy.error.mock.calls[0][0]);
+      expect(line.error).toMatchObject({
+        name: 'Error',
+        message: 'boom',
+        stack: expect.stringContaining('boom'),
+      });
+    });
+  });
 });
@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  MemoryRateLimitStore,
+  PostgresRateLimitStore,
+} from '../utils/rateLimitStore.js';
+import { db } from '../database/connection.js';
+
+vi.mock('../database/connection.js', () => ({
+  db: { query: vi.fn() },
+}));
+
+describe('MemoryRateLimitStore', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('counts hits within a window and starts over once it expires', async () => {
+    vi.useFakeTimers();
+    const store = new MemoryRateLimitStore();
+
+    await store.increment('clicks:1.2.3.4', 1000);
+    const second = await store.increment('clicks:1.2.3.4', 1000);
+    expect(second.totalHits).toBe(2);
+    expect(second.resetTime.getTime()).toBe(Date.now() + 1000);
+
+    vi.advanceTimersByTime(1000);
+    const next = await store.increment('clicks:1.2.3.4', 1000);
+    expect(next.totalHits).toBe(1);
+  });
+
+  it('evicts the least recently seen client when full', async () => {
+    const store = new MemoryRateLimitStore(2);
+
+    await store.increment('a', 1000);
+    await store.increment('b', 1000);
+    await store.increment('a', 1000);
+    await store.increment('c', 1000);
+
+    expect(store.size).toBe(2);
+    expect((await store.increment('a', 1000)).totalHits).toBe(3);
+    expect((await store.increment('b', 1000)).totalHits).toBe(1);
+  });
+
+  it('decrements and resets keys', async () => {
+    const store = new MemoryRateLimitStore();
+
+    await store.increment('a', 1000);
+    await store.increment('a', 1000);
+    await store.decrement('a');
+    expect((await store.increment('a', 1000)).totalHits).toBe(2);
+
+    await store.resetKey('a');
+    expect((await store.increment('a', 1000)).totalHits).toBe(1);
+  });
+});
+
+describe('PostgresRateLimitStore', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('increments the shared counter with a single upsert', async () => {
+    const resetAt = new Date('2024-01-01T00:01:00Z');
+    vi.mocked(db.query).mockResolvedValue({
+      rows: [{ hits: 3, reset_at: resetAt }],
+    } as never);
+    const store = new PostgresRateLimitStore();
+
+    const result = await store.increment('login:1.2.3.4', 60000);
+
+    expect(result).toEqual({ totalHits: 3, resetTime: resetAt });
+    expect(db.query).toHaveBeenCalledWith(
+      expect.stringContaining('ON CONFLICT (key) DO UPDATE'),
+      ['login:1.2.3.4', 60000]
+    );
+  });
+
+  it('cleans up expired windows at most once a minute', async () => {
+    vi.mocked(db.query).mockResolvedValue({
+      rows: [{ hits: 1, reset_at: new Date() }],
+    } as never);
+    const store = new PostgresRateLimitStore();
+
+    await store.increment('a', 1000);
+    await store.increment('b', 1000);
+
+    const cleanups = vi
+      .mocked(db.query)
+      .mock.calls.filter(([sql]) =>
+        String(sql).startsWith('DELETE FROM rate_limits WHERE reset_at')
+      );
+    expect(cleanups).toHaveLength(1);
+  });
+});
@@ -5,11 +5,25 @@ import { createApp } from '../../app.js';
 import { AffiliateLinkModel } from '../../database/models/AffiliateLink.js';
 import { CategoryModel } from '../../database/models/Category.js';
 import { AdminUserModel } from '../../database/models/AdminUser.js';
+import { RefreshTokenModel } from '../../database/models/RefreshToken.js';
+import { AuditEventModel } from '../../database/models/AuditEvent.js';
+import { LinkHealthCheckModel } from '../../database/models/LinkHealthCheck.js';
+import { ClickPartitionModel } from '../../database/models/ClickPartition.js';
+import { ClickEventModel } from '../../database/models/ClickEvent.js';
+import { ClickRollupModel } from '../../database/models/ClickRollup.js';
 import { config } from '../../config/environment.js';
+import { parseCsv } from '../../utils/csv.js';
+import { rateLimitStore } from '../../middleware/security.js';
+import {
+  MemoryEdgeLinkStore,
+  setEdgeLinkStore,
+} from '../../utils/edgeLinks.js';
 import type { Application } from 'express';
 import type {
   AffiliateLink,
+  AffiliateLinkExportRow,
   AdminUser,
+  AuditEvent,
   Category,
   PaginatedResult,
 } from '../../database/models/types.js';
@@ -18,17 +32,25 @@ import type {
 vi.mock('../../database/models/AffiliateLink.js');
 vi.mock('../../database/models/Category.js');
 vi.mock('../../database/models/AdminUser.js');
+vi.mock('../../database/models/RefreshToken.js');
+vi.mock('../../database/models/AuditEvent.js');
+vi.mock('../../database/models/LinkHealthCheck.js');
+vi.mock('../../database/models/ClickPartition.js');
+vi.mock('../../database/models/ClickEvent.js');
+vi.mock('../../database/models/ClickRollup.js');
 
 describe('Admin API Routes', () => {
   let app: Application;
   let adminToken: string;
   let editorToken: string;
+  const testSessionId = 'a1b2c3d4-e89b-12d3-a456-426614174999';
 
   const mockAdminUser: Omit<AdminUser, 'password_hash'> = {
     id: '123e4567-e89b-12d3-a456-426614174000',
     email: 'admin@example.com',
     name: 'Admin User',
     role: 'admin',
+    is_active: true,
     last_login: new Date('2024-01-01T00:00:00Z'),
     created_at: new Date('2024-01-01T00:00:00Z'),
     updated_at: new Date('2024-01-01T00:00:00Z'),
@@ -39,6 +61,7 @@ describe('Admin API Routes', () => {
     email: 'editor@example.com',
     name: 'Editor User',
     role: 'editor',
+    is_active: true,
     last_login: new Date('2024-01-01T00:00:00Z'),
     created_at: new Date('2024-01-01T00:00:00Z'),
     updated_at: new Date('2024-01-01T00:00:00Z'),
@@ -50,6 +73,10 @@ describe('Admin API Routes', () => {
     description: 'A test affiliate link description',
     url: 'https://example.com',
     affiliate_url: 'https://affiliate.example.com/ref123',
+    slug: null,
+    url_template: null,
+    destinations: [],
+    sticky_destinations: false,
     category_id: '456e7890-e89b-12d3-a456-426614174001',
     tags: ['test', 'example'],
     image_url: 'https://example.com/image.jpg',
@@ -57,10 +84,18 @@ describe('Admin API Routes', () => {
     featured: true,
     status: 'active',
     click_count: 100,
+    publish_at: null,
+    expires_at: null,
+    deleted_at: null,
     created_at: new Date('2024-01-01T00:00:00Z'),
     updated_at: new Date('2024-01-01T00:00:00Z'),
   };
 
+  const trashedLink: AffiliateLink = {
+    ...mockAffiliateLink,
+    deleted_at: new Date('2024-01-03T00:00:00Z'),
+  };
+
   const mockCategory: Category = {
     id: '456e7890-e89b-12d3-a456-426614174001',
     name: 'Test Category',
@@ -68,13 +103,15 @@ describe('Admin API Routes', () => {
     description: 'A test category description',
     color: '#3B82F6',
     icon: 'test-icon',
+    url_template: null,
     created_at: new Date('2024-01-01T00:00:00Z'),
     updated_at: new Date('2024-01-01T00:00:00Z'),
   };
 
-  beforeEach(() => {
+  beforeEach(async () => {
     app = createApp();
     vi.clearAllMocks();
+    await rateLimitStore.resetAll();
 
     // Generate test tokens
     adminToken = jwt.sign(
@@ -82,6 +119,7 @@ describe('Admin API Routes', () => {
         userId: mockAdminUser.id,
         email: mockAdminUser.email,
         role: mockAdminUser.role,
+        sid: testSessionId,
       },
       config.jwt.secret,
       { expiresIn: '1h' }
@@ -92,6 +130,7 @@ describe('Admin API Routes', () => {
         userId: mockEditorUser.id,
         email: mockEditorUser.email,
         role: mockEditorUser.role,
+        sid: testSessionId,
       },
       config.jwt.secret,
       { expiresIn: '1h' }
@@ -105,6 +144,9 @@ describe('Admin API Routes', () => {
         return null;
       }
     );
+
+    // Sessions are active unless a test revokes them
+    vi.mocked(RefreshTokenModel.isSessionActive).mockResolvedValue(true);
   });
 
   afterEach(() => {
@@ -139,6 +181,7 @@ describe('Admin API Routes', () => {
           userId: mockAdminUser.id,
           email: mockAdminUser.email,
           role: mockAdminUser.role,
+          sid: testSessionId,
         },
         config.jwt.secret,
         { expiresIn: '-1h' }
@@ -161,6 +204,7 @@ describe('Admin API Routes', () => {
           userId: 'non-existent-id',
           email: 'nonexistent@example.com',
           role: 'admin',
+          sid: testSessionId,
         },
         config.jwt.secret,
         { expiresIn: '1h' }
@@ -176,6 +220,45 @@ describe('Admin API Routes', () => {
         error: 'Invalid token - user not found',
       });
     });
+
+    it('should reject tokens from a revoked session', async () => {
+      vi.mocked(RefreshTokenModel.isSessionActive).mockResolvedValue(false);
+
+      const response = await request(app)
+        .get('/api/admin/links')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(401);
+
+      expect(response.body).toMatchObject({
+        success: false,
+        error: 'Session revoked',
+      });
+      expect(RefreshTokenModel.isSessionActive).toHaveBeenCalledWith(
+        testSessionId
+      );
+    });
+
+    it('should reject tokens without a session', async () => {
+      const sessionlessToken = jwt.sign(
+        {
+          userId: mockAdminUser.id,
+          email: mockAdminUser.email,
+          role: mockAdminUser.role,
+        },
+        config.jwt.secret,
+        { expiresIn: '1h' }
+      );
+
+      const response = await request(app)
+        .get('/api/admin/links')
+        .set('Authorization', `Bearer ${sessionlessToken}`)
+        .expect(401);
+
+      expect(response.body).toMatchObject({
+        success: false,
+        error: 'Session revoked',
+      });
+    });
   });
 
   describe('GET /api/admin/links', () => {
@@ -255,6 +338,36 @@ describe('Admin API Routes', () => {
         })
       );
     });
+
+    it('should filter by schedule and ignore unknown schedule values', async () => {
+      vi.mocked(AffiliateLinkModel.findAll).mockResolvedValue({
+        data: [],
+        total: 0,
+        limit: 20,
+        offset: 0,
+        has_more: false,
+      });
+
+      await request(app)
+        .get('/api/admin/links?schedule=scheduled')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+      await request(app)
+        .get('/api/admin/links?schedule=someday')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      expect(AffiliateLinkModel.findAll).toHaveBeenNthCalledWith(
+        1,
+        { schedule: 'scheduled' },
+        expect.any(Object)
+      );
+      expect(AffiliateLinkModel.findAll).toHaveBeenNthCalledWith(
+        2,
+        {},
+        expect.any(Object)
+      );
+    });
   });
 
   describe('POST /api/admin/links', () => {
@@ -300,6 +413,156 @@ describe('Admin API Routes', () => {
       );
     });
 
+    it('should pass the publish window through', async () => {
+      vi.mocked(CategoryModel.exists).mockResolvedValue(true);
+      vi.mocked(AffiliateLinkModel.create).mockResolvedValue(mockAffiliateLink);
+
+      await request(app)
+        .post('/api/admin/links')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({
+          ...validLinkData,
+          publish_at: '2024-12-01T00:00:00Z',
+          expires_at: '2024-12-26T00:00:00Z',
+        })
+        .expect(201);
+
+      expect(AffiliateLinkModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          publish_at: '2024-12-01T00:00:00Z',
+          expires_at: '2024-12-26T00:00:00Z',
+        })
+      );
+    });
+
+    it('should reject an expiry before the publish date', async () => {
+      const response = await request(app)
+        .post('/api/admin/links')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({
+          ...validLinkData,
+          publish_at: '2024-12-26T00:00:00Z',
+          expires_at: '2024-12-01T00:00:00Z',
+        })
+        .expect(400);
+
+      expect(response.body.details).toEqual([
+        expect.objectContaining({
+          path: 'expires_at',
+          msg: 'Expiry date must be after the publish date',
+        }),
+      ]);
+      expect(AffiliateLinkModel.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject a slug that is already taken', async () => {
+      vi.mocked(AffiliateLinkModel.findBySlug).mockResolvedValue({
+        ...mockAffiliateLink,
+        slug: 'summer-sale',
+      });
+
+      const response = await request(app)
+        .post('/api/admin/links')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ ...validLinkData, slug: 'summer-sale' })
+        .expect(409);
+
+      expect(response.body).toMatchObject({
+        success: false,
+        error: 'Link slug already exists',
+      });
+      expect(AffiliateLinkModel.findBySlug).toHaveBeenCalledWith(
+        'summer-sale',
+        true
+      );
+      expect(AffiliateLinkModel.create).not.toHaveBeenCalled();
+    });
+
+    it('should validate the slug format', async () => {
+      const response = await request(app)
+        .post('/api/admin/links')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ ...validLinkData, slug: 'Summer Sale' })
+        .expect(400);
+
+      expect(response.body.details).toEqual([
+        expect.objectContaining({ path: 'slug' }),
+      ]);
+    });
+
+    it('should validate the URL template', async () => {
+      const response = await request(app)
+        .post('/api/admin/links')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ ...validLinkData, url_template: '{affiliate_url}&s={subid}' })
+        .expect(400);
+
+      expect(response.body.details).toEqual([
+        expect.objectContaining({
+          path: 'url_template',
+          msg: 'Unknown URL template placeholder {subid}',
+        }),
+      ]);
+      expect(AffiliateLinkModel.create).not.toHaveBeenCalled();
+    });
+
+    it('should save weighted destinations', async () => {
+      vi.mocked(CategoryModel.exists).mockResolvedValue(true);
+      vi.mocked(AffiliateLinkModel.create).mockResolvedValue(mockAffiliateLink);
+
+      await request(app)
+        .post('/api/admin/links')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({
+          ...validLinkData,
+          destinations: [
+            {
+              variant: 'a',
+              url: 'https://merchant-a.example.com',
+              weight: '70',
+              label: 'ignored',
+            },
+            { variant: 'b', url: 'https://merchant-b.example.com', weight: 30 },
+          ],
+          sticky_destinations: true,
+        })
+        .expect(201);
+
+      expect(AffiliateLinkModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          destinations: [
+            { variant: 'a', url: 'https://merchant-a.example.com', weight: 70 },
+            { variant: 'b', url: 'https://merchant-b.example.com', weight: 30 },
+          ],
+          sticky_destinations: true,
+        })
+      );
+    });
+
+    it('should validate destinations', async () => {
+      const response = await request(app)
+        .post('/api/admin/links')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({
+          ...validLinkData,
+          destinations: [
+            { variant: 'a', url: 'https://merchant-a.example.com', weight: 1 },
+            { variant: 'a', url: 'not a url', weight: -1 },
+          ],
+        })
+        .expect(400);
+
+      expect(response.body.details).toEqual([
+        expect.objectContaining({
+          path: 'destinations',
+          msg: 'Destination variants must be unique',
+        }),
+        expect.objectContaining({ path: 'destinations[1].url' }),
+        expect.objectContaining({ path: 'destinations[1].weight' }),
+      ]);
+      expect(AffiliateLinkModel.create).not.toHaveBeenCalled();
+    });
+
     it('should allow editor to create links', async () => {
       vi.mocked(CategoryModel.exists).mockResolvedValue(true);
       vi.mocked(AffiliateLinkModel.create).mockResolvedValue(mockAffiliateLink);
@@ -468,6 +731,126 @@ describe('Admin API Routes', () => {
       });
     });
 
+    it('should check a new expiry against the stored publish date', async () => {
+      vi.mocked(AffiliateLinkModel.findById).mockResolvedValue({
+        ...mockAffiliateLink,
+        publish_at: new Date('2024-12-01T00:00:00Z'),
+      });
+
+      const response = await request(app)
+        .put(`/api/admin/links/${mockAffiliateLink.id}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ expires_at: '2024-11-01T00:00:00Z' })
+        .expect(400);
+
+      expect(response.body.error).toBe(
+        'Expiry date must be after the publish date'
+      );
+      expect(AffiliateLinkModel.update).not.toHaveBeenCalled();
+    });
+
+    it('should clear schedule dates with null', async () => {
+      vi.mocked(AffiliateLinkModel.findById).mockResolvedValue({
+        ...mockAffiliateLink,
+        expires_at: new Date('2024-12-26T00:00:00Z'),
+      });
+      vi.mocked(AffiliateLinkModel.update).mockResolvedValue(mockAffiliateLink);
+
+      await request(app)
+        .put(`/api/admin/links/${mockAffiliateLink.id}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ expires_at: null })
+        .expect(200);
+
+      expect(AffiliateLinkModel.update).toHaveBeenCalledWith(
+        mockAffiliateLink.id,
+        { expires_at: null }
+      );
+    });
+
+    it('should allow keeping the slug and reject taking another', async () => {
+      vi.mocked(AffiliateLinkModel.findById).mockResolvedValue({
+        ...mockAffiliateLink,
+        slug: 'summer-sale',
+      });
+      vi.mocked(AffiliateLinkModel.findBySlug).mockResolvedValue({
+        ...mockAffiliateLink,
+        id: '223e4567-e89b-12d3-a456-426614174000',
+        slug: 'winter-sale',
+      });
+      vi.mocked(AffiliateLinkModel.update).mockResolvedValue(mockAffiliateLink);
+
+      await request(app)
+        .put(`/api/admin/links/${mockAffiliateLink.id}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ slug: 'summer-sale' })
+        .expect(200);
+      expect(AffiliateLinkModel.findBySlug).not.toHaveBeenCalled();
+
+      const response = await request(app)
+        .put(`/api/admin/links/${mockAffiliateLink.id}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ slug: 'winter-sale' })
+        .expect(409);
+      expect(response.body.error).toBe('Link slug already exists');
+    });
+
+    it('should publish the updated destination to the edge', async () => {
+      const edgeStore = new MemoryEdgeLinkStore();
+      setEdgeLinkStore(edgeStore);
+      await edgeStore.put('slug:summer-sale', '{}');
+      vi.mocked(AffiliateLinkModel.findById).mockResolvedValue({
+        ...mockAffiliateLink,
+        slug: 'summer-sale',
+      });
+      vi.mocked(AffiliateLinkModel.findBySlug).mockResolvedValue(null);
+      vi.mocked(AffiliateLinkModel.update).mockResolvedValue({
+        ...mockAffiliateLink,
+        slug: 'winter-sale',
+        affiliate_url: 'https://affiliate.example.com/new',
+      });
+
+      try {
+        await request(app)
+          .put(`/api/admin/links/${mockAffiliateLink.id}`)
+          .set('Authorization', `Bearer ${adminToken}`)
+          .send({
+            slug: 'winter-sale',
+            affiliate_url: 'https://affiliate.example.com/new',
+          })
+          .expect(200);
+      } finally {
+        setEdgeLinkStore(null);
+      }
+
+      expect([...edgeStore.entries.keys()].sort()).toEqual([
+        `link:${mockAffiliateLink.id}`,
+        'slug:winter-sale',
+      ]);
+      expect(
+        JSON.parse(edgeStore.entries.get('slug:winter-sale')!).affiliate_url
+      ).toBe('https://affiliate.example.com/new');
+    });
+
+    it('should remove the slug with null', async () => {
+      vi.mocked(AffiliateLinkModel.findById).mockResolvedValue({
+        ...mockAffiliateLink,
+        slug: 'summer-sale',
+      });
+      vi.mocked(AffiliateLinkModel.update).mockResolvedValue(mockAffiliateLink);
+
+      await request(app)
+        .put(`/api/admin/links/${mockAffiliateLink.id}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ slug: null })
+        .expect(200);
+
+      expect(AffiliateLinkModel.update).toHaveBeenCalledWith(
+        mockAffiliateLink.id,
+        { slug: null }
+      );
+    });
+
     it('should validate category if provided', async () => {
       vi.mocked(AffiliateLinkModel.findById).mockResolvedValue(
         mockAffiliateLink
@@ -492,7 +875,7 @@ describe('Admin API Routes', () => {
       vi.mocked(AffiliateLinkModel.findById).mockResolvedValue(
         mockAffiliateLink
       );
-      vi.mocked(AffiliateLinkModel.delete).mockResolvedValue(true);
+      vi.mocked(AffiliateLinkModel.delete).mockResolvedValue(trashedLink);
 
       const response = await request(app)
         .delete(`/api/admin/links/${mockAffiliateLink.id}`)
@@ -501,7 +884,7 @@ describe('Admin API Routes', () => {
 
       expect(response.body).toMatchObject({
         success: true,
-        message: 'Affiliate link deleted successfully',
+        message: 'Affiliate link moved to trash',
       });
 
       expect(AffiliateLinkModel.delete).toHaveBeenCalledWith(
@@ -543,7 +926,10 @@ describe('Admin API Routes', () => {
     ];
 
     it('should bulk delete links for admin', async () => {
-      vi.mocked(AffiliateLinkModel.delete).mockResolvedValue(true);
+      vi.mocked(AffiliateLinkModel.findById).mockResolvedValue(
+        mockAffiliateLink
+      );
+      vi.mocked(AffiliateLinkModel.delete).mockResolvedValue(trashedLink);
 
       const response = await request(app)
         .post('/api/admin/links/bulk-delete')
@@ -631,6 +1017,9 @@ describe('Admin API Routes', () => {
     };
 
     it('should bulk update links', async () => {
+      vi.mocked(AffiliateLinkModel.findById).mockResolvedValue(
+        mockAffiliateLink
+      );
       vi.mocked(AffiliateLinkModel.update).mockResolvedValue(mockAffiliateLink);
 
       const response = await request(app)
@@ -650,6 +1039,9 @@ describe('Admin API Routes', () => {
     });
 
     it('should allow editor to bulk update', async () => {
+      vi.mocked(AffiliateLinkModel.findById).mockResolvedValue(
+        mockAffiliateLink
+      );
       vi.mocked(AffiliateLinkModel.update).mockResolvedValue(mockAffiliateLink);
 
       await request(app)
@@ -690,4 +1082,1239 @@ describe('Admin API Routes', () => {
       });
     });
   });
+
+  describe('POST /api/admin/links/import', () => {
+    const csv = [
+      'title,description,url,affiliate_url,category_slug,tags,commission_rate,featured',
+      'Imported Link,"Description, with comma",https://example.com,https://affiliate.example.com/ref1,test-category,a|b,4.5,true',
+      'Broken Link,Description,not-a-url,https://affiliate.example.com/ref2,missing-category,,,',
+    ].join('\n');
+
+    beforeEach(() => {
+      vi.mocked(CategoryModel.findBySlug).mockImplementation(async (slug) =>
+        slug === mockCategory.slug ? mockCategory : null
+      );
+    });
+
+    it('should return a per-row report for a dry run', async () => {
+      const response = await request(app)
+        .post('/api/admin/links/import?dry_run=true')
+        .set('Authorization', `Bearer ${editorToken}`)
+        .set('Content-Type', 'text/csv')
+        .send(csv)
+        .expect(200);
+
+      expect(response.body.data).toMatchObject({
+        dry_run: true,
+        total: 2,
+        valid: 1,
+        invalid: 1,
+      });
+      expect(response.body.data.rows[0]).toEqual({
+        row: 1,
+        status: 'valid',
+        title: 'Imported Link',
+        errors: [],
+      });
+      expect(response.body.data.rows[1].errors).toEqual(
+        expect.arrayContaining([
+          {
+            field: 'category_slug',
+            message: 'Category "missing-category" not found',
+          },
+          { field: 'url', message: 'URL must be a valid URL' },
+        ])
+      );
+      expect(AffiliateLinkModel.createMany).not.toHaveBeenCalled();
+    });
+
+    it('should not insert anything when a row is invalid', async () => {
+      const response = await request(app)
+        .post('/api/admin/links/import')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .set('Content-Type', 'text/csv')
+        .send(csv)
+        .expect(400);
+
+      expect(response.body.error).toBe('Import contains invalid rows');
+      expect(response.body.details.invalid).toBe(1);
+      expect(AffiliateLinkModel.createMany).not.toHaveBeenCalled();
+    });
+
+    it('should import valid JSON rows and audit each link', async () => {
+      vi.mocked(AffiliateLinkModel.createMany).mockResolvedValue([
+        mockAffiliateLink,
+      ]);
+
+      const response = await request(app)
+        .post('/api/admin/links/import')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send([
+          {
+            title: 'JSON Link',
+            description: 'Imported from JSON',
+            url: 'https://example.com',
+            affiliate_url: 'https://affiliate.example.com/ref3',
+            category_slug: 'test-category',
+            tags: ['json'],
+            featured: false,
+          },
+        ])
+        .expect(201);
+
+      expect(response.body.data).toMatchObject({ total: 1, created: 1 });
+      expect(AffiliateLinkModel.createMany).toHaveBeenCalledWith([
+        expect.objectContaining({
+          title: 'JSON Link',
+          category_id: mockCategory.id,
+          tags: ['json'],
+          featured: false,
+          status: 'active',
+        }),
+      ]);
+      expect(AuditEventModel.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'create',
+          entity_id: mockAffiliateLink.id,
+          metadata: { source: 'import' },
+        })
+      );
+    });
+
+    it('should convert CSV values when given the csv text as JSON', async () => {
+      vi.mocked(AffiliateLinkModel.createMany).mockResolvedValue([
+        mockAffiliateLink,
+      ]);
+
+      await request(app)
+        .post('/api/admin/links/import')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ csv: csv.split('\n').slice(0, 2).join('\n') })
+        .expect(201);
+
+      expect(AffiliateLinkModel.createMany).toHaveBeenCalledWith([
+        expect.objectContaining({
+          description: 'Description, with comma',
+          tags: ['a', 'b'],
+          commission_rate: 4.5,
+          featured: true,
+        }),
+      ]);
+    });
+
+    it('should accept an NDJSON export body', async () => {
+      vi.mocked(AffiliateLinkModel.createMany).mockResolvedValue([
+        mockAffiliateLink,
+      ]);
+      const line = JSON.stringify({
+        title: 'NDJSON Link',
+        description: 'Exported elsewhere',
+        url: 'https://example.com',
+        affiliate_url: 'https://affiliate.example.com/ref4',
+        category_slug: 'test-category',
+        commission_rate: 5.5,
+        click_count: 100,
+      });
+
+      const response = await request(app)
+        .post('/api/admin/links/import?dry_run=true')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .set('Content-Type', 'application/x-ndjson')
+        .send(`${line}\n${line}\n`)
+        .expect(200);
+
+      expect(response.body.data).toMatchObject({ total: 2, valid: 2 });
+    });
+
+    it('should reject slugs that are taken or repeated', async () => {
+      vi.mocked(AffiliateLinkModel.findBySlug).mockImplementation(
+        async (slug) => (slug === 'taken' ? mockAffiliateLink : null)
+      );
+      const row = (slug: string) => ({
+        title: 'Slug Link',
+        description: 'Has a slug',
+        url: 'https://example.com',
+        affiliate_url: 'https://affiliate.example.com/ref5',
+        category_slug: 'test-category',
+        slug,
+      });
+
+      const response = await request(app)
+        .post('/api/admin/links/import?dry_run=true')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send([row('taken'), row('fresh'), row('fresh')])
+        .expect(200);
+
+      expect(
+        response.body.data.rows.map(
+          (result: { errors: unknown[] }) => result.errors
+        )
+      ).toEqual([
+        [{ field: 'slug', message: 'Link slug already exists' }],
+        [],
+        [{ field: 'slug', message: 'Link slug already exists' }],
+      ]);
+    });
+
+    it('should reject malformed CSV', async () => {
+      const response = await request(app)
+        .post('/api/admin/links/import')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .set('Content-Type', 'text/csv')
+        .send('title,url\n"unterminated,https://example.com')
+        .expect(400);
+
+      expect(response.body).toMatchObject({
+        success: false,
+        error: 'Invalid import data',
+        details: 'Unterminated quoted field',
+      });
+    });
+
+    it('should reject an empty import', async () => {
+      await request(app)
+        .post('/api/admin/links/import')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ links: [] })
+        .expect(400);
+    });
+  });
+
+  describe('GET /api/admin/links/export', () => {
+    const exportRow: AffiliateLinkExportRow = {
+      ...mockAffiliateLink,
+      description: 'Has a "quote", and a comma',
+      commission_rate: '5.50' as unknown as number,
+      category_slug: mockCategory.slug,
+      category_name: mockCategory.name,
+    };
+
+    beforeEach(() => {
+      vi.mocked(AffiliateLinkModel.findAllForExport).mockImplementation(
+        async function* () {
+          yield [exportRow];
+        }
+      );
+      vi.mocked(CategoryModel.findAll).mockResolvedValue({
+        data: [mockCategory],
+        total: 1,
+        limit: 1000,
+        offset: 0,
+        has_more: false,
+      });
+    });
+
+    it('should stream CSV that the importer can read back', async () => {
+      const response = await request(app)
+        .get('/api/admin/links/export?status=active&tags=test')
+        .set('Authorization', `Bearer ${editorToken}`)
+        .expect(200);
+
+      expect(response.headers['content-type']).toContain('text/csv');
+      expect(response.headers['content-disposition']).toMatch(
+        /attachment; filename="links-\d{4}-\d{2}-\d{2}\.csv"/
+      );
+      expect(AffiliateLinkModel.findAllForExport).toHaveBeenCalledWith({
+        status: 'active',
+        tags: ['test'],
+      });
+
+      const [record] = parseCsv(response.text);
+      expect(record).toMatchObject({
+        title: exportRow.title,
+        description: exportRow.description,
+        category_slug: 'test-category',
+        tags: 'test|example',
+        commission_rate: '5.5',
+        featured: 'true',
+        click_count: '100',
+        id: exportRow.id,
+      });
+    });
+
+    it('should round-trip slugs, URL templates and destinations', async () => {
+      const destinations = [
+        { variant: 'a', url: 'https://affiliate.example.com/a', weight: 70 },
+        { variant: 'b', url: 'https://affiliate.example.com/b', weight: 30 },
+      ];
+      vi.mocked(AffiliateLinkModel.findAllForExport).mockImplementation(
+        async function* () {
+          yield [
+            {
+              ...exportRow,
+              slug: 'summer-sale',
+              url_template: '{affiliate_url}&subid={click_id}',
+              destinations,
+              sticky_destinations: true,
+            },
+          ];
+        }
+      );
+      vi.mocked(CategoryModel.findBySlug).mockResolvedValue(mockCategory);
+      vi.mocked(AffiliateLinkModel.createMany).mockResolvedValue([
+        mockAffiliateLink,
+      ]);
+
+      const exported = await request(app)
+        .get('/api/admin/links/export')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      await request(app)
+        .post('/api/admin/links/import')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .set('Content-Type', 'text/csv')
+        .send(exported.text)
+        .expect(201);
+
+      expect(AffiliateLinkModel.createMany).toHaveBeenCalledWith([
+        expect.objectContaining({
+          slug: 'summer-sale',
+          url_template: '{affiliate_url}&subid={click_id}',
+          destinations,
+          sticky_destinations: true,
+        }),
+      ]);
+    });
+
+    it('should stream JSON with categories and links', async () => {
+      const response = await request(app)
+        .get('/api/admin/links/export?format=json')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      expect(response.body.categories).toEqual([
+        expect.objectContaining({ slug: 'test-category' }),
+      ]);
+      expect(response.body.links).toEqual([
+        expect.objectContaining({
+          title: exportRow.title,
+          category_slug: 'test-category',
+          tags: ['test', 'example'],
+          commission_rate: 5.5,
+        }),
+      ]);
+      expect(response.body.links[0]).not.toHaveProperty('category_id');
+    });
+
+    it('should stream one link per line as NDJSON', async () => {
+      const response = await request(app)
+        .get('/api/admin/links/export?format=ndjson')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .buffer(true)
+        .parse((res, callback) => {
+          let text = '';
+          res.on('data', (chunk) => (text += chunk));
+          res.on('end', () => callback(null, text));
+        })
+        .expect(200);
+
+      const lines = (response.body as string).trim().split('\n');
+      expect(lines).toHaveLength(1);
+      expect(JSON.parse(lines[0])).toMatchObject({ id: exportRow.id });
+    });
+
+    it('should reject unknown formats', async () => {
+      await request(app)
+        .get('/api/admin/links/export?format=xml')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(400);
+
+      expect(AffiliateLinkModel.findAllForExport).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Link trash', () => {
+    it('should list trashed links for admin', async () => {
+      vi.mocked(AffiliateLinkModel.findAll).mockResolvedValue({
+        data: [trashedLink],
+        total: 1,
+        limit: 20,
+        offset: 0,
+        has_more: false,
+      });
+
+      const response = await request(app)
+        .get('/api/admin/links/trash')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      expect(response.body.data).toHaveLength(1);
+      expect(response.body.data[0].deleted_at).toBe(
+        trashedLink.deleted_at!.toISOString()
+      );
+      expect(AffiliateLinkModel.findAll).toHaveBeenCalledWith(
+        { trashed: true },
+        expect.objectContaining({ sort_by: 'deleted_at', sort_order: 'DESC' })
+      );
+    });
+
+    it('should restore a trashed link', async () => {
+      vi.mocked(AffiliateLinkModel.findById).mockResolvedValue(trashedLink);
+      vi.mocked(AffiliateLinkModel.restore).mockResolvedValue(
+        mockAffiliateLink
+      );
+
+      const response = await request(app)
+        .post(`/api/admin/links/${mockAffiliateLink.id}/restore`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      expect(response.body.message).toBe(
+        'Affiliate link restored successfully'
+      );
+      expect(AffiliateLinkModel.findById).toHaveBeenCalledWith(
+        mockAffiliateLink.id,
+        true
+      );
+      expect(AuditEventModel.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'restore',
+          before: trashedLink,
+          after: mockAffiliateLink,
+        })
+      );
+    });
+
+    it('should not restore or purge a link that is not trashed', async () => {
+      vi.mocked(AffiliateLinkModel.findById).mockResolvedValue(
+        mockAffiliateLink
+      );
+
+      await request(app)
+        .post(`/api/admin/links/${mockAffiliateLink.id}/restore`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(409);
+
+      const response = await request(app)
+        .delete(`/api/admin/links/${mockAffiliateLink.id}/purge`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(409);
+
+      expect(response.body.error).toBe('Affiliate link is not in the trash');
+      expect(AffiliateLinkModel.restore).not.toHaveBeenCalled();
+      expect(AffiliateLinkModel.purge).not.toHaveBeenCalled();
+    });
+
+    it('should permanently delete a trashed link', async () => {
+      vi.mocked(AffiliateLinkModel.findById).mockResolvedValue(trashedLink);
+      vi.mocked(AffiliateLinkModel.purge).mockResolvedValue(true);
+
+      await request(app)
+        .delete(`/api/admin/links/${mockAffiliateLink.id}/purge`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      expect(AffiliateLinkModel.purge).toHaveBeenCalledWith(
+        mockAffiliateLink.id
+      );
+      expect(AuditEventModel.record).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'purge', before: trashedLink })
+      );
+    });
+
+    it('should reject trash actions from editor', async () => {
+      await request(app)
+        .get('/api/admin/links/trash')
+        .set('Authorization', `Bearer ${editorToken}`)
+        .expect(403);
+
+      await request(app)
+        .delete(`/api/admin/links/${mockAffiliateLink.id}/purge`)
+        .set('Authorization', `Bearer ${editorToken}`)
+        .expect(403);
+    });
+  });
+
+  describe('GET /api/admin/links/health', () => {
+    it('should return the health summary with per-link checks', async () => {
+      const checkedAt = new Date('2024-01-05T00:00:00Z');
+      vi.mocked(LinkHealthCheckModel.getSummary).mockResolvedValue({
+        total_links: 3,
+        healthy: 1,
+        unhealthy: 1,
+        unchecked: 1,
+        last_checked_at: checkedAt,
+      });
+      vi.mocked(LinkHealthCheckModel.findStatuses).mockResolvedValue([
+        {
+          link_id: mockAffiliateLink.id,
+          title: mockAffiliateLink.title,
+          status: 'active',
+          healthy: false,
+          checks: [
+            {
+              link_id: mockAffiliateLink.id,
+              target: 'affiliate_url',
+              checked_url: mockAffiliateLink.affiliate_url,
+              status_code: 404,
+              final_url: 'https://affiliate.example.com/missing',
+              error: null,
+              healthy: false,
+              response_time_ms: 120,
+              consecutive_failures: 2,
+              checked_at: checkedAt,
+            },
+          ],
+        },
+      ]);
+
+      const response = await request(app)
+        .get('/api/admin/links/health')
+        .set('Authorization', `Bearer ${editorToken}`)
+        .expect(200);
+
+      expect(response.body.data.summary).toEqual({
+        total_links: 3,
+        healthy: 1,
+        unhealthy: 1,
+        unchecked: 1,
+        last_checked_at: checkedAt.toISOString(),
+      });
+      expect(response.body.data.links[0]).toMatchObject({
+        link_id: mockAffiliateLink.id,
+        healthy: false,
+        checks: [{ target: 'affiliate_url', status_code: 404 }],
+      });
+      // Must not be captured by GET /links/:id
+      expect(AffiliateLinkModel.findById).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/admin/categories', () => {
+    const validCategoryData = {
+      name: 'New Category',
+      slug: 'new-category',
+      description: 'A new category',
+      color: '#10B981',
+      icon: 'star',
+    };
+
+    it('should create new category for admin', async () => {
+      vi.mocked(CategoryModel.exists).mockResolvedValue(false);
+      vi.mocked(CategoryModel.create).mockResolvedValue(mockCategory);
+
+      const response = await request(app)
+        .post('/api/admin/categories')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send(validCategoryData)
+        .expect(201);
+
+      expect(response.body).toMatchObject({
+        success: true,
+        data: expect.objectContaining({ id: mockCategory.id }),
+        message: 'Category created successfully',
+      });
+      expect(CategoryModel.create).toHaveBeenCalledWith({
+        ...validCategoryData,
+        url_template: null,
+      });
+    });
+
+    it('should reject category creation from editor', async () => {
+      await request(app)
+        .post('/api/admin/categories')
+        .set('Authorization', `Bearer ${editorToken}`)
+        .send(validCategoryData)
+        .expect(403);
+
+      expect(CategoryModel.create).not.toHaveBeenCalled();
+    });
+
+    it('should validate slug format and hex color', async () => {
+      const response = await request(app)
+        .post('/api/admin/categories')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ ...validCategoryData, slug: 'Bad Slug!', color: 'blue' })
+        .expect(400);
+
+      expect(response.body).toMatchObject({
+        success: false,
+        error: 'Validation failed',
+      });
+      const fields = response.body.details.map(
+        (detail: { path: string }) => detail.path
+      );
+      expect(fields).toEqual(expect.arrayContaining(['slug', 'color']));
+    });
+
+    it('should reject duplicate slug', async () => {
+      vi.mocked(CategoryModel.exists).mockImplementation(
+        async (field) => field === 'slug'
+      );
+
+      const response = await request(app)
+        .post('/api/admin/categories')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send(validCategoryData)
+        .expect(409);
+
+      expect(response.body).toMatchObject({
+        success: false,
+        error: 'Category slug already exists',
+      });
+      expect(CategoryModel.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('PUT /api/admin/categories/:id', () => {
+    it('should update category', async () => {
+      vi.mocked(CategoryModel.findById).mockResolvedValue(mockCategory);
+      vi.mocked(CategoryModel.exists).mockResolvedValue(false);
+      vi.mocked(CategoryModel.update).mockResolvedValue({
+        ...mockCategory,
+        slug: 'renamed-category',
+      });
+
+      const response = await request(app)
+        .put(`/api/admin/categories/${mockCategory.id}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ slug: 'renamed-category' })
+        .expect(200);
+
+      expect(response.body.data.slug).toBe('renamed-category');
+      expect(CategoryModel.update).toHaveBeenCalledWith(mockCategory.id, {
+        slug: 'renamed-category',
+      });
+    });
+
+    it("should republish the category's links when its URL template changes", async () => {
+      const edgeStore = new MemoryEdgeLinkStore();
+      setEdgeLinkStore(edgeStore);
+      const urlTemplate = '{affiliate_url}&subid={click_id}';
+      vi.mocked(CategoryModel.findById)
+        .mockResolvedValueOnce(mockCategory)
+        .mockResolvedValue({ ...mockCategory, url_template: urlTemplate });
+      vi.mocked(CategoryModel.update).mockResolvedValue({
+        ...mockCategory,
+        url_template: urlTemplate,
+      });
+      vi.mocked(AffiliateLinkModel.findAllForExport).mockImplementation(
+        async function* () {
+          yield [
+            {
+              ...mockAffiliateLink,
+              category_slug: mockCategory.slug,
+              category_name: mockCategory.name,
+            },
+          ];
+        }
+      );
+
+      try {
+        await request(app)
+          .put(`/api/admin/categories/${mockCategory.id}`)
+          .set('Authorization', `Bearer ${adminToken}`)
+          .send({ url_template: urlTemplate })
+          .expect(200);
+
+        // Published after the response
+        await vi.waitFor(() =>
+          expect(edgeStore.entries.has(`link:${mockAffiliateLink.id}`)).toBe(
+            true
+          )
+        );
+      } finally {
+        setEdgeLinkStore(null);
+      }
+
+      expect(AffiliateLinkModel.findAllForExport).toHaveBeenCalledWith({
+        category_id: mockCategory.id,
+      });
+      expect(
+        JSON.parse(edgeStore.entries.get(`link:${mockAffiliateLink.id}`)!)
+          .url_template
+      ).toBe(urlTemplate);
+    });
+
+    it('should allow keeping the current slug', async () => {
+      vi.mocked(CategoryModel.findById).mockResolvedValue(mockCategory);
+      vi.mocked(CategoryModel.exists).mockResolvedValue(true);
+      vi.mocked(CategoryModel.update).mockResolvedValue(mockCategory);
+
+      await request(app)
+        .put(`/api/admin/categories/${mockCategory.id}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ slug: mockCategory.slug, color: '#000000' })
+        .expect(200);
+
+      expect(CategoryModel.exists).not.toHaveBeenCalled();
+    });
+
+    it('should reject slug taken by another category', async () => {
+      vi.mocked(CategoryModel.findById).mockResolvedValue(mockCategory);
+      vi.mocked(CategoryModel.exists).mockResolvedValue(true);
+
+      await request(app)
+        .put(`/api/admin/categories/${mockCategory.id}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ slug: 'design' })
+        .expect(409);
+
+      expect(CategoryModel.update).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 for non-existent category', async () => {
+      vi.mocked(CategoryModel.findById).mockResolvedValue(null);
+
+      await request(app)
+        .put(`/api/admin/categories/${mockCategory.id}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ name: 'Renamed' })
+        .expect(404);
+    });
+  });
+
+  describe('DELETE /api/admin/categories/:id', () => {
+    const targetCategoryId = '999e0123-e89b-12d3-a456-426614174009';
+
+    beforeEach(() => {
+      vi.mocked(CategoryModel.findById).mockResolvedValue(mockCategory);
+    });
+
+    it('should delete category without links', async () => {
+      vi.mocked(CategoryModel.countLinks).mockResolvedValue(0);
+      vi.mocked(CategoryModel.delete).mockResolvedValue(true);
+
+      const response = await request(app)
+        .delete(`/api/admin/categories/${mockCategory.id}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      expect(response.body).toMatchObject({
+        success: true,
+        data: { reassigned_links: 0 },
+      });
+      expect(CategoryModel.delete).toHaveBeenCalledWith(mockCategory.id);
+    });
+
+    it('should refuse to cascade-delete a category with links', async () => {
+      vi.mocked(CategoryModel.countLinks).mockResolvedValue(3);
+
+      const response = await request(app)
+        .delete(`/api/admin/categories/${mockCategory.id}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(409);
+
+      expect(response.body).toMatchObject({
+        success: false,
+        details: { link_count: 3 },
+      });
+      expect(CategoryModel.delete).not.toHaveBeenCalled();
+    });
+
+    it('should reassign links before deleting', async () => {
+      vi.mocked(CategoryModel.exists).mockResolvedValue(true);
+      vi.mocked(CategoryModel.deleteAndReassignLinks).mockResolvedValue(3);
+
+      const response = await request(app)
+        .delete(
+          `/api/admin/categories/${mockCategory.id}?reassign_to=${targetCategoryId}`
+        )
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      expect(response.body.data).toEqual({ reassigned_links: 3 });
+      expect(CategoryModel.deleteAndReassignLinks).toHaveBeenCalledWith(
+        mockCategory.id,
+        targetCategoryId
+      );
+    });
+
+    it('should reject reassigning to the category being deleted', async () => {
+      await request(app)
+        .delete(
+          `/api/admin/categories/${mockCategory.id}?reassign_to=${mockCategory.id}`
+        )
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(400);
+
+      expect(CategoryModel.deleteAndReassignLinks).not.toHaveBeenCalled();
+    });
+
+    it('should reject delete request from editor', async () => {
+      await request(app)
+        .delete(`/api/admin/categories/${mockCategory.id}`)
+        .set('Authorization', `Bearer ${editorToken}`)
+        .expect(403);
+    });
+  });
+
+  describe('Admin user management', () => {
+    it('should list users for admin', async () => {
+      vi.mocked(AdminUserModel.findAll).mockResolvedValue({
+        data: [mockAdminUser, mockEditorUser],
+        total: 2,
+        limit: 50,
+        offset: 0,
+        has_more: false,
+      });
+
+      const response = await request(app)
+        .get('/api/admin/users')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      expect(response.body.success).toBe(true);
+      expect(response.body.data).toHaveLength(2);
+      expect(response.body.data[1]).toMatchObject({
+        id: mockEditorUser.id,
+        email: mockEditorUser.email,
+        role: 'editor',
+        isActive: true,
+      });
+      expect(response.body.data[0]).not.toHaveProperty('password_hash');
+    });
+
+    it('should deny user management to editors', async () => {
+      await request(app)
+        .get('/api/admin/users')
+        .set('Authorization', `Bearer ${editorToken}`)
+        .expect(403);
+    });
+
+    it('should reject deactivated users', async () => {
+      vi.mocked(AdminUserModel.findById).mockResolvedValue({
+        ...mockAdminUser,
+        is_active: false,
+      });
+
+      const response = await request(app)
+        .get('/api/admin/users')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(401);
+
+      expect(response.body.error).toBe('Account is deactivated');
+    });
+
+    it('should invite a user with a temporary password', async () => {
+      const newUser = {
+        ...mockEditorUser,
+        id: '999e7890-e89b-12d3-a456-426614174009',
+        email: 'new@example.com',
+        name: 'New Editor',
+      };
+      vi.mocked(AdminUserModel.exists).mockResolvedValue(false);
+      vi.mocked(AdminUserModel.create).mockResolvedValue(newUser);
+
+      const response = await request(app)
+        .post('/api/admin/users')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ email: 'new@example.com', name: 'New Editor' })
+        .expect(201);
+
+      expect(response.body.data.user.email).toBe('new@example.com');
+      expect(response.body.data.temporaryPassword).toEqual(expect.any(String));
+      expect(AdminUserModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          email: 'new@example.com',
+          role: 'editor',
+          password_hash: expect.stringMatching(/^\$2[aby]\$/),
+        })
+      );
+    });
+
+    it('should reject inviting an existing email', async () => {
+      vi.mocked(AdminUserModel.exists).mockResolvedValue(true);
+
+      const response = await request(app)
+        .post('/api/admin/users')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ email: 'editor@example.com', name: 'Duplicate' })
+        .expect(409);
+
+      expect(response.body.error).toBe('A user with this email already exists');
+      expect(AdminUserModel.create).not.toHaveBeenCalled();
+    });
+
+    it('should change a user role and end their sessions', async () => {
+      vi.mocked(AdminUserModel.update).mockResolvedValue({
+        ...mockEditorUser,
+        role: 'admin',
+      });
+
+      const response = await request(app)
+        .put(`/api/admin/users/${mockEditorUser.id}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ role: 'admin' })
+        .expect(200);
+
+      expect(response.body.data.role).toBe('admin');
+      expect(RefreshTokenModel.revokeAllForUser).toHaveBeenCalledWith(
+        mockEditorUser.id
+      );
+    });
+
+    it('should not demote the last active admin', async () => {
+      vi.mocked(AdminUserModel.countActiveAdmins).mockResolvedValue(0);
+
+      const response = await request(app)
+        .put(`/api/admin/users/${mockAdminUser.id}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ role: 'editor' })
+        .expect(409);
+
+      expect(response.body.error).toBe('Cannot demote the last active admin');
+      expect(AdminUserModel.countActiveAdmins).toHaveBeenCalledWith(
+        mockAdminUser.id
+      );
+      expect(AdminUserModel.update).not.toHaveBeenCalled();
+    });
+
+    it('should allow demoting an admin when another admin remains', async () => {
+      vi.mocked(AdminUserModel.countActiveAdmins).mockResolvedValue(1);
+      vi.mocked(AdminUserModel.update).mockResolvedValue({
+        ...mockAdminUser,
+        role: 'editor',
+      });
+
+      await request(app)
+        .put(`/api/admin/users/${mockAdminUser.id}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ role: 'editor' })
+        .expect(200);
+    });
+
+    it('should reset a password and end all sessions', async () => {
+      vi.mocked(AdminUserModel.update).mockResolvedValue(mockEditorUser);
+
+      const response = await request(app)
+        .post(`/api/admin/users/${mockEditorUser.id}/reset-password`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      expect(response.body.data.temporaryPassword).toEqual(expect.any(String));
+      expect(AdminUserModel.update).toHaveBeenCalledWith(mockEditorUser.id, {
+        password_hash: expect.any(String),
+      });
+      expect(RefreshTokenModel.revokeAllForUser).toHaveBeenCalledWith(
+        mockEditorUser.id
+      );
+    });
+
+    it('should deactivate a user', async () => {
+      vi.mocked(AdminUserModel.update).mockResolvedValue({
+        ...mockEditorUser,
+        is_active: false,
+      });
+
+      const response = await request(app)
+        .post(`/api/admin/users/${mockEditorUser.id}/deactivate`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      expect(response.body.data.isActive).toBe(false);
+      expect(AdminUserModel.update).toHaveBeenCalledWith(mockEditorUser.id, {
+        is_active: false,
+      });
+      expect(RefreshTokenModel.revokeAllForUser).toHaveBeenCalledWith(
+        mockEditorUser.id
+      );
+    });
+
+    it('should not deactivate or delete the last active admin', async () => {
+      vi.mocked(AdminUserModel.countActiveAdmins).mockResolvedValue(0);
+
+      await request(app)
+        .post(`/api/admin/users/${mockAdminUser.id}/deactivate`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(409);
+
+      await request(app)
+        .delete(`/api/admin/users/${mockAdminUser.id}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(409);
+
+      expect(AdminUserModel.update).not.toHaveBeenCalled();
+      expect(AdminUserModel.delete).not.toHaveBeenCalled();
+    });
+
+    it('should delete a user', async () => {
+      vi.mocked(AdminUserModel.delete).mockResolvedValue(true);
+
+      await request(app)
+        .delete(`/api/admin/users/${mockEditorUser.id}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      expect(AdminUserModel.delete).toHaveBeenCalledWith(mockEditorUser.id);
+    });
+
+    it('should return 404 for an unknown user', async () => {
+      await request(app)
+        .post(
+          '/api/admin/users/999e7890-e89b-12d3-a456-426614174999/deactivate'
+        )
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(404);
+    });
+  });
+
+  describe('Audit log', () => {
+    const mockAuditEvent: AuditEvent = {
+      id: 'aa11bb22-e89b-12d3-a456-426614174010',
+      actor_id: mockAdminUser.id,
+      actor_email: mockAdminUser.email,
+      action: 'delete',
+      entity_type: 'link',
+      entity_id: mockAffiliateLink.id,
+      before: { title: mockAffiliateLink.title },
+      after: null,
+      diff: { title: { from: mockAffiliateLink.title, to: null } },
+      metadata: null,
+      created_at: new Date('2024-01-02T00:00:00Z'),
+    };
+
+    it('should record who deleted a link with its last state', async () => {
+      vi.mocked(AffiliateLinkModel.findById).mockResolvedValue(
+        mockAffiliateLink
+      );
+      vi.mocked(AffiliateLinkModel.delete).mockResolvedValue(trashedLink);
+
+      await request(app)
+        .delete(`/api/admin/links/${mockAffiliateLink.id}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      expect(AuditEventModel.record).toHaveBeenCalledWith({
+        actor: { id: mockAdminUser.id, email: mockAdminUser.email },
+        action: 'delete',
+        entity_type: 'link',
+        entity_id: mockAffiliateLink.id,
+        before: mockAffiliateLink,
+        after: trashedLink,
+      });
+    });
+
+    it('should record link updates with before and after snapshots', async () => {
+      const updatedLink = { ...mockAffiliateLink, title: 'Renamed' };
+      vi.mocked(AffiliateLinkModel.findById).mockResolvedValue(
+        mockAffiliateLink
+      );
+      vi.mocked(AffiliateLinkModel.update).mockResolvedValue(updatedLink);
+
+      await request(app)
+        .put(`/api/admin/links/${mockAffiliateLink.id}`)
+        .set('Authorization', `Bearer ${editorToken}`)
+        .send({ title: 'Renamed' })
+        .expect(200);
+
+      expect(AuditEventModel.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          actor: { id: mockEditorUser.id, email: mockEditorUser.email },
+          action: 'update',
+          before: mockAffiliateLink,
+          after: updatedLink,
+        })
+      );
+    });
+
+    it('should record one event per link in a bulk delete', async () => {
+      vi.mocked(AffiliateLinkModel.findById)
+        .mockResolvedValueOnce(mockAffiliateLink)
+        .mockResolvedValueOnce(null);
+      vi.mocked(AffiliateLinkModel.delete).mockResolvedValue(trashedLink);
+
+      const response = await request(app)
+        .post('/api/admin/links/bulk-delete')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({
+          ids: [mockAffiliateLink.id, '999e7890-e89b-12d3-a456-426614174999'],
+        })
+        .expect(200);
+
+      expect(response.body.data).toMatchObject({ deleted: 1, failed: 1 });
+      expect(AffiliateLinkModel.delete).toHaveBeenCalledTimes(1);
+      expect(AuditEventModel.record).toHaveBeenCalledTimes(1);
+      expect(AuditEventModel.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'bulk_delete',
+          entity_id: mockAffiliateLink.id,
+          before: mockAffiliateLink,
+        })
+      );
+    });
+
+    it('should record password resets without any password data', async () => {
+      vi.mocked(AdminUserModel.update).mockResolvedValue(mockEditorUser);
+
+      await request(app)
+        .post(`/api/admin/users/${mockEditorUser.id}/reset-password`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ password: 'new-password-123' })
+        .expect(200);
+
+      expect(AuditEventModel.record).toHaveBeenCalledWith({
+        actor: { id: mockAdminUser.id, email: mockAdminUser.email },
+        action: 'reset_password',
+        entity_type: 'user',
+        entity_id: mockEditorUser.id,
+      });
+    });
+
+    it('should list audit events with filters and pagination', async () => {
+      vi.mocked(AuditEventModel.findAll).mockResolvedValue({
+        data: [mockAuditEvent],
+        total: 1,
+        limit: 20,
+        offset: 0,
+        has_more: false,
+      });
+
+      const response = await request(app)
+        .get('/api/admin/audit')
+        .query({
+          entity_type: 'link',
+          entity_id: mockAffiliateLink.id,
+          action: 'delete',
+          start_date: '2024-01-01T00:00:00Z',
+          limit: '20',
+        })
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      expect(response.body).toMatchObject({
+        success: true,
+        data: [expect.objectContaining({ id: mockAuditEvent.id })],
+        pagination: { total: 1, page: 1, total_pages: 1 },
+      });
+      expect(AuditEventModel.findAll).toHaveBeenCalledWith(
+        {
+          entity_type: 'link',
+          entity_id: mockAffiliateLink.id,
+          action: 'delete',
+          start_date: new Date('2024-01-01T00:00:00Z'),
+        },
+        { limit: 20, offset: 0 }
+      );
+    });
+
+    it('should reject invalid audit filters', async () => {
+      const response = await request(app)
+        .get('/api/admin/audit')
+        .query({ action: 'explode' })
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(400);
+
+      expect(response.body.error).toBe('Validation failed');
+      expect(AuditEventModel.findAll).not.toHaveBeenCalled();
+    });
+
+    it('should limit editors to link and category history', async () => {
+      vi.mocked(AuditEventModel.findAll).mockResolvedValue({
+        data: [],
+        total: 0,
+        limit: 50,
+        offset: 0,
+        has_more: false,
+      });
+
+      await request(app)
+        .get('/api/admin/audit')
+        .set('Authorization', `Bearer ${editorToken}`)
+        .expect(403);
+
+      await request(app)
+        .get('/api/admin/audit')
+        .query({ entity_type: 'link', entity_id: mockAffiliateLink.id })
+        .set('Authorization', `Bearer ${editorToken}`)
+        .expect(200);
+    });
+  });
+
+  describe('GET /api/admin/click-events/partitions', () => {
+    it('should list partitions with their sizes and the archived months', async () => {
+      const archivedAt = new Date('2024-04-01T03:00:00Z');
+      vi.mocked(ClickPartitionModel.listPartitions).mockResolvedValue([
+        {
+          name: 'click_events_2024_03',
+          month: '2024-03',
+          total_bytes: 81920,
+          estimated_rows: 120,
+        },
+      ]);
+      vi.mocked(ClickPartitionModel.listArchives).mockResolvedValue([
+        {
+          month: '2024-02',
+          file_path: '/var/archive/click_events_2024_02.ndjson.gz',
+          row_count: 5000,
+          file_bytes: 40960,
+          archived_at: archivedAt,
+        },
+      ]);
+
+      const response = await request(app)
+        .get('/api/admin/click-events/partitions')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      expect(response.body.data.partitions).toEqual([
+        {
+          name: 'click_events_2024_03',
+          month: '2024-03',
+          total_bytes: 81920,
+          estimated_rows: 120,
+        },
+      ]);
+      expect(response.body.data.archives[0]).toMatchObject({
+        month: '2024-02',
+        row_count: 5000,
+        archived_at: archivedAt.toISOString(),
+      });
+      expect(response.body.data.retention).toEqual({
+        months: config.clickRetention.months,
+        interval_minutes: config.clickRetention.intervalMinutes,
+      });
+    });
+
+    it('should be limited to admins', async () => {
+      await request(app)
+        .get('/api/admin/click-events/partitions')
+        .set('Authorization', `Bearer ${editorToken}`)
+        .expect(403);
+
+      expect(ClickPartitionModel.listPartitions).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('DELETE /api/admin/click-events/sessions/:sessionId', () => {
+    it('should erase the session and recompute its rolled up days', async () => {
+      vi.mocked(ClickEventModel.deleteBySession).mockResolvedValue({
+        clicks: 3,
+        conversions: 1,
+        days: ['2024-03-09', '2024-03-10'],
+      });
+      vi.mocked(ClickRollupModel.getCoverage).mockResolvedValue({
+        from: '2024-01-01',
+        through: '2024-03-09',
+      });
+      vi.mocked(ClickRollupModel.rollUpDay).mockResolvedValue(0);
+
+      const response = await request(app)
+        .delete('/api/admin/click-events/sessions/visitor-session-1')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      expect(response.body.data).toEqual({
+        clicks: 3,
+        conversions: 1,
+        rolled_up_days: ['2024-03-09'],
+      });
+      expect(ClickEventModel.deleteBySession).toHaveBeenCalledWith(
+        'visitor-session-1'
+      );
+      // The 10th isn't rolled up yet
+      expect(ClickRollupModel.rollUpDay).toHaveBeenCalledTimes(1);
+      expect(ClickRollupModel.rollUpDay).toHaveBeenCalledWith('2024-03-09');
+    });
+
+    it('should be limited to admins', async () => {
+      await request(app)
+        .delete('/api/admin/click-events/sessions/visitor-session-1')
+        .set('Authorization', `Bearer ${editorToken}`)
+        .expect(403);
+
+      expect(ClickEventModel.deleteBySession).not.toHaveBeenCalled();
+    });
+  });
 });
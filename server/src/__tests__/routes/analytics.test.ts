@@ -4,6 +4,8 @@ import { createApp } from '../../app.js';
 import { ClickEventModel } from '../../database/models/ClickEvent.js';
 import { AffiliateLinkModel } from '../../database/models/AffiliateLink.js';
 import { AdminUserModel } from '../../database/models/AdminUser.js';
+import { ConversionModel } from '../../database/models/Conversion.js';
+import { clickStream } from '../../utils/clickStream.js';
 import jwt from 'jsonwebtoken';
 import type { Application } from 'express';
 import type { AffiliateLink, AdminUser } from '../../database/models/types.js';
@@ -12,6 +14,11 @@ import type { AffiliateLink, AdminUser } from '../../database/models/types.js';
 vi.mock('../../database/models/ClickEvent.js');
 vi.mock('../../database/models/AffiliateLink.js');
 vi.mock('../../database/models/AdminUser.js');
+vi.mock('../../database/models/Conversion.js');
+
+const auth = vi.hoisted(() => ({
+  tokenExpiresAt: undefined as Date | undefined,
+}));
 
 // Mock the auth middleware
 vi.mock('../../middleware/auth.js', () => ({
@@ -22,6 +29,7 @@ vi.mock('../../middleware/auth.js', () => ({
       name: 'Test Admin',
       role: 'admin',
     };
+    req.tokenExpiresAt = auth.tokenExpiresAt;
     next();
   },
   requireRole: () => (req: any, res: any, next: any) => next(),
@@ -40,6 +48,10 @@ describe('Analytics Routes', () => {
     description: 'Test affiliate link',
     url: 'https://example.com',
     affiliate_url: 'https://affiliate.example.com/ref123',
+    slug: null,
+    url_template: null,
+    destinations: [],
+    sticky_destinations: false,
     category_id: '789e0123-e89b-12d3-a456-426614174002',
     tags: ['test'],
     image_url: null,
@@ -47,6 +59,9 @@ describe('Analytics Routes', () => {
     featured: false,
     status: 'active',
     click_count: 100,
+    publish_at: null,
+    expires_at: null,
+    deleted_at: null,
     created_at: new Date('2024-01-01T00:00:00Z'),
     updated_at: new Date('2024-01-01T00:00:00Z'),
   };
@@ -90,6 +105,15 @@ describe('Analytics Routes', () => {
     // Mock AdminUserModel.findById to return a valid user for authentication
     vi.mocked(AdminUserModel.findById).mockResolvedValue(mockAdminUser);
 
+    // No conversions recorded unless a test says otherwise
+    vi.mocked(ConversionModel.getTotals).mockResolvedValue({
+      conversions: 0,
+      revenue: 0,
+    });
+    vi.mocked(ConversionModel.getStatsByLink).mockResolvedValue([]);
+    vi.mocked(ConversionModel.getStatsByCategory).mockResolvedValue([]);
+    vi.mocked(ConversionModel.getStatsByVariant).mockResolvedValue([]);
+
     // Create a valid JWT token for testing
     authToken = jwt.sign(
       { userId: 'test-user-id', email: 'test@example.com', role: 'admin' },
@@ -151,11 +175,78 @@ describe('Analytics Routes', () => {
         },
       });
 
-      expect(ClickEventModel.getTotalClicks).toHaveBeenCalledWith(undefined);
+      expect(ClickEventModel.getTotalClicks).toHaveBeenCalledWith(undefined, {
+        include_invalid: false,
+      });
       expect(ClickEventModel.getClicksByDateRange).toHaveBeenCalled();
       expect(ClickEventModel.getTopLinksByClicks).toHaveBeenCalled();
     });
 
+    it('should report revenue from recorded conversions', async () => {
+      vi.mocked(ClickEventModel.getTotalClicks).mockResolvedValue(500);
+      vi.mocked(ClickEventModel.getClicksByDateRange).mockResolvedValue([
+        { date: '2024-01-01', clicks: 200 },
+      ]);
+      vi.mocked(ClickEventModel.getTopLinksByClicks).mockResolvedValue(
+        mockTopLinks
+      );
+      vi.mocked(ClickEventModel.getUniqueSessionsCount).mockResolvedValue(250);
+      vi.mocked(ClickEventModel.getClicksByHour).mockResolvedValue(
+        mockClicksByHour
+      );
+      vi.mocked(ConversionModel.getTotals).mockResolvedValue({
+        conversions: 10,
+        revenue: 250,
+      });
+      vi.mocked(ConversionModel.getStatsByLink).mockResolvedValue([
+        {
+          link_id: testLinkId,
+          title: 'Test Link',
+          clicks: 100,
+          conversions: 10,
+          revenue: 250,
+          conversion_rate: 10,
+          epc: 2.5,
+        },
+      ]);
+      vi.mocked(ConversionModel.getStatsByCategory).mockResolvedValue([
+        {
+          category_id: mockAffiliateLink.category_id,
+          name: 'Web Development',
+          slug: 'web-development',
+          clicks: 100,
+          conversions: 10,
+          revenue: 250,
+          conversion_rate: 10,
+          epc: 2.5,
+        },
+      ]);
+
+      const response = await request(app)
+        .get('/api/admin/analytics')
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      const { summary, top_links, category_performance } = response.body.data;
+
+      expect(summary.total_revenue).toBe(250);
+      expect(summary.total_conversions).toBe(10);
+      expect(summary.conversion_rate).toBe(5);
+      expect(summary.epc).toBe(1.25);
+      expect(top_links[0]).toMatchObject({
+        link_id: testLinkId,
+        conversions: 10,
+        revenue: 250,
+        epc: 2.5,
+      });
+      expect(top_links[1]).toMatchObject({ conversions: 0, revenue: 0 });
+      expect(category_performance[0]).toMatchObject({
+        slug: 'web-development',
+        revenue: 250,
+        conversion_rate: 10,
+      });
+    });
+
     it('should handle custom date range', async () => {
       vi.mocked(ClickEventModel.getTotalClicks).mockResolvedValue(100);
       vi.mocked(ClickEventModel.getClicksByDateRange).mockResolvedValue(
@@ -183,7 +274,42 @@ describe('Analytics Routes', () => {
       expect(ClickEventModel.getClicksByDateRange).toHaveBeenCalledWith(
         new Date(startDate),
         new Date(endDate),
-        undefined
+        undefined,
+        { include_invalid: false }
+      );
+    });
+
+    it('should include bot and duplicate clicks when asked to', async () => {
+      vi.mocked(ClickEventModel.getTotalClicks).mockResolvedValue(120);
+      vi.mocked(ClickEventModel.getClicksByDateRange).mockResolvedValue(
+        mockClicksByDate
+      );
+      vi.mocked(ClickEventModel.getTopLinksByClicks).mockResolvedValue([]);
+      vi.mocked(ClickEventModel.getUniqueSessionsCount).mockResolvedValue(50);
+      vi.mocked(ClickEventModel.getClicksByHour).mockResolvedValue([]);
+      vi.mocked(ClickEventModel.getClassificationCounts).mockResolvedValue({
+        valid: 100,
+        bot: 15,
+        duplicate: 5,
+      });
+
+      const response = await request(app)
+        .get('/api/admin/analytics?include_invalid=true')
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      expect(response.body.data.summary.clicks_by_classification).toEqual({
+        valid: 100,
+        bot: 15,
+        duplicate: 5,
+      });
+      expect(ClickEventModel.getTotalClicks).toHaveBeenCalledWith(undefined, {
+        include_invalid: true,
+      });
+      expect(ConversionModel.getStatsByCategory).toHaveBeenCalledWith(
+        expect.any(Date),
+        expect.any(Date),
+        { include_invalid: true }
       );
     });
 
@@ -232,11 +358,14 @@ describe('Analytics Routes', () => {
         .set('Authorization', `Bearer ${authToken}`)
         .expect(200);
 
-      expect(ClickEventModel.getTotalClicks).toHaveBeenCalledWith(testLinkId);
+      expect(ClickEventModel.getTotalClicks).toHaveBeenCalledWith(testLinkId, {
+        include_invalid: false,
+      });
       expect(ClickEventModel.getClicksByDateRange).toHaveBeenCalledWith(
         expect.any(Date),
         expect.any(Date),
-        testLinkId
+        testLinkId,
+        { include_invalid: false }
       );
     });
 
@@ -322,6 +451,292 @@ describe('Analytics Routes', () => {
     });
   });
 
+  describe('GET /api/admin/analytics/clicks', () => {
+    const categoryId = '789e0123-e89b-12d3-a456-426614174002';
+
+    it('should return clicks by date, category and referrer', async () => {
+      vi.mocked(ClickEventModel.getClickTotals).mockResolvedValue({
+        clicks: 33,
+        unique_clicks: 20,
+      });
+      vi.mocked(ClickEventModel.getDailyClickStats).mockResolvedValue([
+        { date: '2024-01-01', clicks: 10, unique_clicks: 6 },
+        { date: '2024-01-02', clicks: 23, unique_clicks: 14 },
+      ]);
+      vi.mocked(ConversionModel.getStatsByCategory).mockResolvedValue([
+        {
+          category_id: categoryId,
+          name: 'Electronics',
+          slug: 'electronics',
+          clicks: 33,
+          conversions: 0,
+          revenue: 0,
+          conversion_rate: 0,
+          epc: 0,
+        },
+      ]);
+      vi.mocked(ClickEventModel.getTopReferrers).mockResolvedValue([
+        { referrer: 'blog.example.com', clicks: 20 },
+        { referrer: 'direct', clicks: 13 },
+      ]);
+
+      const response = await request(app)
+        .get('/api/admin/analytics/clicks')
+        .query({ start_date: '2024-01-01', end_date: '2024-01-02' })
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      expect(response.body).toEqual({
+        success: true,
+        data: {
+          totalClicks: 33,
+          uniqueClicks: 20,
+          clicksByDate: [
+            { date: '2024-01-01', clicks: 10, uniqueClicks: 6 },
+            { date: '2024-01-02', clicks: 23, uniqueClicks: 14 },
+          ],
+          clicksByCategory: [
+            { categoryId, categoryName: 'Electronics', clicks: 33 },
+          ],
+          topReferrers: [
+            { referrer: 'blog.example.com', clicks: 20 },
+            { referrer: 'direct', clicks: 13 },
+          ],
+        },
+      });
+      // A date-only end date covers the whole day
+      expect(ClickEventModel.getClickTotals).toHaveBeenCalledWith(
+        new Date('2024-01-01T00:00:00.000Z'),
+        new Date('2024-01-02T23:59:59.999Z'),
+        undefined,
+        { include_invalid: false }
+      );
+    });
+
+    it('should filter by category', async () => {
+      vi.mocked(ClickEventModel.getClickTotals).mockResolvedValue({
+        clicks: 0,
+        unique_clicks: 0,
+      });
+      vi.mocked(ClickEventModel.getDailyClickStats).mockResolvedValue([]);
+      vi.mocked(ClickEventModel.getTopReferrers).mockResolvedValue([]);
+
+      await request(app)
+        .get(`/api/admin/analytics/clicks?category_id=${categoryId}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      expect(ClickEventModel.getDailyClickStats).toHaveBeenCalledWith(
+        expect.any(Date),
+        expect.any(Date),
+        categoryId,
+        { include_invalid: false }
+      );
+    });
+
+    it('should reject an invalid category', async () => {
+      await request(app)
+        .get('/api/admin/analytics/clicks?category_id=electronics')
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(400);
+    });
+  });
+
+  describe('GET /api/admin/analytics/revenue', () => {
+    it('should return revenue totals, rates and breakdowns', async () => {
+      vi.mocked(ConversionModel.getTotals).mockResolvedValue({
+        conversions: 4,
+        revenue: 120.5,
+      });
+      vi.mocked(ClickEventModel.getClickTotals).mockResolvedValue({
+        clicks: 200,
+        unique_clicks: 150,
+      });
+      vi.mocked(ConversionModel.getRevenueByDate).mockResolvedValue([
+        { date: '2024-01-01', conversions: 4, revenue: 120.5 },
+      ]);
+      vi.mocked(ConversionModel.getStatsByCategory).mockResolvedValue([
+        {
+          category_id: 'category-1',
+          name: 'Electronics',
+          slug: 'electronics',
+          clicks: 200,
+          conversions: 4,
+          revenue: 120.5,
+          conversion_rate: 2,
+          epc: 0.6,
+        },
+      ]);
+
+      const response = await request(app)
+        .get('/api/admin/analytics/revenue')
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      expect(response.body.data).toEqual({
+        totalRevenue: 120.5,
+        totalConversions: 4,
+        conversionRate: 2,
+        earningsPerClick: 0.6,
+        revenueByDate: [{ date: '2024-01-01', revenue: 120.5 }],
+        revenueByCategory: [
+          {
+            categoryId: 'category-1',
+            categoryName: 'Electronics',
+            revenue: 120.5,
+            conversions: 4,
+            earningsPerClick: 0.6,
+          },
+        ],
+      });
+    });
+  });
+
+  describe('GET /api/admin/analytics/links', () => {
+    it('should return the performance of each link', async () => {
+      vi.mocked(ConversionModel.getStatsByLink).mockResolvedValue([
+        {
+          link_id: testLinkId,
+          title: 'Test Link',
+          clicks: 80,
+          unique_clicks: 60,
+          conversions: 2,
+          revenue: 30,
+          conversion_rate: 2.5,
+          epc: 0.38,
+        },
+      ]);
+
+      const response = await request(app)
+        .get('/api/admin/analytics/links')
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      expect(response.body.data).toEqual([
+        {
+          linkId: testLinkId,
+          title: 'Test Link',
+          clicks: 80,
+          uniqueClicks: 60,
+          conversions: 2,
+          conversionRate: 2.5,
+          revenue: 30,
+          earningsPerClick: 0.38,
+          ctr: 75,
+        },
+      ]);
+    });
+  });
+
+  describe('GET /api/admin/analytics/realtime', () => {
+    it("should return today's clicks, revenue and active users", async () => {
+      vi.mocked(ClickEventModel.getClickTotals)
+        .mockResolvedValueOnce({ clicks: 7, unique_clicks: 3 })
+        .mockResolvedValueOnce({ clicks: 42, unique_clicks: 30 });
+      vi.mocked(ConversionModel.getTotals).mockResolvedValue({
+        conversions: 1,
+        revenue: 12.345,
+      });
+      vi.mocked(ClickEventModel.getTopLinksByClicks).mockResolvedValue([
+        { link_id: testLinkId, title: 'Test Link', clicks: 42 },
+      ]);
+
+      const response = await request(app)
+        .get('/api/admin/analytics/realtime')
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      expect(response.body.data).toEqual({
+        activeUsers: 3,
+        clicksToday: 42,
+        revenueToday: 12.35,
+        topLinksToday: [{ linkId: testLinkId, title: 'Test Link', clicks: 42 }],
+      });
+      const [startOfDay] = vi.mocked(ConversionModel.getTotals).mock.calls[0];
+      expect(startOfDay.toISOString()).toMatch(/T00:00:00\.000Z$/);
+    });
+  });
+
+  describe('GET /api/admin/analytics/stream', () => {
+    it('should stream aggregates and recorded clicks as server-sent events', async () => {
+      vi.mocked(ClickEventModel.getClicksByMinute).mockResolvedValue([]);
+      vi.mocked(AffiliateLinkModel.findById).mockResolvedValue(
+        mockAffiliateLink
+      );
+
+      const response = request(app)
+        .get('/api/admin/analytics/stream')
+        .set('Authorization', `Bearer ${authToken}`)
+        .buffer(true)
+        .parse((res, callback) => {
+          let text = '';
+          res.on('data', (chunk: Buffer) => (text += chunk.toString()));
+          res.on('end', () => callback(null, text));
+        })
+        .then((res) => res);
+
+      await vi.waitFor(() => expect(clickStream.subscriberCount).toBe(1));
+      clickStream.publish({
+        id: 'click-1',
+        link_id: testLinkId,
+        timestamp: new Date('2024-01-01T12:00:00Z'),
+        user_agent: 'Mozilla/5.0',
+        referrer: null,
+        ip_address: '203.0.113.7',
+        ip_hash: null,
+        browser: null,
+        os: null,
+        device_type: null,
+        session_id: 'session-1',
+        country_code: null,
+        classification: 'valid',
+        classification_reason: null,
+        variant: null,
+        created_at: new Date('2024-01-01T12:00:00Z'),
+      });
+      await vi.waitFor(() =>
+        expect(AffiliateLinkModel.findById).toHaveBeenCalled()
+      );
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      clickStream.close();
+
+      const { status, headers, body } = await response;
+      expect(status).toBe(200);
+      expect(headers['content-type']).toMatch(/^text\/event-stream/);
+      expect(body).toContain('event: aggregates\ndata: [{"minute":');
+      expect(body).toContain(
+        `event: click\ndata: {"id":"click-1","link_id":"${testLinkId}","title":"Test Link"`
+      );
+      expect(body).not.toContain('203.0.113.7');
+      await vi.waitFor(() => expect(clickStream.subscriberCount).toBe(0));
+    });
+  });
+
+  describe('GET /api/admin/analytics/stream token expiry', () => {
+    afterEach(() => {
+      auth.tokenExpiresAt = undefined;
+    });
+
+    it('should end the stream when the access token expires', async () => {
+      vi.mocked(ClickEventModel.getClicksByMinute).mockResolvedValue([]);
+      auth.tokenExpiresAt = new Date(Date.now() + 100);
+
+      const response = await request(app)
+        .get('/api/admin/analytics/stream')
+        .set('Authorization', `Bearer ${authToken}`)
+        .buffer(true)
+        .parse((res, callback) => {
+          let text = '';
+          res.on('data', (chunk: Buffer) => (text += chunk.toString()));
+          res.on('end', () => callback(null, text));
+        });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toContain('retry: 5000');
+      await vi.waitFor(() => expect(clickStream.subscriberCount).toBe(0));
+    });
+  });
+
   describe('GET /api/admin/analytics/links/:linkId', () => {
     it('should return analytics for specific link', async () => {
       vi.mocked(AffiliateLinkModel.findById).mockResolvedValue(
@@ -358,7 +773,10 @@ describe('Analytics Routes', () => {
             clicks_in_range: expect.any(Number),
             unique_sessions: 50,
             average_clicks_per_day: expect.any(Number),
-            estimated_revenue: expect.any(Number),
+            conversions: expect.any(Number),
+            revenue: expect.any(Number),
+            conversion_rate: expect.any(Number),
+            epc: expect.any(Number),
             date_range: {
               start_date: expect.any(String),
               end_date: expect.any(String),
@@ -366,11 +784,94 @@ describe('Analytics Routes', () => {
           },
           clicks_by_date: mockClicksByDate,
           clicks_by_hour: mockClicksByHour,
+          variants: [],
         },
       });
 
-      expect(AffiliateLinkModel.findById).toHaveBeenCalledWith(testLinkId);
-      expect(ClickEventModel.getTotalClicks).toHaveBeenCalledWith(testLinkId);
+      expect(AffiliateLinkModel.findById).toHaveBeenCalledWith(
+        testLinkId,
+        true
+      );
+      expect(ClickEventModel.getTotalClicks).toHaveBeenCalledWith(testLinkId, {
+        include_invalid: false,
+      });
+    });
+
+    it('should break clicks and conversions down per destination variant', async () => {
+      vi.mocked(AffiliateLinkModel.findById).mockResolvedValue({
+        ...mockAffiliateLink,
+        destinations: [
+          { variant: 'a', url: 'https://merchant-a.example.com', weight: 70 },
+          { variant: 'b', url: 'https://merchant-b.example.com', weight: 30 },
+        ],
+        sticky_destinations: true,
+      });
+      vi.mocked(ClickEventModel.getTotalClicks).mockResolvedValue(100);
+      vi.mocked(ClickEventModel.getClicksByDateRange).mockResolvedValue([]);
+      vi.mocked(ClickEventModel.getClicksByHour).mockResolvedValue([]);
+      vi.mocked(ClickEventModel.getUniqueSessionsCount).mockResolvedValue(50);
+      vi.mocked(ConversionModel.getStatsByVariant).mockResolvedValue([
+        {
+          variant: null,
+          clicks: 10,
+          conversions: 0,
+          revenue: 0,
+          conversion_rate: 0,
+          epc: 0,
+        },
+        {
+          variant: 'a',
+          clicks: 60,
+          conversions: 3,
+          revenue: 45,
+          conversion_rate: 5,
+          epc: 0.75,
+        },
+      ]);
+
+      const response = await request(app)
+        .get(`/api/admin/analytics/links/${testLinkId}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      expect(response.body.data.variants).toEqual([
+        {
+          variant: 'a',
+          url: 'https://merchant-a.example.com',
+          weight: 70,
+          clicks: 60,
+          conversions: 3,
+          revenue: 45,
+          conversion_rate: 5,
+          epc: 0.75,
+        },
+        {
+          variant: 'b',
+          url: 'https://merchant-b.example.com',
+          weight: 30,
+          clicks: 0,
+          conversions: 0,
+          revenue: 0,
+          conversion_rate: 0,
+          epc: 0,
+        },
+        {
+          variant: null,
+          url: 'https://affiliate.example.com/ref123',
+          weight: null,
+          clicks: 10,
+          conversions: 0,
+          revenue: 0,
+          conversion_rate: 0,
+          epc: 0,
+        },
+      ]);
+      expect(ConversionModel.getStatsByVariant).toHaveBeenCalledWith(
+        expect.any(Date),
+        expect.any(Date),
+        testLinkId,
+        { include_invalid: false }
+      );
     });
 
     it('should return 404 for non-existent link', async () => {
@@ -0,0 +1,54 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import request from 'supertest';
+import { createApp } from '../../app.js';
+import { AdminUserModel } from '../../database/models/AdminUser.js';
+import { rateLimitStore } from '../../middleware/security.js';
+import type { Application } from 'express';
+
+vi.mock('../../database/models/AdminUser.js');
+
+vi.mock('../../config/environment.js', async (importOriginal) => {
+  const actual =
+    await importOriginal<typeof import('../../config/environment.js')>();
+  return {
+    ...actual,
+    config: {
+      ...actual.config,
+      rateLimit: {
+        ...actual.config.rateLimit,
+        login: { windowMs: 60000, maxRequests: 3 },
+      },
+    },
+  };
+});
+
+describe('POST /api/auth/login rate limiting', () => {
+  let app: Application;
+
+  const login = () =>
+    request(app)
+      .post('/api/auth/login')
+      .send({ email: 'admin@example.com', password: 'wrong-password' });
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    await rateLimitStore.resetAll();
+    vi.mocked(AdminUserModel.findByEmail).mockResolvedValue(null);
+    app = createApp();
+  });
+
+  it('should block an IP after too many failed logins', async () => {
+    for (let attempt = 0; attempt < 3; attempt++) {
+      await login().expect(401);
+    }
+
+    const response = await login().expect(429);
+
+    expect(response.body).toEqual({
+      success: false,
+      error: 'Too many login attempts, please try again later.',
+    });
+    expect(response.headers['ratelimit-limit']).toBe('3');
+    expect(AdminUserModel.findByEmail).toHaveBeenCalledTimes(3);
+  });
+});
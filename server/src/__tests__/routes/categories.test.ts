@@ -18,6 +18,7 @@ describe('Categories API Routes', () => {
     description: 'A test category description',
     color: '#3B82F6',
     icon: 'test-icon',
+    url_template: null,
     created_at: new Date('2024-01-01T00:00:00Z'),
     updated_at: new Date('2024-01-01T00:00:00Z'),
   };
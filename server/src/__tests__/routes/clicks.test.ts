@@ -1,14 +1,34 @@
 import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
 import request from 'supertest';
+import crypto from 'crypto';
 import { createApp } from '../../app.js';
 import { ClickEventModel } from '../../database/models/ClickEvent.js';
 import { AffiliateLinkModel } from '../../database/models/AffiliateLink.js';
+import { CategoryModel } from '../../database/models/Category.js';
+import { logger } from '../../utils/logger.js';
 import type { Application } from 'express';
-import type { ClickEvent, AffiliateLink } from '../../database/models/types.js';
+import type {
+  ClickEvent,
+  AffiliateLink,
+  Category,
+} from '../../database/models/types.js';
 
 // Mock the database models
 vi.mock('../../database/models/ClickEvent.js');
 vi.mock('../../database/models/AffiliateLink.js');
+vi.mock('../../database/models/Category.js');
+
+vi.mock('../../config/environment.js', async (importOriginal) => {
+  const actual =
+    await importOriginal<typeof import('../../config/environment.js')>();
+  return {
+    ...actual,
+    config: {
+      ...actual.config,
+      edge: { ...actual.config.edge, token: 'edge-token' },
+    },
+  };
+});
 
 describe('Clicks Routes', () => {
   let app: Application;
@@ -22,17 +42,35 @@ describe('Clicks Routes', () => {
     user_agent: 'Mozilla/5.0 Test Browser',
     referrer: 'https://test-referrer.com',
     ip_address: '127.0.0.1',
+    ip_hash: null,
+    browser: null,
+    os: null,
+    device_type: null,
     session_id: 'test-session-123',
     country_code: 'US',
+    classification: 'valid',
+    classification_reason: null,
+    variant: null,
     created_at: new Date('2024-01-01T00:00:00Z'),
   };
 
+  // How a user agent the parser doesn't know is stored by default
+  const unknownBrowser = {
+    browser: 'Other',
+    os: 'Other',
+    device_type: 'other',
+  };
+
   const mockAffiliateLink: AffiliateLink = {
     id: testLinkId,
     title: 'Test Link',
     description: 'Test affiliate link',
     url: 'https://example.com',
     affiliate_url: 'https://affiliate.example.com/ref123',
+    slug: null,
+    url_template: null,
+    destinations: [],
+    sticky_destinations: false,
     category_id: '789e0123-e89b-12d3-a456-426614174002',
     tags: ['test'],
     image_url: null,
@@ -40,6 +78,9 @@ describe('Clicks Routes', () => {
     featured: false,
     status: 'active',
     click_count: 0,
+    publish_at: null,
+    expires_at: null,
+    deleted_at: null,
     created_at: new Date('2024-01-01T00:00:00Z'),
     updated_at: new Date('2024-01-01T00:00:00Z'),
   };
@@ -55,9 +96,9 @@ describe('Clicks Routes', () => {
     app = createApp();
     vi.clearAllMocks();
 
-    // Clear rate limiting map between tests
-    const { clickRateLimit } = await import('../../routes/clicks.js');
-    clickRateLimit.clear();
+    // Clear rate limit counters between tests
+    const { rateLimitStore } = await import('../../middleware/security.js');
+    await rateLimitStore.resetAll();
   });
 
   afterEach(() => {
@@ -68,7 +109,6 @@ describe('Clicks Routes', () => {
     it('should record a click event successfully', async () => {
       vi.mocked(AffiliateLinkModel.exists).mockResolvedValue(true);
       vi.mocked(ClickEventModel.create).mockResolvedValue(mockClickEvent);
-      vi.mocked(AffiliateLinkModel.incrementClickCount).mockResolvedValue();
 
       const clickData = {
         link_id: testLinkId,
@@ -92,14 +132,128 @@ describe('Clicks Routes', () => {
       expect(AffiliateLinkModel.exists).toHaveBeenCalledWith(testLinkId);
       expect(ClickEventModel.create).toHaveBeenCalledWith({
         link_id: testLinkId,
-        user_agent: clickData.user_agent,
+        ...unknownBrowser,
         referrer: clickData.referrer,
         ip_address: expect.any(String),
         session_id: clickData.session_id,
         country_code: clickData.country_code,
+        classification: 'valid',
+        classification_reason: null,
+      });
+    });
+
+    it('should record prefetches as bot clicks', async () => {
+      vi.mocked(AffiliateLinkModel.exists).mockResolvedValue(true);
+      vi.mocked(ClickEventModel.create).mockResolvedValue({
+        ...mockClickEvent,
+        classification: 'bot',
+        classification_reason: 'prefetch',
+      });
+
+      const response = await request(app)
+        .post('/api/clicks')
+        .set('Sec-Purpose', 'prefetch;prerender')
+        .send({ link_id: testLinkId, user_agent: 'Mozilla/5.0 Test Browser' })
+        .expect(201);
+
+      expect(response.body.classification).toBe('bot');
+      expect(ClickEventModel.hasRecentSessionClick).not.toHaveBeenCalled();
+      expect(ClickEventModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          classification: 'bot',
+          classification_reason: 'prefetch',
+        })
+      );
+    });
+
+    it('should record repeat clicks as duplicates', async () => {
+      vi.mocked(AffiliateLinkModel.exists).mockResolvedValue(true);
+      vi.mocked(ClickEventModel.hasRecentSessionClick).mockResolvedValue(true);
+      vi.mocked(ClickEventModel.create).mockResolvedValue(mockClickEvent);
+
+      const response = await request(app)
+        .post('/api/clicks')
+        .send({
+          link_id: testLinkId,
+          user_agent: 'Mozilla/5.0 Test Browser',
+          session_id: 'test-session-123',
+        })
+        .expect(201);
+
+      expect(response.body.classification).toBe('duplicate');
+      expect(ClickEventModel.hasRecentSessionClick).toHaveBeenCalledWith(
+        testLinkId,
+        'test-session-123',
+        30
+      );
+    });
+
+    it('should count clicks by IP in full, not as stored', async () => {
+      vi.mocked(AffiliateLinkModel.exists).mockResolvedValue(true);
+      vi.mocked(ClickEventModel.create).mockResolvedValue(mockClickEvent);
+
+      const click = (ip: string, sessionId: string) =>
+        request(app)
+          .post('/api/clicks')
+          .set('X-Forwarded-For', ip)
+          .send({
+            link_id: testLinkId,
+            user_agent: 'Mozilla/5.0 Test Browser',
+            session_id: sessionId,
+          })
+          .expect(201);
+
+      // Both are stored as 203.0.113.0
+      expect(
+        (await click('203.0.113.7', 'session-1')).body.classification
+      ).toBe('valid');
+      expect(
+        (await click('203.0.113.8', 'session-2')).body.classification
+      ).toBe('valid');
+      expect((await click('203.0.113.7', 'session-3')).body).toMatchObject({
+        classification: 'duplicate',
+      });
+      expect(ClickEventModel.create).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          ip_address: '203.0.113.0',
+          classification: 'duplicate',
+          classification_reason: 'same_ip',
+        })
+      );
+    });
+
+    it('should store no IP for visitors sending Do Not Track or GPC', async () => {
+      vi.mocked(AffiliateLinkModel.exists).mockResolvedValue(true);
+      vi.mocked(ClickEventModel.create).mockResolvedValue(mockClickEvent);
+
+      await request(app)
+        .post('/api/clicks')
+        .set('Sec-GPC', '1')
+        .send({ link_id: testLinkId, user_agent: 'Mozilla/5.0 Test Browser' })
+        .expect(201);
+
+      const [input] = vi.mocked(ClickEventModel.create).mock.calls[0];
+      expect(input.ip_address).toBeUndefined();
+      expect(input.ip_hash).toBeUndefined();
+      expect(input).toMatchObject({
+        ...unknownBrowser,
+        classification: 'valid',
       });
-      expect(AffiliateLinkModel.incrementClickCount).toHaveBeenCalledWith(
-        testLinkId
+    });
+
+    it('should not log the visitor IP', async () => {
+      vi.mocked(AffiliateLinkModel.exists).mockResolvedValue(true);
+      vi.mocked(ClickEventModel.create).mockResolvedValue(mockClickEvent);
+      const info = vi.spyOn(logger, 'info');
+
+      await request(app)
+        .post('/api/clicks')
+        .send({ link_id: testLinkId, user_agent: 'Mozilla/5.0 Test Browser' })
+        .expect(201);
+
+      expect(info).toHaveBeenCalledWith(
+        'Click event recorded',
+        expect.not.objectContaining({ ip: expect.anything() })
       );
     });
 
@@ -110,7 +264,6 @@ describe('Clicks Routes', () => {
         user_agent: 'Test Browser',
         referrer: 'https://test.com',
       });
-      vi.mocked(AffiliateLinkModel.incrementClickCount).mockResolvedValue();
 
       const clickData = {
         link_id: testLinkId,
@@ -127,11 +280,13 @@ describe('Clicks Routes', () => {
 
       expect(ClickEventModel.create).toHaveBeenCalledWith({
         link_id: testLinkId,
-        user_agent: 'Test Browser',
+        ...unknownBrowser,
         referrer: 'https://test.com',
         ip_address: expect.any(String),
         session_id: expect.any(String),
         country_code: undefined,
+        classification: 'valid',
+        classification_reason: null,
       });
     });
 
@@ -189,7 +344,6 @@ describe('Clicks Routes', () => {
     it('should accept empty referrer', async () => {
       vi.mocked(AffiliateLinkModel.exists).mockResolvedValue(true);
       vi.mocked(ClickEventModel.create).mockResolvedValue(mockClickEvent);
-      vi.mocked(AffiliateLinkModel.incrementClickCount).mockResolvedValue();
 
       const clickData = {
         link_id: testLinkId,
@@ -216,7 +370,6 @@ describe('Clicks Routes', () => {
     it('should handle rate limiting', async () => {
       vi.mocked(AffiliateLinkModel.exists).mockResolvedValue(true);
       vi.mocked(ClickEventModel.create).mockResolvedValue(mockClickEvent);
-      vi.mocked(AffiliateLinkModel.incrementClickCount).mockResolvedValue();
 
       const clickData = {
         link_id: testLinkId,
@@ -238,13 +391,370 @@ describe('Clicks Routes', () => {
     });
   });
 
+  describe('POST /api/clicks/batch', () => {
+    const unknownLinkId = '999e9999-e89b-12d3-a456-426614174009';
+    const browser = 'Mozilla/5.0 Test Browser';
+
+    const queuedClick = (overrides: Record<string, unknown> = {}) => ({
+      linkId: testLinkId,
+      timestamp: new Date().toISOString(),
+      userAgent: browser,
+      sessionId: 'test-session-123',
+      idempotencyKey: crypto.randomUUID(),
+      ...overrides,
+    });
+
+    beforeEach(() => {
+      vi.mocked(AffiliateLinkModel.exists).mockImplementation(
+        async (id) => id === testLinkId
+      );
+      vi.mocked(ClickEventModel.createMany).mockImplementation(async (inputs) =>
+        inputs.map((input, i) => ({
+          click: {
+            ...mockClickEvent,
+            id: `click-${i}`,
+            classification: input.classification ?? 'valid',
+          },
+          duplicate: false,
+        }))
+      );
+    });
+
+    it('should record every valid event in one call with per-event results', async () => {
+      const clientTime = new Date(Date.now() - 60 * 1000).toISOString();
+
+      const response = await request(app)
+        .post('/api/clicks/batch')
+        .send({
+          clicks: [
+            queuedClick({ timestamp: clientTime, idempotencyKey: 'key-1' }),
+            queuedClick({ linkId: 'not-a-uuid' }),
+            queuedClick({ linkId: unknownLinkId }),
+          ],
+        })
+        .expect(200);
+
+      expect(response.body.summary).toEqual({
+        recorded: 1,
+        already_recorded: 0,
+        rejected: 2,
+      });
+      expect(response.body.results).toEqual([
+        {
+          index: 0,
+          status: 'recorded',
+          click_event_id: 'click-0',
+          classification: 'valid',
+        },
+        expect.objectContaining({
+          index: 1,
+          status: 'rejected',
+          error: 'Validation failed',
+        }),
+        { index: 2, status: 'rejected', error: 'Link not found' },
+      ]);
+      expect(ClickEventModel.createMany).toHaveBeenCalledTimes(1);
+      expect(ClickEventModel.createMany).toHaveBeenCalledWith([
+        expect.objectContaining({
+          link_id: testLinkId,
+          ...unknownBrowser,
+          session_id: 'test-session-123',
+          timestamp: new Date(clientTime),
+          idempotency_key: 'key-1',
+        }),
+      ]);
+    });
+
+    it('should accept sendBeacon text/plain payloads', async () => {
+      const response = await request(app)
+        .post('/api/clicks/batch')
+        .set('Content-Type', 'text/plain;charset=UTF-8')
+        .send(JSON.stringify({ clicks: [queuedClick()] }))
+        .expect(200);
+
+      expect(response.body.summary.recorded).toBe(1);
+    });
+
+    it('should report events recorded by an earlier flush', async () => {
+      vi.mocked(ClickEventModel.createMany).mockResolvedValue([
+        { click: mockClickEvent, duplicate: true },
+      ]);
+
+      const response = await request(app)
+        .post('/api/clicks/batch')
+        .send({ clicks: [queuedClick({ idempotencyKey: 'key-1' })] })
+        .expect(200);
+
+      expect(response.body.results[0]).toMatchObject({
+        status: 'already_recorded',
+        click_event_id: mockClickEvent.id,
+      });
+    });
+
+    it('should report already recorded clicks that were erased since', async () => {
+      vi.mocked(ClickEventModel.createMany).mockResolvedValue([
+        { click: null, duplicate: true },
+        { click: mockClickEvent, duplicate: false },
+      ]);
+
+      const response = await request(app)
+        .post('/api/clicks/batch')
+        .send({
+          clicks: [
+            queuedClick({ idempotencyKey: 'key-1' }),
+            queuedClick({ idempotencyKey: 'key-2' }),
+          ],
+        })
+        .expect(200);
+
+      expect(response.body.results).toEqual([
+        {
+          index: 0,
+          status: 'already_recorded',
+          click_event_id: null,
+          classification: null,
+        },
+        expect.objectContaining({ index: 1, status: 'recorded' }),
+      ]);
+    });
+
+    it('should mark repeat clicks within the batch as duplicates', async () => {
+      await request(app)
+        .post('/api/clicks/batch')
+        .send({ clicks: [queuedClick(), queuedClick()] })
+        .expect(200);
+
+      expect(ClickEventModel.createMany).toHaveBeenCalledWith([
+        expect.objectContaining({ classification: 'valid' }),
+        expect.objectContaining({
+          classification: 'duplicate',
+          classification_reason: 'same_session',
+        }),
+      ]);
+    });
+
+    it('should count clicks without a session in the same batch', async () => {
+      await request(app)
+        .post('/api/clicks/batch')
+        .send({
+          clicks: [
+            queuedClick({ sessionId: undefined }),
+            queuedClick({ sessionId: undefined }),
+          ],
+        })
+        .expect(200);
+
+      expect(ClickEventModel.createMany).toHaveBeenCalledWith([
+        expect.objectContaining({ classification: 'valid' }),
+        expect.objectContaining({ classification: 'valid' }),
+      ]);
+    });
+
+    it('should clamp future timestamps and reject stale ones', async () => {
+      const future = new Date(Date.now() + 60 * 60 * 1000).toISOString();
+      const stale = new Date(
+        Date.now() - 2 * 24 * 60 * 60 * 1000
+      ).toISOString();
+
+      const response = await request(app)
+        .post('/api/clicks/batch')
+        .send({
+          clicks: [
+            queuedClick({ timestamp: future }),
+            queuedClick({ timestamp: stale, sessionId: 'other-session' }),
+          ],
+        })
+        .expect(200);
+
+      expect(response.body.results[1]).toEqual({
+        index: 1,
+        status: 'rejected',
+        error: 'Click too old',
+      });
+      const [[inputs]] = vi.mocked(ClickEventModel.createMany).mock.calls;
+      expect(inputs[0].timestamp!.getTime()).toBeLessThanOrEqual(Date.now());
+    });
+
+    it('should reject malformed and oversized batches', async () => {
+      await request(app)
+        .post('/api/clicks/batch')
+        .set('Content-Type', 'text/plain')
+        .send('not json')
+        .expect(400);
+      await request(app)
+        .post('/api/clicks/batch')
+        .send({ clicks: [] })
+        .expect(400);
+      await request(app)
+        .post('/api/clicks/batch')
+        .send({ clicks: Array.from({ length: 51 }, () => queuedClick()) })
+        .expect(400);
+
+      expect(ClickEventModel.createMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/clicks/edge', () => {
+    const edgeClick = () => ({
+      link_id: testLinkId,
+      timestamp: new Date().toISOString(),
+      ip_address: '203.0.113.7',
+      user_agent: 'Mozilla/5.0 Test Browser',
+      referrer: 'https://test-referrer.com',
+      country_code: 'JP',
+      idempotency_key: 'edge-click-1',
+    });
+
+    beforeEach(() => {
+      vi.mocked(AffiliateLinkModel.exists).mockResolvedValue(true);
+      vi.mocked(ClickEventModel.hasRecentSessionClick).mockResolvedValue(false);
+      vi.mocked(ClickEventModel.createMany).mockImplementation(async (inputs) =>
+        inputs.map((input) => ({
+          click: { ...mockClickEvent, ...input } as ClickEvent,
+          duplicate: false,
+        }))
+      );
+    });
+
+    it('should record the visitor details sent by the worker', async () => {
+      const response = await request(app)
+        .post('/api/clicks/edge')
+        .set('Authorization', 'Bearer edge-token')
+        .send(edgeClick())
+        .expect(201);
+
+      expect(response.body).toMatchObject({
+        success: true,
+        status: 'recorded',
+        classification: 'valid',
+      });
+      expect(ClickEventModel.createMany).toHaveBeenCalledWith([
+        expect.objectContaining({
+          link_id: testLinkId,
+          // Truncated and reduced by default
+          ip_address: '203.0.113.0',
+          ...unknownBrowser,
+          country_code: 'JP',
+          session_id: expect.any(String),
+          idempotency_key: 'edge-click-1',
+          timestamp: expect.any(Date),
+        }),
+      ]);
+    });
+
+    it('should keep the click ID the worker put in the outbound URL', async () => {
+      const clickId = crypto.randomUUID();
+
+      await request(app)
+        .post('/api/clicks/edge')
+        .set('Authorization', 'Bearer edge-token')
+        .send({ ...edgeClick(), idempotency_key: clickId, click_id: clickId })
+        .expect(201);
+
+      expect(ClickEventModel.createMany).toHaveBeenCalledWith([
+        expect.objectContaining({ id: clickId, idempotency_key: clickId }),
+      ]);
+    });
+
+    it('should record the destination variant the worker chose', async () => {
+      await request(app)
+        .post('/api/clicks/edge')
+        .set('Authorization', 'Bearer edge-token')
+        .send({ ...edgeClick(), variant: 'spring-b' })
+        .expect(201);
+
+      expect(ClickEventModel.createMany).toHaveBeenCalledWith([
+        expect.objectContaining({ variant: 'spring-b' }),
+      ]);
+
+      await request(app)
+        .post('/api/clicks/edge')
+        .set('Authorization', 'Bearer edge-token')
+        .send({ ...edgeClick(), variant: 'Spring B' })
+        .expect(400);
+    });
+
+    it('should classify prefetches from the forwarded headers', async () => {
+      await request(app)
+        .post('/api/clicks/edge')
+        .set('Authorization', 'Bearer edge-token')
+        .send({ ...edgeClick(), headers: { 'sec-purpose': 'prefetch' } })
+        .expect(201);
+
+      expect(ClickEventModel.createMany).toHaveBeenCalledWith([
+        expect.objectContaining({
+          classification: 'bot',
+          classification_reason: 'prefetch',
+        }),
+      ]);
+    });
+
+    it('should report pushes that were already recorded', async () => {
+      vi.mocked(ClickEventModel.createMany).mockResolvedValue([
+        { click: mockClickEvent, duplicate: true },
+      ]);
+
+      const response = await request(app)
+        .post('/api/clicks/edge')
+        .set('Authorization', 'Bearer edge-token')
+        .send(edgeClick())
+        .expect(200);
+
+      expect(response.body.status).toBe('already_recorded');
+    });
+
+    it('should reject requests without the edge token', async () => {
+      await request(app).post('/api/clicks/edge').send(edgeClick()).expect(401);
+      await request(app)
+        .post('/api/clicks/edge')
+        .set('Authorization', 'Bearer wrong-token')
+        .send(edgeClick())
+        .expect(401);
+
+      expect(ClickEventModel.createMany).not.toHaveBeenCalled();
+    });
+
+    it('should validate the click', async () => {
+      await request(app)
+        .post('/api/clicks/edge')
+        .set('Authorization', 'Bearer edge-token')
+        .send({ ...edgeClick(), ip_address: 'not-an-ip' })
+        .expect(400);
+
+      await request(app)
+        .post('/api/clicks/edge')
+        .set('Authorization', 'Bearer edge-token')
+        .send({
+          ...edgeClick(),
+          timestamp: new Date(Date.now() - 25 * 60 * 60 * 1000).toISOString(),
+        })
+        .expect(400);
+
+      expect(ClickEventModel.createMany).not.toHaveBeenCalled();
+    });
+
+    it('should not count edge pushes against the per-IP limit', async () => {
+      const edgeResponse = await request(app)
+        .post('/api/clicks/edge')
+        .set('Authorization', 'Bearer edge-token')
+        .send(edgeClick())
+        .expect(201);
+      const unauthorizedResponse = await request(app)
+        .post('/api/clicks/edge')
+        .send(edgeClick())
+        .expect(401);
+
+      expect(edgeResponse.headers['ratelimit-limit']).toBeUndefined();
+      expect(unauthorizedResponse.headers['ratelimit-limit']).toBeDefined();
+    });
+  });
+
   describe('GET /api/redirect/:linkId', () => {
     it('should redirect to affiliate URL and track click', async () => {
       vi.mocked(AffiliateLinkModel.findById).mockResolvedValue(
         mockAffiliateLink
       );
       vi.mocked(ClickEventModel.create).mockResolvedValue(mockClickEvent);
-      vi.mocked(AffiliateLinkModel.incrementClickCount).mockResolvedValue();
 
       const response = await request(app)
         .get(`/api/redirect/${testLinkId}`)
@@ -259,14 +769,57 @@ describe('Clicks Routes', () => {
       expect(AffiliateLinkModel.findById).toHaveBeenCalledWith(testLinkId);
       expect(ClickEventModel.create).toHaveBeenCalledWith({
         link_id: testLinkId,
-        user_agent: 'Test Browser',
+        ...unknownBrowser,
         referrer: 'https://test.com',
         ip_address: expect.any(String),
         session_id: expect.any(String),
         country_code: undefined,
+        classification: 'valid',
+        classification_reason: null,
+        variant: null,
+      });
+    });
+
+    it("should expand the link's URL template for the click", async () => {
+      vi.mocked(AffiliateLinkModel.findById).mockResolvedValue({
+        ...mockAffiliateLink,
+        url_template:
+          '{affiliate_url}&subid={click_id}&sid={session_id}&utm_source={referrer_host}&c={utm_campaign}',
       });
-      expect(AffiliateLinkModel.incrementClickCount).toHaveBeenCalledWith(
-        testLinkId
+      vi.mocked(ClickEventModel.create).mockResolvedValue(mockClickEvent);
+
+      const response = await request(app)
+        .get(
+          `/api/redirect/${testLinkId}?session_id=s-1&utm_campaign=spring%20sale`
+        )
+        .set('User-Agent', 'Test Browser')
+        .set('Referer', 'https://blog.example.com/post')
+        .expect(302);
+
+      expect(response.headers.location).toBe(
+        'https://affiliate.example.com/ref123?subid=click-123&sid=s-1&utm_source=blog.example.com&c=spring%20sale'
+      );
+      expect(CategoryModel.findById).not.toHaveBeenCalled();
+    });
+
+    it("should fall back to the category's URL template", async () => {
+      vi.mocked(AffiliateLinkModel.findById).mockResolvedValue(
+        mockAffiliateLink
+      );
+      vi.mocked(CategoryModel.findById).mockResolvedValue({
+        url_template: '{affiliate_url}&link={link_id}',
+      } as Category);
+      vi.mocked(ClickEventModel.create).mockResolvedValue(mockClickEvent);
+
+      const response = await request(app)
+        .get(`/api/redirect/${testLinkId}`)
+        .expect(302);
+
+      expect(CategoryModel.findById).toHaveBeenCalledWith(
+        mockAffiliateLink.category_id
+      );
+      expect(response.headers.location).toBe(
+        `https://affiliate.example.com/ref123?link=${testLinkId}`
       );
     });
 
@@ -275,7 +828,6 @@ describe('Clicks Routes', () => {
         mockAffiliateLink
       );
       vi.mocked(ClickEventModel.create).mockResolvedValue(mockClickEvent);
-      vi.mocked(AffiliateLinkModel.incrementClickCount).mockResolvedValue();
 
       const sessionId = 'custom-session-123';
 
@@ -290,15 +842,61 @@ describe('Clicks Routes', () => {
         ip_address: expect.any(String),
         session_id: sessionId,
         country_code: undefined,
+        classification: 'bot',
+        classification_reason: 'user_agent',
+        variant: null,
       });
     });
 
+    it('should send the click to a weighted destination and record its variant', async () => {
+      vi.mocked(AffiliateLinkModel.findById).mockResolvedValue({
+        ...mockAffiliateLink,
+        destinations: [
+          { variant: 'a', url: 'https://merchant-a.example.com/', weight: 1 },
+          { variant: 'b', url: 'https://merchant-b.example.com/', weight: 3 },
+        ],
+      });
+      vi.mocked(ClickEventModel.create).mockResolvedValue(mockClickEvent);
+      vi.spyOn(Math, 'random').mockReturnValue(0.5);
+
+      const response = await request(app)
+        .get(`/api/redirect/${testLinkId}`)
+        .expect(302);
+
+      expect(response.headers.location).toBe('https://merchant-b.example.com/');
+      expect(ClickEventModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({ variant: 'b' })
+      );
+      vi.mocked(Math.random).mockRestore();
+    });
+
+    it('should keep sessions on one destination for sticky links', async () => {
+      vi.mocked(AffiliateLinkModel.findById).mockResolvedValue({
+        ...mockAffiliateLink,
+        destinations: [
+          { variant: 'a', url: 'https://merchant-a.example.com/', weight: 1 },
+          { variant: 'b', url: 'https://merchant-b.example.com/', weight: 1 },
+        ],
+        sticky_destinations: true,
+      });
+      vi.mocked(ClickEventModel.create).mockResolvedValue(mockClickEvent);
+
+      const locations = new Set<string>();
+      for (let i = 0; i < 3; i++) {
+        const response = await request(app)
+          .get(`/api/redirect/${testLinkId}?session_id=sticky-session`)
+          .expect(302);
+        locations.add(response.headers.location);
+      }
+
+      expect(locations.size).toBe(1);
+    });
+
     it('should redirect with country query parameter', async () => {
       vi.mocked(AffiliateLinkModel.findById).mockResolvedValue(
         mockAffiliateLink
       );
       vi.mocked(ClickEventModel.create).mockResolvedValue(mockClickEvent);
-      vi.mocked(AffiliateLinkModel.incrementClickCount).mockResolvedValue();
 
       const country = 'CA';
 
@@ -313,6 +911,9 @@ describe('Clicks Routes', () => {
         ip_address: expect.any(String),
         session_id: expect.any(String),
         country_code: country,
+        classification: 'bot',
+        classification_reason: 'user_agent',
+        variant: null,
       });
     });
 
@@ -363,6 +964,38 @@ describe('Clicks Routes', () => {
       expect(ClickEventModel.create).not.toHaveBeenCalled();
     });
 
+    it('should return 410 for an expired link', async () => {
+      vi.mocked(AffiliateLinkModel.findById).mockResolvedValue({
+        ...mockAffiliateLink,
+        expires_at: new Date(Date.now() - 60 * 1000),
+      });
+
+      const response = await request(app)
+        .get(`/api/redirect/${testLinkId}`)
+        .expect(410);
+
+      expect(response.body.message).toBe(
+        'This affiliate link is no longer available.'
+      );
+      expect(ClickEventModel.create).not.toHaveBeenCalled();
+    });
+
+    it('should return 410 for a link that is not published yet', async () => {
+      vi.mocked(AffiliateLinkModel.findById).mockResolvedValue({
+        ...mockAffiliateLink,
+        publish_at: new Date(Date.now() + 60 * 1000),
+      });
+
+      const response = await request(app)
+        .get(`/api/redirect/${testLinkId}`)
+        .expect(410);
+
+      expect(response.body.message).toBe(
+        'This affiliate link is not available yet.'
+      );
+      expect(ClickEventModel.create).not.toHaveBeenCalled();
+    });
+
     it('should still redirect even if click tracking fails', async () => {
       vi.mocked(AffiliateLinkModel.findById).mockResolvedValue(
         mockAffiliateLink
@@ -370,7 +1003,6 @@ describe('Clicks Routes', () => {
       vi.mocked(ClickEventModel.create).mockRejectedValue(
         new Error('Database error')
       );
-      vi.mocked(AffiliateLinkModel.incrementClickCount).mockResolvedValue();
 
       const response = await request(app)
         .get(`/api/redirect/${testLinkId}`)
@@ -387,7 +1019,6 @@ describe('Clicks Routes', () => {
         mockAffiliateLink
       );
       vi.mocked(ClickEventModel.create).mockResolvedValue(mockClickEvent);
-      vi.mocked(AffiliateLinkModel.incrementClickCount).mockResolvedValue();
 
       // Make multiple redirect requests quickly
       const requests = Array(12)
@@ -405,18 +1036,71 @@ describe('Clicks Routes', () => {
     });
   });
 
+  describe('GET /go/:slug', () => {
+    const slugLink: AffiliateLink = {
+      ...mockAffiliateLink,
+      slug: 'summer-sale',
+    };
+
+    it('should redirect by slug and track the click', async () => {
+      vi.mocked(AffiliateLinkModel.findBySlug).mockResolvedValue(slugLink);
+      vi.mocked(ClickEventModel.create).mockResolvedValue(mockClickEvent);
+
+      const response = await request(app)
+        .get('/go/Summer-Sale?session_id=custom-session-123')
+        .set('User-Agent', 'Test Browser')
+        .expect(302);
+
+      expect(response.headers.location).toBe(
+        'https://affiliate.example.com/ref123'
+      );
+      expect(AffiliateLinkModel.findBySlug).toHaveBeenCalledWith('summer-sale');
+      expect(ClickEventModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          link_id: testLinkId,
+          session_id: 'custom-session-123',
+          classification: 'valid',
+        })
+      );
+    });
+
+    it('should return 404 for unknown or malformed slugs', async () => {
+      vi.mocked(AffiliateLinkModel.findBySlug).mockResolvedValue(null);
+
+      await request(app).get('/go/missing').expect(404);
+      const response = await request(app).get('/go/not_a_slug').expect(404);
+
+      expect(response.body.error).toBe('Link not found');
+      expect(AffiliateLinkModel.findBySlug).toHaveBeenCalledTimes(1);
+      expect(ClickEventModel.create).not.toHaveBeenCalled();
+    });
+
+    it('should apply the same status checks as the UUID redirect', async () => {
+      vi.mocked(AffiliateLinkModel.findBySlug).mockResolvedValue({
+        ...slugLink,
+        status: 'inactive',
+      });
+
+      const response = await request(app).get('/go/summer-sale').expect(410);
+
+      expect(response.body.error).toBe('Link unavailable');
+      expect(ClickEventModel.create).not.toHaveBeenCalled();
+    });
+  });
+
   describe('Click tracking accuracy', () => {
     it('should accurately track multiple clicks from different sessions', async () => {
       vi.mocked(AffiliateLinkModel.exists).mockResolvedValue(true);
       vi.mocked(ClickEventModel.create).mockResolvedValue(mockClickEvent);
-      vi.mocked(AffiliateLinkModel.incrementClickCount).mockResolvedValue();
 
       const sessions = ['session-1', 'session-2', 'session-3'];
 
-      // Record clicks from different sessions
-      for (const sessionId of sessions) {
+      // Record clicks from different sessions, each from its own IP on one
+      // network
+      for (const [index, sessionId] of sessions.entries()) {
         await request(app)
           .post('/api/clicks')
+          .set('X-Forwarded-For', `203.0.113.${index + 1}`)
           .send({
             link_id: testLinkId,
             session_id: sessionId,
@@ -427,17 +1111,18 @@ describe('Clicks Routes', () => {
 
       // Verify all clicks were attempted to be recorded
       expect(ClickEventModel.create).toHaveBeenCalledTimes(3);
-      expect(AffiliateLinkModel.incrementClickCount).toHaveBeenCalledTimes(3);
 
       // Verify each session was recorded correctly
       sessions.forEach((sessionId, index) => {
         expect(ClickEventModel.create).toHaveBeenNthCalledWith(index + 1, {
           link_id: testLinkId,
-          user_agent: `Browser-${sessionId}`,
+          ...unknownBrowser,
           referrer: undefined,
-          ip_address: expect.any(String),
+          ip_address: '203.0.113.0',
           session_id: sessionId,
           country_code: undefined,
+          classification: 'valid',
+          classification_reason: null,
         });
       });
     });
@@ -445,7 +1130,6 @@ describe('Clicks Routes', () => {
     it('should track performance metrics correctly', async () => {
       vi.mocked(AffiliateLinkModel.exists).mockResolvedValue(true);
       vi.mocked(ClickEventModel.create).mockResolvedValue(mockClickEvent);
-      vi.mocked(AffiliateLinkModel.incrementClickCount).mockResolvedValue();
 
       // Record some clicks
       await request(app)
@@ -460,7 +1144,6 @@ describe('Clicks Routes', () => {
 
       // Verify clicks were recorded
       expect(ClickEventModel.create).toHaveBeenCalledTimes(2);
-      expect(AffiliateLinkModel.incrementClickCount).toHaveBeenCalledTimes(2);
     });
   });
 });
@@ -20,6 +20,10 @@ describe('Links API Routes', () => {
     description: 'A test affiliate link description',
     url: 'https://example.com',
     affiliate_url: 'https://affiliate.example.com/ref123',
+    slug: null,
+    url_template: null,
+    destinations: [],
+    sticky_destinations: false,
     category_id: '456e7890-e89b-12d3-a456-426614174001',
     tags: ['test', 'example'],
     image_url: 'https://example.com/image.jpg',
@@ -27,6 +31,9 @@ describe('Links API Routes', () => {
     featured: true,
     status: 'active',
     click_count: 100,
+    publish_at: null,
+    expires_at: null,
+    deleted_at: null,
     created_at: new Date('2024-01-01T00:00:00Z'),
     updated_at: new Date('2024-01-01T00:00:00Z'),
   };
@@ -98,7 +105,7 @@ describe('Links API Routes', () => {
       });
 
       expect(AffiliateLinkModel.findAll).toHaveBeenCalledWith(
-        { status: 'active' },
+        { status: 'active', schedule: 'live' },
         {
           limit: 20,
           offset: 0,
@@ -131,7 +138,7 @@ describe('Links API Routes', () => {
       });
 
       expect(AffiliateLinkModel.findAll).toHaveBeenCalledWith(
-        { status: 'active' },
+        { status: 'active', schedule: 'live' },
         {
           limit: 10,
           offset: 20,
@@ -153,6 +160,7 @@ describe('Links API Routes', () => {
       expect(AffiliateLinkModel.findAll).toHaveBeenCalledWith(
         {
           status: 'active',
+          schedule: 'live',
           category_id: '456e7890-e89b-12d3-a456-426614174001',
         },
         expect.any(Object)
@@ -169,6 +177,7 @@ describe('Links API Routes', () => {
       expect(AffiliateLinkModel.findAll).toHaveBeenCalledWith(
         {
           status: 'active',
+          schedule: 'live',
           search: 'test query',
         },
         expect.any(Object)
@@ -185,6 +194,7 @@ describe('Links API Routes', () => {
       expect(AffiliateLinkModel.findAll).toHaveBeenCalledWith(
         {
           status: 'active',
+          schedule: 'live',
           featured: true,
         },
         expect.any(Object)
@@ -201,6 +211,7 @@ describe('Links API Routes', () => {
       expect(AffiliateLinkModel.findAll).toHaveBeenCalledWith(
         {
           status: 'active',
+          schedule: 'live',
           tags: ['tag1', 'tag2'],
         },
         expect.any(Object)
@@ -217,7 +228,7 @@ describe('Links API Routes', () => {
         .expect(200);
 
       expect(AffiliateLinkModel.findAll).toHaveBeenCalledWith(
-        { status: 'active' },
+        { status: 'active', schedule: 'live' },
         {
           limit: 20,
           offset: 0,
@@ -235,7 +246,7 @@ describe('Links API Routes', () => {
       await request(app).get('/api/links?limit=200&offset=-10').expect(200);
 
       expect(AffiliateLinkModel.findAll).toHaveBeenCalledWith(
-        { status: 'active' },
+        { status: 'active', schedule: 'live' },
         {
           limit: 100, // Should be capped at 100
           offset: 0, // Should be minimum 0
@@ -255,7 +266,7 @@ describe('Links API Routes', () => {
         .expect(200);
 
       expect(AffiliateLinkModel.findAll).toHaveBeenCalledWith(
-        { status: 'active' },
+        { status: 'active', schedule: 'live' },
         {
           limit: 20,
           offset: 0,
@@ -331,6 +342,17 @@ describe('Links API Routes', () => {
       });
     });
 
+    it('should return 404 for a link outside its publish window', async () => {
+      vi.mocked(AffiliateLinkModel.findWithCategory).mockResolvedValue({
+        ...mockAffiliateLinkWithCategory,
+        publish_at: new Date(Date.now() + 60 * 60 * 1000),
+      });
+
+      await request(app)
+        .get('/api/links/123e4567-e89b-12d3-a456-426614174000')
+        .expect(404);
+    });
+
     it('should return 400 for invalid UUID format', async () => {
       const response = await request(app)
         .get('/api/links/invalid-uuid')
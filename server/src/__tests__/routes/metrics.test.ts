@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import request from 'supertest';
+import { createApp } from '../../app.js';
+import { AffiliateLinkModel } from '../../database/models/AffiliateLink.js';
+import { ClickEventModel } from '../../database/models/ClickEvent.js';
+import { Histogram, metrics } from '../../utils/metrics.js';
+import type { Application } from 'express';
+import type { AffiliateLink, ClickEvent } from '../../database/models/types.js';
+
+vi.mock('../../database/models/AffiliateLink.js');
+vi.mock('../../database/models/ClickEvent.js');
+vi.mock('../../database/models/Category.js');
+
+vi.mock('../../config/environment.js', async (importOriginal) => {
+  const actual =
+    await importOriginal<typeof import('../../config/environment.js')>();
+  return {
+    ...actual,
+    config: {
+      ...actual.config,
+      metrics: { ...actual.config.metrics, token: 'metrics-token' },
+    },
+  };
+});
+
+describe('GET /metrics', () => {
+  let app: Application;
+  const linkId = '123e4567-e89b-12d3-a456-426614174000';
+
+  const scrape = () =>
+    request(app)
+      .get('/metrics')
+      .set('Authorization', 'Bearer metrics-token')
+      .expect(200);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    metrics.reset();
+    app = createApp();
+  });
+
+  it('should reject scrapes without the token', async () => {
+    await request(app).get('/metrics').expect(401);
+    await request(app)
+      .get('/metrics')
+      .set('Authorization', 'Bearer wrong-token')
+      .expect(401);
+  });
+
+  it('should expose request counts and latency by route pattern', async () => {
+    await request(app).get('/health').expect(200);
+    await request(app).get('/unknown-route').expect(404);
+
+    const response = await scrape();
+
+    expect(response.headers['content-type']).toContain('text/plain');
+    expect(response.text).toContain(
+      '# TYPE affilist_http_request_duration_seconds histogram'
+    );
+    expect(response.text).toContain(
+      'affilist_http_requests_total{method="GET",route="/health",status="200"} 1'
+    );
+    expect(response.text).toContain(
+      'affilist_http_requests_total{method="GET",route="unmatched",status="404"} 1'
+    );
+    expect(response.text).toMatch(
+      /affilist_http_request_duration_seconds_count\{method="GET",route="\/health",status="200"\} 1/
+    );
+    expect(response.text).toMatch(
+      /affilist_db_pool_connections\{state="waiting"\} \d+/
+    );
+  });
+
+  it('should count click ingest and redirect outcomes', async () => {
+    vi.mocked(AffiliateLinkModel.findById)
+      .mockResolvedValueOnce({
+        id: linkId,
+        title: 'Link',
+        affiliate_url: 'https://affiliate.example.com',
+        status: 'active',
+        publish_at: null,
+        expires_at: null,
+      } as AffiliateLink)
+      .mockResolvedValueOnce(null);
+    vi.mocked(ClickEventModel.create).mockResolvedValue({
+      id: 'click-1',
+    } as ClickEvent);
+
+    await request(app).get(`/api/redirect/${linkId}`).expect(302);
+    await request(app).get(`/api/redirect/${linkId}`).expect(404);
+
+    const response = await scrape();
+
+    expect(response.text).toContain(
+      'affilist_click_events_total{source="redirect"} 1'
+    );
+    expect(response.text).toContain(
+      'affilist_redirect_responses_total{status="302"} 1'
+    );
+    expect(response.text).toContain(
+      'affilist_redirect_responses_total{status="404"} 1'
+    );
+    expect(response.text).toContain(
+      'affilist_http_requests_total{method="GET",route="/api/redirect/:linkId",status="302"} 1'
+    );
+  });
+});
+
+describe('Histogram', () => {
+  it('should render cumulative buckets, sum and count', () => {
+    const histogram = new Histogram({
+      name: 'test_duration_seconds',
+      help: 'Test',
+      labelNames: ['route'],
+      buckets: [0.1, 1],
+    });
+
+    histogram.observe({ route: '/a' }, 0.05);
+    histogram.observe({ route: '/a' }, 0.5);
+    histogram.observe({ route: '/a' }, 5);
+
+    expect(histogram.render()).toEqual([
+      'test_duration_seconds_bucket{route="/a",le="0.1"} 1',
+      'test_duration_seconds_bucket{route="/a",le="1"} 2',
+      'test_duration_seconds_bucket{route="/a",le="+Inf"} 3',
+      'test_duration_seconds_sum{route="/a"} 5.55',
+      'test_duration_seconds_count{route="/a"} 3',
+    ]);
+  });
+});
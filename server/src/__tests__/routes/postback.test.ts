@@ -0,0 +1,188 @@
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import request from 'supertest';
+import { createApp } from '../../app.js';
+import { ClickEventModel } from '../../database/models/ClickEvent.js';
+import { ConversionModel } from '../../database/models/Conversion.js';
+import type { Application } from 'express';
+import type { ClickEvent, Conversion } from '../../database/models/types.js';
+
+// Mock the database models
+vi.mock('../../database/models/ClickEvent.js');
+vi.mock('../../database/models/Conversion.js');
+
+// Configure a known secret for the test network
+vi.mock('../../config/environment.js', async (importOriginal) => {
+  const actual =
+    await importOriginal<typeof import('../../config/environment.js')>();
+  return {
+    ...actual,
+    config: {
+      ...actual.config,
+      postback: { secrets: { testnet: 'postback-secret' } },
+    },
+  };
+});
+
+describe('Postback Routes', () => {
+  let app: Application;
+  const testLinkId = '123e4567-e89b-12d3-a456-426614174000';
+  const testClickId = '987e6543-e89b-12d3-a456-426614174999';
+
+  const mockClickEvent: ClickEvent = {
+    id: testClickId,
+    link_id: testLinkId,
+    timestamp: new Date('2024-01-01T00:00:00Z'),
+    user_agent: 'Mozilla/5.0 Test Browser',
+    referrer: null,
+    ip_address: '127.0.0.1',
+    session_id: 'test-session-123',
+    country_code: null,
+    classification: 'valid',
+    classification_reason: null,
+    variant: null,
+    created_at: new Date('2024-01-01T00:00:00Z'),
+  };
+
+  const mockConversion: Conversion = {
+    id: 'conversion-123',
+    click_id: testClickId,
+    link_id: testLinkId,
+    network: 'testnet',
+    transaction_id: 'txn-1',
+    revenue: 12.5,
+    currency: 'USD',
+    status: 'approved',
+    converted_at: new Date('2024-01-02T00:00:00Z'),
+    created_at: new Date('2024-01-02T00:00:00Z'),
+    updated_at: new Date('2024-01-02T00:00:00Z'),
+  };
+
+  beforeEach(() => {
+    app = createApp();
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('GET /api/postback', () => {
+    it('should record a conversion from query parameters', async () => {
+      vi.mocked(ClickEventModel.findById).mockResolvedValue(mockClickEvent);
+      vi.mocked(ConversionModel.upsert).mockResolvedValue(mockConversion);
+
+      const response = await request(app)
+        .get('/api/postback')
+        .query({
+          network: 'testnet',
+          secret: 'postback-secret',
+          click_id: testClickId,
+          transaction_id: 'txn-1',
+          amount: '12.50',
+          currency: 'usd',
+        })
+        .expect(200);
+
+      expect(response.body).toEqual({
+        success: true,
+        conversion_id: 'conversion-123',
+        status: 'approved',
+      });
+      expect(ConversionModel.upsert).toHaveBeenCalledWith({
+        click_id: testClickId,
+        link_id: testLinkId,
+        network: 'testnet',
+        transaction_id: 'txn-1',
+        revenue: 12.5,
+        currency: 'USD',
+        status: undefined,
+      });
+    });
+
+    it('should reject an invalid secret', async () => {
+      const response = await request(app)
+        .get('/api/postback')
+        .query({
+          network: 'testnet',
+          secret: 'wrong-secret',
+          click_id: testClickId,
+          transaction_id: 'txn-1',
+        })
+        .expect(401);
+
+      expect(response.body.error).toBe('Unauthorized');
+      expect(ClickEventModel.findById).not.toHaveBeenCalled();
+      expect(ConversionModel.upsert).not.toHaveBeenCalled();
+    });
+
+    it('should reject an unknown network', async () => {
+      await request(app)
+        .get('/api/postback')
+        .query({
+          network: 'othernet',
+          secret: 'postback-secret',
+          click_id: testClickId,
+          transaction_id: 'txn-1',
+        })
+        .expect(401);
+
+      expect(ConversionModel.upsert).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 for an unknown click', async () => {
+      vi.mocked(ClickEventModel.findById).mockResolvedValue(null);
+
+      const response = await request(app)
+        .get('/api/postback')
+        .query({
+          network: 'testnet',
+          secret: 'postback-secret',
+          click_id: testClickId,
+          transaction_id: 'txn-1',
+        })
+        .expect(404);
+
+      expect(response.body.error).toBe('Click not found');
+    });
+
+    it('should return 400 for invalid parameters', async () => {
+      const response = await request(app)
+        .get('/api/postback')
+        .query({
+          network: 'testnet',
+          secret: 'postback-secret',
+          click_id: 'not-a-uuid',
+          transaction_id: 'txn-1',
+        })
+        .expect(400);
+
+      expect(response.body.error).toBe('Validation failed');
+    });
+  });
+
+  describe('POST /api/postback', () => {
+    it('should accept the secret in a header', async () => {
+      vi.mocked(ClickEventModel.findById).mockResolvedValue(mockClickEvent);
+      vi.mocked(ConversionModel.upsert).mockResolvedValue({
+        ...mockConversion,
+        status: 'rejected',
+      });
+
+      const response = await request(app)
+        .post('/api/postback')
+        .set('X-Postback-Secret', 'postback-secret')
+        .send({
+          network: 'testnet',
+          click_id: testClickId,
+          transaction_id: 'txn-1',
+          status: 'rejected',
+        })
+        .expect(200);
+
+      expect(response.body.status).toBe('rejected');
+      expect(ConversionModel.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 'rejected' })
+      );
+    });
+  });
+});
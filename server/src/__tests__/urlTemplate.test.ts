@@ -0,0 +1,124 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  buildDestinationUrl,
+  campaignValues,
+  expandUrlTemplate,
+  referrerHost,
+  resolveUrlTemplate,
+  validateUrlTemplate,
+} from '../utils/urlTemplate.js';
+import { CategoryModel } from '../database/models/Category.js';
+import type { Category } from '../database/models/types.js';
+
+vi.mock('../database/models/Category.js');
+
+describe('expandUrlTemplate', () => {
+  it('should fill in encoded values and the raw affiliate URL', () => {
+    expect(
+      expandUrlTemplate(
+        '{affiliate_url}&subid={click_id}&utm_source={referrer_host}&r={referrer}',
+        {
+          affiliate_url: 'https://network.example.com/p?id=1',
+          click_id: 'click-1',
+          referrer_host: 'blog.example.com',
+          referrer: 'https://blog.example.com/a b?x=1',
+        }
+      )
+    ).toBe(
+      'https://network.example.com/p?id=1&subid=click-1&utm_source=blog.example.com&r=https%3A%2F%2Fblog.example.com%2Fa%20b%3Fx%3D1'
+    );
+  });
+
+  it('should start the query string when the affiliate URL has none', () => {
+    expect(
+      expandUrlTemplate('{affiliate_url}&subid={session_id}', {
+        affiliate_url: 'https://network.example.com/p',
+        session_id: 'abc',
+      })
+    ).toBe('https://network.example.com/p?subid=abc');
+  });
+
+  it('should leave missing values empty', () => {
+    expect(
+      expandUrlTemplate('{affiliate_url}?c={utm_campaign}', {
+        affiliate_url: 'https://network.example.com/p',
+      })
+    ).toBe('https://network.example.com/p?c=');
+  });
+});
+
+describe('validateUrlTemplate', () => {
+  it('should accept templates that expand to a URL', () => {
+    expect(validateUrlTemplate('{affiliate_url}&subid={click_id}')).toBeNull();
+    expect(
+      validateUrlTemplate('https://network.example.com/deeplink?id={link_id}')
+    ).toBeNull();
+  });
+
+  it('should reject unknown placeholders and non-URLs', () => {
+    expect(validateUrlTemplate('{affiliate_url}&s={clickid}')).toBe(
+      'Unknown URL template placeholder {clickid}'
+    );
+    expect(validateUrlTemplate('subid={click_id}')).toBe(
+      'URL template must expand to an http(s) URL'
+    );
+    expect(validateUrlTemplate('javascript:alert({link_id})')).toBe(
+      'URL template must expand to an http(s) URL'
+    );
+  });
+});
+
+describe('buildDestinationUrl', () => {
+  it('should fall back to the affiliate URL', () => {
+    const affiliateUrl = 'https://network.example.com/p';
+
+    expect(buildDestinationUrl(affiliateUrl, null, {})).toBe(affiliateUrl);
+    expect(buildDestinationUrl(affiliateUrl, '{referrer}', {})).toBe(
+      affiliateUrl
+    );
+    expect(
+      buildDestinationUrl(affiliateUrl, '{affiliate_url}&l={link_id}', {
+        link_id: 'link-1',
+      })
+    ).toBe('https://network.example.com/p?l=link-1');
+  });
+});
+
+describe('request values', () => {
+  it('should read the referrer host and utm parameters', () => {
+    expect(referrerHost('https://blog.example.com/post')).toBe(
+      'blog.example.com'
+    );
+    expect(referrerHost('not a url')).toBe('');
+    expect(referrerHost(undefined)).toBe('');
+
+    expect(
+      campaignValues({ utm_source: 'newsletter', utm_medium: ['a', 'b'] })
+    ).toEqual({
+      utm_source: 'newsletter',
+      utm_medium: '',
+      utm_campaign: '',
+      utm_term: '',
+      utm_content: '',
+    });
+  });
+});
+
+describe('resolveUrlTemplate', () => {
+  it("should prefer the link's template over its category's", async () => {
+    vi.mocked(CategoryModel.findById).mockResolvedValue({
+      url_template: '{affiliate_url}&cat=1',
+    } as Category);
+
+    await expect(
+      resolveUrlTemplate({
+        url_template: '{affiliate_url}&link=1',
+        category_id: 'c',
+      })
+    ).resolves.toBe('{affiliate_url}&link=1');
+    await expect(
+      resolveUrlTemplate({ url_template: null, category_id: 'c' })
+    ).resolves.toBe('{affiliate_url}&cat=1');
+    expect(CategoryModel.findById).toHaveBeenCalledTimes(1);
+  });
+});
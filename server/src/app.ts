@@ -8,6 +8,7 @@ import {
   requestLogger,
 } from './middleware/security.js';
 import { errorHandler, notFoundHandler } from './middleware/errorHandler.js';
+import { requestId, REQUEST_ID_HEADER } from './middleware/requestId.js';
 import { apiRoutes } from './routes/index.js';
 
 export const createApp = (): express.Application => {
@@ -16,6 +17,9 @@ export const createApp = (): express.Application => {
   // Trust proxy for accurate IP addresses
   app.set('trust proxy', 1);
 
+  // Request IDs come first so every later log line carries one
+  app.use(requestId);
+
   // Security middleware
   app.use(securityHeaders);
   app.use(rateLimiter);
@@ -26,7 +30,8 @@ export const createApp = (): express.Application => {
       origin: config.cors.origin,
       credentials: true,
       methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-      allowedHeaders: ['Content-Type', 'Authorization'],
+      allowedHeaders: ['Content-Type', 'Authorization', REQUEST_ID_HEADER],
+      exposedHeaders: [REQUEST_ID_HEADER],
     })
   );
 
@@ -1,11 +1,64 @@
 import dotenv from 'dotenv';
+import ms from 'ms';
 
 // Load environment variables
 dotenv.config();
 
+// Parse "network:secret" pairs, e.g. "impact:abc123,cj:def456". Only the
+// first ':' separates, so secrets may contain ':' themselves.
+export const parsePostbackSecrets = (value: string): Record<string, string> =>
+  Object.fromEntries(
+    value
+      .split(',')
+      .map((pair) => {
+        const separator = pair.indexOf(':');
+        return separator === -1
+          ? ['', '']
+          : [pair.slice(0, separator).trim(), pair.slice(separator + 1).trim()];
+      })
+      .filter(([network, secret]) => network && secret)
+  );
+
+// Convert durations in the format jsonwebtoken takes for expiresIn, such as
+// "15m", "7d", "1w" or "2 days", to milliseconds. A bare number is
+// milliseconds there as well.
+export const durationToMs = (duration: string): number => {
+  const milliseconds = ms(duration as ms.StringValue);
+  if (!Number.isFinite(milliseconds)) {
+    throw new Error(`Invalid duration: ${duration}`);
+  }
+  return milliseconds;
+};
+
+const nodeEnv = process.env.NODE_ENV || 'development';
+
+// Per-route limit from RATE_LIMIT_<NAME>_WINDOW_MS / RATE_LIMIT_<NAME>_MAX
+const parseRouteLimit = (
+  name: string,
+  windowMs: number,
+  maxRequests: number
+) => ({
+  windowMs: parseInt(
+    process.env[`RATE_LIMIT_${name}_WINDOW_MS`] || String(windowMs),
+    10
+  ),
+  maxRequests: parseInt(
+    process.env[`RATE_LIMIT_${name}_MAX`] || String(maxRequests),
+    10
+  ),
+});
+
 export const config = {
   port: parseInt(process.env.PORT || '3001', 10),
-  nodeEnv: process.env.NODE_ENV || 'development',
+  nodeEnv,
+
+  // Logging: level is error, warn, info or debug; format is text or json
+  logging: {
+    level:
+      process.env.LOG_LEVEL || (nodeEnv === 'development' ? 'debug' : 'info'),
+    format:
+      process.env.LOG_FORMAT || (nodeEnv === 'production' ? 'json' : 'text'),
+  },
 
   // Database configuration
   database: {
@@ -20,7 +73,8 @@ export const config = {
   // JWT configuration
   jwt: {
     secret: process.env.JWT_SECRET || 'fallback-secret-key',
-    expiresIn: process.env.JWT_EXPIRES_IN || '7d',
+    expiresIn: process.env.JWT_EXPIRES_IN || '15m',
+    refreshExpiresIn: process.env.JWT_REFRESH_EXPIRES_IN || '7d',
   },
 
   // CORS configuration
@@ -28,10 +82,114 @@ export const config = {
     origin: process.env.CORS_ORIGIN || 'http://localhost:5173',
   },
 
-  // Rate limiting
+  // Rate limiting. windowMs/maxRequests apply to every request; the named
+  // limits add stricter per-route limits on top.
   rateLimit: {
+    // memory: per process (LRU of at most memoryMaxKeys clients);
+    // postgres: shared by all API instances
+    store: process.env.RATE_LIMIT_STORE || 'memory',
+    memoryMaxKeys: parseInt(
+      process.env.RATE_LIMIT_MEMORY_MAX_KEYS || '10000',
+      10
+    ),
     windowMs: parseInt(process.env.RATE_LIMIT_WINDOW_MS || '900000', 10), // 15 minutes
     maxRequests: parseInt(process.env.RATE_LIMIT_MAX_REQUESTS || '100', 10),
+    // Click tracking and redirects, per IP
+    clicks: parseRouteLimit('CLICKS', 60000, 10),
+    // Failed logins per IP, to slow down credential stuffing
+    login: parseRouteLimit('LOGIN', 900000, 5),
+  },
+
+  // Conversion postbacks (shared secret per affiliate network)
+  postback: {
+    secrets: parsePostbackSecrets(process.env.POSTBACK_SECRETS || ''),
+  },
+
+  // Prometheus metrics: GET /metrics requires this bearer token and is
+  // disabled while it is unset
+  metrics: {
+    token: process.env.METRICS_TOKEN || '',
+    slowQueryMs: parseInt(process.env.DB_SLOW_QUERY_MS || '1000', 10),
+  },
+
+  // Click classification (utils/clickClassification.ts)
+  clickFiltering: {
+    // Repeat clicks on a link from the same IP or session within this many
+    // seconds are marked duplicate; 0 disables duplicate detection
+    duplicateWindowSeconds: parseInt(
+      process.env.CLICK_DUPLICATE_WINDOW_SECONDS || '30',
+      10
+    ),
+    // Extra user-agent substrings treated as bots, comma separated
+    botUserAgents: (process.env.CLICK_BOT_USER_AGENTS || '')
+      .split(',')
+      .map((pattern) => pattern.trim().toLowerCase())
+      .filter(Boolean),
+  },
+
+  // Visitor details stored with clicks (utils/clickPrivacy.ts)
+  clickPrivacy: {
+    // full, truncate (IPv4 to /24, IPv6 to /48), hash (HMAC-SHA256 keyed
+    // with ipSalt, stored in ip_hash) or none
+    ipMode: process.env.CLICK_IP_MODE || 'truncate',
+    ipSalt: process.env.CLICK_IP_SALT || '',
+    // full keeps the user agent; reduced keeps only browser, OS and device
+    userAgentMode: process.env.CLICK_USER_AGENT_MODE || 'reduced',
+    // Clicks sent with DNT: 1 or Sec-GPC: 1 are stored without IP and with
+    // the reduced user agent
+    honorPrivacySignals: process.env.CLICK_HONOR_PRIVACY_SIGNALS !== 'false',
+  },
+
+  // Edge redirects in the Cloudflare worker (worker/index.ts)
+  edge: {
+    // Bearer token the worker sends with POST /api/clicks/edge; edge click
+    // ingestion is disabled while it is unset
+    token: process.env.EDGE_TOKEN || '',
+    // Workers KV namespace that link destinations are published to
+    kv: {
+      accountId: process.env.CLOUDFLARE_ACCOUNT_ID || '',
+      namespaceId: process.env.CLOUDFLARE_KV_NAMESPACE_ID || '',
+      apiToken: process.env.CLOUDFLARE_API_TOKEN || '',
+    },
+  },
+
+  // Link health checker (reachability of url/affiliate_url/image_url)
+  linkHealth: {
+    // How often the server runs the check; 0 leaves it to `npm run links:check-health`
+    intervalMinutes: parseInt(
+      process.env.LINK_HEALTH_INTERVAL_MINUTES || '0',
+      10
+    ),
+    timeoutMs: parseInt(process.env.LINK_HEALTH_TIMEOUT_MS || '10000', 10),
+    concurrency: parseInt(process.env.LINK_HEALTH_CONCURRENCY || '5', 10),
+    // Consecutive failures before an active link is set to inactive; 0 disables
+    failureThreshold: parseInt(
+      process.env.LINK_HEALTH_FAILURE_THRESHOLD || '0',
+      10
+    ),
+  },
+
+  // Daily and hourly click rollups read by the analytics routes
+  clickRollup: {
+    // How often the server rolls up completed days; 0 leaves it to
+    // `npm run analytics:rollup`
+    intervalMinutes: parseInt(
+      process.env.CLICK_ROLLUP_INTERVAL_MINUTES || '60',
+      10
+    ),
+  },
+  clickRetention: {
+    // Whole months of click events kept besides the current one; older
+    // months are archived and dropped. 0 keeps every click.
+    months: parseInt(process.env.CLICK_RETENTION_MONTHS || '0', 10),
+    // Where archived months are written as gzipped NDJSON
+    archiveDir: process.env.CLICK_ARCHIVE_DIR || './archive/click-events',
+    // How often the server runs the retention job; 0 leaves it to
+    // `npm run clicks:retention`
+    intervalMinutes: parseInt(
+      process.env.CLICK_RETENTION_INTERVAL_MINUTES || '1440',
+      10
+    ),
   },
 } as const;
 
@@ -52,6 +210,18 @@ export const validateEnvironment = (): void => {
       throw new Error(`Missing required environment variable: ${envVar}`);
     }
   }
+
+  // Both end up in jsonwebtoken; an invalid one would fail every login
+  for (const [envVar, duration] of [
+    ['JWT_EXPIRES_IN', config.jwt.expiresIn],
+    ['JWT_REFRESH_EXPIRES_IN', config.jwt.refreshExpiresIn],
+  ]) {
+    try {
+      durationToMs(duration);
+    } catch {
+      throw new Error(`Invalid duration in ${envVar}: ${duration}`);
+    }
+  }
 };
 
 // Only validate in non-test environments
@@ -2,6 +2,7 @@ import { Pool } from 'pg';
 import type { PoolClient, QueryResult, QueryResultRow } from 'pg';
 import { config } from '../config/environment.js';
 import { logger } from '../utils/logger.js';
+import { dbSlowQueriesTotal } from '../utils/metrics.js';
 
 export class DatabaseConnection {
   private pool: Pool;
@@ -57,6 +58,14 @@ export class DatabaseConnection {
         rows: result.rowCount,
       });
 
+      if (duration >= config.metrics.slowQueryMs) {
+        dbSlowQueriesTotal.inc();
+        logger.warn('Slow database query', {
+          query: text,
+          duration: `${duration}ms`,
+        });
+      }
+
       return result;
     } catch (error) {
       const duration = Date.now() - start;
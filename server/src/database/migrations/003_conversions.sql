@@ -0,0 +1,25 @@
+-- Create conversions table for postback-reported sales
+CREATE TABLE conversions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    click_id UUID NOT NULL REFERENCES click_events(id) ON DELETE CASCADE,
+    link_id UUID NOT NULL REFERENCES affiliate_links(id) ON DELETE CASCADE,
+    network VARCHAR(50) NOT NULL,
+    transaction_id VARCHAR(255) NOT NULL,
+    revenue DECIMAL(12,2) NOT NULL DEFAULT 0 CHECK (revenue >= 0),
+    currency VARCHAR(3) NOT NULL DEFAULT 'USD',
+    status VARCHAR(20) NOT NULL DEFAULT 'approved' CHECK (status IN ('pending', 'approved', 'rejected')),
+    converted_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    -- Networks retry postbacks, so a transaction is only recorded once
+    UNIQUE (network, transaction_id)
+);
+
+-- Indexes for conversions
+CREATE INDEX idx_conversions_click_id ON conversions(click_id);
+CREATE INDEX idx_conversions_link_id ON conversions(link_id);
+CREATE INDEX idx_conversions_converted_at ON conversions(converted_at);
+
+CREATE TRIGGER update_conversions_updated_at 
+    BEFORE UPDATE ON conversions 
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,2 @@
+-- Allow admin users to be deactivated without deleting them
+ALTER TABLE admin_users ADD COLUMN is_active BOOLEAN NOT NULL DEFAULT true;
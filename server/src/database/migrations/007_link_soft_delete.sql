@@ -0,0 +1,7 @@
+-- Soft delete for affiliate links: deleting a link moves it to the trash
+-- so its click_events (which cascade on a hard delete) are kept
+ALTER TABLE affiliate_links ADD COLUMN deleted_at TIMESTAMP WITH TIME ZONE;
+
+-- Trash listing; live links are found through the existing indexes
+CREATE INDEX idx_affiliate_links_deleted_at ON affiliate_links(deleted_at)
+    WHERE deleted_at IS NOT NULL;
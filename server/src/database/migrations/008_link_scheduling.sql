@@ -0,0 +1,13 @@
+-- Scheduled publishing: a link is only public between publish_at and
+-- expires_at (either end may be open)
+ALTER TABLE affiliate_links ADD COLUMN publish_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE affiliate_links ADD COLUMN expires_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE affiliate_links ADD CONSTRAINT affiliate_links_schedule_check
+    CHECK (publish_at IS NULL OR expires_at IS NULL OR expires_at > publish_at);
+
+-- Admin "scheduled" / "expired" filters
+CREATE INDEX idx_affiliate_links_publish_at ON affiliate_links(publish_at)
+    WHERE publish_at IS NOT NULL;
+CREATE INDEX idx_affiliate_links_expires_at ON affiliate_links(expires_at)
+    WHERE expires_at IS NOT NULL;
@@ -0,0 +1,19 @@
+-- Latest reachability check for each destination of a link (url,
+-- affiliate_url and image_url); overwritten by every health check run
+CREATE TABLE link_health_checks (
+    link_id UUID NOT NULL REFERENCES affiliate_links(id) ON DELETE CASCADE,
+    target VARCHAR(20) NOT NULL CHECK (target IN ('url', 'affiliate_url', 'image_url')),
+    checked_url TEXT NOT NULL,
+    status_code INTEGER, -- NULL when the request failed or timed out
+    final_url TEXT, -- after following redirects
+    error TEXT,
+    healthy BOOLEAN NOT NULL,
+    response_time_ms INTEGER,
+    consecutive_failures INTEGER NOT NULL DEFAULT 0,
+    checked_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (link_id, target)
+);
+
+-- Admin health summary lists failing links first
+CREATE INDEX idx_link_health_checks_unhealthy ON link_health_checks(link_id)
+    WHERE NOT healthy;
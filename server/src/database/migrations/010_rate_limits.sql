@@ -0,0 +1,10 @@
+-- Rate limit counters shared by every API instance (RATE_LIMIT_STORE=postgres).
+-- UNLOGGED: counters are short-lived and losing them on a crash is harmless.
+CREATE UNLOGGED TABLE rate_limits (
+    key VARCHAR(255) PRIMARY KEY, -- limiter name and client key, e.g. "login:203.0.113.7"
+    hits INTEGER NOT NULL,
+    reset_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+-- Periodic cleanup of expired windows
+CREATE INDEX idx_rate_limits_reset_at ON rate_limits(reset_at);
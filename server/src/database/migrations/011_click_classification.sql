@@ -0,0 +1,23 @@
+-- Classify clicks instead of dropping them: crawlers, link previews and
+-- prefetches are 'bot', repeat clicks inside the duplicate window are
+-- 'duplicate'. Only 'valid' clicks count towards click_count and analytics.
+ALTER TABLE click_events ADD COLUMN classification VARCHAR(20) NOT NULL DEFAULT 'valid'
+    CHECK (classification IN ('valid', 'bot', 'duplicate'));
+ALTER TABLE click_events ADD COLUMN classification_reason VARCHAR(50); -- e.g. user_agent, prefetch, same_ip
+
+-- Duplicate lookups: recent clicks on a link by IP or session
+CREATE INDEX idx_click_events_link_ip_timestamp ON click_events(link_id, ip_address, timestamp DESC);
+CREATE INDEX idx_click_events_link_session_timestamp ON click_events(link_id, session_id, timestamp DESC);
+
+-- Only valid clicks increment click_count
+CREATE OR REPLACE FUNCTION update_link_click_count()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.classification = 'valid' THEN
+        UPDATE affiliate_links
+        SET click_count = click_count + 1
+        WHERE id = NEW.link_id;
+    END IF;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
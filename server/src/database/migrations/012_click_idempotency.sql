@@ -0,0 +1,6 @@
+-- Client-generated key per click so that a batch retried by the browser
+-- (or a sendBeacon flush of clicks that were already sent) is recorded once
+ALTER TABLE click_events ADD COLUMN idempotency_key VARCHAR(100);
+
+CREATE UNIQUE INDEX idx_click_events_idempotency_key ON click_events(idempotency_key)
+    WHERE idempotency_key IS NOT NULL;
@@ -0,0 +1,7 @@
+-- Optional short slug for vanity redirects (GET /go/:slug). Trashed links
+-- keep their slug until purged so that it can't be taken over meanwhile.
+ALTER TABLE affiliate_links ADD COLUMN slug VARCHAR(100)
+    CHECK (slug ~ '^[a-z0-9]+(-[a-z0-9]+)*$');
+
+CREATE UNIQUE INDEX idx_affiliate_links_slug ON affiliate_links(slug)
+    WHERE slug IS NOT NULL;
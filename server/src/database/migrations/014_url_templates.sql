@@ -0,0 +1,5 @@
+-- Outbound URL templates, e.g. '{affiliate_url}&subid={click_id}'. A link's
+-- own template wins over its category's; without either the affiliate URL
+-- is redirected to as it is.
+ALTER TABLE affiliate_links ADD COLUMN url_template TEXT;
+ALTER TABLE categories ADD COLUMN url_template TEXT;
@@ -0,0 +1,13 @@
+-- A/B destination rotation. A link with destinations splits its clicks
+-- between them by weight instead of redirecting to affiliate_url, e.g.
+-- [{"variant": "a", "url": "https://...", "weight": 70}, ...]. Sticky links
+-- send every click of a session to the same destination.
+ALTER TABLE affiliate_links
+    ADD COLUMN destinations JSONB NOT NULL DEFAULT '[]'::jsonb,
+    ADD COLUMN sticky_destinations BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- The destination variant a click was sent to; NULL when the link had no
+-- destinations and the click went to affiliate_url
+ALTER TABLE click_events ADD COLUMN variant VARCHAR(50);
+
+CREATE INDEX idx_click_events_link_variant ON click_events(link_id, variant);
@@ -0,0 +1,33 @@
+-- Click counts pre-aggregated per UTC day and hour, so analytics over long
+-- ranges don't scan click_events. Filled by the rollup job
+-- (src/jobs/clickRollup.ts) one complete day at a time; anything after the
+-- last rolled up day is still read from click_events.
+CREATE TABLE click_daily_stats (
+    day DATE NOT NULL,
+    link_id UUID NOT NULL REFERENCES affiliate_links(id) ON DELETE CASCADE,
+    country_code VARCHAR(2) NOT NULL DEFAULT '', -- '' when unknown
+    referrer_host TEXT NOT NULL DEFAULT '', -- '' for direct traffic
+    valid_clicks INTEGER NOT NULL DEFAULT 0,
+    bot_clicks INTEGER NOT NULL DEFAULT 0,
+    duplicate_clicks INTEGER NOT NULL DEFAULT 0,
+    PRIMARY KEY (day, link_id, country_code, referrer_host)
+);
+
+CREATE INDEX idx_click_daily_stats_link_day ON click_daily_stats(link_id, day);
+
+CREATE TABLE click_hourly_stats (
+    hour TIMESTAMP WITH TIME ZONE NOT NULL,
+    link_id UUID NOT NULL REFERENCES affiliate_links(id) ON DELETE CASCADE,
+    valid_clicks INTEGER NOT NULL DEFAULT 0,
+    bot_clicks INTEGER NOT NULL DEFAULT 0,
+    duplicate_clicks INTEGER NOT NULL DEFAULT 0,
+    PRIMARY KEY (hour, link_id)
+);
+
+CREATE INDEX idx_click_hourly_stats_link_hour ON click_hourly_stats(link_id, hour);
+
+-- Days that have been rolled up, including days without clicks
+CREATE TABLE click_rollup_days (
+    day DATE PRIMARY KEY,
+    rolled_up_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
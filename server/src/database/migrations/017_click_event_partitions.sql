@@ -0,0 +1,119 @@
+-- Partition click_events by month (UTC) so that old months can be archived
+-- and dropped whole by the retention job (src/jobs/clickRetention.ts).
+-- Partitions are created ahead of time by that job and at server start.
+--
+-- Unique constraints of a partitioned table must include the partition key:
+-- - the primary key becomes (id, timestamp)
+-- - idempotency keys move to click_idempotency_keys, since a resent click
+--   doesn't always carry the same timestamp
+-- - conversions.click_id can no longer reference click_events; conversions
+--   are kept when the month of their click is archived
+
+ALTER TABLE conversions DROP CONSTRAINT conversions_click_id_fkey;
+
+ALTER TABLE click_events RENAME TO click_events_unpartitioned;
+
+CREATE TABLE click_events (
+    id UUID NOT NULL DEFAULT uuid_generate_v4(),
+    link_id UUID NOT NULL REFERENCES affiliate_links(id) ON DELETE CASCADE,
+    timestamp TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    user_agent TEXT,
+    referrer TEXT,
+    ip_address INET,
+    session_id VARCHAR(255),
+    country_code VARCHAR(2),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    classification VARCHAR(20) NOT NULL DEFAULT 'valid'
+        CHECK (classification IN ('valid', 'bot', 'duplicate')),
+    classification_reason VARCHAR(50),
+    idempotency_key VARCHAR(100),
+    variant VARCHAR(50)
+) PARTITION BY RANGE (timestamp);
+
+-- Creates the partition holding the given month, e.g. click_events_2024_03;
+-- does nothing when it exists
+CREATE OR REPLACE FUNCTION create_click_events_partition(month DATE)
+RETURNS TEXT AS $$
+DECLARE
+    first_day DATE := DATE_TRUNC('month', month)::date;
+    partition_name TEXT := 'click_events_' || TO_CHAR(first_day, 'YYYY_MM');
+BEGIN
+    EXECUTE format(
+        'CREATE TABLE IF NOT EXISTS %I PARTITION OF click_events FOR VALUES FROM (%L) TO (%L)',
+        partition_name,
+        first_day::timestamp AT TIME ZONE 'UTC',
+        (first_day + INTERVAL '1 month')::timestamp AT TIME ZONE 'UTC'
+    );
+    RETURN partition_name;
+END;
+$$ language 'plpgsql';
+
+-- Every month with clicks, through three months ahead
+DO $$
+DECLARE
+    month DATE;
+BEGIN
+    SELECT DATE_TRUNC('month', COALESCE(MIN(COALESCE(timestamp, created_at)), NOW()) AT TIME ZONE 'UTC')::date
+    INTO month
+    FROM click_events_unpartitioned;
+
+    WHILE month <= (DATE_TRUNC('month', NOW() AT TIME ZONE 'UTC') + INTERVAL '3 months')::date LOOP
+        PERFORM create_click_events_partition(month);
+        month := (month + INTERVAL '1 month')::date;
+    END LOOP;
+END;
+$$;
+
+-- Copied before the click_count trigger exists, so counts aren't bumped again
+INSERT INTO click_events (
+    id, link_id, timestamp, user_agent, referrer, ip_address, session_id,
+    country_code, created_at, classification, classification_reason,
+    idempotency_key, variant
+)
+SELECT
+    id, link_id, COALESCE(timestamp, created_at, NOW()), user_agent, referrer,
+    ip_address, session_id, country_code, created_at, classification,
+    classification_reason, idempotency_key, variant
+FROM click_events_unpartitioned;
+
+DROP TABLE click_events_unpartitioned;
+
+ALTER TABLE click_events ADD PRIMARY KEY (id, timestamp);
+
+CREATE INDEX idx_click_events_link_id ON click_events(link_id);
+CREATE INDEX idx_click_events_timestamp ON click_events(timestamp);
+CREATE INDEX idx_click_events_session_id ON click_events(session_id);
+CREATE INDEX idx_click_events_link_ip_timestamp ON click_events(link_id, ip_address, timestamp DESC);
+CREATE INDEX idx_click_events_link_session_timestamp ON click_events(link_id, session_id, timestamp DESC);
+CREATE INDEX idx_click_events_idempotency_key ON click_events(idempotency_key)
+    WHERE idempotency_key IS NOT NULL;
+CREATE INDEX idx_click_events_link_variant ON click_events(link_id, variant);
+
+CREATE TRIGGER update_click_count_trigger
+    AFTER INSERT ON click_events
+    FOR EACH ROW EXECUTE FUNCTION update_link_click_count();
+
+-- Keys of recently recorded clicks (see 012_click_idempotency.sql). A click
+-- older than a day can't be recorded any more, so the retention job deletes
+-- keys after a couple of days.
+CREATE TABLE click_idempotency_keys (
+    idempotency_key VARCHAR(100) PRIMARY KEY,
+    click_id UUID NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+INSERT INTO click_idempotency_keys (idempotency_key, click_id, created_at)
+SELECT idempotency_key, id, COALESCE(created_at, NOW())
+FROM click_events
+WHERE idempotency_key IS NOT NULL
+    AND timestamp > NOW() - INTERVAL '2 days';
+
+-- Months of click_events that were exported and dropped. Their clicks stay
+-- in the rollups (016_click_rollups.sql).
+CREATE TABLE click_event_archives (
+    month DATE PRIMARY KEY, -- first day of the month
+    file_path TEXT NOT NULL,
+    row_count BIGINT NOT NULL,
+    file_bytes BIGINT NOT NULL,
+    archived_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
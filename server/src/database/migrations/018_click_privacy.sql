@@ -0,0 +1,9 @@
+-- Visitor details reduced at ingest (src/utils/clickPrivacy.ts): with
+-- CLICK_IP_MODE=hash the IP is kept only as a salted hash, and with
+-- CLICK_USER_AGENT_MODE=reduced the user agent only as browser, OS and
+-- device type
+ALTER TABLE click_events
+    ADD COLUMN ip_hash VARCHAR(64),
+    ADD COLUMN browser VARCHAR(50),
+    ADD COLUMN os VARCHAR(50),
+    ADD COLUMN device_type VARCHAR(20);
@@ -23,7 +23,7 @@ export class AdminUserModel {
     const total = parseInt(countResult.rows[0].total);
 
     const query = `
-      SELECT id, email, name, role, last_login, created_at, updated_at
+      SELECT id, email, name, role, is_active, last_login, created_at, updated_at
       FROM admin_users 
       ORDER BY ${sort_by} ${sort_order}
       LIMIT $1 OFFSET $2
@@ -47,7 +47,7 @@ export class AdminUserModel {
     id: string
   ): Promise<Omit<AdminUser, 'password_hash'> | null> {
     const query = `
-      SELECT id, email, name, role, last_login, created_at, updated_at
+      SELECT id, email, name, role, is_active, last_login, created_at, updated_at
       FROM admin_users 
       WHERE id = $1
     `;
@@ -67,7 +67,7 @@ export class AdminUserModel {
     email: string
   ): Promise<Omit<AdminUser, 'password_hash'> | null> {
     const query = `
-      SELECT id, email, name, role, last_login, created_at, updated_at
+      SELECT id, email, name, role, is_active, last_login, created_at, updated_at
       FROM admin_users 
       WHERE email = $1
     `;
@@ -83,7 +83,7 @@ export class AdminUserModel {
     const query = `
       INSERT INTO admin_users (email, name, password_hash, role)
       VALUES ($1, $2, $3, $4)
-      RETURNING id, email, name, role, last_login, created_at, updated_at
+      RETURNING id, email, name, role, is_active, last_login, created_at, updated_at
     `;
 
     const values = [
@@ -124,6 +124,10 @@ export class AdminUserModel {
       fields.push(`role = $${paramCount++}`);
       values.push(input.role);
     }
+    if (input.is_active !== undefined) {
+      fields.push(`is_active = $${paramCount++}`);
+      values.push(input.is_active);
+    }
     if (input.last_login !== undefined) {
       fields.push(`last_login = $${paramCount++}`);
       values.push(input.last_login);
@@ -138,7 +142,7 @@ export class AdminUserModel {
       UPDATE admin_users 
       SET ${fields.join(', ')}
       WHERE id = $${paramCount}
-      RETURNING id, email, name, role, last_login, created_at, updated_at
+      RETURNING id, email, name, role, is_active, last_login, created_at, updated_at
     `;
 
     const result = await db.query<Omit<AdminUser, 'password_hash'>>(
@@ -159,6 +163,17 @@ export class AdminUserModel {
     return (result.rowCount ?? 0) > 0;
   }
 
+  // Active admins other than the given user, used to protect the last admin
+  static async countActiveAdmins(excludeId?: string): Promise<number> {
+    const query = `
+      SELECT COUNT(*) as total FROM admin_users
+      WHERE role = 'admin' AND is_active = true
+        AND ($1::uuid IS NULL OR id <> $1::uuid)
+    `;
+    const result = await db.query(query, [excludeId || null]);
+    return parseInt(result.rows[0].total);
+  }
+
   static async exists(field: 'id' | 'email', value: string): Promise<boolean> {
     const query = `SELECT 1 FROM admin_users WHERE ${field} = $1 LIMIT 1`;
     const result = await db.query(query, [value]);
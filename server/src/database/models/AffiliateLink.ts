@@ -1,13 +1,119 @@
 import { db } from '../connection.js';
 import type {
   AffiliateLink,
+  AffiliateLinkExportRow,
   CreateAffiliateLinkInput,
   UpdateAffiliateLinkInput,
   AffiliateLinkFilters,
+  LinkScheduleState,
   PaginationOptions,
   PaginatedResult,
 } from './types.js';
 
+const INSERT_LINK_QUERY = `
+  INSERT INTO affiliate_links (
+    title, description, url, affiliate_url, category_id,
+    tags, image_url, commission_rate, featured, status, publish_at, expires_at,
+    slug, url_template, destinations, sticky_destinations
+  )
+  VALUES (
+    $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16
+  )
+  RETURNING *
+`;
+
+function insertValues(input: CreateAffiliateLinkInput): unknown[] {
+  return [
+    input.title,
+    input.description,
+    input.url,
+    input.affiliate_url,
+    input.category_id,
+    input.tags || [],
+    input.image_url || null,
+    input.commission_rate || null,
+    input.featured || false,
+    input.status || 'active',
+    input.publish_at || null,
+    input.expires_at || null,
+    input.slug || null,
+    input.url_template || null,
+    JSON.stringify(input.destinations || []),
+    input.sticky_destinations || false,
+  ];
+}
+
+// SQL for links whose schedule window covers the current time
+const SCHEDULE_CONDITIONS: Record<LinkScheduleState, string> = {
+  live: `(al.publish_at IS NULL OR al.publish_at <= NOW())
+    AND (al.expires_at IS NULL OR al.expires_at > NOW())`,
+  scheduled: 'al.publish_at > NOW()',
+  expired: 'al.expires_at <= NOW()',
+};
+
+// WHERE conditions shared by the paginated listing and the catalog export
+function buildFilterConditions(filters: AffiliateLinkFilters): {
+  conditions: string[];
+  params: unknown[];
+} {
+  const whereConditions: string[] = [
+    filters.trashed ? 'al.deleted_at IS NOT NULL' : 'al.deleted_at IS NULL',
+  ];
+  const queryParams: unknown[] = [];
+  let paramCount = 1;
+
+  if (filters.category_id) {
+    whereConditions.push(`al.category_id = $${paramCount++}`);
+    queryParams.push(filters.category_id);
+  }
+
+  if (filters.status) {
+    whereConditions.push(`al.status = $${paramCount++}`);
+    queryParams.push(filters.status);
+  }
+
+  if (filters.featured !== undefined) {
+    whereConditions.push(`al.featured = $${paramCount++}`);
+    queryParams.push(filters.featured);
+  }
+
+  if (filters.search) {
+    whereConditions.push(`
+      to_tsvector('english', al.title || ' ' || al.description || ' ' || array_to_string(al.tags, ' '))
+      @@ plainto_tsquery('english', $${paramCount++})
+    `);
+    queryParams.push(filters.search);
+  }
+
+  if (filters.tags && filters.tags.length > 0) {
+    whereConditions.push(`al.tags && $${paramCount++}`);
+    queryParams.push(filters.tags);
+  }
+
+  if (filters.schedule) {
+    whereConditions.push(SCHEDULE_CONDITIONS[filters.schedule]);
+  }
+
+  return { conditions: whereConditions, params: queryParams };
+}
+
+// Valid clicks per link, counting archived months from the daily rollups
+const ACTUAL_CLICKS_QUERY = `
+  SELECT link_id, SUM(clicks)::integer as clicks
+  FROM (
+    SELECT link_id, COUNT(*) as clicks
+    FROM click_events
+    WHERE classification = 'valid'
+    GROUP BY link_id
+    UNION ALL
+    SELECT d.link_id, SUM(d.valid_clicks)
+    FROM click_daily_stats d
+    JOIN click_event_archives a ON a.month = DATE_TRUNC('month', d.day)::date
+    GROUP BY d.link_id
+  ) counts
+  GROUP BY link_id
+`;
+
 export class AffiliateLinkModel {
   static async findAll(
     filters: AffiliateLinkFilters = {},
@@ -20,43 +126,11 @@ export class AffiliateLinkModel {
       sort_order = 'DESC',
     } = options;
 
-    const whereConditions: string[] = [];
-    const queryParams: any[] = [];
-    let paramCount = 1;
+    const { conditions: whereConditions, params: queryParams } =
+      buildFilterConditions(filters);
+    let paramCount = queryParams.length + 1;
 
-    // Build WHERE conditions
-    if (filters.category_id) {
-      whereConditions.push(`al.category_id = $${paramCount++}`);
-      queryParams.push(filters.category_id);
-    }
-
-    if (filters.status) {
-      whereConditions.push(`al.status = $${paramCount++}`);
-      queryParams.push(filters.status);
-    }
-
-    if (filters.featured !== undefined) {
-      whereConditions.push(`al.featured = $${paramCount++}`);
-      queryParams.push(filters.featured);
-    }
-
-    if (filters.search) {
-      whereConditions.push(`
-        to_tsvector('english', al.title || ' ' || al.description || ' ' || array_to_string(al.tags, ' '))
-        @@ plainto_tsquery('english', $${paramCount++})
-      `);
-      queryParams.push(filters.search);
-    }
-
-    if (filters.tags && filters.tags.length > 0) {
-      whereConditions.push(`al.tags && $${paramCount++}`);
-      queryParams.push(filters.tags);
-    }
-
-    const whereClause =
-      whereConditions.length > 0
-        ? `WHERE ${whereConditions.join(' AND ')}`
-        : '';
+    const whereClause = `WHERE ${whereConditions.join(' AND ')}`;
 
     // Count query
     const countQuery = `
@@ -88,12 +162,66 @@ export class AffiliateLinkModel {
     };
   }
 
-  static async findById(id: string): Promise<AffiliateLink | null> {
-    const query = 'SELECT * FROM affiliate_links WHERE id = $1';
+  // Walk every matching link in id order, a batch at a time, so exports can
+  // stream the whole catalog without holding it in memory
+  static async *findAllForExport(
+    filters: AffiliateLinkFilters = {},
+    batchSize: number = 500
+  ): AsyncGenerator<AffiliateLinkExportRow[]> {
+    const { conditions, params } = buildFilterConditions(filters);
+    let lastId: string | null = null;
+
+    while (true) {
+      const whereConditions = [...conditions];
+      const queryParams = [...params];
+      if (lastId) {
+        queryParams.push(lastId);
+        whereConditions.push(`al.id > $${queryParams.length}`);
+      }
+      queryParams.push(batchSize);
+
+      const query = `
+        SELECT al.*, c.slug AS category_slug, c.name AS category_name
+        FROM affiliate_links al
+        JOIN categories c ON al.category_id = c.id
+        WHERE ${whereConditions.join(' AND ')}
+        ORDER BY al.id
+        LIMIT $${queryParams.length}
+      `;
+
+      const result = await db.query<AffiliateLinkExportRow>(query, queryParams);
+      if (result.rows.length > 0) yield result.rows;
+      if (result.rows.length < batchSize) return;
+      lastId = result.rows[result.rows.length - 1].id;
+    }
+  }
+
+  // Trashed links are only returned when asked for, e.g. to report on their
+  // click history or to restore them
+  static async findById(
+    id: string,
+    includeTrashed: boolean = false
+  ): Promise<AffiliateLink | null> {
+    const query = includeTrashed
+      ? 'SELECT * FROM affiliate_links WHERE id = $1'
+      : 'SELECT * FROM affiliate_links WHERE id = $1 AND deleted_at IS NULL';
     const result = await db.query<AffiliateLink>(query, [id]);
     return result.rows[0] || null;
   }
 
+  // Slugs stay reserved while a link is in the trash, so uniqueness checks
+  // pass includeTrashed
+  static async findBySlug(
+    slug: string,
+    includeTrashed: boolean = false
+  ): Promise<AffiliateLink | null> {
+    const query = includeTrashed
+      ? 'SELECT * FROM affiliate_links WHERE slug = $1'
+      : 'SELECT * FROM affiliate_links WHERE slug = $1 AND deleted_at IS NULL';
+    const result = await db.query<AffiliateLink>(query, [slug]);
+    return result.rows[0] || null;
+  }
+
   static async findWithCategory(
     id: string
   ): Promise<(AffiliateLink & { category: any }) | null> {
@@ -109,7 +237,7 @@ export class AffiliateLinkModel {
         ) as category
       FROM affiliate_links al
       JOIN categories c ON al.category_id = c.id
-      WHERE al.id = $1
+      WHERE al.id = $1 AND al.deleted_at IS NULL
     `;
 
     const result = await db.query<AffiliateLink & { category: any }>(query, [
@@ -119,32 +247,30 @@ export class AffiliateLinkModel {
   }
 
   static async create(input: CreateAffiliateLinkInput): Promise<AffiliateLink> {
-    const query = `
-      INSERT INTO affiliate_links (
-        title, description, url, affiliate_url, category_id, 
-        tags, image_url, commission_rate, featured, status
-      )
-      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
-      RETURNING *
-    `;
-
-    const values = [
-      input.title,
-      input.description,
-      input.url,
-      input.affiliate_url,
-      input.category_id,
-      input.tags || [],
-      input.image_url || null,
-      input.commission_rate || null,
-      input.featured || false,
-      input.status || 'active',
-    ];
-
-    const result = await db.query<AffiliateLink>(query, values);
+    const result = await db.query<AffiliateLink>(
+      INSERT_LINK_QUERY,
+      insertValues(input)
+    );
     return result.rows[0];
   }
 
+  // All-or-nothing insert used by the bulk importer
+  static async createMany(
+    inputs: CreateAffiliateLinkInput[]
+  ): Promise<AffiliateLink[]> {
+    return db.transaction(async (client) => {
+      const links: AffiliateLink[] = [];
+      for (const input of inputs) {
+        const result = await client.query<AffiliateLink>(
+          INSERT_LINK_QUERY,
+          insertValues(input)
+        );
+        links.push(result.rows[0]);
+      }
+      return links;
+    });
+  }
+
   static async update(
     id: string,
     input: UpdateAffiliateLinkInput
@@ -169,6 +295,22 @@ export class AffiliateLinkModel {
       fields.push(`affiliate_url = $${paramCount++}`);
       values.push(input.affiliate_url);
     }
+    if (input.slug !== undefined) {
+      fields.push(`slug = $${paramCount++}`);
+      values.push(input.slug);
+    }
+    if (input.url_template !== undefined) {
+      fields.push(`url_template = $${paramCount++}`);
+      values.push(input.url_template);
+    }
+    if (input.destinations !== undefined) {
+      fields.push(`destinations = $${paramCount++}`);
+      values.push(JSON.stringify(input.destinations));
+    }
+    if (input.sticky_destinations !== undefined) {
+      fields.push(`sticky_destinations = $${paramCount++}`);
+      values.push(input.sticky_destinations);
+    }
     if (input.category_id !== undefined) {
       fields.push(`category_id = $${paramCount++}`);
       values.push(input.category_id);
@@ -193,6 +335,14 @@ export class AffiliateLinkModel {
       fields.push(`status = $${paramCount++}`);
       values.push(input.status);
     }
+    if (input.publish_at !== undefined) {
+      fields.push(`publish_at = $${paramCount++}`);
+      values.push(input.publish_at);
+    }
+    if (input.expires_at !== undefined) {
+      fields.push(`expires_at = $${paramCount++}`);
+      values.push(input.expires_at);
+    }
 
     if (fields.length === 0) {
       return this.findById(id);
@@ -202,7 +352,7 @@ export class AffiliateLinkModel {
     const query = `
       UPDATE affiliate_links 
       SET ${fields.join(', ')}
-      WHERE id = $${paramCount}
+      WHERE id = $${paramCount} AND deleted_at IS NULL
       RETURNING *
     `;
 
@@ -210,23 +360,77 @@ export class AffiliateLinkModel {
     return result.rows[0] || null;
   }
 
-  static async delete(id: string): Promise<boolean> {
-    const query = 'DELETE FROM affiliate_links WHERE id = $1';
+  // Move a link to the trash. Its click history is kept until it is purged.
+  static async delete(id: string): Promise<AffiliateLink | null> {
+    const query = `
+      UPDATE affiliate_links SET deleted_at = NOW()
+      WHERE id = $1 AND deleted_at IS NULL
+      RETURNING *
+    `;
+    const result = await db.query<AffiliateLink>(query, [id]);
+    return result.rows[0] || null;
+  }
+
+  static async restore(id: string): Promise<AffiliateLink | null> {
+    const query = `
+      UPDATE affiliate_links SET deleted_at = NULL
+      WHERE id = $1 AND deleted_at IS NOT NULL
+      RETURNING *
+    `;
+    const result = await db.query<AffiliateLink>(query, [id]);
+    return result.rows[0] || null;
+  }
+
+  // Permanently delete a trashed link; its click events cascade with it
+  static async purge(id: string): Promise<boolean> {
+    const query =
+      'DELETE FROM affiliate_links WHERE id = $1 AND deleted_at IS NOT NULL';
     const result = await db.query(query, [id]);
     return (result.rowCount ?? 0) > 0;
   }
 
-  static async incrementClickCount(id: string): Promise<void> {
-    const query =
-      'UPDATE affiliate_links SET click_count = click_count + 1 WHERE id = $1';
-    await db.query(query, [id]);
+  // click_count is maintained by update_click_count_trigger; these exist to
+  // detect and repair drift against the valid click_events. Months archived
+  // by the retention job only have their counts left in click_daily_stats.
+  static async findClickCountDrift(): Promise<
+    { id: string; title: string; click_count: number; actual_clicks: number }[]
+  > {
+    const query = `
+      SELECT
+        al.id, al.title, al.click_count,
+        COALESCE(actual.clicks, 0) as actual_clicks
+      FROM affiliate_links al
+      LEFT JOIN (${ACTUAL_CLICKS_QUERY}) actual ON actual.link_id = al.id
+      WHERE al.click_count <> COALESCE(actual.clicks, 0)
+      ORDER BY al.title
+    `;
+
+    const result = await db.query(query);
+    return result.rows;
+  }
+
+  static async reconcileClickCounts(): Promise<number> {
+    const query = `
+      UPDATE affiliate_links al
+      SET click_count = counts.actual_clicks
+      FROM (
+        SELECT al2.id, COALESCE(actual.clicks, 0) as actual_clicks
+        FROM affiliate_links al2
+        LEFT JOIN (${ACTUAL_CLICKS_QUERY}) actual ON actual.link_id = al2.id
+      ) counts
+      WHERE al.id = counts.id AND al.click_count <> counts.actual_clicks
+    `;
+
+    const result = await db.query(query);
+    return result.rowCount ?? 0;
   }
 
   static async getFeatured(limit: number = 10): Promise<AffiliateLink[]> {
     const query = `
-      SELECT * FROM affiliate_links 
-      WHERE featured = true AND status = 'active'
-      ORDER BY click_count DESC, created_at DESC
+      SELECT al.* FROM affiliate_links al
+      WHERE al.featured = true AND al.status = 'active' AND al.deleted_at IS NULL
+        AND ${SCHEDULE_CONDITIONS.live}
+      ORDER BY al.click_count DESC, al.created_at DESC
       LIMIT $1
     `;
 
@@ -236,9 +440,10 @@ export class AffiliateLinkModel {
 
   static async getPopular(limit: number = 10): Promise<AffiliateLink[]> {
     const query = `
-      SELECT * FROM affiliate_links 
-      WHERE status = 'active'
-      ORDER BY click_count DESC, created_at DESC
+      SELECT al.* FROM affiliate_links al
+      WHERE al.status = 'active' AND al.deleted_at IS NULL
+        AND ${SCHEDULE_CONDITIONS.live}
+      ORDER BY al.click_count DESC, al.created_at DESC
       LIMIT $1
     `;
 
@@ -247,7 +452,8 @@ export class AffiliateLinkModel {
   }
 
   static async exists(id: string): Promise<boolean> {
-    const query = 'SELECT 1 FROM affiliate_links WHERE id = $1 LIMIT 1';
+    const query =
+      'SELECT 1 FROM affiliate_links WHERE id = $1 AND deleted_at IS NULL LIMIT 1';
     const result = await db.query(query, [id]);
     return result.rows.length > 0;
   }
@@ -0,0 +1,140 @@
+import { db } from '../connection.js';
+import type {
+  AuditDiff,
+  AuditEvent,
+  AuditEventFilters,
+  CreateAuditEventInput,
+  PaginationOptions,
+  PaginatedResult,
+} from './types.js';
+
+// Bookkeeping columns that change on every write and would only add noise
+const IGNORED_DIFF_FIELDS = ['updated_at'];
+
+// Round-trip through JSON so dates and numerics compare as they are stored
+function toSnapshot(
+  value: object | null | undefined
+): Record<string, unknown> | null {
+  return value ? JSON.parse(JSON.stringify(value)) : null;
+}
+
+function diffSnapshots(
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown> | null
+): AuditDiff {
+  const diff: AuditDiff = {};
+  const fields = new Set([
+    ...Object.keys(before ?? {}),
+    ...Object.keys(after ?? {}),
+  ]);
+
+  for (const field of fields) {
+    if (IGNORED_DIFF_FIELDS.includes(field)) continue;
+
+    const from = before?.[field] ?? null;
+    const to = after?.[field] ?? null;
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      diff[field] = { from, to };
+    }
+  }
+
+  return diff;
+}
+
+export class AuditEventModel {
+  static async record(input: CreateAuditEventInput): Promise<AuditEvent> {
+    const before = toSnapshot(input.before);
+    const after = toSnapshot(input.after);
+
+    const query = `
+      INSERT INTO audit_events (
+        actor_id, actor_email, action, entity_type, entity_id, before, after, diff, metadata
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+      RETURNING *
+    `;
+
+    const values = [
+      input.actor?.id || null,
+      input.actor?.email || null,
+      input.action,
+      input.entity_type,
+      input.entity_id || null,
+      before,
+      after,
+      diffSnapshots(before, after),
+      input.metadata || null,
+    ];
+
+    const result = await db.query<AuditEvent>(query, values);
+    return result.rows[0];
+  }
+
+  static async findAll(
+    filters: AuditEventFilters = {},
+    options: PaginationOptions = {}
+  ): Promise<PaginatedResult<AuditEvent>> {
+    const { limit = 50, offset = 0 } = options;
+
+    const whereConditions: string[] = [];
+    const queryParams: unknown[] = [];
+    let paramCount = 1;
+
+    if (filters.actor_id) {
+      whereConditions.push(`actor_id = $${paramCount++}`);
+      queryParams.push(filters.actor_id);
+    }
+
+    if (filters.action) {
+      whereConditions.push(`action = $${paramCount++}`);
+      queryParams.push(filters.action);
+    }
+
+    if (filters.entity_type) {
+      whereConditions.push(`entity_type = $${paramCount++}`);
+      queryParams.push(filters.entity_type);
+    }
+
+    if (filters.entity_id) {
+      whereConditions.push(`entity_id = $${paramCount++}`);
+      queryParams.push(filters.entity_id);
+    }
+
+    if (filters.start_date) {
+      whereConditions.push(`created_at >= $${paramCount++}`);
+      queryParams.push(filters.start_date);
+    }
+
+    if (filters.end_date) {
+      whereConditions.push(`created_at <= $${paramCount++}`);
+      queryParams.push(filters.end_date);
+    }
+
+    const whereClause =
+      whereConditions.length > 0
+        ? `WHERE ${whereConditions.join(' AND ')}`
+        : '';
+
+    const countQuery = `SELECT COUNT(*) as total FROM audit_events ${whereClause}`;
+    const countResult = await db.query(countQuery, queryParams);
+    const total = parseInt(countResult.rows[0].total);
+
+    const query = `
+      SELECT * FROM audit_events
+      ${whereClause}
+      ORDER BY created_at DESC
+      LIMIT $${paramCount++} OFFSET $${paramCount++}
+    `;
+
+    queryParams.push(limit, offset);
+    const result = await db.query<AuditEvent>(query, queryParams);
+
+    return {
+      data: result.rows,
+      total,
+      limit,
+      offset,
+      has_more: offset + limit < total,
+    };
+  }
+}
@@ -53,8 +53,8 @@ export class CategoryModel {
 
   static async create(input: CreateCategoryInput): Promise<Category> {
     const query = `
-      INSERT INTO categories (name, slug, description, color, icon)
-      VALUES ($1, $2, $3, $4, $5)
+      INSERT INTO categories (name, slug, description, color, icon, url_template)
+      VALUES ($1, $2, $3, $4, $5, $6)
       RETURNING *
     `;
 
@@ -64,6 +64,7 @@ export class CategoryModel {
       input.description || null,
       input.color || '#3B82F6',
       input.icon || null,
+      input.url_template || null,
     ];
 
     const result = await db.query<Category>(query, values);
@@ -98,6 +99,10 @@ export class CategoryModel {
       fields.push(`icon = $${paramCount++}`);
       values.push(input.icon);
     }
+    if (input.url_template !== undefined) {
+      fields.push(`url_template = $${paramCount++}`);
+      values.push(input.url_template);
+    }
 
     if (fields.length === 0) {
       return this.findById(id);
@@ -129,7 +134,7 @@ export class CategoryModel {
         c.*,
         COUNT(al.id)::integer as link_count
       FROM categories c
-      LEFT JOIN affiliate_links al ON c.id = al.category_id AND al.status = 'active'
+      LEFT JOIN affiliate_links al ON c.id = al.category_id AND al.status = 'active' AND al.deleted_at IS NULL
       GROUP BY c.id
       ORDER BY c.name ASC
     `;
@@ -138,7 +143,32 @@ export class CategoryModel {
     return result.rows;
   }
 
-  static async exists(field: 'id' | 'slug', value: string): Promise<boolean> {
+  // Includes trashed links, which would otherwise cascade with the category
+  static async countLinks(id: string): Promise<number> {
+    const query =
+      'SELECT COUNT(*)::integer as total FROM affiliate_links WHERE category_id = $1';
+    const result = await db.query<{ total: number }>(query, [id]);
+    return result.rows[0]?.total || 0;
+  }
+
+  static async deleteAndReassignLinks(
+    id: string,
+    targetCategoryId: string
+  ): Promise<number> {
+    return db.transaction(async (client) => {
+      const reassignResult = await client.query(
+        'UPDATE affiliate_links SET category_id = $2 WHERE category_id = $1',
+        [id, targetCategoryId]
+      );
+      await client.query('DELETE FROM categories WHERE id = $1', [id]);
+      return reassignResult.rowCount ?? 0;
+    });
+  }
+
+  static async exists(
+    field: 'id' | 'slug' | 'name',
+    value: string
+  ): Promise<boolean> {
     const query = `SELECT 1 FROM categories WHERE ${field} = $1 LIMIT 1`;
     const result = await db.query(query, [value]);
     return result.rows.length > 0;
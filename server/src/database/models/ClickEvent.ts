@@ -1,32 +1,269 @@
 import { db } from '../connection.js';
+import { ClickRollupModel, referrerHostSql } from './ClickRollup.js';
+import { rollupRange } from '../../utils/clickRollups.js';
+import type { ClickVisitor } from '../../utils/clickPrivacy.js';
 import type {
+  ClickClassification,
   ClickEvent,
+  ClickFilterOptions,
   CreateClickEventInput,
   PaginationOptions,
   PaginatedResult,
 } from './types.js';
 
+// SQL condition limiting click analytics to valid clicks, unless the
+// caller asked for every click
+export const validClicksCondition = (
+  filter: ClickFilterOptions = {},
+  column = 'classification'
+): string => (filter.include_invalid ? 'TRUE' : `${column} = 'valid'`);
+
+// Clicks counted from the rollup tables, matching validClicksCondition
+const rolledUpClicks = (filter: ClickFilterOptions = {}): string =>
+  filter.include_invalid
+    ? 'valid_clicks + bot_clicks + duplicate_clicks'
+    : 'valid_clicks';
+
+// Range conditions for queries whose first four parameters come from
+// rangeParams(): [start, end, rollupStart, rollupEnd]. Raw events are read
+// outside the rolled up days, the rollup tables inside them. Distinct
+// sessions can't be added up across rollup rows, so unique counts are
+// always read from click_events.
+const RAW_RANGE = `((timestamp >= $1 AND timestamp < $3) OR (timestamp >= $4 AND timestamp <= $2))`;
+const DAILY_RANGE = `day >= ($3::timestamptz AT TIME ZONE 'UTC')::date AND day < ($4::timestamptz AT TIME ZONE 'UTC')::date`;
+const HOURLY_RANGE = 'hour >= $3 AND hour < $4';
+
+const rangeParams = async (
+  startDate: Date,
+  endDate: Date
+): Promise<unknown[]> => {
+  const { rollupStart, rollupEnd } = rollupRange(
+    startDate,
+    endDate,
+    await ClickRollupModel.getCoverage()
+  );
+  return [startDate, endDate, rollupStart, rollupEnd];
+};
+
+// Returns no row when the idempotency key has been recorded before. Keys
+// are claimed in click_idempotency_keys: click_events is partitioned by
+// timestamp, so it can't enforce their uniqueness itself.
+const INSERT_CLICK_QUERY = `
+  WITH click AS (
+    SELECT
+      COALESCE($11::uuid, uuid_generate_v4()) as id,
+      COALESCE($9::timestamptz, NOW()) as timestamp
+  ),
+  claimed AS (
+    INSERT INTO click_idempotency_keys (idempotency_key, click_id)
+    SELECT $10::varchar, id FROM click WHERE $10::varchar IS NOT NULL
+    ON CONFLICT (idempotency_key) DO NOTHING
+    RETURNING idempotency_key
+  )
+  INSERT INTO click_events (
+    id, timestamp, link_id, user_agent, referrer, ip_address, session_id,
+    country_code, classification, classification_reason, idempotency_key,
+    variant, ip_hash, browser, os, device_type
+  )
+  SELECT
+    click.id, click.timestamp, $1::uuid, $2::text, $3::text, $4::inet,
+    $5::varchar, $6::varchar, $7::varchar, $8::varchar, $10::varchar,
+    $12::varchar, $13::varchar, $14::varchar, $15::varchar, $16::varchar
+  FROM click
+  WHERE $10::varchar IS NULL OR EXISTS (SELECT 1 FROM claimed)
+  RETURNING *
+`;
+
+const insertValues = (input: CreateClickEventInput) => [
+  input.link_id,
+  input.user_agent || null,
+  input.referrer || null,
+  input.ip_address || null,
+  input.session_id || null,
+  input.country_code || null,
+  input.classification || 'valid',
+  input.classification_reason || null,
+  input.timestamp || null,
+  input.idempotency_key || null,
+  input.id || null,
+  input.variant || null,
+  input.ip_hash || null,
+  input.browser || null,
+  input.os || null,
+  input.device_type || null,
+];
+
+export type CreatedClickEvent =
+  | { click: ClickEvent; duplicate: false }
+  | { click: ClickEvent | null; duplicate: true };
+
 export class ClickEventModel {
   static async create(input: CreateClickEventInput): Promise<ClickEvent> {
+    const result = await db.query<ClickEvent>(
+      INSERT_CLICK_QUERY,
+      insertValues(input)
+    );
+    return result.rows[0];
+  }
+
+  // Insert a batch of clicks in one transaction. A click whose
+  // idempotency_key was already recorded is not inserted again; the
+  // existing event is returned with `duplicate` set instead, or null once
+  // that event was erased or archived.
+  static async createMany(
+    inputs: CreateClickEventInput[]
+  ): Promise<CreatedClickEvent[]> {
+    return db.transaction(async (client) => {
+      const results: CreatedClickEvent[] = [];
+      for (const input of inputs) {
+        const inserted = await client.query<ClickEvent>(
+          INSERT_CLICK_QUERY,
+          insertValues(input)
+        );
+        if (inserted.rows[0]) {
+          results.push({ click: inserted.rows[0], duplicate: false });
+          continue;
+        }
+
+        const existing = await client.query<ClickEvent>(
+          'SELECT * FROM click_events WHERE idempotency_key = $1',
+          [input.idempotency_key]
+        );
+        results.push({ click: existing.rows[0] ?? null, duplicate: true });
+      }
+      return results;
+    });
+  }
+
+  // Whether the link was clicked in the same session within the last
+  // `windowSeconds`. Bot hits don't count, so a link preview doesn't turn
+  // the real click that follows into a duplicate.
+  static async hasRecentSessionClick(
+    linkId: string,
+    sessionId: string,
+    windowSeconds: number
+  ): Promise<boolean> {
     const query = `
-      INSERT INTO click_events (
-        link_id, user_agent, referrer, ip_address, session_id, country_code
-      )
-      VALUES ($1, $2, $3, $4, $5, $6)
-      RETURNING *
+      SELECT 1
+      FROM click_events
+      WHERE link_id = $1
+        AND session_id = $2
+        AND classification <> 'bot'
+        AND timestamp > NOW() - $3 * INTERVAL '1 second'
+      LIMIT 1
     `;
 
-    const values = [
-      input.link_id,
-      input.user_agent || null,
-      input.referrer || null,
-      input.ip_address || null,
-      input.session_id || null,
-      input.country_code || null,
-    ];
+    const result = await db.query(query, [linkId, sessionId, windowSeconds]);
+    return result.rows.length > 0;
+  }
 
-    const result = await db.query<ClickEvent>(query, values);
-    return result.rows[0];
+  // Clicks whose visitor details were stored before they were reduced at
+  // ingest (migration 018), in pages of `limit` after `afterId`
+  static async findUnreduced(
+    afterId: string | null,
+    limit: number
+  ): Promise<Pick<ClickEvent, 'id' | 'ip_address' | 'user_agent'>[]> {
+    const result = await db.query<
+      Pick<ClickEvent, 'id' | 'ip_address' | 'user_agent'>
+    >(
+      `
+      SELECT id, HOST(ip_address) as ip_address, user_agent
+      FROM click_events
+      WHERE browser IS NULL
+        AND ip_hash IS NULL
+        AND (ip_address IS NOT NULL OR user_agent IS NOT NULL)
+        AND ($1::uuid IS NULL OR id > $1)
+      ORDER BY id
+      LIMIT $2
+      `,
+      [afterId, limit]
+    );
+    return result.rows;
+  }
+
+  // Replace the stored visitor details of clicks
+  static async updateVisitors(
+    visitors: (ClickVisitor & { id: string })[]
+  ): Promise<void> {
+    await db.transaction(async (client) => {
+      for (const visitor of visitors) {
+        await client.query(
+          `
+          UPDATE click_events
+          SET ip_address = $2, ip_hash = $3, user_agent = $4,
+              browser = $5, os = $6, device_type = $7
+          WHERE id = $1
+          `,
+          [
+            visitor.id,
+            visitor.ip_address ?? null,
+            visitor.ip_hash ?? null,
+            visitor.user_agent ?? null,
+            visitor.browser ?? null,
+            visitor.os ?? null,
+            visitor.device_type ?? null,
+          ]
+        );
+      }
+    });
+  }
+
+  // Erase every click of a session, e.g. on a GDPR erasure request, with the
+  // conversions attributed to them (click_events is partitioned, so there is
+  // no foreign key to cascade) and their share of their links' click_count.
+  // Returns the UTC days the clicks were on, so rollups can be recomputed.
+  // Archived months hold no session IDs, so only click_events is searched.
+  static async deleteBySession(
+    sessionId: string
+  ): Promise<{ clicks: number; conversions: number; days: string[] }> {
+    return db.transaction(async (client) => {
+      const erased = await client.query<{ id: string; day: string }>(
+        `
+        WITH erased AS (
+          DELETE FROM click_events WHERE session_id = $1
+          RETURNING id, link_id, classification, timestamp
+        ),
+        counts AS (
+          UPDATE affiliate_links al
+          SET click_count = GREATEST(al.click_count - valid.clicks, 0)
+          FROM (
+            SELECT link_id, COUNT(*)::integer as clicks
+            FROM erased
+            WHERE classification = 'valid'
+            GROUP BY link_id
+          ) valid
+          WHERE al.id = valid.link_id
+        )
+        SELECT id, TO_CHAR(timestamp AT TIME ZONE 'UTC', 'YYYY-MM-DD') as day
+        FROM erased
+        `,
+        [sessionId]
+      );
+
+      const ids = erased.rows.map((row) => row.id);
+      if (ids.length === 0) return { clicks: 0, conversions: 0, days: [] };
+
+      const conversions = await client.query(
+        'DELETE FROM conversions WHERE click_id = ANY($1::uuid[])',
+        [ids]
+      );
+      await client.query(
+        'DELETE FROM click_idempotency_keys WHERE click_id = ANY($1::uuid[])',
+        [ids]
+      );
+
+      return {
+        clicks: ids.length,
+        conversions: conversions.rowCount ?? 0,
+        days: [...new Set(erased.rows.map((row) => row.day))].sort(),
+      };
+    });
+  }
+
+  static async findById(id: string): Promise<ClickEvent | null> {
+    const query = 'SELECT * FROM click_events WHERE id = $1';
+    const result = await db.query<ClickEvent>(query, [id]);
+    return result.rows[0] || null;
   }
 
   static async findByLinkId(
@@ -63,28 +300,32 @@ export class ClickEventModel {
     };
   }
 
+  // Clicks per UTC day
   static async getClicksByDateRange(
     startDate: Date,
     endDate: Date,
-    linkId?: string
+    linkId?: string,
+    filter: ClickFilterOptions = {}
   ): Promise<{ date: string; clicks: number }[]> {
-    let query = `
-      SELECT 
-        DATE(timestamp) as date,
-        COUNT(*)::integer as clicks
-      FROM click_events 
-      WHERE timestamp >= $1 AND timestamp <= $2
-    `;
-
-    const params: any[] = [startDate, endDate];
+    const params = await rangeParams(startDate, endDate);
+    const linkCondition = linkId ? 'AND link_id = $5' : '';
+    if (linkId) params.push(linkId);
 
-    if (linkId) {
-      query += ' AND link_id = $3';
-      params.push(linkId);
-    }
-
-    query += `
-      GROUP BY DATE(timestamp)
+    const query = `
+      SELECT date, SUM(clicks)::integer as clicks
+      FROM (
+        SELECT DATE(timestamp AT TIME ZONE 'UTC') as date, COUNT(*) as clicks
+        FROM click_events
+        WHERE ${RAW_RANGE} AND ${validClicksCondition(filter)} ${linkCondition}
+        GROUP BY 1
+        UNION ALL
+        SELECT day, SUM(${rolledUpClicks(filter)})
+        FROM click_daily_stats
+        WHERE ${DAILY_RANGE} ${linkCondition}
+        GROUP BY 1
+      ) clicks
+      GROUP BY date
+      HAVING SUM(clicks) > 0
       ORDER BY date ASC
     `;
 
@@ -98,64 +339,99 @@ export class ClickEventModel {
   static async getTopLinksByClicks(
     startDate: Date,
     endDate: Date,
-    limit: number = 10
+    limit: number = 10,
+    filter: ClickFilterOptions = {}
   ): Promise<{ link_id: string; clicks: number; title: string }[]> {
+    const params = await rangeParams(startDate, endDate);
+    params.push(limit);
+
     const query = `
-      SELECT 
-        ce.link_id,
-        COUNT(*)::integer as clicks,
+      SELECT
+        clicks.link_id,
+        SUM(clicks.clicks)::integer as clicks,
         al.title
-      FROM click_events ce
-      JOIN affiliate_links al ON ce.link_id = al.id
-      WHERE ce.timestamp >= $1 AND ce.timestamp <= $2
-      GROUP BY ce.link_id, al.title
+      FROM (
+        SELECT link_id, COUNT(*) as clicks
+        FROM click_events
+        WHERE ${RAW_RANGE} AND ${validClicksCondition(filter)}
+        GROUP BY link_id
+        UNION ALL
+        SELECT link_id, SUM(${rolledUpClicks(filter)})
+        FROM click_daily_stats
+        WHERE ${DAILY_RANGE}
+        GROUP BY link_id
+      ) clicks
+      JOIN affiliate_links al ON clicks.link_id = al.id
+      GROUP BY clicks.link_id, al.title
+      HAVING SUM(clicks.clicks) > 0
       ORDER BY clicks DESC
-      LIMIT $3
+      LIMIT $5
     `;
 
     const result = await db.query<{
       link_id: string;
       clicks: number;
       title: string;
-    }>(query, [startDate, endDate, limit]);
+    }>(query, params);
     return result.rows;
   }
 
-  static async getTotalClicks(linkId?: string): Promise<number> {
-    let query = 'SELECT COUNT(*)::integer as total FROM click_events';
-    const params: any[] = [];
+  // All-time clicks, up to now
+  static async getTotalClicks(
+    linkId?: string,
+    filter: ClickFilterOptions = {}
+  ): Promise<number> {
+    const params = await rangeParams(new Date(0), new Date());
+    const linkCondition = linkId ? 'AND link_id = $5' : '';
+    if (linkId) params.push(linkId);
 
-    if (linkId) {
-      query += ' WHERE link_id = $1';
-      params.push(linkId);
-    }
+    const query = `
+      SELECT COALESCE(SUM(clicks), 0)::integer as total
+      FROM (
+        SELECT COUNT(*) as clicks
+        FROM click_events
+        WHERE ${RAW_RANGE} AND ${validClicksCondition(filter)} ${linkCondition}
+        UNION ALL
+        SELECT SUM(${rolledUpClicks(filter)})
+        FROM click_daily_stats
+        WHERE ${DAILY_RANGE} ${linkCondition}
+      ) clicks
+    `;
 
     const result = await db.query<{ total: number }>(query, params);
     return result.rows[0]?.total || 0;
   }
 
+  // Clicks per hour of the (UTC) day
   static async getClicksByHour(
     startDate: Date,
     endDate: Date,
-    linkId?: string
+    linkId?: string,
+    filter: ClickFilterOptions = {}
   ): Promise<{ hour: number; clicks: number }[]> {
-    let query = `
-      SELECT 
-        EXTRACT(HOUR FROM timestamp)::integer as hour,
-        COUNT(*)::integer as clicks
-      FROM click_events 
-      WHERE timestamp >= $1 AND timestamp <= $2
-    `;
-
-    const params: any[] = [startDate, endDate];
-
-    if (linkId) {
-      query += ' AND link_id = $3';
-      params.push(linkId);
-    }
+    const params = await rangeParams(startDate, endDate);
+    const linkCondition = linkId ? 'AND link_id = $5' : '';
+    if (linkId) params.push(linkId);
 
-    query += `
-      GROUP BY EXTRACT(HOUR FROM timestamp)
+    const query = `
+      SELECT hour, SUM(clicks)::integer as clicks
+      FROM (
+        SELECT
+          EXTRACT(HOUR FROM timestamp AT TIME ZONE 'UTC')::integer as hour,
+          COUNT(*) as clicks
+        FROM click_events
+        WHERE ${RAW_RANGE} AND ${validClicksCondition(filter)} ${linkCondition}
+        GROUP BY 1
+        UNION ALL
+        SELECT
+          EXTRACT(HOUR FROM hour AT TIME ZONE 'UTC')::integer,
+          SUM(${rolledUpClicks(filter)})
+        FROM click_hourly_stats
+        WHERE ${HOURLY_RANGE} ${linkCondition}
+        GROUP BY 1
+      ) clicks
+      GROUP BY hour
+      HAVING SUM(clicks) > 0
       ORDER BY hour ASC
     `;
 
@@ -169,12 +445,14 @@ export class ClickEventModel {
   static async getUniqueSessionsCount(
     startDate: Date,
     endDate: Date,
-    linkId?: string
+    linkId?: string,
+    filter: ClickFilterOptions = {}
   ): Promise<number> {
     let query = `
       SELECT COUNT(DISTINCT session_id)::integer as unique_sessions 
       FROM click_events 
       WHERE timestamp >= $1 AND timestamp <= $2 AND session_id IS NOT NULL
+        AND ${validClicksCondition(filter)}
     `;
 
     const params: any[] = [startDate, endDate];
@@ -188,12 +466,207 @@ export class ClickEventModel {
     return result.rows[0]?.unique_sessions || 0;
   }
 
-  static async deleteOldEvents(olderThanDays: number = 365): Promise<number> {
-    const cutoffDate = new Date();
-    cutoffDate.setDate(cutoffDate.getDate() - olderThanDays);
+  // Clicks per classification, so filtered traffic stays visible
+  static async getClassificationCounts(
+    startDate: Date,
+    endDate: Date,
+    linkId?: string
+  ): Promise<Record<ClickClassification, number>> {
+    const params = await rangeParams(startDate, endDate);
+    const linkCondition = linkId ? 'AND link_id = $5' : '';
+    if (linkId) params.push(linkId);
+
+    const query = `
+      SELECT
+        COALESCE(SUM(valid), 0)::integer as valid,
+        COALESCE(SUM(bot), 0)::integer as bot,
+        COALESCE(SUM(duplicate), 0)::integer as duplicate
+      FROM (
+        SELECT
+          COUNT(*) FILTER (WHERE classification = 'valid') as valid,
+          COUNT(*) FILTER (WHERE classification = 'bot') as bot,
+          COUNT(*) FILTER (WHERE classification = 'duplicate') as duplicate
+        FROM click_events
+        WHERE ${RAW_RANGE} ${linkCondition}
+        UNION ALL
+        SELECT SUM(valid_clicks), SUM(bot_clicks), SUM(duplicate_clicks)
+        FROM click_daily_stats
+        WHERE ${DAILY_RANGE} ${linkCondition}
+      ) counts
+    `;
+
+    const result = await db.query<Record<ClickClassification, number>>(
+      query,
+      params
+    );
+    return result.rows[0] ?? { valid: 0, bot: 0, duplicate: 0 };
+  }
+
+  // Clicks and unique sessions in a range, optionally for one category's
+  // links. Unique sessions only cover clicks still in click_events.
+  static async getClickTotals(
+    startDate: Date,
+    endDate: Date,
+    categoryId?: string,
+    filter: ClickFilterOptions = {}
+  ): Promise<{ clicks: number; unique_clicks: number }> {
+    const params = await rangeParams(startDate, endDate);
+    const categoryCondition = categoryId
+      ? 'AND link_id IN (SELECT id FROM affiliate_links WHERE category_id = $5)'
+      : '';
+    if (categoryId) params.push(categoryId);
+
+    const query = `
+      SELECT
+        (
+          SELECT COALESCE(SUM(clicks), 0)::integer
+          FROM (
+            SELECT COUNT(*) as clicks
+            FROM click_events
+            WHERE ${RAW_RANGE} AND ${validClicksCondition(filter)} ${categoryCondition}
+            UNION ALL
+            SELECT SUM(${rolledUpClicks(filter)})
+            FROM click_daily_stats
+            WHERE ${DAILY_RANGE} ${categoryCondition}
+          ) clicks
+        ) as clicks,
+        (
+          SELECT COUNT(DISTINCT session_id)::integer
+          FROM click_events
+          WHERE timestamp >= $1 AND timestamp <= $2
+            AND ${validClicksCondition(filter)} ${categoryCondition}
+        ) as unique_clicks
+    `;
+
+    const result = await db.query<{ clicks: number; unique_clicks: number }>(
+      query,
+      params
+    );
+    return result.rows[0] || { clicks: 0, unique_clicks: 0 };
+  }
+
+  // Clicks and unique sessions per UTC day. Unique sessions only cover
+  // clicks still in click_events.
+  static async getDailyClickStats(
+    startDate: Date,
+    endDate: Date,
+    categoryId?: string,
+    filter: ClickFilterOptions = {}
+  ): Promise<{ date: string; clicks: number; unique_clicks: number }[]> {
+    const params = await rangeParams(startDate, endDate);
+    const categoryCondition = categoryId
+      ? 'AND link_id IN (SELECT id FROM affiliate_links WHERE category_id = $5)'
+      : '';
+    if (categoryId) params.push(categoryId);
+
+    const query = `
+      WITH daily AS (
+        SELECT date, SUM(clicks) as clicks
+        FROM (
+          SELECT (timestamp AT TIME ZONE 'UTC')::date as date, COUNT(*) as clicks
+          FROM click_events
+          WHERE ${RAW_RANGE} AND ${validClicksCondition(filter)} ${categoryCondition}
+          GROUP BY 1
+          UNION ALL
+          SELECT day, SUM(${rolledUpClicks(filter)})
+          FROM click_daily_stats
+          WHERE ${DAILY_RANGE} ${categoryCondition}
+          GROUP BY 1
+        ) clicks
+        GROUP BY date
+      ),
+      sessions AS (
+        SELECT
+          (timestamp AT TIME ZONE 'UTC')::date as date,
+          COUNT(DISTINCT session_id) as unique_clicks
+        FROM click_events
+        WHERE timestamp >= $1 AND timestamp <= $2
+          AND ${validClicksCondition(filter)} ${categoryCondition}
+        GROUP BY 1
+      )
+      SELECT
+        TO_CHAR(daily.date, 'YYYY-MM-DD') as date,
+        daily.clicks::integer as clicks,
+        COALESCE(sessions.unique_clicks, 0)::integer as unique_clicks
+      FROM daily
+      LEFT JOIN sessions ON sessions.date = daily.date
+      WHERE daily.clicks > 0
+      ORDER BY daily.date ASC
+    `;
+
+    const result = await db.query<{
+      date: string;
+      clicks: number;
+      unique_clicks: number;
+    }>(query, params);
+    return result.rows;
+  }
+
+  // Referring hosts by clicks; clicks without a referrer count as 'direct'
+  static async getTopReferrers(
+    startDate: Date,
+    endDate: Date,
+    limit: number = 10,
+    categoryId?: string,
+    filter: ClickFilterOptions = {}
+  ): Promise<{ referrer: string; clicks: number }[]> {
+    const params = await rangeParams(startDate, endDate);
+    params.push(limit);
+    const categoryCondition = categoryId
+      ? 'AND link_id IN (SELECT id FROM affiliate_links WHERE category_id = $6)'
+      : '';
+    if (categoryId) params.push(categoryId);
+
+    const query = `
+      SELECT referrer, SUM(clicks)::integer as clicks
+      FROM (
+        SELECT
+          COALESCE(${referrerHostSql()}, 'direct') as referrer,
+          COUNT(*) as clicks
+        FROM click_events
+        WHERE ${RAW_RANGE} AND ${validClicksCondition(filter)} ${categoryCondition}
+        GROUP BY 1
+        UNION ALL
+        SELECT
+          COALESCE(NULLIF(referrer_host, ''), 'direct'),
+          SUM(${rolledUpClicks(filter)})
+        FROM click_daily_stats
+        WHERE ${DAILY_RANGE} ${categoryCondition}
+        GROUP BY 1
+      ) referrers
+      GROUP BY referrer
+      HAVING SUM(clicks) > 0
+      ORDER BY clicks DESC, referrer ASC
+      LIMIT $5
+    `;
+
+    const result = await db.query<{ referrer: string; clicks: number }>(
+      query,
+      params
+    );
+    return result.rows;
+  }
+
+  // Clicks per minute and classification since a point in time; minutes
+  // without clicks are left out
+  static async getClicksByMinute(
+    since: Date
+  ): Promise<({ minute: Date } & Record<ClickClassification, number>)[]> {
+    const query = `
+      SELECT
+        DATE_TRUNC('minute', timestamp) as minute,
+        COUNT(*) FILTER (WHERE classification = 'valid')::integer as valid,
+        COUNT(*) FILTER (WHERE classification = 'bot')::integer as bot,
+        COUNT(*) FILTER (WHERE classification = 'duplicate')::integer as duplicate
+      FROM click_events
+      WHERE timestamp >= $1
+      GROUP BY 1
+      ORDER BY 1 ASC
+    `;
 
-    const query = 'DELETE FROM click_events WHERE timestamp < $1';
-    const result = await db.query(query, [cutoffDate]);
-    return result.rowCount ?? 0;
+    const result = await db.query<
+      { minute: Date } & Record<ClickClassification, number>
+    >(query, [since]);
+    return result.rows;
   }
 }
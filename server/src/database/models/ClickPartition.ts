@@ -0,0 +1,139 @@
+import { db } from '../connection.js';
+import type {
+  ClickEvent,
+  ClickEventArchive,
+  ClickEventPartition,
+} from './types.js';
+
+const PARTITION_NAME = /^click_events_(\d{4})_(\d{2})$/;
+
+// Partition names end up in SQL, so only ever accept our own
+const partitionTable = (name: string): string => {
+  if (!PARTITION_NAME.test(name)) {
+    throw new Error(`Not a click_events partition: ${name}`);
+  }
+  return name;
+};
+
+export class ClickPartitionModel {
+  // Create the partition holding the UTC month of `month` (YYYY-MM-DD) if it
+  // doesn't exist yet, and return its name
+  static async createPartition(month: string): Promise<string> {
+    const result = await db.query<{ name: string }>(
+      'SELECT create_click_events_partition($1::date) as name',
+      [month]
+    );
+    return result.rows[0].name;
+  }
+
+  // Monthly partitions, oldest first
+  static async listPartitions(): Promise<ClickEventPartition[]> {
+    const query = `
+      SELECT
+        c.relname as name,
+        pg_total_relation_size(c.oid)::float8 as total_bytes,
+        c.reltuples::float8 as estimated_rows
+      FROM pg_inherits i
+      JOIN pg_class c ON c.oid = i.inhrelid
+      WHERE i.inhparent = 'click_events'::regclass
+      ORDER BY c.relname
+    `;
+
+    const result = await db.query<{
+      name: string;
+      total_bytes: number;
+      estimated_rows: number;
+    }>(query);
+
+    return result.rows.flatMap((row) => {
+      const match = PARTITION_NAME.exec(row.name);
+      return match ? [{ ...row, month: `${match[1]}-${match[2]}` }] : [];
+    });
+  }
+
+  static async countRows(name: string): Promise<number> {
+    const result = await db.query<{ count: number }>(
+      `SELECT COUNT(*)::integer as count FROM ${partitionTable(name)}`
+    );
+    return result.rows[0].count;
+  }
+
+  // Every click in a partition, a batch at a time, in id order
+  static async *streamPartition(
+    name: string,
+    batchSize: number = 1000
+  ): AsyncGenerator<ClickEvent[]> {
+    const table = partitionTable(name);
+    let lastId: string | null = null;
+
+    while (true) {
+      const result: { rows: ClickEvent[] } = lastId
+        ? await db.query<ClickEvent>(
+            `SELECT * FROM ${table} WHERE id > $1 ORDER BY id LIMIT $2`,
+            [lastId, batchSize]
+          )
+        : await db.query<ClickEvent>(
+            `SELECT * FROM ${table} ORDER BY id LIMIT $1`,
+            [batchSize]
+          );
+
+      if (result.rows.length > 0) yield result.rows;
+      if (result.rows.length < batchSize) return;
+      lastId = result.rows[result.rows.length - 1].id;
+    }
+  }
+
+  // Drop an exported partition and record where its clicks went
+  static async dropPartition(
+    name: string,
+    archive: Omit<ClickEventArchive, 'archived_at'>
+  ): Promise<void> {
+    const table = partitionTable(name);
+    await db.transaction(async (client) => {
+      await client.query(
+        `
+        INSERT INTO click_event_archives (month, file_path, row_count, file_bytes)
+        VALUES (($1 || '-01')::date, $2, $3, $4)
+        ON CONFLICT (month) DO UPDATE SET
+          file_path = EXCLUDED.file_path,
+          row_count = EXCLUDED.row_count,
+          file_bytes = EXCLUDED.file_bytes,
+          archived_at = NOW()
+        `,
+        [
+          archive.month,
+          archive.file_path,
+          archive.row_count,
+          archive.file_bytes,
+        ]
+      );
+      await client.query(`DROP TABLE ${table}`);
+    });
+  }
+
+  // Archived months, oldest first
+  static async listArchives(): Promise<ClickEventArchive[]> {
+    const query = `
+      SELECT
+        TO_CHAR(month, 'YYYY-MM') as month,
+        file_path,
+        row_count::float8 as row_count,
+        file_bytes::float8 as file_bytes,
+        archived_at
+      FROM click_event_archives
+      ORDER BY month
+    `;
+
+    const result = await db.query<ClickEventArchive>(query);
+    return result.rows;
+  }
+
+  // Idempotency keys only matter while a click can still be resent
+  static async purgeIdempotencyKeys(olderThanDays: number): Promise<number> {
+    const result = await db.query(
+      `DELETE FROM click_idempotency_keys WHERE created_at < NOW() - $1 * INTERVAL '1 day'`,
+      [olderThanDays]
+    );
+    return result.rowCount ?? 0;
+  }
+}
@@ -0,0 +1,115 @@
+import { db } from '../connection.js';
+import type { ClickRollupCoverage } from './types.js';
+
+// Host of a referrer URL, NULL for direct traffic
+export const referrerHostSql = (column = 'referrer'): string =>
+  `SUBSTRING(${column} FROM '^[a-zA-Z][a-zA-Z0-9+.-]*://([^/?#:]+)')`;
+
+// Serializes rollups between API instances that run the job
+const ROLLUP_LOCK_KEY = 'click_rollup';
+
+export class ClickRollupModel {
+  // The days the rollups hold, or null before the first rollup. The job
+  // only ever extends this range, so there are no gaps in it.
+  static async getCoverage(): Promise<ClickRollupCoverage | null> {
+    const query = `
+      SELECT
+        TO_CHAR(MIN(day), 'YYYY-MM-DD') as first_day,
+        TO_CHAR(MAX(day), 'YYYY-MM-DD') as last_day
+      FROM click_rollup_days
+    `;
+
+    const result = await db.query<{
+      first_day: string | null;
+      last_day: string | null;
+    }>(query);
+    const { first_day, last_day } = result.rows[0] ?? {};
+    return first_day && last_day
+      ? { from: first_day, through: last_day }
+      : null;
+  }
+
+  // UTC day of the oldest recorded click
+  static async getFirstClickDay(): Promise<string | null> {
+    const query = `
+      SELECT TO_CHAR(MIN(timestamp) AT TIME ZONE 'UTC', 'YYYY-MM-DD') as day
+      FROM click_events
+    `;
+
+    const result = await db.query<{ day: string | null }>(query);
+    return result.rows[0]?.day ?? null;
+  }
+
+  // (Re)compute the daily and hourly rollups of one UTC day from
+  // click_events. Returns the number of daily rows written.
+  static async rollUpDay(day: string): Promise<number> {
+    return db.transaction(async (client) => {
+      await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [
+        ROLLUP_LOCK_KEY,
+      ]);
+
+      const dayRange = `
+        timestamp >= ($1::date AT TIME ZONE 'UTC')
+        AND timestamp < (($1::date + 1) AT TIME ZONE 'UTC')
+      `;
+
+      await client.query('DELETE FROM click_daily_stats WHERE day = $1', [day]);
+      const daily = await client.query(
+        `
+        INSERT INTO click_daily_stats (
+          day, link_id, country_code, referrer_host,
+          valid_clicks, bot_clicks, duplicate_clicks
+        )
+        SELECT
+          $1::date,
+          link_id,
+          COALESCE(country_code, ''),
+          COALESCE(${referrerHostSql()}, ''),
+          COUNT(*) FILTER (WHERE classification = 'valid'),
+          COUNT(*) FILTER (WHERE classification = 'bot'),
+          COUNT(*) FILTER (WHERE classification = 'duplicate')
+        FROM click_events
+        WHERE ${dayRange}
+        GROUP BY 2, 3, 4
+        `,
+        [day]
+      );
+
+      await client.query(
+        `
+        DELETE FROM click_hourly_stats
+        WHERE hour >= ($1::date AT TIME ZONE 'UTC')
+          AND hour < (($1::date + 1) AT TIME ZONE 'UTC')
+        `,
+        [day]
+      );
+      await client.query(
+        `
+        INSERT INTO click_hourly_stats (
+          hour, link_id, valid_clicks, bot_clicks, duplicate_clicks
+        )
+        SELECT
+          DATE_TRUNC('hour', timestamp AT TIME ZONE 'UTC') AT TIME ZONE 'UTC',
+          link_id,
+          COUNT(*) FILTER (WHERE classification = 'valid'),
+          COUNT(*) FILTER (WHERE classification = 'bot'),
+          COUNT(*) FILTER (WHERE classification = 'duplicate')
+        FROM click_events
+        WHERE ${dayRange}
+        GROUP BY 1, 2
+        `,
+        [day]
+      );
+
+      await client.query(
+        `
+        INSERT INTO click_rollup_days (day) VALUES ($1)
+        ON CONFLICT (day) DO UPDATE SET rolled_up_at = NOW()
+        `,
+        [day]
+      );
+
+      return daily.rowCount ?? 0;
+    });
+  }
+}
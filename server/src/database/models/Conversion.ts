@@ -0,0 +1,285 @@
+import { db } from '../connection.js';
+import { validClicksCondition } from './ClickEvent.js';
+import type {
+  ClickFilterOptions,
+  Conversion,
+  ConversionStats,
+  CreateConversionInput,
+} from './types.js';
+
+type ConversionTotals = Omit<ConversionStats, 'conversion_rate' | 'epc'>;
+
+// Conversion rate is a percentage; EPC is revenue per click
+function calculateRates(totals: ConversionTotals): ConversionStats {
+  const { clicks, conversions, revenue } = totals;
+  return {
+    clicks,
+    conversions,
+    revenue: Math.round(revenue * 100) / 100,
+    conversion_rate:
+      clicks > 0 ? Math.round((conversions / clicks) * 10000) / 100 : 0,
+    epc: clicks > 0 ? Math.round((revenue / clicks) * 100) / 100 : 0,
+  };
+}
+
+export class ConversionModel {
+  static async upsert(input: CreateConversionInput): Promise<Conversion> {
+    // A repeated postback for the same transaction updates the existing row,
+    // which is how networks report pending sales being approved or reversed
+    const query = `
+      INSERT INTO conversions (
+        click_id, link_id, network, transaction_id, revenue, currency, status, converted_at
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, COALESCE($8, NOW()))
+      ON CONFLICT (network, transaction_id) DO UPDATE SET
+        revenue = EXCLUDED.revenue,
+        currency = EXCLUDED.currency,
+        status = EXCLUDED.status
+      RETURNING *
+    `;
+
+    const values = [
+      input.click_id,
+      input.link_id,
+      input.network,
+      input.transaction_id,
+      input.revenue ?? 0,
+      input.currency || 'USD',
+      input.status || 'approved',
+      input.converted_at || null,
+    ];
+
+    const result = await db.query<Conversion>(query, values);
+    return result.rows[0];
+  }
+
+  static async getTotals(
+    startDate: Date,
+    endDate: Date,
+    linkId?: string,
+    categoryId?: string
+  ): Promise<{ conversions: number; revenue: number }> {
+    let query = `
+      SELECT
+        COUNT(*)::integer as conversions,
+        COALESCE(SUM(revenue), 0)::float as revenue
+      FROM conversions
+      WHERE converted_at >= $1 AND converted_at <= $2 AND status <> 'rejected'
+    `;
+
+    const params: unknown[] = [startDate, endDate];
+
+    if (linkId) {
+      params.push(linkId);
+      query += ` AND link_id = $${params.length}`;
+    }
+
+    if (categoryId) {
+      params.push(categoryId);
+      query += ` AND link_id IN (SELECT id FROM affiliate_links WHERE category_id = $${params.length})`;
+    }
+
+    const result = await db.query<{ conversions: number; revenue: number }>(
+      query,
+      params
+    );
+    return result.rows[0] || { conversions: 0, revenue: 0 };
+  }
+
+  static async getRevenueByDate(
+    startDate: Date,
+    endDate: Date,
+    categoryId?: string
+  ): Promise<{ date: string; conversions: number; revenue: number }[]> {
+    let query = `
+      SELECT
+        TO_CHAR(DATE(converted_at), 'YYYY-MM-DD') as date,
+        COUNT(*)::integer as conversions,
+        COALESCE(SUM(revenue), 0)::float as revenue
+      FROM conversions
+      WHERE converted_at >= $1 AND converted_at <= $2 AND status <> 'rejected'
+    `;
+
+    const params: unknown[] = [startDate, endDate];
+
+    if (categoryId) {
+      query +=
+        ' AND link_id IN (SELECT id FROM affiliate_links WHERE category_id = $3)';
+      params.push(categoryId);
+    }
+
+    query += `
+      GROUP BY DATE(converted_at)
+      ORDER BY date ASC
+    `;
+
+    const result = await db.query<{
+      date: string;
+      conversions: number;
+      revenue: number;
+    }>(query, params);
+    return result.rows.map((row) => ({
+      ...row,
+      revenue: Math.round(row.revenue * 100) / 100,
+    }));
+  }
+
+  static async getStatsByLink(
+    startDate: Date,
+    endDate: Date,
+    linkId?: string,
+    filter: ClickFilterOptions = {},
+    categoryId?: string
+  ): Promise<
+    ({
+      link_id: string;
+      title: string;
+      unique_clicks: number;
+    } & ConversionStats)[]
+  > {
+    let query = `
+      WITH link_clicks AS (
+        SELECT
+          link_id,
+          COUNT(*)::integer as clicks,
+          COUNT(DISTINCT session_id)::integer as unique_clicks
+        FROM click_events
+        WHERE timestamp >= $1 AND timestamp <= $2 AND ${validClicksCondition(filter)}
+        GROUP BY link_id
+      ),
+      link_conversions AS (
+        SELECT
+          link_id,
+          COUNT(*)::integer as conversions,
+          COALESCE(SUM(revenue), 0)::float as revenue
+        FROM conversions
+        WHERE converted_at >= $1 AND converted_at <= $2 AND status <> 'rejected'
+        GROUP BY link_id
+      )
+      SELECT
+        al.id as link_id,
+        al.title,
+        COALESCE(lc.clicks, 0) as clicks,
+        COALESCE(lc.unique_clicks, 0) as unique_clicks,
+        COALESCE(cv.conversions, 0) as conversions,
+        COALESCE(cv.revenue, 0) as revenue
+      FROM affiliate_links al
+      LEFT JOIN link_clicks lc ON lc.link_id = al.id
+      LEFT JOIN link_conversions cv ON cv.link_id = al.id
+      WHERE (lc.clicks IS NOT NULL OR cv.conversions IS NOT NULL)
+    `;
+
+    const params: unknown[] = [startDate, endDate];
+
+    if (linkId) {
+      params.push(linkId);
+      query += ` AND al.id = $${params.length}`;
+    }
+
+    if (categoryId) {
+      params.push(categoryId);
+      query += ` AND al.category_id = $${params.length}`;
+    }
+
+    query += ' ORDER BY revenue DESC, clicks DESC';
+
+    const result = await db.query<
+      {
+        link_id: string;
+        title: string;
+        unique_clicks: number;
+      } & ConversionTotals
+    >(query, params);
+    return result.rows.map((row) => ({ ...row, ...calculateRates(row) }));
+  }
+
+  static async getStatsByCategory(
+    startDate: Date,
+    endDate: Date,
+    filter: ClickFilterOptions = {}
+  ): Promise<
+    ({ category_id: string; name: string; slug: string } & ConversionStats)[]
+  > {
+    const query = `
+      WITH category_clicks AS (
+        SELECT al.category_id, COUNT(*)::integer as clicks
+        FROM click_events ce
+        JOIN affiliate_links al ON ce.link_id = al.id
+        WHERE ce.timestamp >= $1 AND ce.timestamp <= $2
+          AND ${validClicksCondition(filter, 'ce.classification')}
+        GROUP BY al.category_id
+      ),
+      category_conversions AS (
+        SELECT
+          al.category_id,
+          COUNT(*)::integer as conversions,
+          COALESCE(SUM(cv.revenue), 0)::float as revenue
+        FROM conversions cv
+        JOIN affiliate_links al ON cv.link_id = al.id
+        WHERE cv.converted_at >= $1 AND cv.converted_at <= $2 AND cv.status <> 'rejected'
+        GROUP BY al.category_id
+      )
+      SELECT
+        c.id as category_id,
+        c.name,
+        c.slug,
+        COALESCE(cc.clicks, 0) as clicks,
+        COALESCE(cv.conversions, 0) as conversions,
+        COALESCE(cv.revenue, 0) as revenue
+      FROM categories c
+      LEFT JOIN category_clicks cc ON cc.category_id = c.id
+      LEFT JOIN category_conversions cv ON cv.category_id = c.id
+      WHERE (cc.clicks IS NOT NULL OR cv.conversions IS NOT NULL)
+      ORDER BY revenue DESC, clicks DESC
+    `;
+
+    const result = await db.query<
+      { category_id: string; name: string; slug: string } & ConversionTotals
+    >(query, [startDate, endDate]);
+    return result.rows.map((row) => ({ ...row, ...calculateRates(row) }));
+  }
+
+  // Clicks and the conversions they led to, per A/B destination variant of
+  // a link. Clicks sent to the link's affiliate URL have a null variant.
+  static async getStatsByVariant(
+    startDate: Date,
+    endDate: Date,
+    linkId: string,
+    filter: ClickFilterOptions = {}
+  ): Promise<({ variant: string | null } & ConversionStats)[]> {
+    // FULL JOIN needs an equality condition, so null variants are keyed ''
+    const query = `
+      WITH variant_clicks AS (
+        SELECT COALESCE(variant, '') as variant_key, COUNT(*)::integer as clicks
+        FROM click_events
+        WHERE link_id = $3 AND timestamp >= $1 AND timestamp <= $2
+          AND ${validClicksCondition(filter)}
+        GROUP BY variant_key
+      ),
+      variant_conversions AS (
+        SELECT
+          COALESCE(ce.variant, '') as variant_key,
+          COUNT(*)::integer as conversions,
+          COALESCE(SUM(cv.revenue), 0)::float as revenue
+        FROM conversions cv
+        JOIN click_events ce ON cv.click_id = ce.id
+        WHERE cv.link_id = $3 AND cv.converted_at >= $1 AND cv.converted_at <= $2
+          AND cv.status <> 'rejected'
+        GROUP BY variant_key
+      )
+      SELECT
+        NULLIF(COALESCE(vc.variant_key, vv.variant_key), '') as variant,
+        COALESCE(vc.clicks, 0) as clicks,
+        COALESCE(vv.conversions, 0) as conversions,
+        COALESCE(vv.revenue, 0) as revenue
+      FROM variant_clicks vc
+      FULL JOIN variant_conversions vv ON vv.variant_key = vc.variant_key
+      ORDER BY variant NULLS FIRST
+    `;
+
+    const result = await db.query<
+      { variant: string | null } & ConversionTotals
+    >(query, [startDate, endDate, linkId]);
+    return result.rows.map((row) => ({ ...row, ...calculateRates(row) }));
+  }
+}
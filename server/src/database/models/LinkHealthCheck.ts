@@ -0,0 +1,141 @@
+import { db } from '../connection.js';
+import type {
+  AffiliateLink,
+  LinkHealthCheck,
+  LinkHealthResult,
+  LinkHealthStatus,
+  LinkHealthSummary,
+  LinkHealthTarget,
+} from './types.js';
+
+export class LinkHealthCheckModel {
+  // Every link that is not in the trash, whatever its status, so that
+  // deactivated links show up as recovered once their destination is back
+  static async findLinksToCheck(): Promise<AffiliateLink[]> {
+    const query = `
+      SELECT * FROM affiliate_links
+      WHERE deleted_at IS NULL
+      ORDER BY id
+    `;
+
+    const result = await db.query<AffiliateLink>(query);
+    return result.rows;
+  }
+
+  // Store the latest result for a destination. Failures keep counting up
+  // while the destination stays the same; a success or a changed URL resets.
+  static async record(
+    linkId: string,
+    target: LinkHealthTarget,
+    checkedUrl: string,
+    result: LinkHealthResult
+  ): Promise<LinkHealthCheck> {
+    const query = `
+      INSERT INTO link_health_checks (
+        link_id, target, checked_url, status_code, final_url, error,
+        healthy, response_time_ms, consecutive_failures, checked_at
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, CASE WHEN $7 THEN 0 ELSE 1 END, NOW())
+      ON CONFLICT (link_id, target) DO UPDATE SET
+        checked_url = EXCLUDED.checked_url,
+        status_code = EXCLUDED.status_code,
+        final_url = EXCLUDED.final_url,
+        error = EXCLUDED.error,
+        healthy = EXCLUDED.healthy,
+        response_time_ms = EXCLUDED.response_time_ms,
+        consecutive_failures = CASE
+          WHEN EXCLUDED.healthy THEN 0
+          WHEN link_health_checks.checked_url = EXCLUDED.checked_url
+            THEN link_health_checks.consecutive_failures + 1
+          ELSE 1
+        END,
+        checked_at = EXCLUDED.checked_at
+      RETURNING *
+    `;
+
+    const values = [
+      linkId,
+      target,
+      checkedUrl,
+      result.status_code,
+      result.final_url,
+      result.error,
+      result.healthy,
+      result.response_time_ms,
+    ];
+
+    const res = await db.query<LinkHealthCheck>(query, values);
+    return res.rows[0];
+  }
+
+  // Drop results for destinations a link no longer has (e.g. a removed image)
+  static async deleteOtherTargets(
+    linkId: string,
+    targets: LinkHealthTarget[]
+  ): Promise<void> {
+    const query = `
+      DELETE FROM link_health_checks
+      WHERE link_id = $1 AND NOT (target = ANY($2))
+    `;
+
+    await db.query(query, [linkId, targets]);
+  }
+
+  // A link counts as unhealthy when any of its destinations failed
+  static async getSummary(): Promise<LinkHealthSummary> {
+    const query = `
+      SELECT
+        COUNT(*)::integer as total_links,
+        COUNT(*) FILTER (WHERE h.failing = 0)::integer as healthy,
+        COUNT(*) FILTER (WHERE h.failing > 0)::integer as unhealthy,
+        COUNT(*) FILTER (WHERE h.link_id IS NULL)::integer as unchecked,
+        MAX(h.last_checked_at) as last_checked_at
+      FROM affiliate_links al
+      LEFT JOIN (
+        SELECT
+          link_id,
+          COUNT(*) FILTER (WHERE NOT healthy) as failing,
+          MAX(checked_at) as last_checked_at
+        FROM link_health_checks
+        GROUP BY link_id
+      ) h ON h.link_id = al.id
+      WHERE al.deleted_at IS NULL
+    `;
+
+    const result = await db.query<LinkHealthSummary>(query);
+    return result.rows[0];
+  }
+
+  // Latest checks grouped per link, failing links first
+  static async findStatuses(): Promise<LinkHealthStatus[]> {
+    const query = `
+      SELECT lhc.*, al.title, al.status
+      FROM link_health_checks lhc
+      JOIN affiliate_links al ON al.id = lhc.link_id
+      WHERE al.deleted_at IS NULL
+      ORDER BY al.title, al.id, lhc.target
+    `;
+
+    const result = await db.query<
+      LinkHealthCheck & Pick<LinkHealthStatus, 'title' | 'status'>
+    >(query);
+
+    const statuses = new Map<string, LinkHealthStatus>();
+    for (const { title, status, ...check } of result.rows) {
+      const entry = statuses.get(check.link_id) ?? {
+        link_id: check.link_id,
+        title,
+        status,
+        healthy: true,
+        checks: [],
+      };
+      entry.checks.push(check);
+      entry.healthy = entry.healthy && check.healthy;
+      statuses.set(check.link_id, entry);
+    }
+
+    return [...statuses.values()].sort(
+      (a, b) => Number(a.healthy) - Number(b.healthy)
+    );
+  }
+}
@@ -0,0 +1,113 @@
+import { db } from '../connection.js';
+import type { RefreshToken, CreateRefreshTokenInput } from './types.js';
+
+export class RefreshTokenModel {
+  static async create(input: CreateRefreshTokenInput): Promise<RefreshToken> {
+    const query = `
+      INSERT INTO refresh_tokens (
+        user_id, session_id, token_hash, expires_at, user_agent, ip_address
+      )
+      VALUES ($1, $2, $3, $4, $5, $6)
+      RETURNING *
+    `;
+
+    const values = [
+      input.user_id,
+      input.session_id,
+      input.token_hash,
+      input.expires_at,
+      input.user_agent || null,
+      input.ip_address || null,
+    ];
+
+    const result = await db.query<RefreshToken>(query, values);
+    return result.rows[0];
+  }
+
+  static async findByHash(tokenHash: string): Promise<RefreshToken | null> {
+    const query = 'SELECT * FROM refresh_tokens WHERE token_hash = $1';
+    const result = await db.query<RefreshToken>(query, [tokenHash]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Revoke a refresh token and issue its replacement in the same session.
+   * Returns null if the token was already used, e.g. by a concurrent request.
+   */
+  static async rotate(
+    id: string,
+    input: CreateRefreshTokenInput
+  ): Promise<RefreshToken | null> {
+    return db.transaction(async (client) => {
+      const revokeResult = await client.query(
+        'UPDATE refresh_tokens SET revoked_at = NOW() WHERE id = $1 AND revoked_at IS NULL',
+        [id]
+      );
+      if ((revokeResult.rowCount ?? 0) === 0) {
+        return null;
+      }
+
+      const insertResult = await client.query<RefreshToken>(
+        `
+        INSERT INTO refresh_tokens (
+          user_id, session_id, token_hash, expires_at, user_agent, ip_address
+        )
+        VALUES ($1, $2, $3, $4, $5, $6)
+        RETURNING *
+        `,
+        [
+          input.user_id,
+          input.session_id,
+          input.token_hash,
+          input.expires_at,
+          input.user_agent || null,
+          input.ip_address || null,
+        ]
+      );
+      const replacement = insertResult.rows[0];
+
+      await client.query(
+        'UPDATE refresh_tokens SET replaced_by = $2 WHERE id = $1',
+        [id, replacement.id]
+      );
+
+      return replacement;
+    });
+  }
+
+  static async revokeSession(sessionId: string): Promise<number> {
+    const query = `
+      UPDATE refresh_tokens SET revoked_at = NOW()
+      WHERE session_id = $1 AND revoked_at IS NULL
+    `;
+    const result = await db.query(query, [sessionId]);
+    return result.rowCount ?? 0;
+  }
+
+  static async revokeAllForUser(userId: string): Promise<number> {
+    const query = `
+      UPDATE refresh_tokens SET revoked_at = NOW()
+      WHERE user_id = $1 AND revoked_at IS NULL
+    `;
+    const result = await db.query(query, [userId]);
+    return result.rowCount ?? 0;
+  }
+
+  // A session stays active while it holds an unrevoked, unexpired token
+  static async isSessionActive(sessionId: string): Promise<boolean> {
+    const query = `
+      SELECT EXISTS (
+        SELECT 1 FROM refresh_tokens
+        WHERE session_id = $1 AND revoked_at IS NULL AND expires_at > NOW()
+      ) as active
+    `;
+    const result = await db.query<{ active: boolean }>(query, [sessionId]);
+    return result.rows[0]?.active ?? false;
+  }
+
+  static async deleteExpired(): Promise<number> {
+    const query = 'DELETE FROM refresh_tokens WHERE expires_at < NOW()';
+    const result = await db.query(query);
+    return result.rowCount ?? 0;
+  }
+}
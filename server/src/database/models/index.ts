@@ -3,6 +3,12 @@ export { CategoryModel } from './Category.js';
 export { AffiliateLinkModel } from './AffiliateLink.js';
 export { ClickEventModel } from './ClickEvent.js';
 export { AdminUserModel } from './AdminUser.js';
+export { ConversionModel } from './Conversion.js';
+export { RefreshTokenModel } from './RefreshToken.js';
+export { AuditEventModel } from './AuditEvent.js';
+export { LinkHealthCheckModel } from './LinkHealthCheck.js';
+export { ClickRollupModel } from './ClickRollup.js';
+export { ClickPartitionModel } from './ClickPartition.js';
 
 // Export types
 export * from './types.js';
@@ -7,16 +7,36 @@ export interface Category {
   description: string | null;
   color: string;
   icon: string | null;
+  // Default outbound URL template for the category's links
+  url_template: string | null;
   created_at: Date;
   updated_at: Date;
 }
 
+// One of the destinations a link splits its clicks between
+export interface LinkDestination {
+  // Recorded on click_events.variant, e.g. 'a' or 'merchant-b'
+  variant: string;
+  url: string;
+  // Relative share of the clicks; 0 pauses the destination
+  weight: number;
+}
+
 export interface AffiliateLink {
   id: string;
   title: string;
   description: string;
   url: string;
   affiliate_url: string;
+  // Vanity redirect path: /go/:slug
+  slug: string | null;
+  // Outbound URL template, see utils/urlTemplate.ts; falls back to the
+  // category's template
+  url_template: string | null;
+  // Weighted A/B destinations used instead of affiliate_url when set
+  destinations: LinkDestination[];
+  // Send every click of a session to the same destination
+  sticky_destinations: boolean;
   category_id: string;
   tags: string[];
   image_url: string | null;
@@ -24,33 +44,181 @@ export interface AffiliateLink {
   featured: boolean;
   status: 'active' | 'inactive' | 'pending';
   click_count: number;
+  publish_at: Date | null;
+  expires_at: Date | null;
+  deleted_at: Date | null;
   created_at: Date;
   updated_at: Date;
 }
 
+// valid clicks count towards click_count and analytics; bot and duplicate
+// clicks are kept for auditing (see utils/clickClassification.ts)
+export type ClickClassification = 'valid' | 'bot' | 'duplicate';
+
+// Device class parsed from a click's user agent
+export type DeviceType = 'desktop' | 'mobile' | 'tablet' | 'other';
+
 export interface ClickEvent {
   id: string;
   link_id: string;
   timestamp: Date;
+  // Null when only browser, os and device_type are kept
   user_agent: string | null;
   referrer: string | null;
+  // Possibly truncated; null when the IP is hashed or not stored
   ip_address: string | null;
+  ip_hash: string | null;
+  browser: string | null;
+  os: string | null;
+  device_type: DeviceType | null;
   session_id: string | null;
   country_code: string | null;
+  classification: ClickClassification;
+  classification_reason: string | null;
+  // Destination variant the click was sent to, if the link has destinations
+  variant: string | null;
   created_at: Date;
 }
 
+// Click analytics count valid clicks only unless include_invalid is set
+export interface ClickFilterOptions {
+  include_invalid?: boolean;
+}
+
+// First and last UTC day (YYYY-MM-DD) covered by the click rollups
+export interface ClickRollupCoverage {
+  from: string;
+  through: string;
+}
+
+// A monthly partition of click_events; month is YYYY-MM (UTC)
+export interface ClickEventPartition {
+  name: string;
+  month: string;
+  total_bytes: number;
+  // Planner estimate, -1 before the partition was first analyzed
+  estimated_rows: number;
+}
+
+// A month of click_events that was exported to a file and dropped
+export interface ClickEventArchive {
+  month: string;
+  file_path: string;
+  row_count: number;
+  file_bytes: number;
+  archived_at: Date;
+}
+
+export interface Conversion {
+  id: string;
+  click_id: string;
+  link_id: string;
+  network: string;
+  transaction_id: string;
+  revenue: number;
+  currency: string;
+  status: 'pending' | 'approved' | 'rejected';
+  converted_at: Date;
+  created_at: Date;
+  updated_at: Date;
+}
+
 export interface AdminUser {
   id: string;
   email: string;
   name: string;
   password_hash: string;
   role: 'admin' | 'editor';
+  is_active: boolean;
   last_login: Date | null;
   created_at: Date;
   updated_at: Date;
 }
 
+export interface RefreshToken {
+  id: string;
+  user_id: string;
+  session_id: string;
+  token_hash: string;
+  expires_at: Date;
+  revoked_at: Date | null;
+  replaced_by: string | null;
+  user_agent: string | null;
+  ip_address: string | null;
+  created_at: Date;
+}
+
+export type AuditAction =
+  | 'create'
+  | 'update'
+  | 'delete'
+  | 'bulk_update'
+  | 'bulk_delete'
+  | 'restore'
+  | 'purge'
+  | 'reset_password'
+  | 'deactivate'
+  | 'reactivate';
+
+export type AuditEntityType = 'link' | 'category' | 'user';
+
+// Changed fields of an audited entity, keyed by column name
+export type AuditDiff = Record<string, { from: unknown; to: unknown }>;
+
+export interface AuditEvent {
+  id: string;
+  actor_id: string | null;
+  actor_email: string | null;
+  action: AuditAction;
+  entity_type: AuditEntityType;
+  entity_id: string | null;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  diff: AuditDiff;
+  metadata: Record<string, unknown> | null;
+  created_at: Date;
+}
+
+// Link columns whose destinations are checked for reachability
+export type LinkHealthTarget = 'url' | 'affiliate_url' | 'image_url';
+
+// Latest check of one link destination
+export interface LinkHealthCheck {
+  link_id: string;
+  target: LinkHealthTarget;
+  checked_url: string;
+  status_code: number | null;
+  final_url: string | null;
+  error: string | null;
+  healthy: boolean;
+  response_time_ms: number | null;
+  consecutive_failures: number;
+  checked_at: Date;
+}
+
+// Outcome of fetching a destination, before it is stored
+export type LinkHealthResult = Pick<
+  LinkHealthCheck,
+  'status_code' | 'final_url' | 'error' | 'healthy' | 'response_time_ms'
+>;
+
+export interface LinkHealthSummary {
+  total_links: number;
+  healthy: number;
+  unhealthy: number;
+  unchecked: number;
+  last_checked_at: Date | null;
+}
+
+// A link together with the latest check of each of its destinations
+export interface LinkHealthStatus {
+  link_id: string;
+  title: string;
+  status: 'active' | 'inactive' | 'pending';
+  healthy: boolean;
+  checks: LinkHealthCheck[];
+}
+
 // Input types for creating/updating records
 export interface CreateCategoryInput {
   name: string;
@@ -58,6 +226,7 @@ export interface CreateCategoryInput {
   description?: string;
   color?: string;
   icon?: string;
+  url_template?: string | null;
 }
 
 export interface UpdateCategoryInput {
@@ -66,6 +235,8 @@ export interface UpdateCategoryInput {
   description?: string;
   color?: string;
   icon?: string;
+  // null removes the template
+  url_template?: string | null;
 }
 
 export interface CreateAffiliateLinkInput {
@@ -73,12 +244,18 @@ export interface CreateAffiliateLinkInput {
   description: string;
   url: string;
   affiliate_url: string;
+  slug?: string | null;
+  url_template?: string | null;
+  destinations?: LinkDestination[];
+  sticky_destinations?: boolean;
   category_id: string;
   tags?: string[];
   image_url?: string;
   commission_rate?: number;
   featured?: boolean;
   status?: 'active' | 'inactive' | 'pending';
+  publish_at?: Date | string | null;
+  expires_at?: Date | string | null;
 }
 
 export interface UpdateAffiliateLinkInput {
@@ -86,21 +263,53 @@ export interface UpdateAffiliateLinkInput {
   description?: string;
   url?: string;
   affiliate_url?: string;
+  // null removes the slug
+  slug?: string | null;
+  // null removes the template
+  url_template?: string | null;
+  destinations?: LinkDestination[];
+  sticky_destinations?: boolean;
   category_id?: string;
   tags?: string[];
   image_url?: string;
   commission_rate?: number;
   featured?: boolean;
   status?: 'active' | 'inactive' | 'pending';
+  // null clears the date
+  publish_at?: Date | string | null;
+  expires_at?: Date | string | null;
 }
 
 export interface CreateClickEventInput {
+  // Pre-generated by the edge worker so it can go into the outbound URL
+  id?: string;
   link_id: string;
   user_agent?: string;
   referrer?: string;
   ip_address?: string;
+  ip_hash?: string;
+  browser?: string;
+  os?: string;
+  device_type?: DeviceType;
   session_id?: string;
   country_code?: string;
+  classification?: ClickClassification;
+  classification_reason?: string | null;
+  // Client-side click time for batched events; defaults to now
+  timestamp?: Date;
+  idempotency_key?: string;
+  variant?: string | null;
+}
+
+export interface CreateConversionInput {
+  click_id: string;
+  link_id: string;
+  network: string;
+  transaction_id: string;
+  revenue?: number;
+  currency?: string;
+  status?: 'pending' | 'approved' | 'rejected';
+  converted_at?: Date;
 }
 
 export interface CreateAdminUserInput {
@@ -115,16 +324,67 @@ export interface UpdateAdminUserInput {
   name?: string;
   password_hash?: string;
   role?: 'admin' | 'editor';
+  is_active?: boolean;
   last_login?: Date;
 }
 
+export interface CreateRefreshTokenInput {
+  user_id: string;
+  session_id: string;
+  token_hash: string;
+  expires_at: Date;
+  user_agent?: string;
+  ip_address?: string;
+}
+
+export interface CreateAuditEventInput {
+  actor?: { id: string; email: string };
+  action: AuditAction;
+  entity_type: AuditEntityType;
+  entity_id?: string;
+  before?: object | null;
+  after?: object | null;
+  metadata?: Record<string, unknown>;
+}
+
 // Query filter types
+// A link as written to catalog exports, with its category referenced by slug
+export interface AffiliateLinkExportRow extends AffiliateLink {
+  category_slug: string;
+  category_name: string;
+}
+
 export interface AffiliateLinkFilters {
   category_id?: string;
   status?: 'active' | 'inactive' | 'pending';
   featured?: boolean;
   search?: string;
   tags?: string[];
+  trashed?: boolean;
+  // Where the current time falls relative to publish_at/expires_at
+  schedule?: LinkScheduleState;
+}
+
+// live: published and not expired; scheduled: publish_at is still ahead;
+// expired: expires_at has passed
+export type LinkScheduleState = 'live' | 'scheduled' | 'expired';
+
+export interface AuditEventFilters {
+  actor_id?: string;
+  action?: AuditAction;
+  entity_type?: AuditEntityType;
+  entity_id?: string;
+  start_date?: Date;
+  end_date?: Date;
+}
+
+// Aggregated conversion figures for a link or category
+export interface ConversionStats {
+  clicks: number;
+  conversions: number;
+  revenue: number;
+  conversion_rate: number;
+  epc: number;
 }
 
 export interface PaginationOptions {
@@ -1,5 +1,12 @@
 import { createApp } from './app.js';
 import { config } from './config/environment.js';
+import { scheduleClickRollups } from './jobs/clickRollup.js';
+import {
+  scheduleClickPartitions,
+  scheduleClickRetention,
+} from './jobs/clickRetention.js';
+import { scheduleLinkHealthChecks } from './jobs/linkHealthCheck.js';
+import { clickStream } from './utils/clickStream.js';
 import { logger } from './utils/logger.js';
 
 const startServer = async (): Promise<void> => {
@@ -14,9 +21,43 @@ const startServer = async (): Promise<void> => {
       });
     });
 
+    if (config.clickPrivacy.ipMode === 'hash' && !config.clickPrivacy.ipSalt) {
+      logger.warn('CLICK_IP_MODE=hash without CLICK_IP_SALT: no IPs stored');
+    }
+
+    const linkHealthTimer = scheduleLinkHealthChecks();
+    if (linkHealthTimer) {
+      logger.info('Link health checks scheduled', {
+        intervalMinutes: config.linkHealth.intervalMinutes,
+      });
+    }
+
+    const clickRollupTimer = scheduleClickRollups();
+    if (clickRollupTimer) {
+      logger.info('Click rollups scheduled', {
+        intervalMinutes: config.clickRollup.intervalMinutes,
+      });
+    }
+
+    const clickPartitionTimer = scheduleClickPartitions();
+
+    const clickRetentionTimer = scheduleClickRetention();
+    if (clickRetentionTimer) {
+      logger.info('Click retention scheduled', {
+        months: config.clickRetention.months,
+        intervalMinutes: config.clickRetention.intervalMinutes,
+      });
+    }
+
     // Graceful shutdown handling
     const gracefulShutdown = (signal: string) => {
       logger.info(`Received ${signal}, shutting down gracefully`);
+      if (linkHealthTimer) clearInterval(linkHealthTimer);
+      if (clickRollupTimer) clearInterval(clickRollupTimer);
+      clearInterval(clickPartitionTimer);
+      if (clickRetentionTimer) clearInterval(clickRetentionTimer);
+      // Open analytics streams would keep server.close() waiting
+      clickStream.close();
       server.close(() => {
         logger.info('Server closed');
         process.exit(0);
@@ -0,0 +1,39 @@
+import { config } from '../config/environment.js';
+import { ClickEventModel } from '../database/models/ClickEvent.js';
+import { clickVisitor } from '../utils/clickPrivacy.js';
+import { logger } from '../utils/logger.js';
+
+const BATCH_SIZE = 1000;
+
+/**
+ * Reduce the visitor details of clicks stored before migration 018 the way
+ * new clicks are reduced at ingest (CLICK_IP_MODE, CLICK_USER_AGENT_MODE).
+ * Their request headers weren't kept, so privacy signals can't be honored.
+ * Returns the number of clicks updated.
+ */
+export async function anonymizeStoredClicks(
+  options = config.clickPrivacy,
+  batchSize: number = BATCH_SIZE
+): Promise<number> {
+  let updated = 0;
+  let lastId: string | null = null;
+
+  while (true) {
+    const clicks = await ClickEventModel.findUnreduced(lastId, batchSize);
+    if (clicks.length === 0) break;
+
+    await ClickEventModel.updateVisitors(
+      clicks.map((click) => ({
+        id: click.id,
+        ...clickVisitor(click.ip_address, click.user_agent, {}, options),
+      }))
+    );
+    updated += clicks.length;
+    lastId = clicks[clicks.length - 1].id;
+
+    if (clicks.length < batchSize) break;
+  }
+
+  logger.info('Stored clicks anonymized', { clicks: updated });
+  return updated;
+}
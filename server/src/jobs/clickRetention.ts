@@ -0,0 +1,248 @@
+import { createWriteStream } from 'fs';
+import { mkdir, rename, rm, stat } from 'fs/promises';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { createGzip } from 'zlib';
+import { config } from '../config/environment.js';
+import { ClickPartitionModel } from '../database/models/ClickPartition.js';
+import { ClickRollupModel } from '../database/models/ClickRollup.js';
+import { addDays } from '../utils/clickRollups.js';
+import { logger } from '../utils/logger.js';
+import type {
+  ClickEventArchive,
+  ClickEventPartition,
+} from '../database/models/types.js';
+
+export interface ClickRetentionOptions {
+  months: number;
+  archiveDir: string;
+  intervalMinutes: number;
+}
+
+export interface ClickRetentionRunResult {
+  // Archived months (YYYY-MM), oldest first
+  archived: string[];
+  // Months past the retention period whose clicks aren't all rolled up yet
+  skipped: string[];
+}
+
+// Partitions are created this many months ahead, so a click never arrives
+// before its partition
+const MONTHS_AHEAD = 3;
+
+// How often upcoming partitions are created, whether or not the retention
+// job runs
+const PARTITION_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+// Clicks can be resent for up to a day (MAX_CLICK_AGE_MS in
+// routes/clicks.ts); their idempotency keys are kept a little longer
+const IDEMPOTENCY_KEY_DAYS = 2;
+
+// Visitor details are left out of archives, so erasing a session only has
+// to delete its rows from click_events
+const UNARCHIVED_COLUMNS = new Set([
+  'session_id',
+  'ip_address',
+  'ip_hash',
+  'user_agent',
+  'referrer',
+]);
+
+// First day (YYYY-MM-DD) of the UTC month `offset` months from `date`'s
+const monthStart = (date: Date, offset = 0): string =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + offset, 1))
+    .toISOString()
+    .slice(0, 10);
+
+/**
+ * Create the partitions for this month and the next few. Runs daily
+ * (scheduleClickPartitions) and with every retention run.
+ */
+export async function ensureClickPartitions(
+  now: Date = new Date()
+): Promise<string[]> {
+  const names: string[] = [];
+  for (let offset = 0; offset <= MONTHS_AHEAD; offset++) {
+    names.push(
+      await ClickPartitionModel.createPartition(monthStart(now, offset))
+    );
+  }
+  return names;
+}
+
+/**
+ * Create upcoming partitions right away and then daily in this process,
+ * independently of the retention job: click_events has no default
+ * partition, so clicks fail to insert once the month has none.
+ */
+export function scheduleClickPartitions(): NodeJS.Timeout {
+  const run = () =>
+    ensureClickPartitions().catch((error) =>
+      logger.error('Failed to create click partitions', error)
+    );
+
+  void run();
+  const timer = setInterval(run, PARTITION_INTERVAL_MS);
+
+  // Don't keep the process alive just for partition upkeep
+  timer.unref();
+  return timer;
+}
+
+async function* ndjsonLines(
+  partition: ClickEventPartition,
+  counter: { rows: number }
+): AsyncGenerator<string> {
+  for await (const batch of ClickPartitionModel.streamPartition(
+    partition.name
+  )) {
+    for (const click of batch) {
+      counter.rows++;
+      const archived = Object.fromEntries(
+        Object.entries(click).filter(
+          ([column]) => !UNARCHIVED_COLUMNS.has(column)
+        )
+      );
+      yield `${JSON.stringify(archived)}\n`;
+    }
+  }
+}
+
+/**
+ * Write every click of a partition to `<archiveDir>/<partition>.ndjson.gz`,
+ * one JSON object per line, without session, IP, user agent or referrer.
+ * The file only appears once it is complete and holds every row of the
+ * partition.
+ */
+export async function exportPartition(
+  partition: ClickEventPartition,
+  archiveDir: string
+): Promise<Omit<ClickEventArchive, 'archived_at'>> {
+  await mkdir(archiveDir, { recursive: true });
+  const filePath = path.resolve(archiveDir, `${partition.name}.ndjson.gz`);
+  const tempPath = `${filePath}.tmp`;
+
+  const counter = { rows: 0 };
+  try {
+    await pipeline(
+      Readable.from(ndjsonLines(partition, counter)),
+      createGzip(),
+      createWriteStream(tempPath)
+    );
+
+    const expected = await ClickPartitionModel.countRows(partition.name);
+    if (counter.rows !== expected) {
+      throw new Error(
+        `Exported ${counter.rows} of ${expected} clicks from ${partition.name}`
+      );
+    }
+
+    await rename(tempPath, filePath);
+  } catch (error) {
+    await rm(tempPath, { force: true });
+    throw error;
+  }
+
+  return {
+    month: partition.month,
+    file_path: filePath,
+    row_count: counter.rows,
+    file_bytes: (await stat(filePath)).size,
+  };
+}
+
+/**
+ * Keep click_events to the current month plus `months` whole months. Older
+ * partitions are exported to the archive directory and dropped; their
+ * counts stay in the rollups, so a month is only archived once every one of
+ * its days is rolled up. With `months` 0 partitions are only created.
+ */
+export async function runClickRetention(
+  options: ClickRetentionOptions = config.clickRetention,
+  now: Date = new Date()
+): Promise<ClickRetentionRunResult> {
+  const result: ClickRetentionRunResult = { archived: [], skipped: [] };
+
+  await ensureClickPartitions(now);
+  const purgedKeys =
+    await ClickPartitionModel.purgeIdempotencyKeys(IDEMPOTENCY_KEY_DAYS);
+
+  if (options.months > 0) {
+    const keepFrom = monthStart(now, -options.months).slice(0, 7);
+    const expired = (await ClickPartitionModel.listPartitions()).filter(
+      (partition) => partition.month < keepFrom
+    );
+
+    const coverage = await ClickRollupModel.getCoverage();
+    const firstClickDay = await ClickRollupModel.getFirstClickDay();
+
+    for (const partition of expired) {
+      const lastDay = addDays(
+        monthStart(new Date(`${partition.month}-01T00:00:00.000Z`), 1),
+        -1
+      );
+      const rolledUp =
+        coverage !== null &&
+        coverage.through >= lastDay &&
+        (!firstClickDay || coverage.from <= firstClickDay);
+      if (!rolledUp) {
+        logger.warn('Click partition not archived, rollups are behind', {
+          partition: partition.name,
+          rolledUpThrough: coverage?.through ?? null,
+        });
+        result.skipped.push(partition.month);
+        continue;
+      }
+
+      const archive = await exportPartition(partition, options.archiveDir);
+      await ClickPartitionModel.dropPartition(partition.name, archive);
+      result.archived.push(partition.month);
+
+      logger.info('Archived click partition', {
+        partition: partition.name,
+        file: archive.file_path,
+        rows: archive.row_count,
+      });
+    }
+  }
+
+  logger.info('Click retention finished', {
+    archived: result.archived.length,
+    skipped: result.skipped.length,
+    purgedKeys,
+  });
+
+  return result;
+}
+
+/**
+ * Run the retention job right away and then every `intervalMinutes` in
+ * this process. Returns null when the interval is 0; a run still in
+ * progress is never overlapped.
+ */
+export function scheduleClickRetention(
+  options: ClickRetentionOptions = config.clickRetention
+): NodeJS.Timeout | null {
+  if (options.intervalMinutes <= 0) return null;
+
+  let running = false;
+  const run = async () => {
+    if (running) return;
+    running = true;
+    try {
+      await runClickRetention(options);
+    } catch (error) {
+      logger.error('Click retention failed', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  void run();
+  const timer = setInterval(run, options.intervalMinutes * 60_000);
+
+  // Don't keep the process alive just for the retention job
+  timer.unref();
+  return timer;
+}
@@ -0,0 +1,99 @@
+import { config } from '../config/environment.js';
+import { ClickRollupModel } from '../database/models/ClickRollup.js';
+import { addDays, utcDay } from '../utils/clickRollups.js';
+import { logger } from '../utils/logger.js';
+
+export interface ClickRollupOptions {
+  intervalMinutes: number;
+}
+
+export interface ClickRollupRunResult {
+  // Days rolled up, oldest first
+  days: string[];
+}
+
+// Clicks can be recorded up to a day after they happened (queued clicks,
+// see MAX_CLICK_AGE_MS in routes/clicks.ts), so the last two complete days
+// are rolled up again on every run
+const LATE_CLICK_DAYS = 2;
+
+/**
+ * Roll up every complete UTC day that may have changed since the last run.
+ * The first run starts at the oldest click. Pass `from` (YYYY-MM-DD) to
+ * backfill: every day from then on is recomputed. Once there are rollups,
+ * days before the oldest click still in click_events are never recomputed,
+ * and a later `from` never skips days that haven't been rolled up, so the
+ * rolled up days stay contiguous.
+ */
+export async function runClickRollup(
+  from?: string,
+  now: Date = new Date()
+): Promise<ClickRollupRunResult> {
+  const today = utcDay(now);
+  const lastCompleteDay = addDays(today, -1);
+
+  let first: string | null;
+  const coverage = await ClickRollupModel.getCoverage();
+  if (coverage) {
+    const next = addDays(coverage.through, 1);
+    const reopened = addDays(today, -LATE_CLICK_DAYS);
+    first = next < reopened ? next : reopened;
+
+    if (from && from < first) {
+      // Days before the oldest click may only be left in the rollups (see
+      // jobs/clickRetention.ts); recomputing them would erase their counts
+      const firstClickDay = await ClickRollupModel.getFirstClickDay();
+      const earliest =
+        firstClickDay && firstClickDay < first ? firstClickDay : first;
+      first = from > earliest ? from : earliest;
+    }
+  } else {
+    first = await ClickRollupModel.getFirstClickDay();
+    if (from) first = from;
+  }
+
+  const days: string[] = [];
+  for (let day = first; day && day <= lastCompleteDay; day = addDays(day, 1)) {
+    await ClickRollupModel.rollUpDay(day);
+    days.push(day);
+  }
+
+  logger.info('Click rollup finished', {
+    days: days.length,
+    from: days[0],
+    through: days[days.length - 1],
+  });
+
+  return { days };
+}
+
+/**
+ * Roll up clicks right away and then every `intervalMinutes` in this
+ * process. Returns null when the interval is 0; a run still in progress is
+ * never overlapped.
+ */
+export function scheduleClickRollups(
+  options: ClickRollupOptions = config.clickRollup
+): NodeJS.Timeout | null {
+  if (options.intervalMinutes <= 0) return null;
+
+  let running = false;
+  const run = async () => {
+    if (running) return;
+    running = true;
+    try {
+      await runClickRollup();
+    } catch (error) {
+      logger.error('Click rollup failed', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  void run();
+  const timer = setInterval(run, options.intervalMinutes * 60_000);
+
+  // Don't keep the process alive just for the rollups
+  timer.unref();
+  return timer;
+}
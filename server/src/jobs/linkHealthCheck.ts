@@ -0,0 +1,243 @@
+import { config } from '../config/environment.js';
+import { AffiliateLinkModel } from '../database/models/AffiliateLink.js';
+import { AuditEventModel } from '../database/models/AuditEvent.js';
+import { LinkHealthCheckModel } from '../database/models/LinkHealthCheck.js';
+import { publishLink } from '../utils/edgeLinks.js';
+import { logger } from '../utils/logger.js';
+import type {
+  AffiliateLink,
+  LinkHealthCheck,
+  LinkHealthResult,
+  LinkHealthTarget,
+} from '../database/models/types.js';
+
+export interface LinkHealthOptions {
+  intervalMinutes: number;
+  timeoutMs: number;
+  concurrency: number;
+  failureThreshold: number;
+}
+
+export interface LinkHealthRunResult {
+  checked: number;
+  unhealthy: number;
+  deactivated: string[];
+}
+
+const TARGETS: LinkHealthTarget[] = ['url', 'affiliate_url', 'image_url'];
+
+// A broken image is reported but never takes a link offline
+const DEACTIVATING_TARGETS: LinkHealthTarget[] = ['url', 'affiliate_url'];
+
+const USER_AGENT = 'AffilistLinkChecker/1.0';
+
+async function request(
+  url: string,
+  method: 'HEAD' | 'GET',
+  timeoutMs: number
+): Promise<Response> {
+  const response = await fetch(url, {
+    method,
+    redirect: 'follow',
+    headers: { 'User-Agent': USER_AGENT },
+    signal: AbortSignal.timeout(timeoutMs),
+  });
+  // Only the status matters, so don't download the body
+  await response.body?.cancel();
+  return response;
+}
+
+function describeError(error: unknown, timeoutMs: number): string {
+  if (error instanceof Error) {
+    if (error.name === 'TimeoutError') {
+      return `Timed out after ${timeoutMs}ms`;
+    }
+    // fetch wraps network errors (DNS, refused connections, TLS) in `cause`
+    if (error.cause instanceof Error) {
+      return error.cause.message;
+    }
+    return error.message;
+  }
+  return String(error);
+}
+
+/**
+ * Fetch a URL, following redirects, and report its status and final URL.
+ * HEAD is tried first; servers that reject it are retried with GET.
+ */
+export async function checkUrl(
+  url: string,
+  timeoutMs: number
+): Promise<LinkHealthResult> {
+  const startedAt = Date.now();
+
+  try {
+    let response = await request(url, 'HEAD', timeoutMs);
+    if (response.status === 405 || response.status === 501) {
+      response = await request(url, 'GET', timeoutMs);
+    }
+
+    return {
+      status_code: response.status,
+      final_url: response.url || url,
+      error: null,
+      healthy: response.ok,
+      response_time_ms: Date.now() - startedAt,
+    };
+  } catch (error) {
+    return {
+      status_code: null,
+      final_url: null,
+      error: describeError(error, timeoutMs),
+      healthy: false,
+      response_time_ms: Date.now() - startedAt,
+    };
+  }
+}
+
+async function checkLink(
+  link: AffiliateLink,
+  timeoutMs: number
+): Promise<LinkHealthCheck[]> {
+  const targets = TARGETS.filter((target) => link[target]);
+
+  const checks = await Promise.all(
+    targets.map(async (target) => {
+      const url = link[target] as string;
+      const result = await checkUrl(url, timeoutMs);
+      return LinkHealthCheckModel.record(link.id, target, url, result);
+    })
+  );
+  await LinkHealthCheckModel.deleteOtherTargets(link.id, targets);
+
+  return checks;
+}
+
+async function deactivateLink(
+  link: AffiliateLink,
+  failing: LinkHealthCheck[]
+): Promise<void> {
+  const updated = await AffiliateLinkModel.update(link.id, {
+    status: 'inactive',
+  });
+  if (updated) await publishLink(updated, link);
+
+  await AuditEventModel.record({
+    action: 'update',
+    entity_type: 'link',
+    entity_id: link.id,
+    before: link,
+    after: updated,
+    metadata: {
+      source: 'health_check',
+      failing: failing.map((check) => ({
+        target: check.target,
+        status_code: check.status_code,
+        error: check.error,
+        consecutive_failures: check.consecutive_failures,
+      })),
+    },
+  });
+
+  logger.warn('Deactivated link after repeated health check failures', {
+    linkId: link.id,
+    targets: failing.map((check) => check.target),
+  });
+}
+
+// Run `worker` over `items` with at most `concurrency` calls in flight
+async function forEachConcurrently<T>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T) => Promise<void>
+): Promise<void> {
+  let next = 0;
+  const runners = Array.from(
+    { length: Math.min(Math.max(concurrency, 1), items.length) },
+    async () => {
+      while (next < items.length) {
+        await worker(items[next++]);
+      }
+    }
+  );
+  await Promise.all(runners);
+}
+
+/**
+ * Check every destination of every link that is not in the trash and store
+ * the results. With a failure threshold set, active links whose url or
+ * affiliate_url failed that many times in a row are set to inactive.
+ */
+export async function runLinkHealthCheck(
+  options: LinkHealthOptions = config.linkHealth
+): Promise<LinkHealthRunResult> {
+  const links = await LinkHealthCheckModel.findLinksToCheck();
+  const result: LinkHealthRunResult = {
+    checked: 0,
+    unhealthy: 0,
+    deactivated: [],
+  };
+
+  await forEachConcurrently(links, options.concurrency, async (link) => {
+    try {
+      const checks = await checkLink(link, options.timeoutMs);
+      result.checked++;
+      if (checks.some((check) => !check.healthy)) result.unhealthy++;
+
+      const failing = checks.filter(
+        (check) =>
+          DEACTIVATING_TARGETS.includes(check.target) &&
+          check.consecutive_failures >= options.failureThreshold
+      );
+      if (
+        options.failureThreshold > 0 &&
+        link.status === 'active' &&
+        failing.length > 0
+      ) {
+        await deactivateLink(link, failing);
+        result.deactivated.push(link.id);
+      }
+    } catch (error) {
+      logger.error('Link health check failed for link', {
+        linkId: link.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+
+  logger.info('Link health check finished', {
+    links: links.length,
+    checked: result.checked,
+    unhealthy: result.unhealthy,
+    deactivated: result.deactivated.length,
+  });
+
+  return result;
+}
+
+/**
+ * Run the health check every `intervalMinutes` in this process. Returns null
+ * when the interval is 0; a run still in progress is never overlapped.
+ */
+export function scheduleLinkHealthChecks(
+  options: LinkHealthOptions = config.linkHealth
+): NodeJS.Timeout | null {
+  if (options.intervalMinutes <= 0) return null;
+
+  let running = false;
+  const timer = setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      await runLinkHealthCheck(options);
+    } catch (error) {
+      logger.error('Link health check failed', error);
+    } finally {
+      running = false;
+    }
+  }, options.intervalMinutes * 60_000);
+
+  // Don't keep the process alive just for the checker
+  timer.unref();
+  return timer;
+}
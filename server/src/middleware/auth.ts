@@ -2,13 +2,19 @@ import type { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import { config } from '../config/environment.js';
 import { AdminUserModel } from '../database/models/AdminUser.js';
+import { RefreshTokenModel } from '../database/models/RefreshToken.js';
 import type { AdminUser } from '../database/models/types.js';
 
-// Extend Express Request type to include user
+// Extend Express Request type to include the user and request ID
 declare global {
   namespace Express {
     interface Request {
       user?: AdminUser;
+      sessionId?: string;
+      // When the access token the request was authenticated with expires
+      tokenExpiresAt?: Date;
+      // Set by the requestId middleware
+      requestId: string;
     }
   }
 }
@@ -17,6 +23,7 @@ export interface JWTPayload {
   userId: string;
   email: string;
   role: 'admin' | 'editor';
+  sid?: string;
   iat?: number;
   exp?: number;
 }
@@ -41,6 +48,18 @@ export const authenticateToken = async (
     // Verify JWT token
     const decoded = jwt.verify(token, config.jwt.secret) as JWTPayload;
 
+    // Access tokens are tied to a session that logout or reuse detection can revoke
+    if (
+      !decoded.sid ||
+      !(await RefreshTokenModel.isSessionActive(decoded.sid))
+    ) {
+      res.status(401).json({
+        success: false,
+        error: 'Session revoked',
+      });
+      return;
+    }
+
     // Get user from database to ensure they still exist and are active
     const user = await AdminUserModel.findById(decoded.userId);
 
@@ -52,8 +71,18 @@ export const authenticateToken = async (
       return;
     }
 
+    if (!user.is_active) {
+      res.status(401).json({
+        success: false,
+        error: 'Account is deactivated',
+      });
+      return;
+    }
+
     // Attach user to request (cast to full AdminUser type for auth purposes)
     req.user = user as AdminUser;
+    req.sessionId = decoded.sid;
+    req.tokenExpiresAt = decoded.exp ? new Date(decoded.exp * 1000) : undefined;
     next();
   } catch (error) {
     if (error instanceof jwt.JsonWebTokenError) {
@@ -45,10 +45,19 @@ export const errorHandler = (
     userAgent: req.get('User-Agent'),
   });
 
+  // A streamed response can fail part-way through; let Express close the
+  // connection since a JSON error can no longer be sent
+  if (res.headersSent) {
+    next(error);
+    return;
+  }
+
   // Send error response
+  // The request ID lets a reported error be matched to the server logs
   const errorResponse: any = {
     error: message,
     status: statusCode,
+    requestId: req.requestId,
   };
 
   // Include stack trace in development
@@ -71,6 +80,7 @@ export const notFoundHandler = (req: Request, res: Response): void => {
   res.status(404).json({
     error: message,
     status: 404,
+    requestId: req.requestId,
   });
 };
 
@@ -0,0 +1,27 @@
+import crypto from 'crypto';
+import type { Request, Response, NextFunction } from 'express';
+import { requestContext } from '../utils/requestContext.js';
+
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+// IDs from an upstream proxy are reused so logs correlate across services;
+// anything that doesn't look like an ID is replaced
+const VALID_REQUEST_ID = /^[\w.:-]{1,128}$/;
+
+// Assign every request an ID, echo it in the response headers and make it
+// available to the logger for everything that runs on behalf of the request
+export const requestId = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  const incoming = req.get(REQUEST_ID_HEADER);
+  const id =
+    incoming && VALID_REQUEST_ID.test(incoming)
+      ? incoming
+      : crypto.randomUUID();
+
+  req.requestId = id;
+  res.setHeader(REQUEST_ID_HEADER, id);
+  requestContext.run({ requestId: id }, next);
+};
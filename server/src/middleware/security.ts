@@ -1,28 +1,140 @@
+import { AsyncResource } from 'async_hooks';
+import crypto from 'crypto';
 import type { Request, Response, NextFunction } from 'express';
-import rateLimit from 'express-rate-limit';
+import rateLimit, {
+  type ClientRateLimitInfo,
+  type Options,
+  type Store,
+} from 'express-rate-limit';
 import helmet from 'helmet';
 import { config } from '../config/environment.js';
 import { logger } from '../utils/logger.js';
+import { httpRequestDuration, httpRequestsTotal } from '../utils/metrics.js';
+import {
+  createRateLimitStore,
+  type RateLimitStore,
+} from '../utils/rateLimitStore.js';
+
+// Counters shared by every limiter; RATE_LIMIT_STORE=postgres shares them
+// between API instances as well
+export const rateLimitStore = createRateLimitStore(
+  config.rateLimit.store,
+  config.rateLimit.memoryMaxKeys
+);
+
+// express-rate-limit store over the shared counters, namespaced per limiter
+class SharedRateLimitStore implements Store {
+  private windowMs = 0;
+
+  constructor(
+    readonly prefix: string,
+    private readonly store: RateLimitStore
+  ) {}
+
+  init(options: Options): void {
+    this.windowMs = options.windowMs;
+  }
+
+  increment(key: string): Promise<ClientRateLimitInfo> {
+    return this.store.increment(`${this.prefix}${key}`, this.windowMs);
+  }
+
+  decrement(key: string): Promise<void> {
+    return this.store.decrement(`${this.prefix}${key}`);
+  }
+
+  resetKey(key: string): Promise<void> {
+    return this.store.resetKey(`${this.prefix}${key}`);
+  }
+}
+
+interface RateLimiterOptions {
+  // Namespace for this limiter's counters
+  name: string;
+  limit: { windowMs: number; maxRequests: number };
+  body: Record<string, unknown>;
+  // Only count failed requests (status >= 400)
+  skipSuccessfulRequests?: boolean;
+  // Requests that are never limited
+  skip?: (req: Request) => boolean;
+}
+
+const createRateLimiter = ({
+  name,
+  limit,
+  body,
+  skipSuccessfulRequests = false,
+  skip,
+}: RateLimiterOptions) =>
+  rateLimit({
+    windowMs: limit.windowMs,
+    max: limit.maxRequests,
+    store: new SharedRateLimitStore(`${name}:`, rateLimitStore),
+    // A store outage (e.g. the database) must not take the API down with it
+    passOnStoreError: true,
+    skipSuccessfulRequests,
+    skip,
+    standardHeaders: true,
+    legacyHeaders: false,
+    handler: (req: Request, res: Response) => {
+      logger.warn(`Rate limit exceeded for IP: ${req.ip}`, {
+        limiter: name,
+        ip: req.ip,
+        userAgent: req.get('User-Agent'),
+        path: req.path,
+      });
+      res.status(429).json(body);
+    },
+  });
+
+/**
+ * Whether the request carries the worker's EDGE_TOKEN. Clicks pushed from
+ * the edge all arrive from a few Cloudflare addresses, so they must not
+ * count against a per-IP limit.
+ */
+export const isEdgeRequest = (req: Request): boolean => {
+  if (!config.edge.token) return false;
+
+  // Constant-time comparison so the token can't be guessed byte by byte
+  const header = req.get('Authorization') || '';
+  const token = header.startsWith('Bearer ') ? header.slice(7) : '';
+  const expected = Buffer.from(config.edge.token);
+  const actual = Buffer.from(token);
+  return (
+    actual.length === expected.length &&
+    crypto.timingSafeEqual(actual, expected)
+  );
+};
 
 // Rate limiting middleware
-export const rateLimiter = rateLimit({
-  windowMs: config.rateLimit.windowMs,
-  max: config.rateLimit.maxRequests,
-  message: {
+export const rateLimiter = createRateLimiter({
+  name: 'global',
+  limit: config.rateLimit,
+  body: {
     error: 'Too many requests from this IP, please try again later.',
   },
-  standardHeaders: true,
-  legacyHeaders: false,
-  handler: (req: Request, res: Response) => {
-    logger.warn(`Rate limit exceeded for IP: ${req.ip}`, {
-      ip: req.ip,
-      userAgent: req.get('User-Agent'),
-      path: req.path,
-    });
-    res.status(429).json({
-      error: 'Too many requests from this IP, please try again later.',
-    });
+  skip: isEdgeRequest,
+});
+
+// Click tracking and tracked redirects
+export const clickRateLimiter = createRateLimiter({
+  name: 'clicks',
+  limit: config.rateLimit.clicks,
+  body: {
+    error: 'Too many requests',
+    message: 'Rate limit exceeded. Please try again later.',
+  },
+});
+
+// Failed login attempts; successful logins don't count
+export const loginRateLimiter = createRateLimiter({
+  name: 'login',
+  limit: config.rateLimit.login,
+  body: {
+    success: false,
+    error: 'Too many login attempts, please try again later.',
   },
+  skipSuccessfulRequests: true,
 });
 
 // Security headers middleware
@@ -38,7 +150,12 @@ export const securityHeaders = helmet({
   crossOriginEmbedderPolicy: false,
 });
 
-// Request logging middleware
+// Matched route pattern (e.g. /api/links/:id) so that metrics don't get a
+// series per ID; requests no route handled share one label
+const routeLabel = (req: Request): string =>
+  req.route ? `${req.baseUrl}${String(req.route.path)}` : 'unmatched';
+
+// Request logging and HTTP metrics middleware
 export const requestLogger = (
   req: Request,
   res: Response,
@@ -46,7 +163,7 @@ export const requestLogger = (
 ): void => {
   const start = Date.now();
 
-  res.on('finish', () => {
+  const logRequest = () => {
     const duration = Date.now() - start;
     const logData = {
       method: req.method,
@@ -57,12 +174,23 @@ export const requestLogger = (
       userAgent: req.get('User-Agent'),
     };
 
+    const labels = {
+      method: req.method,
+      route: routeLabel(req),
+      status: String(res.statusCode),
+    };
+    httpRequestsTotal.inc(labels);
+    httpRequestDuration.observe(labels, duration / 1000);
+
     if (res.statusCode >= 400) {
       logger.warn('HTTP Request', logData);
     } else {
       logger.info('HTTP Request', logData);
     }
-  });
+  };
+
+  // Bound so the log line keeps the request's context (and request ID)
+  res.on('finish', AsyncResource.bind(logRequest));
 
   next();
 };
@@ -39,11 +39,25 @@ describe('Auth Routes', () => {
       expect(response.status).toBe(200);
       expect(response.body.success).toBe(true);
       expect(response.body.data).toHaveProperty('token');
+      expect(response.body.data).toHaveProperty('refreshToken');
       expect(response.body.data).toHaveProperty('user');
       expect(response.body.data.user.email).toBe('admin@test.com');
       expect(response.body.data.user).not.toHaveProperty('password_hash');
     });
 
+    it('should store only a hash of the refresh token', async () => {
+      const response = await request(app).post('/api/auth/login').send({
+        email: 'admin@test.com',
+        password: 'testpassword123',
+      });
+
+      const tokens = await db.query('SELECT token_hash FROM refresh_tokens');
+      expect(tokens.rows).toHaveLength(1);
+      expect(tokens.rows[0].token_hash).not.toBe(
+        response.body.data.refreshToken
+      );
+    });
+
     it('should reject invalid email', async () => {
       const response = await request(app).post('/api/auth/login').send({
         email: 'wrong@test.com',
@@ -66,6 +80,20 @@ describe('Auth Routes', () => {
       expect(response.body.error).toBe('Invalid email or password');
     });
 
+    it('should reject deactivated users', async () => {
+      await db.query(
+        "UPDATE admin_users SET is_active = false WHERE email = 'admin@test.com'"
+      );
+
+      const response = await request(app).post('/api/auth/login').send({
+        email: 'admin@test.com',
+        password: 'testpassword123',
+      });
+
+      expect(response.status).toBe(403);
+      expect(response.body.error).toBe('Account is deactivated');
+    });
+
     it('should validate email format', async () => {
       const response = await request(app).post('/api/auth/login').send({
         email: 'invalid-email',
@@ -133,52 +161,97 @@ describe('Auth Routes', () => {
 
   describe('POST /api/auth/refresh', () => {
     let authToken: string;
+    let refreshToken: string;
 
     beforeEach(async () => {
-      // Login to get token
+      // Login to get token pair
       const loginResponse = await request(app).post('/api/auth/login').send({
         email: 'admin@test.com',
         password: 'testpassword123',
       });
 
       authToken = loginResponse.body.data.token;
+      refreshToken = loginResponse.body.data.refreshToken;
     });
 
-    it('should refresh valid token', async () => {
+    it('should rotate the refresh token', async () => {
       // Wait a moment to ensure different timestamp in JWT
       await new Promise((resolve) => setTimeout(resolve, 1000));
 
       const response = await request(app)
         .post('/api/auth/refresh')
-        .set('Authorization', `Bearer ${authToken}`);
+        .send({ refreshToken });
 
       expect(response.status).toBe(200);
       expect(response.body.success).toBe(true);
       expect(response.body.data).toHaveProperty('token');
       expect(response.body.data).toHaveProperty('user');
       expect(response.body.data.token).not.toBe(authToken); // Should be a new token
+      expect(response.body.data.refreshToken).not.toBe(refreshToken);
+
+      const verifyResponse = await request(app)
+        .get('/api/auth/verify')
+        .set('Authorization', `Bearer ${response.body.data.token}`);
+      expect(verifyResponse.status).toBe(200);
     });
 
-    it('should reject missing token', async () => {
-      const response = await request(app).post('/api/auth/refresh');
+    it('should revoke the session when a used refresh token is replayed', async () => {
+      const first = await request(app)
+        .post('/api/auth/refresh')
+        .send({ refreshToken });
+      expect(first.status).toBe(200);
+
+      const replay = await request(app)
+        .post('/api/auth/refresh')
+        .send({ refreshToken });
+      expect(replay.status).toBe(401);
+      expect(replay.body.error).toBe('Invalid refresh token');
+
+      // The token issued by the legitimate refresh is now dead as well
+      const next = await request(app)
+        .post('/api/auth/refresh')
+        .send({ refreshToken: first.body.data.refreshToken });
+      expect(next.status).toBe(401);
+
+      const verifyResponse = await request(app)
+        .get('/api/auth/verify')
+        .set('Authorization', `Bearer ${first.body.data.token}`);
+      expect(verifyResponse.status).toBe(401);
+      expect(verifyResponse.body.error).toBe('Session revoked');
+    });
+
+    it('should reject an unknown refresh token', async () => {
+      const response = await request(app)
+        .post('/api/auth/refresh')
+        .send({ refreshToken: 'not-a-real-token' });
 
       expect(response.status).toBe(401);
       expect(response.body.success).toBe(false);
-      expect(response.body.error).toBe('Access token required');
+      expect(response.body.error).toBe('Invalid refresh token');
+    });
+
+    it('should require a refresh token', async () => {
+      const response = await request(app).post('/api/auth/refresh');
+
+      expect(response.status).toBe(400);
+      expect(response.body.success).toBe(false);
+      expect(response.body.error).toBe('Validation failed');
     });
   });
 
   describe('POST /api/auth/logout', () => {
     let authToken: string;
+    let refreshToken: string;
 
     beforeEach(async () => {
-      // Login to get token
+      // Login to get token pair
       const loginResponse = await request(app).post('/api/auth/login').send({
         email: 'admin@test.com',
         password: 'testpassword123',
       });
 
       authToken = loginResponse.body.data.token;
+      refreshToken = loginResponse.body.data.refreshToken;
     });
 
     it('should logout successfully', async () => {
@@ -191,6 +264,24 @@ describe('Auth Routes', () => {
       expect(response.body.message).toBe('Logout successful');
     });
 
+    it('should revoke the access and refresh tokens', async () => {
+      await request(app)
+        .post('/api/auth/logout')
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      const verifyResponse = await request(app)
+        .get('/api/auth/verify')
+        .set('Authorization', `Bearer ${authToken}`);
+      expect(verifyResponse.status).toBe(401);
+      expect(verifyResponse.body.error).toBe('Session revoked');
+
+      const refreshResponse = await request(app)
+        .post('/api/auth/refresh')
+        .send({ refreshToken });
+      expect(refreshResponse.status).toBe(401);
+    });
+
     it('should require authentication', async () => {
       const response = await request(app).post('/api/auth/logout');
 
@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import request from 'supertest';
+import { createApp } from '../../app.js';
+import { DatabaseConnection } from '../../database/connection.js';
+import { CategoryModel } from '../../database/models/Category.js';
+import { AffiliateLinkModel } from '../../database/models/AffiliateLink.js';
+import { rateLimitStore } from '../../middleware/security.js';
+
+const app = createApp();
+
+describe('Click counting', () => {
+  const db = DatabaseConnection.getInstance();
+  let categoryId: string;
+  let linkId: string;
+
+  const getClickCount = async (): Promise<number> => {
+    const link = await AffiliateLinkModel.findById(linkId);
+    return link?.click_count ?? -1;
+  };
+
+  beforeEach(async () => {
+    await rateLimitStore.resetAll();
+
+    const category = await CategoryModel.create({
+      name: 'Click Count Test',
+      slug: 'click-count-test',
+    });
+    categoryId = category.id;
+
+    const link = await AffiliateLinkModel.create({
+      title: 'Click Count Link',
+      description: 'Link used to verify click counting',
+      url: 'https://example.com',
+      affiliate_url: 'https://example.com/?ref=test',
+      category_id: categoryId,
+      status: 'active',
+    });
+    linkId = link.id;
+  });
+
+  afterEach(async () => {
+    await db.query('DELETE FROM affiliate_links WHERE id = $1', [linkId]);
+    await db.query('DELETE FROM categories WHERE id = $1', [categoryId]);
+  });
+
+  it('should add exactly one to click_count for POST /api/clicks', async () => {
+    expect(await getClickCount()).toBe(0);
+
+    await request(app)
+      .post('/api/clicks')
+      .send({ link_id: linkId, session_id: 'click-count-session' })
+      .expect(201);
+
+    expect(await getClickCount()).toBe(1);
+  });
+
+  it('should add exactly one to click_count for GET /api/redirect/:linkId', async () => {
+    expect(await getClickCount()).toBe(0);
+
+    await request(app).get(`/api/redirect/${linkId}`).expect(302);
+
+    expect(await getClickCount()).toBe(1);
+  });
+
+  it('should keep click_count equal to the number of click events', async () => {
+    await request(app).post('/api/clicks').send({ link_id: linkId });
+    await request(app).get(`/api/redirect/${linkId}`);
+    await request(app).post('/api/clicks').send({ link_id: linkId });
+
+    const events = await db.query(
+      'SELECT COUNT(*)::integer as total FROM click_events WHERE link_id = $1',
+      [linkId]
+    );
+
+    expect(events.rows[0].total).toBe(3);
+    expect(await getClickCount()).toBe(3);
+  });
+
+  it('should repair drifted click counts when reconciling', async () => {
+    await request(app).post('/api/clicks').send({ link_id: linkId });
+    await db.query(
+      'UPDATE affiliate_links SET click_count = 42 WHERE id = $1',
+      [linkId]
+    );
+
+    const drift = await AffiliateLinkModel.findClickCountDrift();
+    expect(drift).toContainEqual(
+      expect.objectContaining({ id: linkId, click_count: 42, actual_clicks: 1 })
+    );
+
+    await AffiliateLinkModel.reconcileClickCounts();
+
+    expect(await getClickCount()).toBe(1);
+  });
+
+  it('should keep click history but stop redirecting once a link is trashed', async () => {
+    await request(app).get(`/api/redirect/${linkId}`).expect(302);
+
+    await AffiliateLinkModel.delete(linkId);
+
+    await request(app).get(`/api/redirect/${linkId}`).expect(404);
+    await request(app)
+      .post('/api/clicks')
+      .send({ link_id: linkId })
+      .expect(404);
+
+    const events = await db.query(
+      'SELECT COUNT(*)::integer as total FROM click_events WHERE link_id = $1',
+      [linkId]
+    );
+    expect(events.rows[0].total).toBe(1);
+
+    await AffiliateLinkModel.restore(linkId);
+    await request(app).get(`/api/redirect/${linkId}`).expect(302);
+  });
+});
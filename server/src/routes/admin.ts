@@ -1,6 +1,8 @@
-import { Router } from 'express';
+import express, { Router } from 'express';
 import type { Request, Response } from 'express';
-import { body, validationResult } from 'express-validator';
+import { body, query, validationResult } from 'express-validator';
+import bcrypt from 'bcrypt';
+import crypto from 'crypto';
 import { asyncHandler } from '../middleware/errorHandler.js';
 import {
   authenticateToken,
@@ -9,10 +11,41 @@ import {
 } from '../middleware/auth.js';
 import { AffiliateLinkModel } from '../database/models/AffiliateLink.js';
 import { CategoryModel } from '../database/models/Category.js';
+import { AdminUserModel } from '../database/models/AdminUser.js';
+import { RefreshTokenModel } from '../database/models/RefreshToken.js';
+import { AuditEventModel } from '../database/models/AuditEvent.js';
+import { LinkHealthCheckModel } from '../database/models/LinkHealthCheck.js';
+import { ClickPartitionModel } from '../database/models/ClickPartition.js';
+import { ClickEventModel } from '../database/models/ClickEvent.js';
+import { ClickRollupModel } from '../database/models/ClickRollup.js';
+import { config } from '../config/environment.js';
+import { formatCsvRow, parseCsv } from '../utils/csv.js';
+import {
+  isEdgePublishingEnabled,
+  publishLink,
+  unpublishLink,
+} from '../utils/edgeLinks.js';
+import { validateUrlTemplate } from '../utils/urlTemplate.js';
+import { logger } from '../utils/logger.js';
+import {
+  LINK_VARIANT_PATTERN,
+  MAX_LINK_DESTINATIONS,
+} from '../utils/linkDestinations.js';
 import type {
+  AdminUser,
+  AffiliateLink,
+  AffiliateLinkExportRow,
+  AuditAction,
+  AuditEntityType,
+  AuditEventFilters,
+  CreateAuditEventInput,
   CreateAffiliateLinkInput,
   UpdateAffiliateLinkInput,
+  CreateCategoryInput,
+  UpdateCategoryInput,
   AffiliateLinkFilters,
+  LinkDestination,
+  LinkScheduleState,
   PaginationOptions,
 } from '../database/models/types.js';
 
@@ -21,6 +54,92 @@ const router = Router();
 // Apply authentication to all admin routes
 router.use(authenticateToken);
 
+// Publish/expiry dates shared by link creation and updates; null clears a date
+const validateLinkSchedule = [
+  body('publish_at')
+    .optional({ values: 'null' })
+    .isISO8601()
+    .withMessage('Publish date must be an ISO 8601 date'),
+  body('expires_at')
+    .optional({ values: 'null' })
+    .isISO8601()
+    .withMessage('Expiry date must be an ISO 8601 date')
+    .bail()
+    .custom(
+      (value, { req }) =>
+        !req.body.publish_at || new Date(value) > new Date(req.body.publish_at)
+    )
+    .withMessage('Expiry date must be after the publish date'),
+];
+
+// Vanity slug for /go/:slug, shared by link creation and updates; an empty
+// value or null removes it
+const validateLinkSlug = body('slug')
+  .optional({ values: 'falsy' })
+  .isString()
+  .trim()
+  .isLength({ max: 100 })
+  .withMessage('Slug must be 100 characters or less')
+  .matches(/^[a-z0-9]+(-[a-z0-9]+)*$/)
+  .withMessage(
+    'Slug must contain only lowercase letters, numbers, and single hyphens'
+  );
+
+// Outbound URL template for links and categories; an empty value or null
+// removes it
+const validateUrlTemplateField = body('url_template')
+  .optional({ values: 'falsy' })
+  .isString()
+  .withMessage('URL template must be a string')
+  .trim()
+  .custom((value: string) => {
+    const error = validateUrlTemplate(value);
+    if (error) throw new Error(error);
+    return true;
+  });
+
+// A/B destinations, shared by link creation and updates; an empty list sends
+// every click to affiliate_url again
+const validateLinkDestinations = [
+  body('destinations')
+    .optional()
+    .isArray({ max: MAX_LINK_DESTINATIONS })
+    .withMessage(
+      `Destinations must be an array of at most ${MAX_LINK_DESTINATIONS} entries`
+    )
+    .custom((destinations: Partial<LinkDestination>[]) => {
+      const variants = destinations.map((destination) => destination?.variant);
+      if (new Set(variants).size !== variants.length) {
+        throw new Error('Destination variants must be unique');
+      }
+      return true;
+    }),
+  body('destinations.*.variant')
+    .isString()
+    .isLength({ max: 50 })
+    .matches(LINK_VARIANT_PATTERN)
+    .withMessage(
+      'Destination variant must contain only lowercase letters, numbers, and single hyphens'
+    ),
+  body('destinations.*.url')
+    .isURL()
+    .withMessage('Destination URL must be a valid URL'),
+  body('destinations.*.weight')
+    .isInt({ min: 0, max: 1000 })
+    .withMessage('Destination weight must be an integer between 0 and 1000')
+    .toInt(),
+  body('sticky_destinations')
+    .optional()
+    .isBoolean()
+    .withMessage('Sticky destinations must be a boolean'),
+];
+
+// Keep only the destination fields, in the order given
+const toLinkDestinations = (
+  destinations: LinkDestination[]
+): LinkDestination[] =>
+  destinations.map(({ variant, url, weight }) => ({ variant, url, weight }));
+
 // Validation middleware for affiliate link creation
 const validateCreateLink = [
   body('title')
@@ -58,6 +177,10 @@ const validateCreateLink = [
     .optional()
     .isIn(['active', 'inactive', 'pending'])
     .withMessage('Status must be active, inactive, or pending'),
+  validateLinkSlug,
+  validateUrlTemplateField,
+  ...validateLinkDestinations,
+  ...validateLinkSchedule,
 ];
 
 // Validation middleware for affiliate link updates
@@ -103,6 +226,157 @@ const validateUpdateLink = [
     .optional()
     .isIn(['active', 'inactive', 'pending'])
     .withMessage('Status must be active, inactive, or pending'),
+  validateLinkSlug,
+  validateUrlTemplateField,
+  ...validateLinkDestinations,
+  ...validateLinkSchedule,
+];
+
+// Validation middleware for category creation
+const validateCreateCategory = [
+  body('name')
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Name must be between 1 and 100 characters'),
+  body('slug')
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Slug must be between 1 and 100 characters')
+    .matches(/^[a-z0-9-]+$/)
+    .withMessage(
+      'Slug must contain only lowercase letters, numbers, and hyphens'
+    ),
+  body('description')
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Description must be 500 characters or less'),
+  body('color')
+    .optional()
+    .matches(/^#[0-9A-Fa-f]{6}$/)
+    .withMessage('Color must be a valid hex color code'),
+  body('icon')
+    .optional()
+    .trim()
+    .isLength({ max: 50 })
+    .withMessage('Icon must be 50 characters or less'),
+  validateUrlTemplateField,
+];
+
+// Validation middleware for category updates
+const validateUpdateCategory = [
+  body('name')
+    .optional()
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Name must be between 1 and 100 characters'),
+  body('slug')
+    .optional()
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Slug must be between 1 and 100 characters')
+    .matches(/^[a-z0-9-]+$/)
+    .withMessage(
+      'Slug must contain only lowercase letters, numbers, and hyphens'
+    ),
+  body('description')
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Description must be 500 characters or less'),
+  body('color')
+    .optional()
+    .matches(/^#[0-9A-Fa-f]{6}$/)
+    .withMessage('Color must be a valid hex color code'),
+  body('icon')
+    .optional()
+    .trim()
+    .isLength({ max: 50 })
+    .withMessage('Icon must be 50 characters or less'),
+  validateUrlTemplateField,
+];
+
+// Validation middleware for inviting admin users
+const validateCreateUser = [
+  body('email')
+    .isEmail()
+    .normalizeEmail()
+    .withMessage('Valid email is required'),
+  body('name')
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Name must be between 1 and 100 characters'),
+  body('role')
+    .optional()
+    .isIn(['admin', 'editor'])
+    .withMessage('Role must be admin or editor'),
+  body('password')
+    .optional()
+    .isLength({ min: 8, max: 128 })
+    .withMessage('Password must be between 8 and 128 characters'),
+];
+
+// Validation middleware for admin user updates
+const validateUpdateUser = [
+  body('name')
+    .optional()
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Name must be between 1 and 100 characters'),
+  body('role')
+    .optional()
+    .isIn(['admin', 'editor'])
+    .withMessage('Role must be admin or editor'),
+];
+
+// Validation middleware for password resets
+const validateResetPassword = [
+  body('password')
+    .optional()
+    .isLength({ min: 8, max: 128 })
+    .withMessage('Password must be between 8 and 128 characters'),
+];
+
+const AUDIT_ACTIONS: AuditAction[] = [
+  'create',
+  'update',
+  'delete',
+  'bulk_update',
+  'bulk_delete',
+  'restore',
+  'purge',
+  'reset_password',
+  'deactivate',
+  'reactivate',
+];
+const AUDIT_ENTITY_TYPES: AuditEntityType[] = ['link', 'category', 'user'];
+
+// Validation middleware for audit log filters
+const validateAuditFilters = [
+  query('actor_id')
+    .optional()
+    .isUUID()
+    .withMessage('Actor ID must be a valid UUID'),
+  query('action')
+    .optional()
+    .isIn(AUDIT_ACTIONS)
+    .withMessage(`Action must be one of ${AUDIT_ACTIONS.join(', ')}`),
+  query('entity_type')
+    .optional()
+    .isIn(AUDIT_ENTITY_TYPES)
+    .withMessage(`Entity type must be one of ${AUDIT_ENTITY_TYPES.join(', ')}`),
+  query('entity_id')
+    .optional()
+    .isUUID()
+    .withMessage('Entity ID must be a valid UUID'),
+  query('start_date')
+    .optional()
+    .isISO8601()
+    .withMessage('Start date must be an ISO 8601 date'),
+  query('end_date')
+    .optional()
+    .isISO8601()
+    .withMessage('End date must be an ISO 8601 date'),
 ];
 
 // Helper function to handle validation errors
@@ -119,17 +393,275 @@ const handleValidationErrors = (req: Request, res: Response): boolean => {
   return false;
 };
 
+const PASSWORD_SALT_ROUNDS = 10;
+
+// Admin users are returned in the same shape as the auth endpoints
+const createUserResponse = (user: Omit<AdminUser, 'password_hash'>) => ({
+  id: user.id,
+  email: user.email,
+  name: user.name,
+  role: user.role,
+  isActive: user.is_active,
+  lastLogin: user.last_login,
+  createdAt: user.created_at,
+});
+
+// One-time password handed to the admin when none is chosen explicitly
+const generateTemporaryPassword = (): string =>
+  crypto.randomBytes(12).toString('base64url');
+
+// Whether removing this user's admin access would leave no active admin
+const isLastActiveAdmin = async (
+  user: Omit<AdminUser, 'password_hash'>
+): Promise<boolean> =>
+  user.role === 'admin' &&
+  user.is_active &&
+  (await AdminUserModel.countActiveAdmins(user.id)) === 0;
+
+// Load the admin user named in the route, responding 400/404 if missing
+const findUserFromParams = async (
+  req: Request,
+  res: Response
+): Promise<Omit<AdminUser, 'password_hash'> | null> => {
+  const uuidRegex =
+    /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+  if (!uuidRegex.test(req.params.id)) {
+    res.status(400).json({
+      success: false,
+      error: 'Invalid user ID format',
+    });
+    return null;
+  }
+
+  const user = await AdminUserModel.findById(req.params.id);
+  if (!user) {
+    res.status(404).json({
+      success: false,
+      error: 'User not found',
+    });
+    return null;
+  }
+
+  return user;
+};
+
+// Record an admin mutation on behalf of the signed-in user
+const recordAudit = (
+  req: Request,
+  event: Omit<CreateAuditEventInput, 'actor'>
+) =>
+  AuditEventModel.record({
+    ...event,
+    actor: req.user && { id: req.user.id, email: req.user.email },
+  });
+
+// Links without a URL template of their own use their category's, so the
+// edge needs them again once that template changes. A category can hold
+// many links, so this runs in the background rather than holding up the
+// response.
+const publishCategoryLinks = (categoryId: string): void => {
+  if (!isEdgePublishingEnabled()) return;
+  const publish = async () => {
+    for await (const batch of AffiliateLinkModel.findAllForExport({
+      category_id: categoryId,
+    })) {
+      for (const link of batch) {
+        if (!link.url_template) await publishLink(link);
+      }
+    }
+  };
+  publish().catch((error) => {
+    logger.warn('Failed to publish category links to the edge', {
+      categoryId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  });
+};
+
+const LINK_SCHEDULE_STATES: LinkScheduleState[] = [
+  'live',
+  'scheduled',
+  'expired',
+];
+
+// Link list filters from the query string, shared by the listing and export
+const parseLinkFilters = (req: Request): AffiliateLinkFilters => {
+  const { category_id, status, featured, search, tags, schedule } = req.query;
+  const filters: AffiliateLinkFilters = {};
+
+  if (category_id) {
+    filters.category_id = category_id as string;
+  }
+
+  if (status) {
+    filters.status = status as 'active' | 'inactive' | 'pending';
+  }
+
+  if (featured !== undefined) {
+    filters.featured = featured === 'true';
+  }
+
+  if (search) {
+    filters.search = search as string;
+  }
+
+  if (tags) {
+    const tagArray = Array.isArray(tags) ? tags : [tags];
+    filters.tags = tagArray as string[];
+  }
+
+  if (LINK_SCHEDULE_STATES.includes(schedule as LinkScheduleState)) {
+    filters.schedule = schedule as LinkScheduleState;
+  }
+
+  return filters;
+};
+
+const MAX_IMPORT_ROWS = 1000;
+
+type ImportRow = Record<string, unknown>;
+
+interface ImportRowResult {
+  row: number;
+  status: 'valid' | 'invalid';
+  title: string | null;
+  errors: { field: string; message: string }[];
+}
+
+// Import rows arrive as a text/csv or NDJSON body, a JSON array of links, or
+// a JSON object carrying either `links` or the `csv` text (for browser uploads)
+const readImportRows = (req: Request): ImportRow[] => {
+  const body: unknown = req.body;
+  if (typeof body === 'string') {
+    return req.is('application/x-ndjson')
+      ? body
+          .split('\n')
+          .filter((line) => line.trim() !== '')
+          .map((line) => JSON.parse(line))
+      : parseCsv(body);
+  }
+  if (Array.isArray(body)) return body;
+
+  const payload = (body ?? {}) as { csv?: unknown; links?: unknown };
+  if (typeof payload.csv === 'string') return parseCsv(payload.csv);
+  if (Array.isArray(payload.links)) return payload.links;
+
+  throw new Error('Expected CSV text or a JSON array of links');
+};
+
+// Blank cells mean "not provided"; CSV tags are pipe-separated and CSV
+// destinations are a JSON array
+const normalizeImportRow = (raw: ImportRow): ImportRow => {
+  const row: ImportRow = {};
+  for (const [key, value] of Object.entries(raw ?? {})) {
+    if (value === null || value === undefined) continue;
+    const normalized = typeof value === 'string' ? value.trim() : value;
+    if (normalized !== '') row[key] = normalized;
+  }
+
+  if (typeof row.tags === 'string') {
+    row.tags = row.tags
+      .split('|')
+      .map((tag) => tag.trim())
+      .filter(Boolean);
+  }
+
+  if (typeof row.destinations === 'string') {
+    try {
+      row.destinations = JSON.parse(row.destinations);
+    } catch {
+      // Left as is, so validation reports it
+    }
+  }
+
+  return row;
+};
+
+// Check a row against the same rules as POST /links, after resolving its
+// category slug to an id. `takenSlugs` holds the link slugs already in use,
+// and collects those of the rows checked so far.
+const validateImportRow = async (
+  row: ImportRow,
+  categoryIds: Map<string, string>,
+  takenSlugs: Set<string>
+): Promise<ImportRowResult['errors']> => {
+  const errors: ImportRowResult['errors'] = [];
+
+  const slug = row.category_slug;
+  delete row.category_id;
+  if (typeof slug !== 'string') {
+    errors.push({
+      field: 'category_slug',
+      message: 'Category slug is required',
+    });
+  } else if (!categoryIds.has(slug)) {
+    errors.push({
+      field: 'category_slug',
+      message: `Category "${slug}" not found`,
+    });
+  } else {
+    row.category_id = categoryIds.get(slug);
+  }
+
+  const rowRequest = { body: row };
+  for (const chain of validateCreateLink) {
+    await chain.run(rowRequest);
+  }
+
+  for (const error of validationResult(rowRequest).array()) {
+    const field = error.type === 'field' ? error.path : error.type;
+    // Category problems are already reported against the slug
+    if (field === 'category_id') continue;
+    errors.push({ field, message: error.msg });
+  }
+
+  if (
+    typeof row.slug === 'string' &&
+    !errors.some((error) => error.field === 'slug')
+  ) {
+    if (takenSlugs.has(row.slug)) {
+      errors.push({ field: 'slug', message: 'Link slug already exists' });
+    } else {
+      takenSlugs.add(row.slug);
+    }
+  }
+
+  return errors;
+};
+
+// Same defaults as POST /links; CSV values arrive as strings
+const toCreateLinkInput = (row: ImportRow): CreateAffiliateLinkInput => ({
+  title: row.title as string,
+  description: row.description as string,
+  url: row.url as string,
+  affiliate_url: row.affiliate_url as string,
+  category_id: row.category_id as string,
+  tags: (row.tags as string[] | undefined) || [],
+  image_url: row.image_url as string | undefined,
+  commission_rate:
+    row.commission_rate === undefined ? undefined : Number(row.commission_rate),
+  featured:
+    row.featured === true || row.featured === 'true' || row.featured === '1',
+  status: (row.status as CreateAffiliateLinkInput['status']) || 'active',
+  publish_at: row.publish_at as string | undefined,
+  expires_at: row.expires_at as string | undefined,
+  slug: (row.slug as string | undefined) || null,
+  url_template: (row.url_template as string | undefined) || null,
+  destinations: row.destinations
+    ? toLinkDestinations(row.destinations as LinkDestination[])
+    : [],
+  sticky_destinations:
+    row.sticky_destinations === true ||
+    row.sticky_destinations === 'true' ||
+    row.sticky_destinations === '1',
+});
+
 // GET /api/admin/links - Get all affiliate links (including inactive) with admin filters
 router.get(
   '/links',
   requireAdminOrEditor,
   asyncHandler(async (req: Request, res: Response) => {
     const {
-      category_id,
-      status,
-      featured,
-      search,
-      tags,
       limit = '20',
       offset = '0',
       sort_by = 'created_at',
@@ -144,28 +676,7 @@ router.get(
     const parsedOffset = Math.max(parseInt(offset as string) || 0, 0);
 
     // Build filters (admin can see all statuses)
-    const filters: AffiliateLinkFilters = {};
-
-    if (category_id) {
-      filters.category_id = category_id as string;
-    }
-
-    if (status) {
-      filters.status = status as 'active' | 'inactive' | 'pending';
-    }
-
-    if (featured !== undefined) {
-      filters.featured = featured === 'true';
-    }
-
-    if (search) {
-      filters.search = search as string;
-    }
-
-    if (tags) {
-      const tagArray = Array.isArray(tags) ? tags : [tags];
-      filters.tags = tagArray as string[];
-    }
+    const filters = parseLinkFilters(req);
 
     // Build pagination options
     const options: PaginationOptions = {
@@ -229,8 +740,22 @@ router.post(
       commission_rate,
       featured,
       status,
+      publish_at,
+      expires_at,
+      slug,
+      url_template,
+      destinations,
+      sticky_destinations,
     } = req.body;
 
+    if (slug && (await AffiliateLinkModel.findBySlug(slug, true))) {
+      res.status(409).json({
+        success: false,
+        error: 'Link slug already exists',
+      });
+      return;
+    }
+
     // Verify category exists
     const categoryExists = await CategoryModel.exists('id', category_id);
     if (!categoryExists) {
@@ -252,9 +777,22 @@ router.post(
       commission_rate,
       featured: featured || false,
       status: status || 'active',
+      publish_at,
+      expires_at,
+      slug: slug || null,
+      url_template: url_template || null,
+      destinations: destinations ? toLinkDestinations(destinations) : [],
+      sticky_destinations: sticky_destinations || false,
     };
 
     const newLink = await AffiliateLinkModel.create(linkData);
+    await publishLink(newLink);
+    await recordAudit(req, {
+      action: 'create',
+      entity_type: 'link',
+      entity_id: newLink.id,
+      after: newLink,
+    });
 
     res.status(201).json({
       success: true,
@@ -264,136 +802,516 @@ router.post(
   })
 );
 
-// GET /api/admin/links/:id - Get specific affiliate link (admin view)
-router.get(
-  '/links/:id',
+// POST /api/admin/links/import - Bulk create links from CSV, JSON or NDJSON.
+// With ?dry_run=true only the per-row validation report is returned;
+// otherwise every row is inserted in one transaction, or none if any is invalid.
+router.post(
+  '/links/import',
   requireAdminOrEditor,
+  express.text({
+    type: ['text/csv', 'application/x-ndjson'],
+    limit: '10mb',
+  }),
   asyncHandler(async (req: Request, res: Response) => {
-    const { id } = req.params;
+    const dryRun = req.query.dry_run === 'true';
 
-    // Validate UUID format
-    const uuidRegex =
-      /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
-    if (!uuidRegex.test(id)) {
+    let rawRows: ImportRow[];
+    try {
+      rawRows = readImportRows(req);
+    } catch (error) {
       res.status(400).json({
         success: false,
-        error: 'Invalid link ID format',
+        error: 'Invalid import data',
+        details: error instanceof Error ? error.message : undefined,
       });
       return;
     }
 
-    const link = await AffiliateLinkModel.findWithCategory(id);
+    if (rawRows.length === 0) {
+      res.status(400).json({
+        success: false,
+        error: 'Import contains no rows',
+      });
+      return;
+    }
 
-    if (!link) {
-      res.status(404).json({
+    if (rawRows.length > MAX_IMPORT_ROWS) {
+      res.status(400).json({
         success: false,
-        error: 'Affiliate link not found',
+        error: `Import is limited to ${MAX_IMPORT_ROWS} rows`,
       });
       return;
     }
 
-    res.json({
-      success: true,
-      data: link,
-    });
-  })
-);
+    const rows = rawRows.map(normalizeImportRow);
 
-// PUT /api/admin/links/:id - Update affiliate link
-router.put(
-  '/links/:id',
-  requireAdminOrEditor,
-  validateUpdateLink,
-  asyncHandler(async (req: Request, res: Response) => {
-    if (handleValidationErrors(req, res)) return;
+    const slugs = new Set(
+      rows
+        .map((row) => row.category_slug)
+        .filter((slug): slug is string => typeof slug === 'string')
+    );
+    const categoryIds = new Map<string, string>();
+    for (const slug of slugs) {
+      const category = await CategoryModel.findBySlug(slug);
+      if (category) categoryIds.set(slug, category.id);
+    }
 
-    const { id } = req.params;
+    const takenSlugs = new Set<string>();
+    for (const row of rows) {
+      if (
+        typeof row.slug === 'string' &&
+        (await AffiliateLinkModel.findBySlug(row.slug, true))
+      ) {
+        takenSlugs.add(row.slug);
+      }
+    }
 
-    // Validate UUID format
-    const uuidRegex =
-      /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
-    if (!uuidRegex.test(id)) {
-      res.status(400).json({
-        success: false,
-        error: 'Invalid link ID format',
+    const results: ImportRowResult[] = [];
+    for (const [index, row] of rows.entries()) {
+      const errors = await validateImportRow(row, categoryIds, takenSlugs);
+      results.push({
+        row: index + 1,
+        status: errors.length > 0 ? 'invalid' : 'valid',
+        title: typeof row.title === 'string' ? row.title : null,
+        errors,
       });
+    }
+
+    const invalid = results.filter((result) => result.status === 'invalid');
+    const report = {
+      dry_run: dryRun,
+      total: results.length,
+      valid: results.length - invalid.length,
+      invalid: invalid.length,
+      rows: results,
+    };
+
+    if (dryRun) {
+      res.json({ success: true, data: report });
       return;
     }
 
-    // Check if link exists
-    const existingLink = await AffiliateLinkModel.findById(id);
-    if (!existingLink) {
-      res.status(404).json({
+    if (invalid.length > 0) {
+      res.status(400).json({
         success: false,
-        error: 'Affiliate link not found',
+        error: 'Import contains invalid rows',
+        details: report,
       });
       return;
     }
 
-    const {
-      title,
-      description,
-      url,
-      affiliate_url,
-      category_id,
-      tags,
-      image_url,
-      commission_rate,
-      featured,
-      status,
-    } = req.body;
-
-    // Verify category exists if category_id is being updated
-    if (category_id) {
-      const categoryExists = await CategoryModel.exists('id', category_id);
-      if (!categoryExists) {
-        res.status(400).json({
-          success: false,
-          error: 'Category not found',
-        });
-        return;
-      }
+    const newLinks = await AffiliateLinkModel.createMany(
+      rows.map(toCreateLinkInput)
+    );
+    for (const link of newLinks) {
+      await publishLink(link);
+      await recordAudit(req, {
+        action: 'create',
+        entity_type: 'link',
+        entity_id: link.id,
+        after: link,
+        metadata: { source: 'import' },
+      });
     }
 
-    const updateData: UpdateAffiliateLinkInput = {};
-
-    if (title !== undefined) updateData.title = title;
-    if (description !== undefined) updateData.description = description;
-    if (url !== undefined) updateData.url = url;
-    if (affiliate_url !== undefined) updateData.affiliate_url = affiliate_url;
-    if (category_id !== undefined) updateData.category_id = category_id;
-    if (tags !== undefined) updateData.tags = tags;
-    if (image_url !== undefined) updateData.image_url = image_url;
-    if (commission_rate !== undefined)
-      updateData.commission_rate = commission_rate;
-    if (featured !== undefined) updateData.featured = featured;
-    if (status !== undefined) updateData.status = status;
-
-    const updatedLink = await AffiliateLinkModel.update(id, updateData);
-
-    res.json({
+    res.status(201).json({
       success: true,
-      data: updatedLink,
-      message: 'Affiliate link updated successfully',
+      data: { ...report, created: newLinks.length },
+      message: `${newLinks.length} affiliate links imported successfully`,
     });
   })
 );
 
-// DELETE /api/admin/links/:id - Delete affiliate link
-router.delete(
-  '/links/:id',
-  requireAdmin,
-  asyncHandler(async (req: Request, res: Response) => {
-    const { id } = req.params;
+const EXPORT_FORMATS = ['csv', 'json', 'ndjson'] as const;
+type ExportFormat = (typeof EXPORT_FORMATS)[number];
 
-    // Validate UUID format
-    const uuidRegex =
-      /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
-    if (!uuidRegex.test(id)) {
-      res.status(400).json({
-        success: false,
-        error: 'Invalid link ID format',
-      });
+const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  ndjson: 'application/x-ndjson; charset=utf-8',
+};
+
+// Import columns first so an export can be fed straight back to the importer,
+// which ignores the rest
+const EXPORT_COLUMNS = [
+  'title',
+  'description',
+  'url',
+  'affiliate_url',
+  'category_slug',
+  'tags',
+  'image_url',
+  'commission_rate',
+  'featured',
+  'status',
+  'publish_at',
+  'expires_at',
+  'slug',
+  'url_template',
+  'destinations',
+  'sticky_destinations',
+  'id',
+  'category_name',
+  'click_count',
+  'created_at',
+  'updated_at',
+] as const;
+
+const toExportRecord = (link: AffiliateLinkExportRow) => ({
+  title: link.title,
+  description: link.description,
+  url: link.url,
+  affiliate_url: link.affiliate_url,
+  category_slug: link.category_slug,
+  tags: link.tags,
+  image_url: link.image_url,
+  // NUMERIC columns come back from pg as strings
+  commission_rate:
+    link.commission_rate === null ? null : Number(link.commission_rate),
+  featured: link.featured,
+  status: link.status,
+  publish_at: link.publish_at,
+  expires_at: link.expires_at,
+  slug: link.slug,
+  url_template: link.url_template,
+  destinations: toLinkDestinations(link.destinations),
+  sticky_destinations: link.sticky_destinations,
+  id: link.id,
+  category_name: link.category_name,
+  click_count: link.click_count,
+  created_at: link.created_at,
+  updated_at: link.updated_at,
+});
+
+const formatExportCsvRow = (link: AffiliateLinkExportRow): string => {
+  const record = toExportRecord(link);
+  return formatCsvRow(
+    EXPORT_COLUMNS.map((column) => {
+      if (column === 'tags') return record.tags.join('|');
+      if (column === 'destinations') {
+        return record.destinations.length > 0
+          ? JSON.stringify(record.destinations)
+          : null;
+      }
+      return record[column];
+    })
+  );
+};
+
+// Respect backpressure so a slow client doesn't buffer the whole catalog;
+// resolves early if the client goes away
+const writeChunk = (res: Response, chunk: string): Promise<void> => {
+  if (res.write(chunk)) return Promise.resolve();
+
+  return new Promise((resolve) => {
+    const done = () => {
+      res.off('drain', done);
+      res.off('close', done);
+      resolve();
+    };
+    res.on('drain', done);
+    res.on('close', done);
+  });
+};
+
+// GET /api/admin/links/export - Stream the link catalog as CSV, JSON or NDJSON,
+// with the same filters as GET /api/admin/links
+router.get(
+  '/links/export',
+  requireAdminOrEditor,
+  query('format')
+    .optional()
+    .isIn(EXPORT_FORMATS)
+    .withMessage('Format must be csv, json, or ndjson'),
+  asyncHandler(async (req: Request, res: Response) => {
+    if (handleValidationErrors(req, res)) return;
+
+    const format = (req.query.format as ExportFormat | undefined) ?? 'csv';
+    const filters = parseLinkFilters(req);
+    const exportedAt = new Date();
+
+    res.setHeader('Content-Type', EXPORT_CONTENT_TYPES[format]);
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="links-${exportedAt.toISOString().split('T')[0]}.${format}"`
+    );
+
+    if (format === 'csv') {
+      await writeChunk(res, formatCsvRow([...EXPORT_COLUMNS]));
+    } else if (format === 'json') {
+      // Categories are included so the catalog can be recreated elsewhere
+      const categories = await CategoryModel.findAll({ limit: 1000 });
+      const header = JSON.stringify({
+        exported_at: exportedAt,
+        categories: categories.data.map(
+          ({ slug, name, description, color, icon, url_template }) => ({
+            slug,
+            name,
+            description,
+            color,
+            icon,
+            url_template,
+          })
+        ),
+      });
+      await writeChunk(res, `${header.slice(0, -1)},"links":[`);
+    }
+
+    let count = 0;
+    for await (const batch of AffiliateLinkModel.findAllForExport(filters)) {
+      if (res.destroyed) return;
+
+      const chunk = batch
+        .map((link) => {
+          if (format === 'csv') return formatExportCsvRow(link);
+          const json = JSON.stringify(toExportRecord(link));
+          if (format === 'ndjson') return `${json}\n`;
+          return `${count++ > 0 ? ',' : ''}\n${json}`;
+        })
+        .join('');
+      await writeChunk(res, chunk);
+    }
+
+    res.end(format === 'json' ? '\n]}\n' : undefined);
+  })
+);
+
+// GET /api/admin/links/health - Reachability summary from the latest link
+// health check run, with per-link results (failing links first)
+router.get(
+  '/links/health',
+  requireAdminOrEditor,
+  asyncHandler(async (req: Request, res: Response) => {
+    const [summary, links] = await Promise.all([
+      LinkHealthCheckModel.getSummary(),
+      LinkHealthCheckModel.findStatuses(),
+    ]);
+
+    res.json({
+      success: true,
+      data: { summary, links },
+    });
+  })
+);
+
+// GET /api/admin/links/trash - List trashed affiliate links, most recently deleted first
+router.get(
+  '/links/trash',
+  requireAdmin,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { limit = '20', offset = '0' } = req.query;
+
+    const parsedLimit = Math.min(
+      Math.max(parseInt(limit as string) || 20, 1),
+      100
+    );
+    const parsedOffset = Math.max(parseInt(offset as string) || 0, 0);
+
+    const result = await AffiliateLinkModel.findAll(
+      { trashed: true },
+      {
+        limit: parsedLimit,
+        offset: parsedOffset,
+        sort_by: 'deleted_at',
+        sort_order: 'DESC',
+      }
+    );
+
+    res.json({
+      success: true,
+      data: result.data,
+      pagination: {
+        total: result.total,
+        limit: result.limit,
+        offset: result.offset,
+        has_more: result.has_more,
+        page: Math.floor(result.offset / result.limit) + 1,
+        total_pages: Math.ceil(result.total / result.limit),
+      },
+    });
+  })
+);
+
+// GET /api/admin/links/:id - Get specific affiliate link (admin view)
+router.get(
+  '/links/:id',
+  requireAdminOrEditor,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    // Validate UUID format
+    const uuidRegex =
+      /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(id)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid link ID format',
+      });
+      return;
+    }
+
+    const link = await AffiliateLinkModel.findWithCategory(id);
+
+    if (!link) {
+      res.status(404).json({
+        success: false,
+        error: 'Affiliate link not found',
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: link,
+    });
+  })
+);
+
+// PUT /api/admin/links/:id - Update affiliate link
+router.put(
+  '/links/:id',
+  requireAdminOrEditor,
+  validateUpdateLink,
+  asyncHandler(async (req: Request, res: Response) => {
+    if (handleValidationErrors(req, res)) return;
+
+    const { id } = req.params;
+
+    // Validate UUID format
+    const uuidRegex =
+      /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(id)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid link ID format',
+      });
+      return;
+    }
+
+    // Check if link exists
+    const existingLink = await AffiliateLinkModel.findById(id);
+    if (!existingLink) {
+      res.status(404).json({
+        success: false,
+        error: 'Affiliate link not found',
+      });
+      return;
+    }
+
+    const {
+      title,
+      description,
+      url,
+      affiliate_url,
+      category_id,
+      tags,
+      image_url,
+      commission_rate,
+      featured,
+      status,
+      publish_at,
+      expires_at,
+      slug,
+      url_template,
+      destinations,
+      sticky_destinations,
+    } = req.body;
+
+    if (slug && slug !== existingLink.slug) {
+      const slugOwner = await AffiliateLinkModel.findBySlug(slug, true);
+      if (slugOwner && slugOwner.id !== id) {
+        res.status(409).json({
+          success: false,
+          error: 'Link slug already exists',
+        });
+        return;
+      }
+    }
+
+    // Changing only one end of the schedule must still leave a valid window
+    const publishAt =
+      publish_at !== undefined ? publish_at : existingLink.publish_at;
+    const expiresAt =
+      expires_at !== undefined ? expires_at : existingLink.expires_at;
+    if (publishAt && expiresAt && new Date(expiresAt) <= new Date(publishAt)) {
+      res.status(400).json({
+        success: false,
+        error: 'Expiry date must be after the publish date',
+      });
+      return;
+    }
+
+    // Verify category exists if category_id is being updated
+    if (category_id) {
+      const categoryExists = await CategoryModel.exists('id', category_id);
+      if (!categoryExists) {
+        res.status(400).json({
+          success: false,
+          error: 'Category not found',
+        });
+        return;
+      }
+    }
+
+    const updateData: UpdateAffiliateLinkInput = {};
+
+    if (title !== undefined) updateData.title = title;
+    if (description !== undefined) updateData.description = description;
+    if (url !== undefined) updateData.url = url;
+    if (affiliate_url !== undefined) updateData.affiliate_url = affiliate_url;
+    if (slug !== undefined) updateData.slug = slug || null;
+    if (url_template !== undefined) {
+      updateData.url_template = url_template || null;
+    }
+    if (destinations !== undefined) {
+      updateData.destinations = toLinkDestinations(destinations);
+    }
+    if (sticky_destinations !== undefined) {
+      updateData.sticky_destinations = sticky_destinations;
+    }
+    if (category_id !== undefined) updateData.category_id = category_id;
+    if (tags !== undefined) updateData.tags = tags;
+    if (image_url !== undefined) updateData.image_url = image_url;
+    if (commission_rate !== undefined)
+      updateData.commission_rate = commission_rate;
+    if (featured !== undefined) updateData.featured = featured;
+    if (status !== undefined) updateData.status = status;
+    if (publish_at !== undefined) updateData.publish_at = publish_at;
+    if (expires_at !== undefined) updateData.expires_at = expires_at;
+
+    const updatedLink = await AffiliateLinkModel.update(id, updateData);
+    if (updatedLink) await publishLink(updatedLink, existingLink);
+    await recordAudit(req, {
+      action: 'update',
+      entity_type: 'link',
+      entity_id: id,
+      before: existingLink,
+      after: updatedLink,
+    });
+
+    res.json({
+      success: true,
+      data: updatedLink,
+      message: 'Affiliate link updated successfully',
+    });
+  })
+);
+
+// DELETE /api/admin/links/:id - Move affiliate link to the trash
+router.delete(
+  '/links/:id',
+  requireAdmin,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    // Validate UUID format
+    const uuidRegex =
+      /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(id)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid link ID format',
+      });
       return;
     }
 
@@ -407,198 +1325,1002 @@ router.delete(
       return;
     }
 
-    const deleted = await AffiliateLinkModel.delete(id);
+    const deletedLink = await AffiliateLinkModel.delete(id);
+
+    if (!deletedLink) {
+      res.status(500).json({
+        success: false,
+        error: 'Failed to delete affiliate link',
+      });
+      return;
+    }
+
+    await unpublishLink(deletedLink);
+    await recordAudit(req, {
+      action: 'delete',
+      entity_type: 'link',
+      entity_id: id,
+      before: existingLink,
+      after: deletedLink,
+    });
+
+    res.json({
+      success: true,
+      message: 'Affiliate link moved to trash',
+    });
+  })
+);
+
+// Load the trashed link named in the route, responding 400/404/409 if it is
+// missing or not in the trash
+const findTrashedLinkFromParams = async (
+  req: Request,
+  res: Response
+): Promise<AffiliateLink | null> => {
+  const uuidRegex =
+    /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+  if (!uuidRegex.test(req.params.id)) {
+    res.status(400).json({
+      success: false,
+      error: 'Invalid link ID format',
+    });
+    return null;
+  }
+
+  const link = await AffiliateLinkModel.findById(req.params.id, true);
+  if (!link) {
+    res.status(404).json({
+      success: false,
+      error: 'Affiliate link not found',
+    });
+    return null;
+  }
+
+  if (!link.deleted_at) {
+    res.status(409).json({
+      success: false,
+      error: 'Affiliate link is not in the trash',
+    });
+    return null;
+  }
+
+  return link;
+};
+
+// POST /api/admin/links/:id/restore - Restore a trashed affiliate link
+router.post(
+  '/links/:id/restore',
+  requireAdmin,
+  asyncHandler(async (req: Request, res: Response) => {
+    const link = await findTrashedLinkFromParams(req, res);
+    if (!link) return;
+
+    const restoredLink = await AffiliateLinkModel.restore(link.id);
+    if (!restoredLink) {
+      res.status(409).json({
+        success: false,
+        error: 'Affiliate link is not in the trash',
+      });
+      return;
+    }
+
+    await publishLink(restoredLink);
+    await recordAudit(req, {
+      action: 'restore',
+      entity_type: 'link',
+      entity_id: link.id,
+      before: link,
+      after: restoredLink,
+    });
+
+    res.json({
+      success: true,
+      data: restoredLink,
+      message: 'Affiliate link restored successfully',
+    });
+  })
+);
+
+// DELETE /api/admin/links/:id/purge - Permanently delete a trashed affiliate
+// link together with its click history
+router.delete(
+  '/links/:id/purge',
+  requireAdmin,
+  asyncHandler(async (req: Request, res: Response) => {
+    const link = await findTrashedLinkFromParams(req, res);
+    if (!link) return;
+
+    const purged = await AffiliateLinkModel.purge(link.id);
+    if (!purged) {
+      res.status(409).json({
+        success: false,
+        error: 'Affiliate link is not in the trash',
+      });
+      return;
+    }
+
+    await unpublishLink(link);
+    await recordAudit(req, {
+      action: 'purge',
+      entity_type: 'link',
+      entity_id: link.id,
+      before: link,
+    });
+
+    res.json({
+      success: true,
+      message: 'Affiliate link permanently deleted',
+    });
+  })
+);
+
+// POST /api/admin/links/bulk-delete - Bulk move affiliate links to the trash
+router.post(
+  '/links/bulk-delete',
+  requireAdmin,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { ids } = req.body;
+
+    if (!Array.isArray(ids) || ids.length === 0) {
+      res.status(400).json({
+        success: false,
+        error: 'IDs array is required and must not be empty',
+      });
+      return;
+    }
+
+    // Validate all IDs are UUIDs
+    const uuidRegex =
+      /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    const invalidIds = ids.filter((id) => !uuidRegex.test(id));
+
+    if (invalidIds.length > 0) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid ID format',
+        details: { invalidIds },
+      });
+      return;
+    }
+
+    // Limit bulk operations to prevent abuse
+    if (ids.length > 100) {
+      res.status(400).json({
+        success: false,
+        error: 'Cannot delete more than 100 items at once',
+      });
+      return;
+    }
+
+    const results = {
+      deleted: 0,
+      failed: 0,
+      errors: [] as string[],
+    };
+
+    // Delete each link individually to ensure proper error handling
+    for (const id of ids) {
+      try {
+        const existingLink = await AffiliateLinkModel.findById(id);
+        const deletedLink =
+          existingLink && (await AffiliateLinkModel.delete(id));
+        if (deletedLink) {
+          results.deleted++;
+          await unpublishLink(deletedLink);
+          await recordAudit(req, {
+            action: 'bulk_delete',
+            entity_type: 'link',
+            entity_id: id,
+            before: existingLink,
+            after: deletedLink,
+          });
+        } else {
+          results.failed++;
+          results.errors.push(`Link ${id} not found`);
+        }
+      } catch (error) {
+        results.failed++;
+        results.errors.push(
+          `Failed to delete link ${id}: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    }
+
+    res.json({
+      success: true,
+      data: results,
+      message: `Bulk delete completed: ${results.deleted} deleted, ${results.failed} failed`,
+    });
+  })
+);
+
+// PATCH /api/admin/links/bulk-update - Bulk update affiliate links
+router.patch(
+  '/links/bulk-update',
+  requireAdminOrEditor,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { ids, updates } = req.body;
+
+    if (!Array.isArray(ids) || ids.length === 0) {
+      res.status(400).json({
+        success: false,
+        error: 'IDs array is required and must not be empty',
+      });
+      return;
+    }
+
+    if (!updates || typeof updates !== 'object') {
+      res.status(400).json({
+        success: false,
+        error: 'Updates object is required',
+      });
+      return;
+    }
+
+    // Validate all IDs are UUIDs
+    const uuidRegex =
+      /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    const invalidIds = ids.filter((id) => !uuidRegex.test(id));
+
+    if (invalidIds.length > 0) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid ID format',
+        details: { invalidIds },
+      });
+      return;
+    }
+
+    // Limit bulk operations to prevent abuse
+    if (ids.length > 100) {
+      res.status(400).json({
+        success: false,
+        error: 'Cannot update more than 100 items at once',
+      });
+      return;
+    }
+
+    // Validate updates object
+    const allowedFields = ['status', 'featured', 'category_id'];
+    const updateFields = Object.keys(updates);
+    const invalidFields = updateFields.filter(
+      (field) => !allowedFields.includes(field)
+    );
+
+    if (invalidFields.length > 0) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid update fields',
+        details: { invalidFields, allowedFields },
+      });
+      return;
+    }
+
+    // Validate category_id if provided
+    if (updates.category_id) {
+      const categoryExists = await CategoryModel.exists(
+        'id',
+        updates.category_id
+      );
+      if (!categoryExists) {
+        res.status(400).json({
+          success: false,
+          error: 'Category not found',
+        });
+        return;
+      }
+    }
+
+    const results = {
+      updated: 0,
+      failed: 0,
+      errors: [] as string[],
+    };
+
+    // Update each link individually
+    for (const id of ids) {
+      try {
+        const existingLink = await AffiliateLinkModel.findById(id);
+        const updatedLink =
+          existingLink && (await AffiliateLinkModel.update(id, updates));
+        if (updatedLink) {
+          results.updated++;
+          await publishLink(updatedLink, existingLink);
+          await recordAudit(req, {
+            action: 'bulk_update',
+            entity_type: 'link',
+            entity_id: id,
+            before: existingLink,
+            after: updatedLink,
+          });
+        } else {
+          results.failed++;
+          results.errors.push(`Link ${id} not found`);
+        }
+      } catch (error) {
+        results.failed++;
+        results.errors.push(
+          `Failed to update link ${id}: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    }
+
+    res.json({
+      success: true,
+      data: results,
+      message: `Bulk update completed: ${results.updated} updated, ${results.failed} failed`,
+    });
+  })
+);
+
+// POST /api/admin/categories - Create new category
+router.post(
+  '/categories',
+  requireAdmin,
+  validateCreateCategory,
+  asyncHandler(async (req: Request, res: Response) => {
+    if (handleValidationErrors(req, res)) return;
+
+    const { name, slug, description, color, icon, url_template } = req.body;
+
+    // Slug and name are both unique in the schema
+    if (await CategoryModel.exists('slug', slug)) {
+      res.status(409).json({
+        success: false,
+        error: 'Category slug already exists',
+      });
+      return;
+    }
+
+    if (await CategoryModel.exists('name', name)) {
+      res.status(409).json({
+        success: false,
+        error: 'Category name already exists',
+      });
+      return;
+    }
+
+    const categoryData: CreateCategoryInput = {
+      name,
+      slug,
+      description,
+      color,
+      icon,
+      url_template: url_template || null,
+    };
+
+    const newCategory = await CategoryModel.create(categoryData);
+    await recordAudit(req, {
+      action: 'create',
+      entity_type: 'category',
+      entity_id: newCategory.id,
+      after: newCategory,
+    });
+
+    res.status(201).json({
+      success: true,
+      data: newCategory,
+      message: 'Category created successfully',
+    });
+  })
+);
+
+// PUT /api/admin/categories/:id - Update category
+router.put(
+  '/categories/:id',
+  requireAdmin,
+  validateUpdateCategory,
+  asyncHandler(async (req: Request, res: Response) => {
+    if (handleValidationErrors(req, res)) return;
+
+    const { id } = req.params;
+
+    // Validate UUID format
+    const uuidRegex =
+      /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(id)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid category ID format',
+      });
+      return;
+    }
+
+    // Check if category exists
+    const existingCategory = await CategoryModel.findById(id);
+    if (!existingCategory) {
+      res.status(404).json({
+        success: false,
+        error: 'Category not found',
+      });
+      return;
+    }
+
+    const { name, slug, description, color, icon, url_template } = req.body;
+
+    if (
+      slug !== undefined &&
+      slug !== existingCategory.slug &&
+      (await CategoryModel.exists('slug', slug))
+    ) {
+      res.status(409).json({
+        success: false,
+        error: 'Category slug already exists',
+      });
+      return;
+    }
+
+    if (
+      name !== undefined &&
+      name !== existingCategory.name &&
+      (await CategoryModel.exists('name', name))
+    ) {
+      res.status(409).json({
+        success: false,
+        error: 'Category name already exists',
+      });
+      return;
+    }
+
+    const updateData: UpdateCategoryInput = {};
+
+    if (name !== undefined) updateData.name = name;
+    if (slug !== undefined) updateData.slug = slug;
+    if (description !== undefined) updateData.description = description;
+    if (color !== undefined) updateData.color = color;
+    if (icon !== undefined) updateData.icon = icon;
+    if (url_template !== undefined) {
+      updateData.url_template = url_template || null;
+    }
+
+    const updatedCategory = await CategoryModel.update(id, updateData);
+    if (
+      updatedCategory &&
+      updatedCategory.url_template !== existingCategory.url_template
+    ) {
+      publishCategoryLinks(id);
+    }
+    await recordAudit(req, {
+      action: 'update',
+      entity_type: 'category',
+      entity_id: id,
+      before: existingCategory,
+      after: updatedCategory,
+    });
+
+    res.json({
+      success: true,
+      data: updatedCategory,
+      message: 'Category updated successfully',
+    });
+  })
+);
+
+// DELETE /api/admin/categories/:id - Delete category, optionally moving its links
+// to another category. Links cascade with their category, so a category that
+// still has links is only deleted when reassign_to is given.
+router.delete(
+  '/categories/:id',
+  requireAdmin,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const { reassign_to } = req.query;
+
+    // Validate UUID format
+    const uuidRegex =
+      /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(id)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid category ID format',
+      });
+      return;
+    }
+
+    const existingCategory = await CategoryModel.findById(id);
+    if (!existingCategory) {
+      res.status(404).json({
+        success: false,
+        error: 'Category not found',
+      });
+      return;
+    }
+
+    if (reassign_to !== undefined) {
+      if (
+        typeof reassign_to !== 'string' ||
+        !uuidRegex.test(reassign_to) ||
+        reassign_to === id
+      ) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid reassignment category ID',
+        });
+        return;
+      }
+
+      const targetExists = await CategoryModel.exists('id', reassign_to);
+      if (!targetExists) {
+        res.status(400).json({
+          success: false,
+          error: 'Reassignment category not found',
+        });
+        return;
+      }
+
+      const reassignedLinks = await CategoryModel.deleteAndReassignLinks(
+        id,
+        reassign_to
+      );
+      // The moved links now use the target category's URL template
+      publishCategoryLinks(reassign_to);
+      await recordAudit(req, {
+        action: 'delete',
+        entity_type: 'category',
+        entity_id: id,
+        before: existingCategory,
+        metadata: {
+          reassigned_to: reassign_to,
+          reassigned_links: reassignedLinks,
+        },
+      });
+
+      res.json({
+        success: true,
+        data: { reassigned_links: reassignedLinks },
+        message: `Category deleted successfully, ${reassignedLinks} links reassigned`,
+      });
+      return;
+    }
+
+    const linkCount = await CategoryModel.countLinks(id);
+    if (linkCount > 0) {
+      res.status(409).json({
+        success: false,
+        error: 'Category still has affiliate links',
+        details: { link_count: linkCount },
+      });
+      return;
+    }
+
+    const deleted = await CategoryModel.delete(id);
+
+    if (!deleted) {
+      res.status(500).json({
+        success: false,
+        error: 'Failed to delete category',
+      });
+      return;
+    }
+
+    await recordAudit(req, {
+      action: 'delete',
+      entity_type: 'category',
+      entity_id: id,
+      before: existingCategory,
+    });
+
+    res.json({
+      success: true,
+      data: { reassigned_links: 0 },
+      message: 'Category deleted successfully',
+    });
+  })
+);
+
+// GET /api/admin/users - List admin users
+router.get(
+  '/users',
+  requireAdmin,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { limit = '50', offset = '0' } = req.query;
+
+    const parsedLimit = Math.min(
+      Math.max(parseInt(limit as string) || 50, 1),
+      100
+    );
+    const parsedOffset = Math.max(parseInt(offset as string) || 0, 0);
 
-    if (!deleted) {
-      res.status(500).json({
-        success: false,
-        error: 'Failed to delete affiliate link',
-      });
-      return;
-    }
+    const result = await AdminUserModel.findAll({
+      limit: parsedLimit,
+      offset: parsedOffset,
+      sort_by: 'created_at',
+      sort_order: 'ASC',
+    });
 
     res.json({
       success: true,
-      message: 'Affiliate link deleted successfully',
+      data: result.data.map(createUserResponse),
+      pagination: {
+        total: result.total,
+        limit: result.limit,
+        offset: result.offset,
+        has_more: result.has_more,
+        page: Math.floor(result.offset / result.limit) + 1,
+        total_pages: Math.ceil(result.total / result.limit),
+      },
     });
   })
 );
 
-// POST /api/admin/links/bulk-delete - Bulk delete affiliate links
+// POST /api/admin/users - Invite a new admin user. Without a password, a
+// temporary one is generated and returned once.
 router.post(
-  '/links/bulk-delete',
+  '/users',
   requireAdmin,
+  validateCreateUser,
   asyncHandler(async (req: Request, res: Response) => {
-    const { ids } = req.body;
+    if (handleValidationErrors(req, res)) return;
 
-    if (!Array.isArray(ids) || ids.length === 0) {
-      res.status(400).json({
+    const { email, name, role = 'editor', password } = req.body;
+
+    if (await AdminUserModel.exists('email', email)) {
+      res.status(409).json({
         success: false,
-        error: 'IDs array is required and must not be empty',
+        error: 'A user with this email already exists',
       });
       return;
     }
 
-    // Validate all IDs are UUIDs
-    const uuidRegex =
-      /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
-    const invalidIds = ids.filter((id) => !uuidRegex.test(id));
+    const temporaryPassword = password
+      ? undefined
+      : generateTemporaryPassword();
+    const passwordHash = await bcrypt.hash(
+      password || temporaryPassword,
+      PASSWORD_SALT_ROUNDS
+    );
 
-    if (invalidIds.length > 0) {
-      res.status(400).json({
+    const newUser = await AdminUserModel.create({
+      email,
+      name,
+      role,
+      password_hash: passwordHash,
+    });
+    await recordAudit(req, {
+      action: 'create',
+      entity_type: 'user',
+      entity_id: newUser.id,
+      after: newUser,
+    });
+
+    res.status(201).json({
+      success: true,
+      data: {
+        user: createUserResponse(newUser),
+        temporaryPassword,
+      },
+      message: 'User invited successfully',
+    });
+  })
+);
+
+// PUT /api/admin/users/:id - Update a user's name or role
+router.put(
+  '/users/:id',
+  requireAdmin,
+  validateUpdateUser,
+  asyncHandler(async (req: Request, res: Response) => {
+    if (handleValidationErrors(req, res)) return;
+
+    const user = await findUserFromParams(req, res);
+    if (!user) return;
+
+    const { name, role } = req.body;
+
+    if (role === 'editor' && (await isLastActiveAdmin(user))) {
+      res.status(409).json({
         success: false,
-        error: 'Invalid ID format',
-        details: { invalidIds },
+        error: 'Cannot demote the last active admin',
       });
       return;
     }
 
-    // Limit bulk operations to prevent abuse
-    if (ids.length > 100) {
-      res.status(400).json({
+    const updatedUser = await AdminUserModel.update(user.id, { name, role });
+    if (!updatedUser) {
+      res.status(404).json({
         success: false,
-        error: 'Cannot delete more than 100 items at once',
+        error: 'User not found',
       });
       return;
     }
 
-    const results = {
-      deleted: 0,
-      failed: 0,
-      errors: [] as string[],
-    };
+    await recordAudit(req, {
+      action: 'update',
+      entity_type: 'user',
+      entity_id: user.id,
+      before: user,
+      after: updatedUser,
+    });
 
-    // Delete each link individually to ensure proper error handling
-    for (const id of ids) {
-      try {
-        const deleted = await AffiliateLinkModel.delete(id);
-        if (deleted) {
-          results.deleted++;
-        } else {
-          results.failed++;
-          results.errors.push(`Link ${id} not found`);
-        }
-      } catch (error) {
-        results.failed++;
-        results.errors.push(
-          `Failed to delete link ${id}: ${error instanceof Error ? error.message : 'Unknown error'}`
-        );
-      }
+    // Sessions carry the role, so a role change signs the user out
+    if (role !== undefined && role !== user.role) {
+      await RefreshTokenModel.revokeAllForUser(user.id);
     }
 
     res.json({
       success: true,
-      data: results,
-      message: `Bulk delete completed: ${results.deleted} deleted, ${results.failed} failed`,
+      data: createUserResponse(updatedUser),
+      message: 'User updated successfully',
     });
   })
 );
 
-// PATCH /api/admin/links/bulk-update - Bulk update affiliate links
-router.patch(
-  '/links/bulk-update',
-  requireAdminOrEditor,
+// POST /api/admin/users/:id/reset-password - Set a new password and sign the
+// user out everywhere. Without a password, a temporary one is generated.
+router.post(
+  '/users/:id/reset-password',
+  requireAdmin,
+  validateResetPassword,
   asyncHandler(async (req: Request, res: Response) => {
-    const { ids, updates } = req.body;
+    if (handleValidationErrors(req, res)) return;
 
-    if (!Array.isArray(ids) || ids.length === 0) {
-      res.status(400).json({
+    const user = await findUserFromParams(req, res);
+    if (!user) return;
+
+    const { password } = req.body;
+    const temporaryPassword = password
+      ? undefined
+      : generateTemporaryPassword();
+    const passwordHash = await bcrypt.hash(
+      password || temporaryPassword,
+      PASSWORD_SALT_ROUNDS
+    );
+
+    await AdminUserModel.update(user.id, { password_hash: passwordHash });
+    await RefreshTokenModel.revokeAllForUser(user.id);
+    // Only the fact of the reset is recorded, never the password or its hash
+    await recordAudit(req, {
+      action: 'reset_password',
+      entity_type: 'user',
+      entity_id: user.id,
+    });
+
+    res.json({
+      success: true,
+      data: { temporaryPassword },
+      message: 'Password reset successfully',
+    });
+  })
+);
+
+// POST /api/admin/users/:id/deactivate - Block sign-in and end all sessions
+router.post(
+  '/users/:id/deactivate',
+  requireAdmin,
+  asyncHandler(async (req: Request, res: Response) => {
+    const user = await findUserFromParams(req, res);
+    if (!user) return;
+
+    if (await isLastActiveAdmin(user)) {
+      res.status(409).json({
         success: false,
-        error: 'IDs array is required and must not be empty',
+        error: 'Cannot deactivate the last active admin',
       });
       return;
     }
 
-    if (!updates || typeof updates !== 'object') {
-      res.status(400).json({
+    const updatedUser = await AdminUserModel.update(user.id, {
+      is_active: false,
+    });
+    await RefreshTokenModel.revokeAllForUser(user.id);
+    await recordAudit(req, {
+      action: 'deactivate',
+      entity_type: 'user',
+      entity_id: user.id,
+      before: user,
+      after: updatedUser,
+    });
+
+    res.json({
+      success: true,
+      data: createUserResponse(updatedUser!),
+      message: 'User deactivated successfully',
+    });
+  })
+);
+
+// POST /api/admin/users/:id/reactivate - Allow a deactivated user to sign in again
+router.post(
+  '/users/:id/reactivate',
+  requireAdmin,
+  asyncHandler(async (req: Request, res: Response) => {
+    const user = await findUserFromParams(req, res);
+    if (!user) return;
+
+    const updatedUser = await AdminUserModel.update(user.id, {
+      is_active: true,
+    });
+    await recordAudit(req, {
+      action: 'reactivate',
+      entity_type: 'user',
+      entity_id: user.id,
+      before: user,
+      after: updatedUser,
+    });
+
+    res.json({
+      success: true,
+      data: createUserResponse(updatedUser!),
+      message: 'User reactivated successfully',
+    });
+  })
+);
+
+// DELETE /api/admin/users/:id - Delete an admin user
+router.delete(
+  '/users/:id',
+  requireAdmin,
+  asyncHandler(async (req: Request, res: Response) => {
+    const user = await findUserFromParams(req, res);
+    if (!user) return;
+
+    if (await isLastActiveAdmin(user)) {
+      res.status(409).json({
         success: false,
-        error: 'Updates object is required',
+        error: 'Cannot delete the last active admin',
       });
       return;
     }
 
-    // Validate all IDs are UUIDs
-    const uuidRegex =
-      /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
-    const invalidIds = ids.filter((id) => !uuidRegex.test(id));
+    const deleted = await AdminUserModel.delete(user.id);
 
-    if (invalidIds.length > 0) {
-      res.status(400).json({
+    if (!deleted) {
+      res.status(500).json({
         success: false,
-        error: 'Invalid ID format',
-        details: { invalidIds },
+        error: 'Failed to delete user',
       });
       return;
     }
 
-    // Limit bulk operations to prevent abuse
-    if (ids.length > 100) {
-      res.status(400).json({
+    await recordAudit(req, {
+      action: 'delete',
+      entity_type: 'user',
+      entity_id: user.id,
+      before: user,
+    });
+
+    res.json({
+      success: true,
+      message: 'User deleted successfully',
+    });
+  })
+);
+
+// GET /api/admin/audit - List audit events, newest first. Editors can see the
+// history of links and categories; user events are limited to admins.
+router.get(
+  '/audit',
+  requireAdminOrEditor,
+  validateAuditFilters,
+  asyncHandler(async (req: Request, res: Response) => {
+    if (handleValidationErrors(req, res)) return;
+
+    const {
+      actor_id,
+      action,
+      entity_type,
+      entity_id,
+      start_date,
+      end_date,
+      limit = '50',
+      offset = '0',
+    } = req.query;
+
+    if (
+      req.user?.role !== 'admin' &&
+      entity_type !== 'link' &&
+      entity_type !== 'category'
+    ) {
+      res.status(403).json({
         success: false,
-        error: 'Cannot update more than 100 items at once',
+        error: 'Admin access required for user audit events',
       });
       return;
     }
 
-    // Validate updates object
-    const allowedFields = ['status', 'featured', 'category_id'];
-    const updateFields = Object.keys(updates);
-    const invalidFields = updateFields.filter(
-      (field) => !allowedFields.includes(field)
+    const parsedLimit = Math.min(
+      Math.max(parseInt(limit as string) || 50, 1),
+      100
     );
+    const parsedOffset = Math.max(parseInt(offset as string) || 0, 0);
 
-    if (invalidFields.length > 0) {
+    const filters: AuditEventFilters = {};
+
+    if (actor_id) filters.actor_id = actor_id as string;
+    if (action) filters.action = action as AuditAction;
+    if (entity_type) filters.entity_type = entity_type as AuditEntityType;
+    if (entity_id) filters.entity_id = entity_id as string;
+    if (start_date) filters.start_date = new Date(start_date as string);
+    if (end_date) filters.end_date = new Date(end_date as string);
+
+    const result = await AuditEventModel.findAll(filters, {
+      limit: parsedLimit,
+      offset: parsedOffset,
+    });
+
+    res.json({
+      success: true,
+      data: result.data,
+      pagination: {
+        total: result.total,
+        limit: result.limit,
+        offset: result.offset,
+        has_more: result.has_more,
+        page: Math.floor(result.offset / result.limit) + 1,
+        total_pages: Math.ceil(result.total / result.limit),
+      },
+    });
+  })
+);
+
+// GET /api/admin/click-events/partitions - Monthly click_events partitions
+// with their sizes, the months archived by the retention job, and the
+// retention settings
+router.get(
+  '/click-events/partitions',
+  requireAdmin,
+  asyncHandler(async (req: Request, res: Response) => {
+    const [partitions, archives] = await Promise.all([
+      ClickPartitionModel.listPartitions(),
+      ClickPartitionModel.listArchives(),
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        partitions,
+        archives,
+        retention: {
+          months: config.clickRetention.months,
+          interval_minutes: config.clickRetention.intervalMinutes,
+        },
+      },
+    });
+  })
+);
+
+// DELETE /api/admin/click-events/sessions/:sessionId - Erase every click of
+// a visitor session, e.g. on a GDPR erasure request, with the conversions
+// attributed to them. Rolled up days are recomputed without the clicks.
+// Archives are written without session IDs or visitor details, so archived
+// clicks can't be tied to the session and are left alone. Not audited,
+// since the audit log would keep the session ID.
+router.delete(
+  '/click-events/sessions/:sessionId',
+  requireAdmin,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { sessionId } = req.params;
+    if (sessionId.length > 255) {
       res.status(400).json({
         success: false,
-        error: 'Invalid update fields',
-        details: { invalidFields, allowedFields },
+        error: 'Invalid session ID',
       });
       return;
     }
 
-    // Validate category_id if provided
-    if (updates.category_id) {
-      const categoryExists = await CategoryModel.exists(
-        'id',
-        updates.category_id
-      );
-      if (!categoryExists) {
-        res.status(400).json({
-          success: false,
-          error: 'Category not found',
-        });
-        return;
-      }
-    }
-
-    const results = {
-      updated: 0,
-      failed: 0,
-      errors: [] as string[],
-    };
+    const erased = await ClickEventModel.deleteBySession(sessionId);
 
-    // Update each link individually
-    for (const id of ids) {
-      try {
-        const updatedLink = await AffiliateLinkModel.update(id, updates);
-        if (updatedLink) {
-          results.updated++;
-        } else {
-          results.failed++;
-          results.errors.push(`Link ${id} not found`);
-        }
-      } catch (error) {
-        results.failed++;
-        results.errors.push(
-          `Failed to update link ${id}: ${error instanceof Error ? error.message : 'Unknown error'}`
-        );
-      }
+    const coverage = await ClickRollupModel.getCoverage();
+    const rolledUpDays = erased.days.filter(
+      (day) => coverage && day >= coverage.from && day <= coverage.through
+    );
+    for (const day of rolledUpDays) {
+      await ClickRollupModel.rollUpDay(day);
     }
 
+    logger.info('Click session erased', {
+      actorId: req.user?.id,
+      clicks: erased.clicks,
+      conversions: erased.conversions,
+    });
+
     res.json({
       success: true,
-      data: results,
-      message: `Bulk update completed: ${results.updated} updated, ${results.failed} failed`,
+      data: {
+        clicks: erased.clicks,
+        conversions: erased.conversions,
+        rolled_up_days: rolledUpDays,
+      },
     });
   })
 );
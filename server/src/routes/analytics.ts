@@ -1,17 +1,29 @@
 import { Router, type Request, type Response } from 'express';
 import { ClickEventModel } from '../database/models/ClickEvent.js';
 import { AffiliateLinkModel } from '../database/models/AffiliateLink.js';
+import { ConversionModel } from '../database/models/Conversion.js';
 import { authenticateToken } from '../middleware/auth.js';
 import { logger } from '../utils/logger.js';
+import { clickStream } from '../utils/clickStream.js';
+import type {
+  AffiliateLink,
+  ClickFilterOptions,
+  ConversionStats,
+} from '../database/models/types.js';
 import { z } from 'zod';
 
 const router = Router();
 
 // Validation schemas
+// Dates (YYYY-MM-DD) cover the whole day
+const dateSchema = z.string().datetime().or(z.string().date());
+
 const dateRangeSchema = z.object({
-  start_date: z.string().datetime().optional(),
-  end_date: z.string().datetime().optional(),
+  start_date: dateSchema.optional(),
+  end_date: dateSchema.optional(),
   days: z.coerce.number().int().min(1).max(365).optional(),
+  // Count bot and duplicate clicks as well as valid ones
+  include_invalid: z.enum(['true', 'false']).optional(),
 });
 
 const analyticsQuerySchema = z.object({
@@ -20,6 +32,19 @@ const analyticsQuerySchema = z.object({
   format: z.enum(['json', 'csv']).optional(),
 });
 
+const categoryQuerySchema = z.object({
+  category_id: z.string().uuid().optional(),
+});
+
+// Clicks in the last few minutes count towards realtime active users
+const ACTIVE_USERS_WINDOW_MS = 5 * 60 * 1000;
+
+// Comment lines keep idle streams from being closed by proxies
+const STREAM_HEARTBEAT_MS = 25 * 1000;
+
+// Longest delay setTimeout supports
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
 // Helper function to get date range
 function getDateRange(query: any): { startDate: Date; endDate: Date } {
   const now = new Date();
@@ -29,6 +54,9 @@ function getDateRange(query: any): { startDate: Date; endDate: Date } {
   if (query.start_date && query.end_date) {
     startDate = new Date(query.start_date);
     endDate = new Date(query.end_date);
+    if (!query.end_date.includes('T')) {
+      endDate.setUTCHours(23, 59, 59, 999);
+    }
   } else if (query.days) {
     startDate = new Date(now.getTime() - query.days * 24 * 60 * 60 * 1000);
   } else {
@@ -39,6 +67,77 @@ function getDateRange(query: any): { startDate: Date; endDate: Date } {
   return { startDate, endDate };
 }
 
+// Helper function to validate the date range and category filter of the
+// breakdown routes; sends the 400 response when they are invalid
+function parseBreakdownQuery(req: Request, res: Response) {
+  const dateValidation = dateRangeSchema.safeParse(req.query);
+  const categoryValidation = categoryQuerySchema.safeParse(req.query);
+
+  if (!dateValidation.success || !categoryValidation.success) {
+    res.status(400).json({
+      error: 'Invalid query parameters',
+      details: {
+        date: dateValidation.error?.issues,
+        query: categoryValidation.error?.issues,
+      },
+    });
+    return null;
+  }
+
+  return {
+    ...getDateRange(req.query),
+    clickFilter: getClickFilter(req.query),
+    categoryId: categoryValidation.data.category_id,
+  };
+}
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+// Helper function to get the click filter (valid clicks unless asked otherwise)
+function getClickFilter(query: Request['query']): ClickFilterOptions {
+  return { include_invalid: query.include_invalid === 'true' };
+}
+
+// Per-variant results of a link's A/B destinations: every configured
+// destination, plus clicks on destinations that were removed since or that
+// went to the affiliate URL (variant null). Empty for links never split.
+function summarizeVariants(
+  link: AffiliateLink,
+  stats: ({ variant: string | null } & ConversionStats)[]
+) {
+  const empty = {
+    clicks: 0,
+    conversions: 0,
+    revenue: 0,
+    conversion_rate: 0,
+    epc: 0,
+  };
+  const configured = link.destinations.map((destination) => ({
+    variant: destination.variant,
+    url: destination.url,
+    weight: destination.weight,
+    ...empty,
+    ...stats.find((row) => row.variant === destination.variant),
+  }));
+  const other = stats
+    .filter(
+      (row) =>
+        !link.destinations.some(
+          (destination) => destination.variant === row.variant
+        )
+    )
+    .map((row) => ({
+      ...row,
+      url: row.variant === null ? link.affiliate_url : null,
+      weight: null,
+    }));
+
+  if (configured.length === 0 && other.every((row) => row.variant === null)) {
+    return [];
+  }
+  return [...configured, ...other];
+}
+
 // Helper function to format CSV response
 function formatCSV(data: any[], headers: string[]): string {
   const csvHeaders = headers.join(',');
@@ -82,49 +181,72 @@ router.get(
       }
 
       const { startDate, endDate } = getDateRange(req.query);
+      const clickFilter = getClickFilter(req.query);
       const { link_id, limit = 10 } = queryValidation.data;
 
       // Get total clicks
-      const totalClicks = await ClickEventModel.getTotalClicks(link_id);
+      const totalClicks = await ClickEventModel.getTotalClicks(
+        link_id,
+        clickFilter
+      );
 
       // Get clicks by date range
       const clicksByDate = await ClickEventModel.getClicksByDateRange(
         startDate,
         endDate,
-        link_id
+        link_id,
+        clickFilter
       );
 
       // Get top performing links
       const topLinks = await ClickEventModel.getTopLinksByClicks(
         startDate,
         endDate,
-        limit
+        limit,
+        clickFilter
       );
 
       // Get unique sessions count
       const uniqueSessions = await ClickEventModel.getUniqueSessionsCount(
         startDate,
         endDate,
-        link_id
+        link_id,
+        clickFilter
       );
 
+      // Valid, bot and duplicate clicks in the range, whatever the filter
+      const clicksByClassification =
+        await ClickEventModel.getClassificationCounts(
+          startDate,
+          endDate,
+          link_id
+        );
+
       // Get clicks by hour for the date range
       const clicksByHour = await ClickEventModel.getClicksByHour(
         startDate,
         endDate,
-        link_id
+        link_id,
+        clickFilter
       );
 
-      // Calculate total revenue (assuming commission rates)
-      let totalRevenue = 0;
-      for (const linkData of topLinks) {
-        const link = await AffiliateLinkModel.findById(linkData.link_id);
-        if (link && link.commission_rate) {
-          // Simplified revenue calculation: clicks * commission_rate
-          // In reality, this would be based on actual conversions
-          totalRevenue += linkData.clicks * link.commission_rate;
-        }
-      }
+      // Get recorded conversions and revenue
+      const conversionTotals = await ConversionModel.getTotals(
+        startDate,
+        endDate,
+        link_id
+      );
+      const linkPerformance = await ConversionModel.getStatsByLink(
+        startDate,
+        endDate,
+        link_id,
+        clickFilter
+      );
+      const categoryPerformance = await ConversionModel.getStatsByCategory(
+        startDate,
+        endDate,
+        clickFilter
+      );
 
       // Calculate click trends
       const totalClicksInRange = clicksByDate.reduce(
@@ -134,19 +256,28 @@ router.get(
       const averageClicksPerDay =
         clicksByDate.length > 0 ? totalClicksInRange / clicksByDate.length : 0;
 
-      // Calculate conversion rate (simplified - assuming 5% conversion rate)
-      const estimatedConversions = Math.round(totalClicksInRange * 0.05);
       const conversionRate =
         totalClicksInRange > 0
-          ? (estimatedConversions / totalClicksInRange) * 100
+          ? (conversionTotals.conversions / totalClicksInRange) * 100
           : 0;
+      const earningsPerClick =
+        totalClicksInRange > 0
+          ? conversionTotals.revenue / totalClicksInRange
+          : 0;
+
+      const statsByLink = new Map(
+        linkPerformance.map((stats) => [stats.link_id, stats])
+      );
 
       const analyticsData = {
         summary: {
           total_clicks: totalClicks,
-          total_revenue: Math.round(totalRevenue * 100) / 100, // Round to 2 decimal places
+          total_revenue: Math.round(conversionTotals.revenue * 100) / 100, // Round to 2 decimal places
+          total_conversions: conversionTotals.conversions,
           unique_sessions: uniqueSessions,
+          clicks_by_classification: clicksByClassification,
           conversion_rate: Math.round(conversionRate * 100) / 100,
+          epc: Math.round(earningsPerClick * 100) / 100,
           average_clicks_per_day: Math.round(averageClicksPerDay * 100) / 100,
           date_range: {
             start_date: startDate.toISOString(),
@@ -155,10 +286,18 @@ router.get(
         },
         clicks_by_date: clicksByDate,
         clicks_by_hour: clicksByHour,
-        top_links: topLinks.map((link) => ({
-          ...link,
-          revenue: link.clicks * 5, // Simplified revenue calculation
-        })),
+        top_links: topLinks.map((link) => {
+          const stats = statsByLink.get(link.link_id);
+          return {
+            ...link,
+            conversions: stats?.conversions ?? 0,
+            revenue: stats?.revenue ?? 0,
+            conversion_rate: stats?.conversion_rate ?? 0,
+            epc: stats?.epc ?? 0,
+          };
+        }),
+        link_performance: linkPerformance.slice(0, limit),
+        category_performance: categoryPerformance,
       };
 
       logger.info('Analytics data retrieved', {
@@ -203,17 +342,21 @@ router.get(
       }
 
       const { startDate, endDate } = getDateRange(req.query);
+      const clickFilter = getClickFilter(req.query);
       const { format = 'json', limit = 100 } = queryValidation.data;
 
       // Get detailed click data for export
       const topLinks = await ClickEventModel.getTopLinksByClicks(
         startDate,
         endDate,
-        limit
+        limit,
+        clickFilter
       );
       const clicksByDate = await ClickEventModel.getClicksByDateRange(
         startDate,
-        endDate
+        endDate,
+        undefined,
+        clickFilter
       );
 
       const exportData = {
@@ -269,6 +412,297 @@ router.get(
   }
 );
 
+// The breakdown routes below answer in the shapes of ClickAnalytics,
+// RevenueAnalytics and LinkPerformance in src/services/analyticsApi.ts
+
+// GET /api/admin/analytics/clicks - Clicks by date, category and referrer
+router.get(
+  '/admin/analytics/clicks',
+  authenticateToken,
+  async (req: Request, res: Response) => {
+    try {
+      const query = parseBreakdownQuery(req, res);
+      if (!query) return;
+      const { startDate, endDate, clickFilter, categoryId } = query;
+
+      const totals = await ClickEventModel.getClickTotals(
+        startDate,
+        endDate,
+        categoryId,
+        clickFilter
+      );
+      const clicksByDate = await ClickEventModel.getDailyClickStats(
+        startDate,
+        endDate,
+        categoryId,
+        clickFilter
+      );
+      const categoryStats = await ConversionModel.getStatsByCategory(
+        startDate,
+        endDate,
+        clickFilter
+      );
+      const topReferrers = await ClickEventModel.getTopReferrers(
+        startDate,
+        endDate,
+        10,
+        categoryId,
+        clickFilter
+      );
+
+      res.json({
+        success: true,
+        data: {
+          totalClicks: totals.clicks,
+          uniqueClicks: totals.unique_clicks,
+          clicksByDate: clicksByDate.map((day) => ({
+            date: day.date,
+            clicks: day.clicks,
+            uniqueClicks: day.unique_clicks,
+          })),
+          clicksByCategory: categoryStats
+            .filter(
+              (category) =>
+                category.clicks > 0 &&
+                (!categoryId || category.category_id === categoryId)
+            )
+            .sort((a, b) => b.clicks - a.clicks)
+            .map((category) => ({
+              categoryId: category.category_id,
+              categoryName: category.name,
+              clicks: category.clicks,
+            })),
+          topReferrers,
+        },
+      });
+    } catch (error) {
+      logger.error('Error retrieving click analytics:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to retrieve click analytics.',
+      });
+    }
+  }
+);
+
+// GET /api/admin/analytics/revenue - Revenue by date and category
+router.get(
+  '/admin/analytics/revenue',
+  authenticateToken,
+  async (req: Request, res: Response) => {
+    try {
+      const query = parseBreakdownQuery(req, res);
+      if (!query) return;
+      const { startDate, endDate, clickFilter, categoryId } = query;
+
+      const conversionTotals = await ConversionModel.getTotals(
+        startDate,
+        endDate,
+        undefined,
+        categoryId
+      );
+      const clickTotals = await ClickEventModel.getClickTotals(
+        startDate,
+        endDate,
+        categoryId,
+        clickFilter
+      );
+      const revenueByDate = await ConversionModel.getRevenueByDate(
+        startDate,
+        endDate,
+        categoryId
+      );
+      const categoryStats = await ConversionModel.getStatsByCategory(
+        startDate,
+        endDate,
+        clickFilter
+      );
+
+      const { clicks } = clickTotals;
+
+      res.json({
+        success: true,
+        data: {
+          totalRevenue: round2(conversionTotals.revenue),
+          totalConversions: conversionTotals.conversions,
+          conversionRate:
+            clicks > 0
+              ? round2((conversionTotals.conversions / clicks) * 100)
+              : 0,
+          earningsPerClick:
+            clicks > 0 ? round2(conversionTotals.revenue / clicks) : 0,
+          revenueByDate: revenueByDate.map((day) => ({
+            date: day.date,
+            revenue: day.revenue,
+          })),
+          revenueByCategory: categoryStats
+            .filter(
+              (category) => !categoryId || category.category_id === categoryId
+            )
+            .map((category) => ({
+              categoryId: category.category_id,
+              categoryName: category.name,
+              revenue: category.revenue,
+              conversions: category.conversions,
+              earningsPerClick: category.epc,
+            })),
+        },
+      });
+    } catch (error) {
+      logger.error('Error retrieving revenue analytics:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to retrieve revenue analytics.',
+      });
+    }
+  }
+);
+
+// GET /api/admin/analytics/links - Performance of every link with traffic
+router.get(
+  '/admin/analytics/links',
+  authenticateToken,
+  async (req: Request, res: Response) => {
+    try {
+      const query = parseBreakdownQuery(req, res);
+      if (!query) return;
+      const { startDate, endDate, clickFilter, categoryId } = query;
+
+      const linkStats = await ConversionModel.getStatsByLink(
+        startDate,
+        endDate,
+        undefined,
+        clickFilter,
+        categoryId
+      );
+
+      res.json({
+        success: true,
+        data: linkStats.map((link) => ({
+          linkId: link.link_id,
+          title: link.title,
+          clicks: link.clicks,
+          uniqueClicks: link.unique_clicks,
+          conversions: link.conversions,
+          conversionRate: link.conversion_rate,
+          revenue: link.revenue,
+          earningsPerClick: link.epc,
+          // No impressions are tracked, so this is the share of clicks
+          // from distinct sessions, like the dashboard's summary CTR
+          ctr:
+            link.clicks > 0
+              ? round2((link.unique_clicks / link.clicks) * 100)
+              : 0,
+        })),
+      });
+    } catch (error) {
+      logger.error('Error retrieving link performance:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to retrieve link performance.',
+      });
+    }
+  }
+);
+
+// GET /api/admin/analytics/realtime - Today's numbers (UTC) and active users
+router.get(
+  '/admin/analytics/realtime',
+  authenticateToken,
+  async (_req: Request, res: Response) => {
+    try {
+      const now = new Date();
+      const startOfDay = new Date(now);
+      startOfDay.setUTCHours(0, 0, 0, 0);
+
+      const active = await ClickEventModel.getClickTotals(
+        new Date(now.getTime() - ACTIVE_USERS_WINDOW_MS),
+        now
+      );
+      const today = await ClickEventModel.getClickTotals(startOfDay, now);
+      const conversionTotals = await ConversionModel.getTotals(startOfDay, now);
+      const topLinks = await ClickEventModel.getTopLinksByClicks(
+        startOfDay,
+        now,
+        5
+      );
+
+      res.json({
+        success: true,
+        data: {
+          activeUsers: active.unique_clicks,
+          clicksToday: today.clicks,
+          revenueToday: round2(conversionTotals.revenue),
+          topLinksToday: topLinks.map((link) => ({
+            linkId: link.link_id,
+            title: link.title,
+            clicks: link.clicks,
+          })),
+        },
+      });
+    } catch (error) {
+      logger.error('Error retrieving realtime analytics:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to retrieve realtime analytics.',
+      });
+    }
+  }
+);
+
+// GET /api/admin/analytics/stream - Live clicks and per-minute aggregates
+// as Server-Sent Events ('click' and 'aggregates'). The access token is only
+// checked when the stream opens, so the stream ends when the token expires
+// and the client reconnects with a fresh one.
+router.get(
+  '/admin/analytics/stream',
+  authenticateToken,
+  (req: Request, res: Response) => {
+    res.set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      // Stop nginx from buffering the stream
+      'X-Accel-Buffering': 'no',
+    });
+    res.flushHeaders();
+
+    const send = (event: string, data: unknown) => {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    // Reconnect after 5 seconds when the connection drops
+    res.write('retry: 5000\n\n');
+
+    const heartbeat = setInterval(
+      () => res.write(': heartbeat\n\n'),
+      STREAM_HEARTBEAT_MS
+    );
+    const unsubscribe = clickStream.subscribe({
+      click: (click) => send('click', click),
+      aggregates: (aggregates) => send('aggregates', aggregates),
+      close: () => res.end(),
+    });
+
+    const expiry = req.tokenExpiresAt
+      ? setTimeout(
+          () => res.end(),
+          Math.min(req.tokenExpiresAt.getTime() - Date.now(), MAX_TIMEOUT_MS)
+        )
+      : null;
+
+    logger.info('Analytics stream opened', {
+      subscribers: clickStream.subscriberCount,
+    });
+
+    req.on('close', () => {
+      clearInterval(heartbeat);
+      if (expiry) clearTimeout(expiry);
+      unsubscribe();
+    });
+  }
+);
+
 // GET /api/admin/analytics/links/:linkId - Analytics for specific link
 router.get(
   '/admin/analytics/links/:linkId',
@@ -296,8 +730,8 @@ router.get(
         return;
       }
 
-      // Check if link exists
-      const link = await AffiliateLinkModel.findById(linkId);
+      // Trashed links keep their click history, so they can still be reported on
+      const link = await AffiliateLinkModel.findById(linkId, true);
       if (!link) {
         res.status(404).json({
           error: 'Link not found',
@@ -307,25 +741,39 @@ router.get(
       }
 
       const { startDate, endDate } = getDateRange(req.query);
+      const clickFilter = getClickFilter(req.query);
 
       // Get link-specific analytics
-      const totalClicks = await ClickEventModel.getTotalClicks(linkId);
+      const totalClicks = await ClickEventModel.getTotalClicks(
+        linkId,
+        clickFilter
+      );
       const clicksByDate = await ClickEventModel.getClicksByDateRange(
         startDate,
         endDate,
-        linkId
+        linkId,
+        clickFilter
       );
       const clicksByHour = await ClickEventModel.getClicksByHour(
         startDate,
         endDate,
-        linkId
+        linkId,
+        clickFilter
       );
       const uniqueSessions = await ClickEventModel.getUniqueSessionsCount(
         startDate,
         endDate,
-        linkId
+        linkId,
+        clickFilter
       );
 
+      const clicksByClassification =
+        await ClickEventModel.getClassificationCounts(
+          startDate,
+          endDate,
+          linkId
+        );
+
       // Calculate performance metrics
       const totalClicksInRange = clicksByDate.reduce(
         (sum, day) => sum + day.clicks,
@@ -334,10 +782,27 @@ router.get(
       const averageClicksPerDay =
         clicksByDate.length > 0 ? totalClicksInRange / clicksByDate.length : 0;
 
-      // Calculate estimated revenue
-      const estimatedRevenue = link.commission_rate
-        ? totalClicksInRange * link.commission_rate
-        : 0;
+      // Get recorded conversions and revenue
+      const conversionTotals = await ConversionModel.getTotals(
+        startDate,
+        endDate,
+        linkId
+      );
+      const conversionRate =
+        totalClicksInRange > 0
+          ? (conversionTotals.conversions / totalClicksInRange) * 100
+          : 0;
+      const earningsPerClick =
+        totalClicksInRange > 0
+          ? conversionTotals.revenue / totalClicksInRange
+          : 0;
+
+      const variantStats = await ConversionModel.getStatsByVariant(
+        startDate,
+        endDate,
+        linkId,
+        clickFilter
+      );
 
       const linkAnalytics = {
         link: {
@@ -348,13 +813,18 @@ router.get(
           commission_rate: link.commission_rate,
           featured: link.featured,
           status: link.status,
+          sticky_destinations: link.sticky_destinations,
         },
         metrics: {
           total_clicks: totalClicks,
           clicks_in_range: totalClicksInRange,
           unique_sessions: uniqueSessions,
+          clicks_by_classification: clicksByClassification,
           average_clicks_per_day: Math.round(averageClicksPerDay * 100) / 100,
-          estimated_revenue: Math.round(estimatedRevenue * 100) / 100,
+          conversions: conversionTotals.conversions,
+          revenue: Math.round(conversionTotals.revenue * 100) / 100,
+          conversion_rate: Math.round(conversionRate * 100) / 100,
+          epc: Math.round(earningsPerClick * 100) / 100,
           date_range: {
             start_date: startDate.toISOString(),
             end_date: endDate.toISOString(),
@@ -362,6 +832,7 @@ router.get(
         },
         clicks_by_date: clicksByDate,
         clicks_by_hour: clicksByHour,
+        variants: summarizeVariants(link, variantStats),
       };
 
       logger.info('Link analytics retrieved', {
@@ -402,16 +873,20 @@ router.get(
       }
 
       const { startDate, endDate } = getDateRange(req.query);
+      const clickFilter = getClickFilter(req.query);
 
       // Get performance data
       const topLinks = await ClickEventModel.getTopLinksByClicks(
         startDate,
         endDate,
-        20
+        20,
+        clickFilter
       );
       const clicksByDate = await ClickEventModel.getClicksByDateRange(
         startDate,
-        endDate
+        endDate,
+        undefined,
+        clickFilter
       );
 
       // Calculate trends (compare with previous period)
@@ -425,7 +900,9 @@ router.get(
 
       const previousClicksByDate = await ClickEventModel.getClicksByDateRange(
         previousStartDate,
-        previousEndDate
+        previousEndDate,
+        undefined,
+        clickFilter
       );
 
       const currentPeriodClicks = clicksByDate.reduce(
@@ -451,19 +928,31 @@ router.get(
       );
       const lowPerformers = topLinks.filter((link) => link.clicks < 10);
 
-      // Calculate revenue by link (simplified)
+      // Calculate revenue by link from recorded conversions
+      const linkPerformance = await ConversionModel.getStatsByLink(
+        startDate,
+        endDate,
+        undefined,
+        clickFilter
+      );
+      const statsByLink = new Map(
+        linkPerformance.map((stats) => [stats.link_id, stats])
+      );
       const revenueByLink = await Promise.all(
         topLinks.slice(0, 10).map(async (linkData) => {
-          const link = await AffiliateLinkModel.findById(linkData.link_id);
-          const revenue = link?.commission_rate
-            ? linkData.clicks * link.commission_rate
-            : 0;
+          const link = await AffiliateLinkModel.findById(
+            linkData.link_id,
+            true
+          );
+          const stats = statsByLink.get(linkData.link_id);
           return {
             link_id: linkData.link_id,
             title: linkData.title,
             clicks: linkData.clicks,
             commission_rate: link?.commission_rate || 0,
-            revenue: Math.round(revenue * 100) / 100,
+            conversions: stats?.conversions ?? 0,
+            revenue: stats?.revenue ?? 0,
+            epc: stats?.epc ?? 0,
           };
         })
       );
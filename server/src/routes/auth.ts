@@ -3,10 +3,14 @@ import type { Request, Response } from 'express';
 import { body, validationResult } from 'express-validator';
 import jwt from 'jsonwebtoken';
 import bcrypt from 'bcrypt';
+import crypto from 'crypto';
 import { asyncHandler } from '../middleware/errorHandler.js';
 import { authenticateToken } from '../middleware/auth.js';
+import { loginRateLimiter } from '../middleware/security.js';
 import { AdminUserModel } from '../database/models/AdminUser.js';
-import { config } from '../config/environment.js';
+import { RefreshTokenModel } from '../database/models/RefreshToken.js';
+import { config, durationToMs } from '../config/environment.js';
+import { logger } from '../utils/logger.js';
 import type { AdminUser } from '../database/models/types.js';
 
 const router = Router();
@@ -20,6 +24,14 @@ const validateLogin = [
   body('password').isLength({ min: 1 }).withMessage('Password is required'),
 ];
 
+// Validation middleware for token refresh
+const validateRefresh = [
+  body('refreshToken')
+    .isString()
+    .isLength({ min: 1 })
+    .withMessage('Refresh token is required'),
+];
+
 // Helper function to handle validation errors
 const handleValidationErrors = (req: Request, res: Response): boolean => {
   const errors = validationResult(req);
@@ -34,12 +46,13 @@ const handleValidationErrors = (req: Request, res: Response): boolean => {
   return false;
 };
 
-// Helper function to generate JWT token
-const generateToken = (user: AdminUser): string => {
+// Helper function to generate JWT token bound to a refresh token session
+const generateToken = (user: AdminUser, sessionId: string): string => {
   const payload = {
     userId: user.id,
     email: user.email,
     role: user.role,
+    sid: sessionId,
   };
 
   const options: jwt.SignOptions = {
@@ -50,6 +63,34 @@ const generateToken = (user: AdminUser): string => {
   return jwt.sign(payload, config.jwt.secret, options);
 };
 
+// Refresh tokens are opaque random strings; only their hash is stored
+const hashRefreshToken = (token: string): string =>
+  crypto.createHash('sha256').update(token).digest('hex');
+
+// Helper function to issue a refresh token within a session
+const createRefreshToken = (
+  req: Request,
+  userId: string,
+  sessionId: string
+) => {
+  const refreshToken = crypto.randomBytes(48).toString('base64url');
+  const expiresAt = new Date(
+    Date.now() + durationToMs(config.jwt.refreshExpiresIn)
+  );
+
+  return {
+    refreshToken,
+    input: {
+      user_id: userId,
+      session_id: sessionId,
+      token_hash: hashRefreshToken(refreshToken),
+      expires_at: expiresAt,
+      user_agent: req.get('User-Agent'),
+      ip_address: req.ip,
+    },
+  };
+};
+
 // Helper function to create user response (without sensitive data)
 const createUserResponse = (
   user: Omit<AdminUser, 'password_hash'> | AdminUser
@@ -65,6 +106,7 @@ const createUserResponse = (
 // POST /api/auth/login - Admin login
 router.post(
   '/login',
+  loginRateLimiter,
   validateLogin,
   asyncHandler(async (req: Request, res: Response) => {
     if (handleValidationErrors(req, res)) return;
@@ -91,16 +133,29 @@ router.post(
       return;
     }
 
+    if (!user.is_active) {
+      res.status(403).json({
+        success: false,
+        error: 'Account is deactivated',
+      });
+      return;
+    }
+
     // Update last login timestamp
     await AdminUserModel.updateLastLogin(user.id);
 
-    // Generate JWT token
-    const token = generateToken(user);
+    // Start a new session with an access token and a refresh token
+    const sessionId = crypto.randomUUID();
+    const { refreshToken, input } = createRefreshToken(req, user.id, sessionId);
+    await RefreshTokenModel.create(input);
+    const token = generateToken(user, sessionId);
 
     res.json({
       success: true,
       data: {
         token,
+        refreshToken,
+        refreshExpiresAt: input.expires_at,
         user: createUserResponse(user),
       },
       message: 'Login successful',
@@ -113,8 +168,12 @@ router.post(
   '/logout',
   authenticateToken,
   asyncHandler(async (req: Request, res: Response) => {
-    // In a more sophisticated implementation, you might maintain a blacklist of tokens
-    // For now, we'll just return success since JWT tokens are stateless
+    // Revoking the session invalidates its refresh token and every access
+    // token issued for it
+    if (req.sessionId) {
+      await RefreshTokenModel.revokeSession(req.sessionId);
+    }
+
     res.json({
       success: true,
       message: 'Logout successful',
@@ -144,27 +203,70 @@ router.get(
   })
 );
 
-// POST /api/auth/refresh - Refresh JWT token
+// POST /api/auth/refresh - Exchange a refresh token for a new token pair
 router.post(
   '/refresh',
-  authenticateToken,
+  validateRefresh,
   asyncHandler(async (req: Request, res: Response) => {
-    if (!req.user) {
+    if (handleValidationErrors(req, res)) return;
+
+    const stored = await RefreshTokenModel.findByHash(
+      hashRefreshToken(req.body.refreshToken)
+    );
+    if (!stored || stored.expires_at.getTime() <= Date.now()) {
       res.status(401).json({
         success: false,
-        error: 'Authentication required',
+        error: 'Invalid refresh token',
+      });
+      return;
+    }
+
+    // A rotated token being presented again means it leaked; end the session
+    if (stored.revoked_at) {
+      await RefreshTokenModel.revokeSession(stored.session_id);
+      logger.warn('Refresh token reuse detected, session revoked', {
+        userId: stored.user_id,
+        sessionId: stored.session_id,
+      });
+      res.status(401).json({
+        success: false,
+        error: 'Invalid refresh token',
+      });
+      return;
+    }
+
+    const user = await AdminUserModel.findById(stored.user_id);
+    if (!user || !user.is_active) {
+      res.status(401).json({
+        success: false,
+        error: 'Invalid token - user not found',
+      });
+      return;
+    }
+
+    const { refreshToken, input } = createRefreshToken(
+      req,
+      user.id,
+      stored.session_id
+    );
+    const rotated = await RefreshTokenModel.rotate(stored.id, input);
+    if (!rotated) {
+      res.status(401).json({
+        success: false,
+        error: 'Invalid refresh token',
       });
       return;
     }
 
-    // Generate new token
-    const token = generateToken(req.user);
+    const token = generateToken(user as AdminUser, stored.session_id);
 
     res.json({
       success: true,
       data: {
         token,
-        user: createUserResponse(req.user),
+        refreshToken,
+        refreshExpiresAt: input.expires_at,
+        user: createUserResponse(user),
       },
       message: 'Token refreshed successfully',
     });
@@ -1,7 +1,35 @@
-import { Router, type Request, type Response } from 'express';
+import express, {
+  Router,
+  type NextFunction,
+  type Request,
+  type Response,
+} from 'express';
 import { ClickEventModel } from '../database/models/ClickEvent.js';
 import { AffiliateLinkModel } from '../database/models/AffiliateLink.js';
+import type {
+  AffiliateLink,
+  ClickClassification,
+  CreateClickEventInput,
+} from '../database/models/types.js';
+import { clickRateLimiter, isEdgeRequest } from '../middleware/security.js';
+import { config } from '../config/environment.js';
+import { classifyClick } from '../utils/clickClassification.js';
+import { clickVisitor } from '../utils/clickPrivacy.js';
 import { logger } from '../utils/logger.js';
+import { clickEventsTotal, redirectResponsesTotal } from '../utils/metrics.js';
+import { clickStream } from '../utils/clickStream.js';
+import { getLinkAvailability } from '../utils/linkSchedule.js';
+import {
+  LINK_VARIANT_PATTERN,
+  chooseDestination,
+  type ChosenDestination,
+} from '../utils/linkDestinations.js';
+import {
+  buildDestinationUrl,
+  campaignValues,
+  referrerHost,
+  resolveUrlTemplate,
+} from '../utils/urlTemplate.js';
 import { z } from 'zod';
 import crypto from 'crypto';
 
@@ -16,47 +44,73 @@ const createClickEventSchema = z.object({
   country_code: z.string().length(2).optional(),
 });
 
-// Rate limiting for click tracking (prevent spam)
-const clickRateLimit = new Map<string, { count: number; resetTime: number }>();
-const CLICK_RATE_LIMIT = 10; // Max 10 clicks per minute per IP
-const RATE_LIMIT_WINDOW = 60 * 1000; // 1 minute
+// Events queued by the browser's ClickTrackingService (camelCase, as
+// queued); unknown fields such as metadata are ignored
+const batchClickSchema = z.object({
+  linkId: z.string().uuid(),
+  timestamp: z.string().datetime({ offset: true }).optional(),
+  userAgent: z.string().optional(),
+  referrer: z.string().url().optional().or(z.literal('')),
+  sessionId: z.string().max(255).optional(),
+  idempotencyKey: z.string().min(1).max(100).optional(),
+});
 
-function checkRateLimit(ip: string): boolean {
-  const now = Date.now();
-  const record = clickRateLimit.get(ip);
+// Clicks redirected by the Cloudflare worker, pushed after the redirect.
+// Only the prefetch hints and privacy signals of the visitor's request
+// headers are forwarded.
+const edgeClickSchema = z.object({
+  link_id: z.string().uuid(),
+  timestamp: z.string().datetime({ offset: true }),
+  ip_address: z.union([z.ipv4(), z.ipv6()]).optional(),
+  user_agent: z.string().optional(),
+  referrer: z.string().url().optional().or(z.literal('')),
+  session_id: z.string().max(255).optional(),
+  country_code: z.string().length(2).optional(),
+  idempotency_key: z.string().min(1).max(100),
+  headers: z.record(z.string(), z.string()).optional(),
+  // Generated by the worker when it expanded the link's URL template
+  click_id: z.string().uuid().optional(),
+  // A/B destination the worker sent the visitor to
+  variant: z.string().max(50).regex(LINK_VARIANT_PATTERN).optional(),
+});
 
-  if (!record || now > record.resetTime) {
-    clickRateLimit.set(ip, { count: 1, resetTime: now + RATE_LIMIT_WINDOW });
-    return true;
-  }
+const MAX_BATCH_CLICKS = 50;
+// Queued clicks may be flushed late (e.g. after the browser was offline),
+// but not this late
+const MAX_CLICK_AGE_MS = 24 * 60 * 60 * 1000;
 
-  if (record.count >= CLICK_RATE_LIMIT) {
-    return false;
-  }
+const clickBatchSchema = z.object({
+  clicks: z.array(z.unknown()).min(1).max(MAX_BATCH_CLICKS),
+});
 
-  record.count++;
-  return true;
-}
+type BatchClickResult =
+  | {
+      index: number;
+      status: 'recorded' | 'already_recorded';
+      // null when an already recorded click was erased or archived since
+      click_event_id: string | null;
+      classification: ClickClassification | null;
+    }
+  | { index: number; status: 'rejected'; error: string; details?: unknown };
+
+// Same format as the admin API accepts for AffiliateLink.slug
+const LINK_SLUG_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
 
 // Generate session ID if not provided
 function generateSessionId(): string {
   return crypto.randomBytes(16).toString('hex');
 }
 
+// Click tracking and tracked redirects share one per-IP limit
+router.post('/clicks', clickRateLimiter);
+router.post('/clicks/batch', clickRateLimiter);
+router.get('/redirect/:linkId', clickRateLimiter);
+
 // POST /api/clicks - Record a click event
 router.post('/clicks', async (req: Request, res: Response) => {
   try {
     const clientIp = req.ip || req.connection.remoteAddress || 'unknown';
 
-    // Check rate limit
-    if (!checkRateLimit(clientIp)) {
-      res.status(429).json({
-        error: 'Too many requests',
-        message: 'Rate limit exceeded. Please try again later.',
-      });
-      return;
-    }
-
     // Validate request body
     const validationResult = createClickEventSchema.safeParse(req.body);
     if (!validationResult.success) {
@@ -80,30 +134,44 @@ router.post('/clicks', async (req: Request, res: Response) => {
       return;
     }
 
+    // Bots and repeat clicks are stored too, but don't count
+    const userAgent = user_agent || req.get('User-Agent');
+    const visitor = clickVisitor(clientIp, userAgent, req.headers);
+    const { classification, reason } = await classifyClick({
+      linkId: link_id,
+      userAgent,
+      ipAddress: clientIp,
+      sessionId: session_id,
+      headers: req.headers,
+    });
+
     // Create click event
     const clickEvent = await ClickEventModel.create({
       link_id,
-      user_agent: user_agent || req.get('User-Agent'),
+      ...visitor,
       referrer: referrer || req.get('Referer'),
-      ip_address: clientIp,
       session_id: session_id || generateSessionId(),
       country_code,
+      classification,
+      classification_reason: reason,
     });
 
-    // Increment click count on the affiliate link
-    await AffiliateLinkModel.incrementClickCount(link_id);
+    // click_count is incremented by update_click_count_trigger on insert
+    // of a valid click
+    clickEventsTotal.inc({ source: 'api' });
+    clickStream.publish(clickEvent);
 
     logger.info('Click event recorded', {
       clickEventId: clickEvent.id,
       linkId: link_id,
-      ip: clientIp,
-      userAgent: clickEvent.user_agent,
+      classification,
     });
 
     res.status(201).json({
       success: true,
       click_event_id: clickEvent.id,
       timestamp: clickEvent.timestamp,
+      classification,
     });
   } catch (error) {
     logger.error('Error recording click event:', error);
@@ -114,11 +182,387 @@ router.post('/clicks', async (req: Request, res: Response) => {
   }
 });
 
+// POST /api/clicks/batch - Record queued click events in one transaction.
+// navigator.sendBeacon() can only send the JSON as text/plain.
+router.post(
+  '/clicks/batch',
+  express.text({ type: 'text/plain', limit: '100kb' }),
+  async (req: Request, res: Response) => {
+    try {
+      const clientIp = req.ip || req.connection.remoteAddress || 'unknown';
+
+      let body: unknown = req.body;
+      if (typeof body === 'string') {
+        try {
+          body = JSON.parse(body);
+        } catch {
+          res.status(400).json({
+            error: 'Validation failed',
+            message: 'Request body must be JSON.',
+          });
+          return;
+        }
+      }
+
+      const validationResult = clickBatchSchema.safeParse(body);
+      if (!validationResult.success) {
+        res.status(400).json({
+          error: 'Validation failed',
+          details: validationResult.error.issues,
+        });
+        return;
+      }
+
+      const now = Date.now();
+      const results: BatchClickResult[] = [];
+      const accepted: { index: number; input: CreateClickEventInput }[] = [];
+      const linkExists = new Map<string, boolean>();
+      // Earlier clicks in this batch aren't in the database yet; only
+      // clicks with a session can be told apart as repeats
+      const lastClickInBatch = new Map<string, number>();
+      // A batch comes from one client, so its IP is only checked against
+      // other requests once per link
+      const ipCheckedLinks = new Set<string>();
+      const duplicateWindowMs =
+        config.clickFiltering.duplicateWindowSeconds * 1000;
+
+      for (const [index, rawClick] of validationResult.data.clicks.entries()) {
+        const parsed = batchClickSchema.safeParse(rawClick);
+        if (!parsed.success) {
+          results.push({
+            index,
+            status: 'rejected',
+            error: 'Validation failed',
+            details: parsed.error.issues,
+          });
+          continue;
+        }
+        const click = parsed.data;
+
+        // Client clocks may run ahead; never record a click in the future
+        const timestamp = Math.min(
+          click.timestamp ? new Date(click.timestamp).getTime() : now,
+          now
+        );
+        if (now - timestamp > MAX_CLICK_AGE_MS) {
+          results.push({ index, status: 'rejected', error: 'Click too old' });
+          continue;
+        }
+
+        if (!linkExists.has(click.linkId)) {
+          linkExists.set(
+            click.linkId,
+            await AffiliateLinkModel.exists(click.linkId)
+          );
+        }
+        if (!linkExists.get(click.linkId)) {
+          results.push({ index, status: 'rejected', error: 'Link not found' });
+          continue;
+        }
+
+        const userAgent = click.userAgent || req.get('User-Agent');
+        const visitor = clickVisitor(clientIp, userAgent, req.headers);
+        let { classification, reason } = await classifyClick({
+          linkId: click.linkId,
+          userAgent,
+          ipAddress: ipCheckedLinks.has(click.linkId) ? null : clientIp,
+          sessionId: click.sessionId,
+          headers: req.headers,
+        });
+
+        const batchKey = `${click.linkId}:${click.sessionId}`;
+        const previous = click.sessionId
+          ? lastClickInBatch.get(batchKey)
+          : undefined;
+        if (
+          classification === 'valid' &&
+          previous !== undefined &&
+          Math.abs(timestamp - previous) < duplicateWindowMs
+        ) {
+          classification = 'duplicate';
+          reason = 'same_session';
+        }
+        if (classification !== 'bot') {
+          if (click.sessionId) lastClickInBatch.set(batchKey, timestamp);
+          ipCheckedLinks.add(click.linkId);
+        }
+
+        accepted.push({
+          index,
+          input: {
+            link_id: click.linkId,
+            ...visitor,
+            referrer: click.referrer || req.get('Referer'),
+            session_id: click.sessionId || generateSessionId(),
+            classification,
+            classification_reason: reason,
+            timestamp: new Date(timestamp),
+            idempotency_key: click.idempotencyKey,
+          },
+        });
+      }
+
+      const created =
+        accepted.length > 0
+          ? await ClickEventModel.createMany(accepted.map(({ input }) => input))
+          : [];
+      created.forEach(({ click, duplicate }, i) => {
+        if (!duplicate) clickStream.publish(click);
+        results.push({
+          index: accepted[i].index,
+          status: duplicate ? 'already_recorded' : 'recorded',
+          click_event_id: click?.id ?? null,
+          classification: click?.classification ?? null,
+        });
+      });
+      results.sort((a, b) => a.index - b.index);
+
+      const count = (status: BatchClickResult['status']) =>
+        results.filter((result) => result.status === status).length;
+      const summary = {
+        recorded: count('recorded'),
+        already_recorded: count('already_recorded'),
+        rejected: count('rejected'),
+      };
+
+      // click_count is incremented by update_click_count_trigger on insert
+      // of a valid click
+      clickEventsTotal.inc({ source: 'batch' }, summary.recorded);
+
+      logger.info('Click batch recorded', summary);
+
+      res.json({ success: true, summary, results });
+    } catch (error) {
+      logger.error('Error recording click batch:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to record click events.',
+      });
+    }
+  }
+);
+
+// POST /api/clicks/edge - Record a click the Cloudflare worker redirected.
+// Requires `Authorization: Bearer <EDGE_TOKEN>`; not found while unset.
+router.post('/clicks/edge', async (req: Request, res: Response) => {
+  try {
+    if (!config.edge.token) {
+      res.status(404).json({
+        error: 'Not found',
+        message: 'Edge click ingestion is disabled.',
+      });
+      return;
+    }
+    if (!isEdgeRequest(req)) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Invalid edge token.',
+      });
+      return;
+    }
+
+    const validationResult = edgeClickSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: validationResult.error.issues,
+      });
+      return;
+    }
+    const click = validationResult.data;
+
+    // The worker pushes right after redirecting, but retries may come late
+    const now = Date.now();
+    const timestamp = Math.min(new Date(click.timestamp).getTime(), now);
+    if (now - timestamp > MAX_CLICK_AGE_MS) {
+      res.status(400).json({
+        error: 'Validation failed',
+        message: 'Click too old.',
+      });
+      return;
+    }
+
+    const linkExists = await AffiliateLinkModel.exists(click.link_id);
+    if (!linkExists) {
+      res.status(404).json({
+        error: 'Link not found',
+        message: 'The specified affiliate link does not exist.',
+      });
+      return;
+    }
+
+    const headers = click.headers ?? {};
+    const visitor = clickVisitor(click.ip_address, click.user_agent, headers);
+    const { classification, reason } = await classifyClick({
+      linkId: click.link_id,
+      userAgent: click.user_agent,
+      ipAddress: click.ip_address,
+      sessionId: click.session_id,
+      headers,
+    });
+
+    const [created] = await ClickEventModel.createMany([
+      {
+        link_id: click.link_id,
+        ...visitor,
+        referrer: click.referrer || undefined,
+        session_id: click.session_id || generateSessionId(),
+        country_code: click.country_code,
+        classification,
+        classification_reason: reason,
+        timestamp: new Date(timestamp),
+        idempotency_key: click.idempotency_key,
+        id: click.click_id,
+        variant: click.variant,
+      },
+    ]);
+    if (!created.duplicate) {
+      clickEventsTotal.inc({ source: 'edge' });
+      clickStream.publish(created.click);
+    }
+
+    const { click: clickEvent, duplicate } = created;
+    logger.info('Edge click recorded', {
+      clickEventId: clickEvent?.id ?? null,
+      linkId: click.link_id,
+      duplicate,
+      classification: clickEvent?.classification ?? null,
+    });
+
+    res.status(duplicate ? 200 : 201).json({
+      success: true,
+      status: duplicate ? 'already_recorded' : 'recorded',
+      click_event_id: clickEvent?.id ?? null,
+      classification: clickEvent?.classification ?? null,
+    });
+  } catch (error) {
+    logger.error('Error recording edge click:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to record click event.',
+    });
+  }
+});
+
+// Count redirect outcomes so failing redirects (4xx/5xx) can be alerted on
+const countRedirectResponses = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  res.on('finish', () => {
+    redirectResponsesTotal.inc({ status: String(res.statusCode) });
+  });
+  next();
+};
+
+// The chosen destination with the link's URL template filled in for this
+// click. A failed template lookup must not break the redirect.
+const destinationFor = async (
+  req: Request,
+  affiliateLink: AffiliateLink,
+  destination: ChosenDestination,
+  click: { id?: string; sessionId: string }
+): Promise<string> => {
+  try {
+    const template = await resolveUrlTemplate(affiliateLink);
+    const referrer = req.get('Referer');
+    return buildDestinationUrl(destination.url, template, {
+      link_id: affiliateLink.id,
+      click_id: click.id,
+      session_id: click.sessionId,
+      referrer,
+      referrer_host: referrerHost(referrer),
+      ...campaignValues(req.query),
+    });
+  } catch (error) {
+    logger.error('Error expanding URL template for redirect:', error);
+    return destination.url;
+  }
+};
+
+// Status checks, click tracking and the redirect itself, shared by the UUID
+// redirect and vanity slugs
+const redirectToLink = async (
+  req: Request,
+  res: Response,
+  affiliateLink: AffiliateLink
+): Promise<void> => {
+  const linkId = affiliateLink.id;
+  const clientIp = req.ip || req.connection.remoteAddress || 'unknown';
+
+  // Check if link is active and inside its publish/expiry window
+  const availability = getLinkAvailability(affiliateLink);
+  if (availability !== 'available') {
+    res.status(410).json({
+      error: 'Link unavailable',
+      message:
+        availability === 'scheduled'
+          ? 'This affiliate link is not available yet.'
+          : 'This affiliate link is no longer available.',
+    });
+    return;
+  }
+
+  // Record the click event
+  const requestedSessionId = req.query.session_id as string | undefined;
+  const sessionId = requestedSessionId || generateSessionId();
+  const destination = chooseDestination(affiliateLink, sessionId);
+  let clickId: string | undefined;
+
+  try {
+    const visitor = clickVisitor(clientIp, req.get('User-Agent'), req.headers);
+    const { classification, reason } = await classifyClick({
+      linkId,
+      userAgent: req.get('User-Agent'),
+      ipAddress: clientIp,
+      sessionId: requestedSessionId,
+      headers: req.headers,
+    });
+
+    const click = await ClickEventModel.create({
+      link_id: linkId,
+      ...visitor,
+      referrer: req.get('Referer'),
+      session_id: sessionId,
+      country_code: req.query.country as string,
+      classification,
+      classification_reason: reason,
+      variant: destination.variant,
+    });
+    clickId = click?.id;
+    clickEventsTotal.inc({ source: 'redirect' });
+    if (click) clickStream.publish(click);
+
+    logger.info('Redirect click tracked', {
+      linkId,
+      title: affiliateLink.title,
+      destination: destination.url,
+      variant: destination.variant,
+      classification,
+    });
+  } catch (clickError) {
+    // Log the error but don't fail the redirect
+    logger.error('Error recording click for redirect:', clickError);
+  }
+
+  // Redirect to the affiliate URL
+  res.redirect(
+    302,
+    await destinationFor(req, affiliateLink, destination, {
+      id: clickId,
+      sessionId,
+    })
+  );
+};
+
+router.use('/redirect', countRedirectResponses);
+
 // GET /api/redirect/:linkId - Tracked redirect to affiliate link
 router.get('/redirect/:linkId', async (req: Request, res: Response) => {
   try {
     const { linkId } = req.params;
-    const clientIp = req.ip || req.connection.remoteAddress || 'unknown';
 
     // Validate linkId format
     if (!linkId || !z.string().uuid().safeParse(linkId).success) {
@@ -129,15 +573,6 @@ router.get('/redirect/:linkId', async (req: Request, res: Response) => {
       return;
     }
 
-    // Check rate limit
-    if (!checkRateLimit(clientIp)) {
-      res.status(429).json({
-        error: 'Too many requests',
-        message: 'Rate limit exceeded. Please try again later.',
-      });
-      return;
-    }
-
     // Get the affiliate link
     const affiliateLink = await AffiliateLinkModel.findById(linkId);
     if (!affiliateLink) {
@@ -148,46 +583,42 @@ router.get('/redirect/:linkId', async (req: Request, res: Response) => {
       return;
     }
 
-    // Check if link is active
-    if (affiliateLink.status !== 'active') {
-      res.status(410).json({
-        error: 'Link unavailable',
-        message: 'This affiliate link is no longer available.',
-      });
-      return;
-    }
+    await redirectToLink(req, res, affiliateLink);
+  } catch (error) {
+    logger.error('Error in redirect endpoint:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to process redirect.',
+    });
+  }
+});
 
-    // Record the click event
-    const sessionId = (req.query.session_id as string) || generateSessionId();
+// Vanity short links live outside /api so they stay short to share
+const shortLinkRouter = Router();
 
-    try {
-      await ClickEventModel.create({
-        link_id: linkId,
-        user_agent: req.get('User-Agent'),
-        referrer: req.get('Referer'),
-        ip_address: clientIp,
-        session_id: sessionId,
-        country_code: req.query.country as string,
-      });
+shortLinkRouter.get('/go/:slug', clickRateLimiter);
+shortLinkRouter.use('/go', countRedirectResponses);
 
-      // Increment click count
-      await AffiliateLinkModel.incrementClickCount(linkId);
+// GET /go/:slug - Tracked redirect by vanity slug
+shortLinkRouter.get('/go/:slug', async (req: Request, res: Response) => {
+  try {
+    const slug = req.params.slug.toLowerCase();
 
-      logger.info('Redirect click tracked', {
-        linkId,
-        title: affiliateLink.title,
-        ip: clientIp,
-        destination: affiliateLink.affiliate_url,
+    // Anything that can't be a slug is simply not found
+    const affiliateLink = LINK_SLUG_PATTERN.test(slug)
+      ? await AffiliateLinkModel.findBySlug(slug)
+      : null;
+    if (!affiliateLink) {
+      res.status(404).json({
+        error: 'Link not found',
+        message: 'The specified affiliate link does not exist.',
       });
-    } catch (clickError) {
-      // Log the error but don't fail the redirect
-      logger.error('Error recording click for redirect:', clickError);
+      return;
     }
 
-    // Redirect to the affiliate URL
-    res.redirect(302, affiliateLink.affiliate_url);
+    await redirectToLink(req, res, affiliateLink);
   } catch (error) {
-    logger.error('Error in redirect endpoint:', error);
+    logger.error('Error in short link redirect:', error);
     res.status(500).json({
       error: 'Internal server error',
       message: 'Failed to process redirect.',
@@ -195,4 +626,4 @@ router.get('/redirect/:linkId', async (req: Request, res: Response) => {
   }
 });
 
-export { router as clicksRouter, clickRateLimit };
+export { router as clicksRouter, shortLinkRouter };
@@ -1,22 +1,29 @@
 import { Router } from 'express';
 import { healthRouter } from './health.js';
+import { metricsRouter } from './metrics.js';
 import { linksRouter } from './links.js';
 import { categoriesRouter } from './categories.js';
 import { adminRouter } from './admin.js';
-import { clicksRouter } from './clicks.js';
+import { clicksRouter, shortLinkRouter } from './clicks.js';
 import { analyticsRouter } from './analytics.js';
 import { authRouter } from './auth.js';
+import { postbackRouter } from './postback.js';
 
 const router = Router();
 
 // Mount health routes
 router.use('/', healthRouter);
+router.use('/', metricsRouter);
+
+// Mount vanity short links (/go/:slug)
+router.use('/', shortLinkRouter);
 
 // Mount API routes
 router.use('/api', linksRouter);
 router.use('/api', categoriesRouter);
 router.use('/api', clicksRouter);
 router.use('/api', analyticsRouter);
+router.use('/api', postbackRouter);
 router.use('/api/auth', authRouter);
 router.use('/api/admin', adminRouter);
 
@@ -28,12 +35,15 @@ router.get('/api', (req, res) => {
     endpoints: {
       health: '/health',
       ready: '/ready',
+      metrics: '/metrics',
       links: '/api/links',
       categories: '/api/categories',
       featured: '/api/links/featured',
       popular: '/api/links/popular',
       clicks: '/api/clicks',
       redirect: '/api/redirect/:linkId',
+      shortLink: '/go/:slug',
+      postback: '/api/postback',
       auth: '/api/auth',
       analytics: '/api/admin/analytics',
       admin: '/api/admin',
@@ -2,6 +2,7 @@ import { Router } from 'express';
 import type { Request, Response } from 'express';
 import { asyncHandler } from '../middleware/errorHandler.js';
 import { AffiliateLinkModel } from '../database/models/AffiliateLink.js';
+import { getLinkAvailability } from '../utils/linkSchedule.js';
 import type {
   AffiliateLinkFilters,
   PaginationOptions,
@@ -75,6 +76,7 @@ router.get(
     // Build filters
     const filters: AffiliateLinkFilters = {
       status: status as 'active' | 'inactive' | 'pending',
+      schedule: 'live',
     };
 
     if (category_id) {
@@ -163,8 +165,8 @@ router.get(
       return;
     }
 
-    // Only return active links for public API
-    if (link.status !== 'active') {
+    // Only return active, currently published links for public API
+    if (getLinkAvailability(link) !== 'available') {
       res.status(404).json({
         success: false,
         error: 'Affiliate link not found',
@@ -0,0 +1,44 @@
+import crypto from 'crypto';
+import { Router } from 'express';
+import type { Request, Response } from 'express';
+import { config } from '../config/environment.js';
+import { db } from '../database/connection.js';
+import { dbPoolConnections, metrics } from '../utils/metrics.js';
+
+const router = Router();
+
+// Constant-time comparison so the token can't be guessed byte by byte
+const hasValidToken = (req: Request): boolean => {
+  const header = req.get('Authorization') || '';
+  const token = header.startsWith('Bearer ') ? header.slice(7) : '';
+  const expected = Buffer.from(config.metrics.token);
+  const actual = Buffer.from(token);
+  return (
+    actual.length === expected.length &&
+    crypto.timingSafeEqual(actual, expected)
+  );
+};
+
+// GET /metrics - Prometheus scrape endpoint. Requires
+// `Authorization: Bearer <METRICS_TOKEN>`; not found while no token is set.
+router.get('/metrics', (req: Request, res: Response) => {
+  if (!config.metrics.token) {
+    res.status(404).json({ error: 'Metrics are disabled', status: 404 });
+    return;
+  }
+
+  if (!hasValidToken(req)) {
+    res.setHeader('WWW-Authenticate', 'Bearer');
+    res.status(401).json({ error: 'Invalid metrics token', status: 401 });
+    return;
+  }
+
+  const pool = db.getPoolInfo();
+  dbPoolConnections.set({ state: 'total' }, pool.totalCount);
+  dbPoolConnections.set({ state: 'idle' }, pool.idleCount);
+  dbPoolConnections.set({ state: 'waiting' }, pool.waitingCount);
+
+  res.type('text/plain; version=0.0.4; charset=utf-8').send(metrics.render());
+});
+
+export { router as metricsRouter };
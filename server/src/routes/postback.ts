@@ -0,0 +1,125 @@
+import { Router, type Request, type Response } from 'express';
+import { ClickEventModel } from '../database/models/ClickEvent.js';
+import { ConversionModel } from '../database/models/Conversion.js';
+import { config } from '../config/environment.js';
+import { logger } from '../utils/logger.js';
+import { z } from 'zod';
+import crypto from 'crypto';
+
+const router = Router();
+
+// Validation schemas
+const postbackSchema = z.object({
+  network: z.string().min(1).max(50),
+  secret: z.string().min(1).optional(),
+  click_id: z.string().uuid(),
+  transaction_id: z.string().min(1).max(255),
+  amount: z.coerce.number().min(0).optional(),
+  currency: z
+    .string()
+    .length(3)
+    .transform((value) => value.toUpperCase())
+    .optional(),
+  status: z.enum(['pending', 'approved', 'rejected']).optional(),
+});
+
+// Compare secrets in constant time so they can't be guessed byte by byte
+function verifySecret(network: string, secret: string | undefined): boolean {
+  const expected = config.postback.secrets[network];
+  if (!expected || !secret) {
+    return false;
+  }
+
+  const expectedBuffer = Buffer.from(expected);
+  const secretBuffer = Buffer.from(secret);
+  return (
+    expectedBuffer.length === secretBuffer.length &&
+    crypto.timingSafeEqual(expectedBuffer, secretBuffer)
+  );
+}
+
+// Networks call back with either query parameters (GET) or a body (POST)
+async function handlePostback(
+  params: unknown,
+  req: Request,
+  res: Response
+): Promise<void> {
+  try {
+    const validationResult = postbackSchema.safeParse(params);
+    if (!validationResult.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: validationResult.error.issues,
+      });
+      return;
+    }
+
+    const { network, click_id, transaction_id, amount, currency, status } =
+      validationResult.data;
+    const secret =
+      validationResult.data.secret || req.get('X-Postback-Secret') || undefined;
+
+    if (!verifySecret(network, secret)) {
+      logger.warn('Rejected postback with invalid secret', {
+        network,
+        ip: req.ip,
+      });
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Invalid postback credentials.',
+      });
+      return;
+    }
+
+    const clickEvent = await ClickEventModel.findById(click_id);
+    if (!clickEvent) {
+      res.status(404).json({
+        error: 'Click not found',
+        message: 'The specified click does not exist.',
+      });
+      return;
+    }
+
+    const conversion = await ConversionModel.upsert({
+      click_id,
+      link_id: clickEvent.link_id,
+      network,
+      transaction_id,
+      revenue: amount,
+      currency,
+      status,
+    });
+
+    logger.info('Conversion recorded', {
+      conversionId: conversion.id,
+      network,
+      transactionId: transaction_id,
+      linkId: clickEvent.link_id,
+      status: conversion.status,
+    });
+
+    res.json({
+      success: true,
+      conversion_id: conversion.id,
+      status: conversion.status,
+    });
+  } catch (error) {
+    logger.error('Error recording conversion:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to record conversion.',
+    });
+  }
+}
+
+// GET /api/postback - Server-to-server conversion postback
+router.get('/postback', (req: Request, res: Response) =>
+  handlePostback(req.query, req, res)
+);
+
+// POST /api/postback - Server-to-server conversion postback
+router.post('/postback', (req: Request, res: Response) =>
+  handlePostback(req.body, req, res)
+);
+
+export { router as postbackRouter };
@@ -0,0 +1,30 @@
+#!/usr/bin/env tsx
+
+import { db } from '../database/connection.js';
+import { anonymizeStoredClicks } from '../jobs/clickAnonymize.js';
+import { logger } from '../utils/logger.js';
+
+// Reduce the IPs and user agents of clicks stored before visitor details
+// were reduced at ingest, following CLICK_IP_MODE and CLICK_USER_AGENT_MODE.
+// Run once after migrating; running it again is harmless.
+async function anonymizeClicks() {
+  try {
+    console.log('🔄 Anonymizing stored clicks...\n');
+
+    const updated = await anonymizeStoredClicks();
+
+    console.log(
+      updated === 0
+        ? '✅ No clicks left to anonymize'
+        : `✅ Anonymized ${updated} click(s)`
+    );
+  } catch (error) {
+    logger.error('Failed to anonymize clicks', error);
+    console.error('❌ Error anonymizing clicks:', error);
+    process.exitCode = 1;
+  } finally {
+    await db.close();
+  }
+}
+
+anonymizeClicks();
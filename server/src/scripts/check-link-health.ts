@@ -0,0 +1,45 @@
+#!/usr/bin/env tsx
+
+import { db } from '../database/connection.js';
+import { config } from '../config/environment.js';
+import { runLinkHealthCheck } from '../jobs/linkHealthCheck.js';
+import { logger } from '../utils/logger.js';
+
+// Check the url, affiliate_url and image_url of every link once.
+// Pass --deactivate-after=N to override LINK_HEALTH_FAILURE_THRESHOLD.
+async function checkLinkHealth() {
+  const thresholdArg = process.argv
+    .find((arg) => arg.startsWith('--deactivate-after='))
+    ?.split('=')[1];
+  const failureThreshold = thresholdArg
+    ? parseInt(thresholdArg, 10)
+    : config.linkHealth.failureThreshold;
+
+  try {
+    console.log('🔍 Checking link destinations...\n');
+
+    const result = await runLinkHealthCheck({
+      ...config.linkHealth,
+      failureThreshold,
+    });
+
+    console.log(`✅ Checked ${result.checked} link(s)`);
+    if (result.unhealthy > 0) {
+      console.log(`⚠️  ${result.unhealthy} link(s) with failing destinations`);
+    }
+    if (result.deactivated.length > 0) {
+      console.log(
+        `🚫 Deactivated ${result.deactivated.length} link(s) after ${failureThreshold} consecutive failures:`
+      );
+      result.deactivated.forEach((id) => console.log(`  - ${id}`));
+    }
+  } catch (error) {
+    logger.error('Failed to check link health', error);
+    console.error('❌ Error checking link health:', error);
+    process.exitCode = 1;
+  } finally {
+    await db.close();
+  }
+}
+
+checkLinkHealth();
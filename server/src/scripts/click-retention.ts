@@ -0,0 +1,59 @@
+#!/usr/bin/env tsx
+
+import { db } from '../database/connection.js';
+import { config } from '../config/environment.js';
+import { runClickRetention } from '../jobs/clickRetention.js';
+import { logger } from '../utils/logger.js';
+
+// Create upcoming click_events partitions and archive the months past the
+// retention period. Pass --months=N to override CLICK_RETENTION_MONTHS.
+async function clickRetention() {
+  const monthsArg = process.argv
+    .find((arg) => arg.startsWith('--months='))
+    ?.split('=')[1];
+  const months = monthsArg
+    ? parseInt(monthsArg, 10)
+    : config.clickRetention.months;
+
+  if (Number.isNaN(months) || months < 0) {
+    console.error('❌ --months must be a whole number of months');
+    process.exitCode = 1;
+    return;
+  }
+
+  try {
+    console.log(
+      months > 0
+        ? `🗄️  Archiving click events older than ${months} month(s)...\n`
+        : '🗄️  Creating click event partitions (retention is off)...\n'
+    );
+
+    const result = await runClickRetention({
+      ...config.clickRetention,
+      months,
+    });
+
+    if (result.archived.length > 0) {
+      console.log(
+        `✅ Archived ${result.archived.length} month(s) to ${config.clickRetention.archiveDir}:`
+      );
+      result.archived.forEach((month) => console.log(`  - ${month}`));
+    } else {
+      console.log('✅ Nothing to archive');
+    }
+    if (result.skipped.length > 0) {
+      console.log(
+        `⚠️  Skipped ${result.skipped.length} month(s) not rolled up yet (run \`npm run analytics:rollup\`):`
+      );
+      result.skipped.forEach((month) => console.log(`  - ${month}`));
+    }
+  } catch (error) {
+    logger.error('Failed to apply click retention', error);
+    console.error('❌ Error applying click retention:', error);
+    process.exitCode = 1;
+  } finally {
+    await db.close();
+  }
+}
+
+clickRetention();
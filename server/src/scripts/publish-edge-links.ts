@@ -0,0 +1,49 @@
+#!/usr/bin/env tsx
+
+import { db } from '../database/connection.js';
+import { AffiliateLinkModel } from '../database/models/AffiliateLink.js';
+import { isEdgePublishingEnabled, publishLink } from '../utils/edgeLinks.js';
+import { logger } from '../utils/logger.js';
+
+// Publish the destination of every link to the worker's KV namespace, e.g.
+// after setting up edge redirects or when a publish failed.
+async function publishEdgeLinks() {
+  if (!isEdgePublishingEnabled()) {
+    console.error(
+      '❌ Edge publishing is not configured (set CLOUDFLARE_ACCOUNT_ID, CLOUDFLARE_KV_NAMESPACE_ID and CLOUDFLARE_API_TOKEN)'
+    );
+    process.exitCode = 1;
+    return;
+  }
+
+  try {
+    console.log('🔄 Publishing links to the edge...\n');
+
+    let published = 0;
+    let failed = 0;
+    for await (const links of AffiliateLinkModel.findAllForExport()) {
+      for (const link of links) {
+        if (await publishLink(link)) {
+          published++;
+        } else {
+          failed++;
+        }
+      }
+    }
+
+    logger.info('Links published to the edge', { published, failed });
+    console.log(`✅ Published ${published} link(s)`);
+    if (failed > 0) {
+      console.log(`⚠️  ${failed} link(s) failed, see the log for details`);
+      process.exitCode = 1;
+    }
+  } catch (error) {
+    logger.error('Failed to publish links to the edge', error);
+    console.error('❌ Error publishing links:', error);
+    process.exitCode = 1;
+  } finally {
+    await db.close();
+  }
+}
+
+publishEdgeLinks();
@@ -0,0 +1,45 @@
+#!/usr/bin/env tsx
+
+import { db } from '../database/connection.js';
+import { AffiliateLinkModel } from '../database/models/AffiliateLink.js';
+import { logger } from '../utils/logger.js';
+
+// Recompute affiliate_links.click_count from click_events.
+// Pass --dry-run to only report links whose stored count has drifted.
+async function reconcileClickCounts() {
+  const dryRun = process.argv.includes('--dry-run');
+
+  try {
+    console.log('🔍 Comparing click counts with click events...\n');
+
+    const drift = await AffiliateLinkModel.findClickCountDrift();
+    if (drift.length === 0) {
+      console.log('✅ All click counts match click events');
+      return;
+    }
+
+    console.log(`⚠️  ${drift.length} link(s) with mismatched click counts:`);
+    drift.forEach((link) => {
+      console.log(
+        `  - ${link.title} (${link.id}): stored ${link.click_count}, actual ${link.actual_clicks}`
+      );
+    });
+
+    if (dryRun) {
+      console.log('\nDry run: no changes made');
+      return;
+    }
+
+    const updated = await AffiliateLinkModel.reconcileClickCounts();
+    logger.info('Click counts reconciled', { updatedLinks: updated });
+    console.log(`\n✅ Updated click counts for ${updated} link(s)`);
+  } catch (error) {
+    logger.error('Failed to reconcile click counts', error);
+    console.error('❌ Error reconciling click counts:', error);
+    process.exitCode = 1;
+  } finally {
+    await db.close();
+  }
+}
+
+reconcileClickCounts();
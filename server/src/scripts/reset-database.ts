@@ -9,9 +9,19 @@ async function resetDatabase() {
 
     // Drop all tables in the correct order (respecting foreign key constraints)
     const dropTablesQueries = [
+      'DROP TABLE IF EXISTS link_health_checks CASCADE;',
+      'DROP TABLE IF EXISTS rate_limits CASCADE;',
+      'DROP TABLE IF EXISTS audit_events CASCADE;',
+      'DROP TABLE IF EXISTS conversions CASCADE;',
+      'DROP TABLE IF EXISTS click_event_archives CASCADE;',
+      'DROP TABLE IF EXISTS click_idempotency_keys CASCADE;',
+      'DROP TABLE IF EXISTS click_rollup_days CASCADE;',
+      'DROP TABLE IF EXISTS click_hourly_stats CASCADE;',
+      'DROP TABLE IF EXISTS click_daily_stats CASCADE;',
       'DROP TABLE IF EXISTS click_events CASCADE;',
       'DROP TABLE IF EXISTS affiliate_links CASCADE;',
       'DROP TABLE IF EXISTS categories CASCADE;',
+      'DROP TABLE IF EXISTS refresh_tokens CASCADE;',
       'DROP TABLE IF EXISTS admin_users CASCADE;',
       'DROP TABLE IF EXISTS migrations CASCADE;',
     ];
@@ -31,6 +41,7 @@ async function resetDatabase() {
     const dropFunctionsQueries = [
       'DROP FUNCTION IF EXISTS update_updated_at_column() CASCADE;',
       'DROP FUNCTION IF EXISTS update_link_click_count() CASCADE;',
+      'DROP FUNCTION IF EXISTS create_click_events_partition(DATE) CASCADE;',
     ];
 
     console.log('\n🔧 Dropping existing functions...');
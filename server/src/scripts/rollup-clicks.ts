@@ -0,0 +1,46 @@
+#!/usr/bin/env tsx
+
+import { db } from '../database/connection.js';
+import { runClickRollup } from '../jobs/clickRollup.js';
+import { logger } from '../utils/logger.js';
+
+// Roll up the clicks of completed days into click_daily_stats and
+// click_hourly_stats. Pass --from=YYYY-MM-DD to backfill: every day from
+// then until yesterday is recomputed.
+async function rollupClicks() {
+  const from = process.argv
+    .find((arg) => arg.startsWith('--from='))
+    ?.split('=')[1];
+
+  if (from !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(from)) {
+    console.error('❌ --from must be a date (YYYY-MM-DD)');
+    process.exitCode = 1;
+    return;
+  }
+
+  try {
+    console.log(
+      from
+        ? `🔄 Rolling up clicks from ${from}...\n`
+        : '🔄 Rolling up clicks...\n'
+    );
+
+    const { days } = await runClickRollup(from);
+
+    if (days.length === 0) {
+      console.log('✅ Rollups are up to date');
+    } else {
+      console.log(
+        `✅ Rolled up ${days.length} day(s): ${days[0]} to ${days[days.length - 1]}`
+      );
+    }
+  } catch (error) {
+    logger.error('Failed to roll up clicks', error);
+    console.error('❌ Error rolling up clicks:', error);
+    process.exitCode = 1;
+  } finally {
+    await db.close();
+  }
+}
+
+rollupClicks();
@@ -0,0 +1,142 @@
+import { isIP } from 'net';
+import type { IncomingHttpHeaders } from 'http';
+import { config } from '../config/environment.js';
+import { ClickEventModel } from '../database/models/ClickEvent.js';
+import type { ClickClassification } from '../database/models/types.js';
+import { rateLimitStore } from '../middleware/security.js';
+import type { RateLimitStore } from './rateLimitStore.js';
+
+// Lowercase user-agent substrings of crawlers, link-preview fetchers and
+// HTTP libraries. Extend with CLICK_BOT_USER_AGENTS.
+export const BOT_USER_AGENT_PATTERNS = [
+  'bot',
+  'crawler',
+  'spider',
+  'slurp',
+  'facebookexternalhit',
+  'facebookcatalog',
+  'embedly',
+  'whatsapp',
+  'skypeuripreview',
+  'bitlypreview',
+  'preview',
+  'headlesschrome',
+  'lighthouse',
+  'curl/',
+  'wget/',
+  'python-requests',
+  'python-urllib',
+  'go-http-client',
+  'node-fetch',
+  'axios/',
+  'okhttp',
+  'java/',
+  'libwww-perl',
+];
+
+export interface ClickClassificationResult {
+  classification: ClickClassification;
+  reason: string | null;
+}
+
+export interface ClickToClassify {
+  linkId: string;
+  userAgent?: string | null;
+  // The full client IP. Clicks are stored with it truncated or hashed (see
+  // utils/clickPrivacy.ts), which would merge visitors sharing a network,
+  // so repeat IPs are looked up in the rate limit store instead.
+  ipAddress?: string | null;
+  sessionId?: string | null;
+  headers: IncomingHttpHeaders;
+}
+
+export const isBotUserAgent = (
+  userAgent: string | null | undefined,
+  extraPatterns: readonly string[] = config.clickFiltering.botUserAgents
+): boolean => {
+  // Browsers always send one
+  if (!userAgent?.trim()) return true;
+
+  const ua = userAgent.toLowerCase();
+  return [...BOT_USER_AGENT_PATTERNS, ...extraPatterns].some((pattern) =>
+    ua.includes(pattern)
+  );
+};
+
+const headerValue = (headers: IncomingHttpHeaders, name: string): string => {
+  const value = headers[name];
+  return (Array.isArray(value) ? value.join(',') : value || '').toLowerCase();
+};
+
+// Speculative loads that were never clicked: <link rel=prefetch>, Chrome
+// prerendering and Safari/Firefox link previews
+export const isPrefetchRequest = (headers: IncomingHttpHeaders): boolean =>
+  ['purpose', 'sec-purpose', 'x-purpose', 'x-moz'].some((name) => {
+    const value = headerValue(headers, name);
+    return (
+      value.includes('prefetch') ||
+      value.includes('prerender') ||
+      value.includes('preview')
+    );
+  });
+
+// Whether the IP clicked the link within the last `windowSeconds`. The IP
+// is only kept in the rate limit store, for as long as the window.
+const isRepeatIp = async (
+  store: RateLimitStore,
+  linkId: string,
+  ipAddress: string,
+  windowSeconds: number
+): Promise<boolean> => {
+  const { totalHits } = await store.increment(
+    `duplicate-ip:${linkId}:${ipAddress}`,
+    windowSeconds * 1000
+  );
+  return totalHits > 1;
+};
+
+/**
+ * Decide whether a click counts. Bots and prefetches are recognised from
+ * the request alone; duplicates need a lookup of the link's recent clicks
+ * by session and of recent requests by IP.
+ */
+export const classifyClick = async (
+  click: ClickToClassify,
+  options = config.clickFiltering,
+  store: RateLimitStore = rateLimitStore
+): Promise<ClickClassificationResult> => {
+  if (isPrefetchRequest(click.headers)) {
+    return { classification: 'bot', reason: 'prefetch' };
+  }
+  if (isBotUserAgent(click.userAgent, options.botUserAgents)) {
+    return { classification: 'bot', reason: 'user_agent' };
+  }
+
+  if (options.duplicateWindowSeconds > 0) {
+    const repeatIp =
+      !!click.ipAddress &&
+      isIP(click.ipAddress) !== 0 &&
+      (await isRepeatIp(
+        store,
+        click.linkId,
+        click.ipAddress,
+        options.duplicateWindowSeconds
+      ));
+    const repeatSession =
+      !!click.sessionId &&
+      (await ClickEventModel.hasRecentSessionClick(
+        click.linkId,
+        click.sessionId,
+        options.duplicateWindowSeconds
+      ));
+
+    if (repeatSession) {
+      return { classification: 'duplicate', reason: 'same_session' };
+    }
+    if (repeatIp) {
+      return { classification: 'duplicate', reason: 'same_ip' };
+    }
+  }
+
+  return { classification: 'valid', reason: null };
+};
@@ -0,0 +1,139 @@
+import crypto from 'crypto';
+import { isIP } from 'net';
+import type { IncomingHttpHeaders } from 'http';
+import { config } from '../config/environment.js';
+import type {
+  CreateClickEventInput,
+  DeviceType,
+} from '../database/models/types.js';
+
+export interface ParsedUserAgent {
+  browser: string;
+  os: string;
+  device_type: DeviceType;
+}
+
+// First match wins, so browsers built on Chrome or Safari come first
+const BROWSERS: [string, RegExp][] = [
+  ['Edge', /\bEdg(e|A|iOS)?\//],
+  ['Opera', /\bOPR\/|\bOpera\b/],
+  ['Samsung Internet', /\bSamsungBrowser\//],
+  ['Firefox', /\bFirefox\/|\bFxiOS\//],
+  ['Chrome', /\bChrome\/|\bCriOS\//],
+  ['Safari', /\bVersion\/[\d.]+.*\bSafari\//],
+  ['Internet Explorer', /\bMSIE \d|\bTrident\//],
+];
+
+const OPERATING_SYSTEMS: [string, RegExp][] = [
+  ['iOS', /\b(iPhone|iPad|iPod)\b/],
+  ['Android', /\bAndroid\b/],
+  ['Windows', /\bWindows\b/],
+  ['ChromeOS', /\bCrOS\b/],
+  ['macOS', /\bMacintosh\b|\bMac OS X\b/],
+  ['Linux', /\bLinux\b|\bX11\b/],
+];
+
+/**
+ * Reduce a user agent to browser name, OS name and device type; versions
+ * and everything else that helps fingerprinting are dropped.
+ */
+export const parseUserAgent = (userAgent: string): ParsedUserAgent => {
+  const browser = BROWSERS.find(([, pattern]) => pattern.test(userAgent));
+  const os = OPERATING_SYSTEMS.find(([, pattern]) => pattern.test(userAgent));
+
+  let device_type: DeviceType = 'other';
+  if (/\biPad\b|\bTablet\b/.test(userAgent)) {
+    device_type = 'tablet';
+  } else if (/\bAndroid\b/.test(userAgent)) {
+    // Android tablets leave out "Mobile"
+    device_type = /\bMobile\b/.test(userAgent) ? 'mobile' : 'tablet';
+  } else if (/\bMobi|\biPhone\b|\biPod\b/.test(userAgent)) {
+    device_type = 'mobile';
+  } else if (os) {
+    device_type = 'desktop';
+  }
+
+  return {
+    browser: browser?.[0] ?? 'Other',
+    os: os?.[0] ?? 'Other',
+    device_type,
+  };
+};
+
+// The eight groups of an IPv6 address, e.g. ['2001', 'db8', '0', ...]
+const ipv6Groups = (ip: string): string[] => {
+  const [head, tail] = ip.split('%')[0].split('::');
+  const headGroups = head ? head.split(':') : [];
+  const tailGroups = tail ? tail.split(':') : [];
+  const zeros =
+    tail === undefined ? [] : Array(8 - headGroups.length - tailGroups.length);
+  return [...headGroups, ...zeros.fill('0'), ...tailGroups];
+};
+
+/**
+ * Zero the host part of an IP: the last octet of IPv4 (also when mapped
+ * into IPv6) and all but the first 48 bits of IPv6. Returns null for
+ * anything that isn't an IP.
+ */
+export const truncateIp = (ip: string): string | null => {
+  const version = isIP(ip);
+  if (version === 4) return ip.replace(/\.\d+$/, '.0');
+  if (version !== 6) return null;
+
+  const mapped = /^(::ffff:)(\d+\.\d+\.\d+)\.\d+$/i.exec(ip);
+  if (mapped) return `${mapped[1]}${mapped[2]}.0`;
+
+  const network = ipv6Groups(ip)
+    .slice(0, 3)
+    .map((group) => parseInt(group, 16).toString(16));
+  return `${network.join(':')}::`;
+};
+
+export const hashIp = (ip: string, salt: string): string =>
+  crypto.createHmac('sha256', salt).update(ip).digest('hex');
+
+// Do Not Track or Global Privacy Control
+export const hasPrivacySignal = (headers: IncomingHttpHeaders): boolean =>
+  headers['dnt'] === '1' || headers['sec-gpc'] === '1';
+
+export type ClickVisitor = Pick<
+  CreateClickEventInput,
+  'ip_address' | 'ip_hash' | 'user_agent' | 'browser' | 'os' | 'device_type'
+>;
+
+/**
+ * What is stored about the visitor behind a click: the IP truncated,
+ * hashed or left out, and the user agent in full or reduced to browser,
+ * OS and device type. Visitors sending a privacy signal are stored without
+ * IP. A hash without a salt could be reversed by hashing every IPv4
+ * address, so without CLICK_IP_SALT hash mode stores no IP at all.
+ */
+export const clickVisitor = (
+  ip: string | null | undefined,
+  userAgent: string | null | undefined,
+  headers: IncomingHttpHeaders,
+  options = config.clickPrivacy
+): ClickVisitor => {
+  const optedOut = options.honorPrivacySignals && hasPrivacySignal(headers);
+  const validIp = ip && isIP(ip) ? ip : null;
+
+  const visitor: ClickVisitor = {};
+  if (validIp && !optedOut) {
+    if (options.ipMode === 'full') {
+      visitor.ip_address = validIp;
+    } else if (options.ipMode === 'truncate') {
+      visitor.ip_address = truncateIp(validIp) ?? undefined;
+    } else if (options.ipMode === 'hash' && options.ipSalt) {
+      visitor.ip_hash = hashIp(validIp, options.ipSalt);
+    }
+  }
+
+  if (userAgent) {
+    if (options.userAgentMode === 'full' && !optedOut) {
+      visitor.user_agent = userAgent;
+    }
+    Object.assign(visitor, parseUserAgent(userAgent));
+  }
+
+  return visitor;
+};
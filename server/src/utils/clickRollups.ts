@@ -0,0 +1,48 @@
+// UTC day arithmetic for the click rollups (click_daily_stats and
+// click_hourly_stats), which hold whole UTC days
+
+import type { ClickRollupCoverage } from '../database/models/types.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// The UTC day (YYYY-MM-DD) a point in time falls on
+export const utcDay = (date: Date): string => date.toISOString().slice(0, 10);
+
+export const addDays = (day: string, days: number): string =>
+  utcDay(new Date(Date.parse(`${day}T00:00:00.000Z`) + days * DAY_MS));
+
+export interface RollupRange {
+  // Clicks in [rollupStart, rollupEnd) are read from the rollups; an empty
+  // range (start === end) means everything comes from click_events
+  rollupStart: Date;
+  rollupEnd: Date;
+}
+
+/**
+ * Splits the inclusive range [start, end] into the whole UTC days the
+ * rollups cover and the rest. The rest, i.e. partial days at either end and
+ * days not rolled up yet (normally just today), is read from click_events.
+ */
+export function rollupRange(
+  start: Date,
+  end: Date,
+  coverage: ClickRollupCoverage | null
+): RollupRange {
+  if (coverage) {
+    const firstWholeDay = Math.ceil(start.getTime() / DAY_MS) * DAY_MS;
+    const afterLastWholeDay = Math.floor((end.getTime() + 1) / DAY_MS) * DAY_MS;
+    const from = Math.max(
+      firstWholeDay,
+      Date.parse(`${coverage.from}T00:00:00.000Z`)
+    );
+    const to = Math.min(
+      afterLastWholeDay,
+      Date.parse(`${coverage.through}T00:00:00.000Z`) + DAY_MS
+    );
+
+    if (from < to) {
+      return { rollupStart: new Date(from), rollupEnd: new Date(to) };
+    }
+  }
+  return { rollupStart: start, rollupEnd: start };
+}
@@ -0,0 +1,160 @@
+import { EventEmitter } from 'node:events';
+import { AffiliateLinkModel } from '../database/models/AffiliateLink.js';
+import { ClickEventModel } from '../database/models/ClickEvent.js';
+import { logger } from './logger.js';
+import type {
+  ClickClassification,
+  ClickEvent,
+} from '../database/models/types.js';
+
+// A recorded click as pushed to live analytics. Visitor details (IP, user
+// agent, session) are left out on purpose.
+export interface LiveClick {
+  id: string;
+  link_id: string;
+  title: string | null;
+  timestamp: string;
+  classification: ClickClassification;
+  variant: string | null;
+  country_code: string | null;
+}
+
+export type MinuteAggregate = { minute: string } & Record<
+  ClickClassification,
+  number
+>;
+
+export interface ClickStreamListener {
+  click: (click: LiveClick) => void;
+  aggregates: (aggregates: MinuteAggregate[]) => void;
+  close: () => void;
+}
+
+// Minutes covered by the rolling aggregates
+export const AGGREGATE_WINDOW_MINUTES = 60;
+
+const MINUTE_MS = 60 * 1000;
+
+// Titles are looked up once per link; the cache is simply dropped when full
+const MAX_CACHED_TITLES = 1000;
+
+/**
+ * Fans recorded clicks out to the open analytics streams. Clicks come from
+ * this API instance only; the per-minute aggregates are read from the
+ * database, so they include every instance (and the edge worker). While
+ * nobody is subscribed, publishing is a no-op and nothing is queried.
+ */
+export class ClickStream {
+  private readonly emitter = new EventEmitter();
+  private readonly titles = new Map<string, Promise<string | null>>();
+  private timer: NodeJS.Timeout | null = null;
+  private latest: MinuteAggregate[] | null = null;
+
+  constructor(private readonly intervalMs = MINUTE_MS) {
+    // One listener per open dashboard
+    this.emitter.setMaxListeners(0);
+  }
+
+  get subscriberCount(): number {
+    return this.emitter.listenerCount('click');
+  }
+
+  publish(click: ClickEvent): void {
+    if (this.subscriberCount === 0) return;
+
+    this.linkTitle(click.link_id)
+      .then((title) =>
+        this.emitter.emit('click', {
+          id: click.id,
+          link_id: click.link_id,
+          title,
+          timestamp: new Date(click.timestamp).toISOString(),
+          classification: click.classification,
+          variant: click.variant ?? null,
+          country_code: click.country_code ?? null,
+        } satisfies LiveClick)
+      )
+      .catch((error) => logger.error('Failed to publish live click', error));
+  }
+
+  /**
+   * Starts sending clicks and aggregates to the listener; returns the
+   * function that stops it. The current aggregates are sent right away.
+   */
+  subscribe(listener: ClickStreamListener): () => void {
+    this.emitter.on('click', listener.click);
+    this.emitter.on('aggregates', listener.aggregates);
+    this.emitter.on('close', listener.close);
+
+    if (this.latest) {
+      listener.aggregates(this.latest);
+    }
+    if (!this.timer) {
+      void this.refresh();
+      this.timer = setInterval(() => void this.refresh(), this.intervalMs);
+      this.timer.unref();
+    }
+
+    return () => {
+      this.emitter.off('click', listener.click);
+      this.emitter.off('aggregates', listener.aggregates);
+      this.emitter.off('close', listener.close);
+      if (this.subscriberCount === 0) this.stop();
+    };
+  }
+
+  // Ends every open stream, e.g. on shutdown
+  close(): void {
+    this.emitter.emit('close');
+    this.stop();
+  }
+
+  async refresh(now = new Date()): Promise<void> {
+    try {
+      const end = Math.floor(now.getTime() / MINUTE_MS) * MINUTE_MS;
+      const start = end - (AGGREGATE_WINDOW_MINUTES - 1) * MINUTE_MS;
+      const rows = await ClickEventModel.getClicksByMinute(new Date(start));
+      const byMinute = new Map(
+        rows.map((row) => [new Date(row.minute).getTime(), row])
+      );
+
+      // Every minute of the window, oldest first, so charts need no gaps
+      this.latest = Array.from({ length: AGGREGATE_WINDOW_MINUTES }, (_, i) => {
+        const minute = start + i * MINUTE_MS;
+        const row = byMinute.get(minute);
+        return {
+          minute: new Date(minute).toISOString(),
+          valid: row?.valid ?? 0,
+          bot: row?.bot ?? 0,
+          duplicate: row?.duplicate ?? 0,
+        };
+      });
+      this.emitter.emit('aggregates', this.latest);
+    } catch (error) {
+      logger.error('Failed to load live click aggregates', error);
+    }
+  }
+
+  private stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    this.latest = null;
+  }
+
+  // Concurrent clicks on a link share one lookup
+  private linkTitle(linkId: string): Promise<string | null> {
+    let title = this.titles.get(linkId);
+    if (!title) {
+      if (this.titles.size >= MAX_CACHED_TITLES) this.titles.clear();
+      title = AffiliateLinkModel.findById(linkId, true).then(
+        (link) => link?.title ?? null
+      );
+      // Retry failed lookups with the next click
+      title.catch(() => this.titles.delete(linkId));
+      this.titles.set(linkId, title);
+    }
+    return title;
+  }
+}
+
+export const clickStream = new ClickStream();
@@ -0,0 +1,115 @@
+// CSV parsing and formatting (RFC 4180: quoted fields, "" escapes, CRLF)
+
+export class CsvParseError extends Error {
+  constructor(
+    message: string,
+    public line: number
+  ) {
+    super(message);
+    this.name = 'CsvParseError';
+  }
+}
+
+/**
+ * Split CSV text into rows of raw field values.
+ * Quoted fields may contain commas, quotes and line breaks.
+ */
+export function parseCsvRows(text: string): string[][] {
+  // Spreadsheet exports often start with a byte order mark
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      if (field.length > 0) {
+        throw new CsvParseError('Unexpected quote inside unquoted field', line);
+      }
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+      line++;
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new CsvParseError('Unterminated quoted field', line);
+  }
+
+  if (field.length > 0 || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Blank lines (e.g. a trailing newline) carry no data
+  return rows.filter((fields) => fields.length > 1 || fields[0] !== '');
+}
+
+/**
+ * Parse CSV text whose first row is a header into one record per data row,
+ * keyed by the trimmed, lower-cased column names
+ */
+export function parseCsv(text: string): Record<string, string>[] {
+  const [header, ...rows] = parseCsvRows(text);
+  if (!header) return [];
+
+  const columns = header.map((name) => name.trim().toLowerCase());
+
+  return rows.map((fields, index) => {
+    if (fields.length > columns.length) {
+      // +2 for the header row and 1-based numbering
+      throw new CsvParseError(
+        `Row has ${fields.length} fields but the header has ${columns.length}`,
+        index + 2
+      );
+    }
+
+    const record: Record<string, string> = {};
+    columns.forEach((column, i) => {
+      record[column] = fields[i] ?? '';
+    });
+    return record;
+  });
+}
+
+// Quote a value only when it contains a delimiter, quote or line break
+export function formatCsvField(value: unknown): string {
+  if (value === null || value === undefined) return '';
+
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function formatCsvRow(values: unknown[]): string {
+  return `${values.map(formatCsvField).join(',')}\r\n`;
+}
@@ -0,0 +1,186 @@
+import { config } from '../config/environment.js';
+import type {
+  AffiliateLink,
+  LinkDestination,
+} from '../database/models/types.js';
+import { logger } from './logger.js';
+import { resolveUrlTemplate } from './urlTemplate.js';
+
+// What the Cloudflare worker (worker/index.ts) needs to redirect a click
+// without asking the API. Availability is worked out at the edge from the
+// status and publish window, so scheduled links go live on time.
+export interface EdgeLinkRecord {
+  id: string;
+  affiliate_url: string;
+  status: AffiliateLink['status'];
+  publish_at: string | null;
+  expires_at: string | null;
+  // The link's own template or its category's, expanded by the worker
+  url_template: string | null;
+  // A/B destinations, chosen between by the worker like chooseDestination()
+  destinations: LinkDestination[];
+  sticky_destinations: boolean;
+}
+
+// Key/value storage the worker reads from; keys are link:<id> and
+// slug:<slug>, values are JSON EdgeLinkRecords
+export interface EdgeLinkStore {
+  put(key: string, value: string): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+export class MemoryEdgeLinkStore implements EdgeLinkStore {
+  readonly entries = new Map<string, string>();
+
+  async put(key: string, value: string): Promise<void> {
+    this.entries.set(key, value);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+}
+
+interface CloudflareKvOptions {
+  accountId: string;
+  namespaceId: string;
+  apiToken: string;
+  // Requests taking longer are aborted, so a slow API can't hold up the
+  // admin writes that publish links
+  timeoutMs?: number;
+}
+
+const KV_REQUEST_TIMEOUT_MS = 10 * 1000;
+
+// A Workers KV namespace, written through the Cloudflare REST API
+export class CloudflareKvStore implements EdgeLinkStore {
+  constructor(private readonly options: CloudflareKvOptions) {}
+
+  private valueUrl(key: string): string {
+    const { accountId, namespaceId } = this.options;
+    return `https://api.cloudflare.com/client/v4/accounts/${accountId}/storage/kv/namespaces/${namespaceId}/values/${encodeURIComponent(key)}`;
+  }
+
+  private async send(
+    method: 'PUT' | 'DELETE',
+    key: string,
+    value?: string
+  ): Promise<void> {
+    const response = await fetch(this.valueUrl(key), {
+      method,
+      headers: {
+        Authorization: `Bearer ${this.options.apiToken}`,
+        'Content-Type': 'text/plain',
+      },
+      body: value,
+      signal: AbortSignal.timeout(
+        this.options.timeoutMs ?? KV_REQUEST_TIMEOUT_MS
+      ),
+    });
+    // Deleting a key that was never published is fine
+    if (!response.ok && !(method === 'DELETE' && response.status === 404)) {
+      throw new Error(`Workers KV ${method} ${key} failed: ${response.status}`);
+    }
+  }
+
+  put(key: string, value: string): Promise<void> {
+    return this.send('PUT', key, value);
+  }
+
+  delete(key: string): Promise<void> {
+    return this.send('DELETE', key);
+  }
+}
+
+// Publishing is off until a KV namespace is configured
+export const createEdgeLinkStore = (
+  options: CloudflareKvOptions = config.edge.kv
+): EdgeLinkStore | null =>
+  options.accountId && options.namespaceId && options.apiToken
+    ? new CloudflareKvStore(options)
+    : null;
+
+let edgeLinkStore = createEdgeLinkStore();
+
+// Swap the store, e.g. for a MemoryEdgeLinkStore in tests
+export const setEdgeLinkStore = (store: EdgeLinkStore | null): void => {
+  edgeLinkStore = store;
+};
+
+export const isEdgePublishingEnabled = (): boolean => edgeLinkStore !== null;
+
+export const edgeLinkKey = (id: string) => `link:${id}`;
+export const edgeSlugKey = (slug: string) => `slug:${slug}`;
+
+const toIsoString = (date: Date | string | null) =>
+  date ? new Date(date).toISOString() : null;
+
+export const toEdgeLinkRecord = (
+  link: AffiliateLink,
+  urlTemplate: string | null = link.url_template
+): EdgeLinkRecord => ({
+  id: link.id,
+  affiliate_url: link.affiliate_url,
+  status: link.status,
+  publish_at: toIsoString(link.publish_at),
+  expires_at: toIsoString(link.expires_at),
+  url_template: urlTemplate,
+  destinations: link.destinations ?? [],
+  sticky_destinations: link.sticky_destinations ?? false,
+});
+
+const logPublishError = (linkId: string, error: unknown) => {
+  logger.warn('Failed to publish link to the edge', {
+    linkId,
+    error: error instanceof Error ? error.message : String(error),
+  });
+};
+
+/**
+ * Remove a link from the edge, e.g. once it's in the trash. The worker
+ * then passes its clicks on to the API, which answers 404. Resolves to
+ * whether the edge was updated.
+ */
+export const unpublishLink = async (
+  link: Pick<AffiliateLink, 'id' | 'slug'>
+): Promise<boolean> => {
+  if (!edgeLinkStore) return false;
+
+  try {
+    await edgeLinkStore.delete(edgeLinkKey(link.id));
+    if (link.slug) await edgeLinkStore.delete(edgeSlugKey(link.slug));
+    return true;
+  } catch (error) {
+    logPublishError(link.id, error);
+    return false;
+  }
+};
+
+/**
+ * Publish a link's destination after it was created or changed, including
+ * after a change to its category's URL template. `previous` is the link
+ * before the change so that a replaced slug stops resolving.
+ * Failures are logged rather than thrown; `npm run links:publish-edge`
+ * republishes every link.
+ */
+export const publishLink = async (
+  link: AffiliateLink,
+  previous?: Pick<AffiliateLink, 'slug'> | null
+): Promise<boolean> => {
+  if (!edgeLinkStore) return false;
+  if (link.deleted_at) return unpublishLink(link);
+
+  try {
+    const urlTemplate = await resolveUrlTemplate(link);
+    const value = JSON.stringify(toEdgeLinkRecord(link, urlTemplate));
+    await edgeLinkStore.put(edgeLinkKey(link.id), value);
+    if (link.slug) await edgeLinkStore.put(edgeSlugKey(link.slug), value);
+    if (previous?.slug && previous.slug !== link.slug) {
+      await edgeLinkStore.delete(edgeSlugKey(previous.slug));
+    }
+    return true;
+  } catch (error) {
+    logPublishError(link.id, error);
+    return false;
+  }
+};
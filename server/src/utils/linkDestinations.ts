@@ -0,0 +1,64 @@
+import type { AffiliateLink } from '../database/models/types.js';
+
+// Up to this many A/B destinations per link
+export const MAX_LINK_DESTINATIONS = 10;
+
+// Same format as link slugs, so variants read well in reports
+export const LINK_VARIANT_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+
+export interface ChosenDestination {
+  url: string;
+  // null when the link has no (active) destinations
+  variant: string | null;
+}
+
+// FNV-1a, mapped onto [0, 1). Only needs to spread sessions evenly, and is
+// cheap to repeat in the Cloudflare worker (worker/index.ts).
+export const hashToUnitInterval = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) / 0x100000000;
+};
+
+/**
+ * Pick where a click on the link goes. Destinations get a share of the
+ * clicks proportional to their weight; on sticky links the session decides,
+ * so a visitor keeps seeing the same merchant. Links without destinations
+ * go to their affiliate URL.
+ */
+export const chooseDestination = (
+  link: Pick<
+    AffiliateLink,
+    'id' | 'affiliate_url' | 'destinations' | 'sticky_destinations'
+  >,
+  sessionId?: string | null,
+  random: () => number = Math.random
+): ChosenDestination => {
+  const destinations = (link.destinations ?? []).filter(
+    (destination) => destination.weight > 0
+  );
+  const totalWeight = destinations.reduce(
+    (sum, destination) => sum + destination.weight,
+    0
+  );
+  if (totalWeight === 0) {
+    return { url: link.affiliate_url, variant: null };
+  }
+
+  const point =
+    (link.sticky_destinations && sessionId
+      ? hashToUnitInterval(`${link.id}:${sessionId}`)
+      : random()) * totalWeight;
+
+  let cumulative = 0;
+  const chosen =
+    destinations.find((destination) => {
+      cumulative += destination.weight;
+      return point < cumulative;
+    }) ?? destinations[destinations.length - 1];
+
+  return { url: chosen.url, variant: chosen.variant };
+};
@@ -0,0 +1,23 @@
+// Publish/expiry window checks for links loaded individually
+
+import type { AffiliateLink } from '../database/models/types.js';
+
+export type LinkAvailability =
+  | 'available'
+  | 'inactive'
+  | 'scheduled'
+  | 'expired';
+
+/**
+ * Whether a link can be shown and redirected to right now. Mirrors the
+ * `live` schedule condition used by AffiliateLinkModel queries.
+ */
+export function getLinkAvailability(
+  link: Pick<AffiliateLink, 'status' | 'publish_at' | 'expires_at'>,
+  now: Date = new Date()
+): LinkAvailability {
+  if (link.status !== 'active') return 'inactive';
+  if (link.publish_at && new Date(link.publish_at) > now) return 'scheduled';
+  if (link.expires_at && new Date(link.expires_at) <= now) return 'expired';
+  return 'available';
+}
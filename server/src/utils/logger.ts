@@ -1,4 +1,5 @@
 import { config } from '../config/environment.js';
+import { getRequestId } from './requestContext.js';
 
 export enum LogLevel {
   ERROR = 'ERROR',
@@ -7,32 +8,147 @@ export enum LogLevel {
   DEBUG = 'DEBUG',
 }
 
-class Logger {
-  private isDevelopment = config.nodeEnv === 'development';
+// Lower is more severe; a logger emits entries up to its own level
+const LEVEL_SEVERITY: Record<LogLevel, number> = {
+  [LogLevel.ERROR]: 0,
+  [LogLevel.WARN]: 1,
+  [LogLevel.INFO]: 2,
+  [LogLevel.DEBUG]: 3,
+};
 
-  private formatMessage(level: LogLevel, message: string, meta?: any): string {
-    const timestamp = new Date().toISOString();
-    const metaStr = meta ? ` ${JSON.stringify(meta)}` : '';
-    return `[${timestamp}] ${level}: ${message}${metaStr}`;
+export type LogFormat = 'text' | 'json';
+
+export interface LogEntry {
+  timestamp: string;
+  level: LogLevel;
+  message: string;
+  // Set when logged while handling a request (see middleware/requestId.ts)
+  requestId?: string;
+  meta?: unknown;
+}
+
+// Receives every entry at or above the logger's level
+export type LogTransport = (entry: LogEntry) => void;
+
+export const parseLogLevel = (value: string): LogLevel =>
+  Object.values(LogLevel).find((level) => level === value.toUpperCase()) ??
+  LogLevel.INFO;
+
+// Errors have no enumerable properties and would serialize as {}
+const serializeErrors = (_key: string, value: unknown) =>
+  value instanceof Error
+    ? { name: value.name, message: value.message, stack: value.stack }
+    : value;
+
+// Object metadata becomes top-level fields; anything else is wrapped
+const toFields = (meta: unknown): Record<string, unknown> => {
+  if (meta === undefined) return {};
+  if (meta instanceof Error) return { error: meta };
+  if (meta !== null && typeof meta === 'object' && !Array.isArray(meta)) {
+    return meta as Record<string, unknown>;
+  }
+  return { meta };
+};
+
+// [timestamp] LEVEL: message {meta}
+export const formatText = (entry: LogEntry): string => {
+  const meta = entry.requestId
+    ? { requestId: entry.requestId, ...toFields(entry.meta) }
+    : entry.meta;
+  const metaStr = meta ? ` ${JSON.stringify(meta, serializeErrors)}` : '';
+  return `[${entry.timestamp}] ${entry.level}: ${entry.message}${metaStr}`;
+};
+
+// One JSON object per line, for log pipelines
+export const formatJson = (entry: LogEntry): string => {
+  const { meta, level, ...rest } = entry;
+  return JSON.stringify(
+    { ...rest, level: level.toLowerCase(), ...toFields(meta) },
+    serializeErrors
+  );
+};
+
+const CONSOLE_METHODS: Record<LogLevel, (line: string) => void> = {
+  [LogLevel.ERROR]: (line) => console.error(line),
+  [LogLevel.WARN]: (line) => console.warn(line),
+  [LogLevel.INFO]: (line) => console.info(line),
+  [LogLevel.DEBUG]: (line) => console.debug(line),
+};
+
+export const createConsoleTransport =
+  (format: LogFormat = 'text'): LogTransport =>
+  (entry) =>
+    CONSOLE_METHODS[entry.level](
+      format === 'json' ? formatJson(entry) : formatText(entry)
+    );
+
+export class Logger {
+  private level: LogLevel;
+  private transports: LogTransport[];
+
+  constructor(options: { level?: LogLevel; transports?: LogTransport[] } = {}) {
+    this.level = options.level ?? LogLevel.INFO;
+    this.transports = options.transports ?? [createConsoleTransport()];
+  }
+
+  setLevel(level: LogLevel): void {
+    this.level = level;
+  }
+
+  isLevelEnabled(level: LogLevel): boolean {
+    return LEVEL_SEVERITY[level] <= LEVEL_SEVERITY[this.level];
+  }
+
+  // Replace the outputs, e.g. to ship logs elsewhere or capture them in tests
+  setTransports(transports: LogTransport[]): void {
+    this.transports = transports;
+  }
+
+  addTransport(transport: LogTransport): void {
+    this.transports.push(transport);
+  }
+
+  private log(level: LogLevel, message: string, meta?: any): void {
+    if (!this.isLevelEnabled(level)) return;
+
+    const entry: LogEntry = {
+      timestamp: new Date().toISOString(),
+      level,
+      message,
+    };
+    const requestId = getRequestId();
+    if (requestId) entry.requestId = requestId;
+    if (meta !== undefined) entry.meta = meta;
+
+    for (const transport of this.transports) {
+      try {
+        transport(entry);
+      } catch {
+        // A failing transport must never break the code that is logging
+      }
+    }
   }
 
   error(message: string, meta?: any): void {
-    console.error(this.formatMessage(LogLevel.ERROR, message, meta));
+    this.log(LogLevel.ERROR, message, meta);
   }
 
   warn(message: string, meta?: any): void {
-    console.warn(this.formatMessage(LogLevel.WARN, message, meta));
+    this.log(LogLevel.WARN, message, meta);
   }
 
   info(message: string, meta?: any): void {
-    console.info(this.formatMessage(LogLevel.INFO, message, meta));
+    this.log(LogLevel.INFO, message, meta);
   }
 
   debug(message: string, meta?: any): void {
-    if (this.isDevelopment) {
-      console.debug(this.formatMessage(LogLevel.DEBUG, message, meta));
-    }
+    this.log(LogLevel.DEBUG, message, meta);
   }
 }
 
-export const logger = new Logger();
+export const logger = new Logger({
+  level: parseLogLevel(config.logging.level),
+  transports: [
+    createConsoleTransport(config.logging.format === 'json' ? 'json' : 'text'),
+  ],
+});
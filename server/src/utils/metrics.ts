@@ -0,0 +1,224 @@
+// In-process metrics rendered in the Prometheus text exposition format
+// (https://prometheus.io/docs/instrumenting/exposition_formats/)
+
+type Labels = Record<string, string>;
+
+interface Metric {
+  name: string;
+  help: string;
+  type: 'counter' | 'gauge' | 'histogram';
+  render(): string[];
+  reset(): void;
+}
+
+const escapeLabelValue = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+
+const formatLabels = (labels: Labels): string => {
+  const pairs = Object.entries(labels).map(
+    ([key, value]) => `${key}="${escapeLabelValue(value)}"`
+  );
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+};
+
+// Label sets are keyed by their values in label-name order
+const labelKey = (labelNames: string[], labels: Labels) =>
+  JSON.stringify(labelNames.map((name) => labels[name] ?? ''));
+
+const pickLabels = (labelNames: string[], labels: Labels): Labels =>
+  Object.fromEntries(labelNames.map((name) => [name, labels[name] ?? '']));
+
+interface MetricOptions {
+  name: string;
+  help: string;
+  labelNames?: string[];
+}
+
+abstract class LabelledMetric<T> implements Metric {
+  abstract readonly type: Metric['type'];
+  readonly name: string;
+  readonly help: string;
+  protected readonly labelNames: string[];
+  protected readonly series = new Map<string, { labels: Labels; value: T }>();
+
+  constructor(options: MetricOptions) {
+    this.name = options.name;
+    this.help = options.help;
+    this.labelNames = options.labelNames ?? [];
+  }
+
+  protected getSeries(labels: Labels, initial: () => T) {
+    const key = labelKey(this.labelNames, labels);
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { labels: pickLabels(this.labelNames, labels), value: initial() };
+      this.series.set(key, entry);
+    }
+    return entry;
+  }
+
+  abstract render(): string[];
+
+  reset(): void {
+    this.series.clear();
+  }
+}
+
+export class Counter extends LabelledMetric<number> {
+  readonly type = 'counter';
+
+  inc(labels: Labels = {}, value = 1): void {
+    this.getSeries(labels, () => 0).value += value;
+  }
+
+  get(labels: Labels = {}): number {
+    return this.series.get(labelKey(this.labelNames, labels))?.value ?? 0;
+  }
+
+  render(): string[] {
+    return [...this.series.values()].map(
+      ({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`
+    );
+  }
+}
+
+export class Gauge extends LabelledMetric<number> {
+  readonly type = 'gauge';
+
+  set(labels: Labels, value: number): void {
+    this.getSeries(labels, () => 0).value = value;
+  }
+
+  render(): string[] {
+    return [...this.series.values()].map(
+      ({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`
+    );
+  }
+}
+
+interface HistogramValue {
+  // Cumulative count per upper bound, in the same order as `buckets`
+  bucketCounts: number[];
+  sum: number;
+  count: number;
+}
+
+export class Histogram extends LabelledMetric<HistogramValue> {
+  readonly type = 'histogram';
+  private readonly buckets: number[];
+
+  constructor(options: MetricOptions & { buckets: number[] }) {
+    super(options);
+    this.buckets = [...options.buckets].sort((a, b) => a - b);
+  }
+
+  observe(labels: Labels, value: number): void {
+    const entry = this.getSeries(labels, () => ({
+      bucketCounts: this.buckets.map(() => 0),
+      sum: 0,
+      count: 0,
+    })).value;
+
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) entry.bucketCounts[index]++;
+    });
+    entry.sum += value;
+    entry.count++;
+  }
+
+  render(): string[] {
+    return [...this.series.values()].flatMap(({ labels, value }) => [
+      ...this.buckets.map(
+        (bound, index) =>
+          `${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${value.bucketCounts[index]}`
+      ),
+      `${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${value.count}`,
+      `${this.name}_sum${formatLabels(labels)} ${value.sum}`,
+      `${this.name}_count${formatLabels(labels)} ${value.count}`,
+    ]);
+  }
+}
+
+export class MetricsRegistry {
+  private readonly metrics: Metric[] = [];
+
+  register<T extends Metric>(metric: T): T {
+    this.metrics.push(metric);
+    return metric;
+  }
+
+  render(): string {
+    const lines = this.metrics.flatMap((metric) => [
+      `# HELP ${metric.name} ${metric.help}`,
+      `# TYPE ${metric.name} ${metric.type}`,
+      ...metric.render(),
+    ]);
+    return `${lines.join('\n')}\n`;
+  }
+
+  // Tests start every case from zero
+  reset(): void {
+    this.metrics.forEach((metric) => metric.reset());
+  }
+}
+
+export const metrics = new MetricsRegistry();
+
+// HTTP traffic, recorded by requestLogger. `route` is the matched Express
+// route pattern (e.g. /api/links/:id) so IDs don't create new series.
+export const httpRequestsTotal = metrics.register(
+  new Counter({
+    name: 'affilist_http_requests_total',
+    help: 'HTTP requests by method, route and status code',
+    labelNames: ['method', 'route', 'status'],
+  })
+);
+
+export const httpRequestDuration = metrics.register(
+  new Histogram({
+    name: 'affilist_http_request_duration_seconds',
+    help: 'HTTP request latency by method, route and status code',
+    labelNames: ['method', 'route', 'status'],
+    buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+  })
+);
+
+// Set from db.getPoolInfo() on every scrape
+export const dbPoolConnections = metrics.register(
+  new Gauge({
+    name: 'affilist_db_pool_connections',
+    help: 'Database pool clients by state (total, idle, waiting)',
+    labelNames: ['state'],
+  })
+);
+
+export const dbSlowQueriesTotal = metrics.register(
+  new Counter({
+    name: 'affilist_db_slow_queries_total',
+    help: 'Database queries slower than the slow query threshold',
+  })
+);
+
+export const queryCacheRequestsTotal = metrics.register(
+  new Counter({
+    name: 'affilist_query_cache_requests_total',
+    help: 'QueryOptimizer cache lookups by result (hit or miss)',
+    labelNames: ['result'],
+  })
+);
+
+export const clickEventsTotal = metrics.register(
+  new Counter({
+    name: 'affilist_click_events_total',
+    help: 'Click events recorded, by source (api, batch, edge or redirect)',
+    labelNames: ['source'],
+  })
+);
+
+export const redirectResponsesTotal = metrics.register(
+  new Counter({
+    name: 'affilist_redirect_responses_total',
+    help: 'Tracked redirect responses by status code',
+    labelNames: ['status'],
+  })
+);
@@ -1,6 +1,7 @@
 // Database Query Optimization Utilities
 
 import { Pool, type PoolClient } from 'pg';
+import { dbSlowQueriesTotal, queryCacheRequestsTotal } from './metrics.js';
 
 interface QueryCacheEntry {
   result: any;
@@ -53,8 +54,10 @@ class QueryOptimizer {
 
     if (fromCache) {
       this.stats.cacheHits++;
+      queryCacheRequestsTotal.inc({ result: 'hit' });
     } else {
       this.stats.cacheMisses++;
+      queryCacheRequestsTotal.inc({ result: 'miss' });
       this.executionTimes.push(executionTime);
 
       // Calculate rolling average (last 1000 queries)
@@ -68,6 +71,7 @@ class QueryOptimizer {
 
       // Track slow queries
       if (executionTime > this.SLOW_QUERY_THRESHOLD && queryText) {
+        dbSlowQueriesTotal.inc();
         this.stats.slowQueries.push({
           query:
             queryText.substring(0, 200) + (queryText.length > 200 ? '...' : ''),
@@ -0,0 +1,144 @@
+import { db } from '../database/connection.js';
+import { logger } from './logger.js';
+
+export interface RateLimitHit {
+  totalHits: number;
+  resetTime: Date;
+}
+
+// Fixed-window hit counters keyed by limiter and client. Implementations
+// must be safe to share between limiters; keys are already namespaced.
+export interface RateLimitStore {
+  increment(key: string, windowMs: number): Promise<RateLimitHit>;
+  decrement(key: string): Promise<void>;
+  resetKey(key: string): Promise<void>;
+  resetAll(): Promise<void>;
+}
+
+/**
+ * Per-process counters holding at most `maxKeys` clients; the least
+ * recently seen client is dropped first, so bot traffic can't grow it
+ * without bound.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  // Map iteration order doubles as the LRU order (oldest first)
+  private readonly entries = new Map<
+    string,
+    { hits: number; resetTime: number }
+  >();
+
+  constructor(private readonly maxKeys = 10000) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  async increment(key: string, windowMs: number): Promise<RateLimitHit> {
+    const now = Date.now();
+    let entry = this.entries.get(key);
+    if (!entry || entry.resetTime <= now) {
+      entry = { hits: 0, resetTime: now + windowMs };
+    }
+    entry.hits++;
+
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    if (this.entries.size > this.maxKeys) {
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+
+    return { totalHits: entry.hits, resetTime: new Date(entry.resetTime) };
+  }
+
+  async decrement(key: string): Promise<void> {
+    const entry = this.entries.get(key);
+    if (entry && entry.hits > 0) entry.hits--;
+  }
+
+  async resetKey(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async resetAll(): Promise<void> {
+    this.entries.clear();
+  }
+}
+
+// How often expired windows are deleted from rate_limits
+const CLEANUP_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Counters in the rate_limits table, shared by every API instance. Each
+ * hit is a single atomic upsert that starts a new window once the
+ * previous one has expired.
+ */
+export class PostgresRateLimitStore implements RateLimitStore {
+  private lastCleanup = 0;
+
+  async increment(key: string, windowMs: number): Promise<RateLimitHit> {
+    const query = `
+      INSERT INTO rate_limits (key, hits, reset_at)
+      VALUES ($1, 1, NOW() + $2 * INTERVAL '1 millisecond')
+      ON CONFLICT (key) DO UPDATE SET
+        hits = CASE
+          WHEN rate_limits.reset_at <= NOW() THEN 1
+          ELSE rate_limits.hits + 1
+        END,
+        reset_at = CASE
+          WHEN rate_limits.reset_at <= NOW() THEN EXCLUDED.reset_at
+          ELSE rate_limits.reset_at
+        END
+      RETURNING hits, reset_at
+    `;
+
+    const result = await db.query<{ hits: number; reset_at: Date }>(query, [
+      key,
+      windowMs,
+    ]);
+    this.cleanupExpired();
+
+    const { hits, reset_at } = result.rows[0];
+    return { totalHits: hits, resetTime: new Date(reset_at) };
+  }
+
+  async decrement(key: string): Promise<void> {
+    await db.query(
+      'UPDATE rate_limits SET hits = hits - 1 WHERE key = $1 AND hits > 0',
+      [key]
+    );
+  }
+
+  async resetKey(key: string): Promise<void> {
+    await db.query('DELETE FROM rate_limits WHERE key = $1', [key]);
+  }
+
+  async resetAll(): Promise<void> {
+    await db.query('DELETE FROM rate_limits');
+  }
+
+  // Runs in the background at most once a minute per process
+  private cleanupExpired(): void {
+    const now = Date.now();
+    if (now - this.lastCleanup < CLEANUP_INTERVAL_MS) return;
+    this.lastCleanup = now;
+
+    db.query('DELETE FROM rate_limits WHERE reset_at <= NOW()').catch(
+      (error) => {
+        logger.warn('Failed to clean up expired rate limits', {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    );
+  }
+}
+
+export const createRateLimitStore = (
+  type: string,
+  memoryMaxKeys?: number
+): RateLimitStore => {
+  if (type === 'postgres') return new PostgresRateLimitStore();
+  if (type !== 'memory') {
+    logger.warn(`Unknown RATE_LIMIT_STORE "${type}", using memory`);
+  }
+  return new MemoryRateLimitStore(memoryMaxKeys);
+};
@@ -0,0 +1,12 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+// Per-request state available to anything running on behalf of the request
+// (route handlers, models, database queries) without passing `req` around
+export interface RequestContext {
+  requestId: string;
+}
+
+export const requestContext = new AsyncLocalStorage<RequestContext>();
+
+export const getRequestId = (): string | undefined =>
+  requestContext.getStore()?.requestId;
@@ -0,0 +1,135 @@
+import { CategoryModel } from '../database/models/Category.js';
+import type { AffiliateLink } from '../database/models/types.js';
+
+// Outbound URL templates let networks receive sub-IDs and campaign data,
+// e.g. '{affiliate_url}&subid={click_id}&utm_source={referrer_host}'.
+// worker/index.ts expands them the same way for edge redirects.
+export const URL_TEMPLATE_PLACEHOLDERS = [
+  'affiliate_url',
+  'link_id',
+  'click_id',
+  'session_id',
+  'referrer',
+  'referrer_host',
+  'utm_source',
+  'utm_medium',
+  'utm_campaign',
+  'utm_term',
+  'utm_content',
+] as const;
+
+export type UrlTemplatePlaceholder = (typeof URL_TEMPLATE_PLACEHOLDERS)[number];
+
+export type UrlTemplateValues = Partial<
+  Record<UrlTemplatePlaceholder, string | null>
+>;
+
+export const URL_TEMPLATE_MAX_LENGTH = 2000;
+
+const PLACEHOLDER_PATTERN = /\{([a-z_]+)\}/g;
+
+const CAMPAIGN_PARAMS = [
+  'utm_source',
+  'utm_medium',
+  'utm_campaign',
+  'utm_term',
+  'utm_content',
+] as const;
+
+const isPlaceholder = (name: string): name is UrlTemplatePlaceholder =>
+  (URL_TEMPLATE_PLACEHOLDERS as readonly string[]).includes(name);
+
+const isHttpUrl = (value: string): boolean => {
+  try {
+    const { protocol } = new URL(value);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Fill in a template. Values are URL-encoded, except the affiliate URL
+ * which is inserted as it is. Templates that append parameters with '&'
+ * also work for affiliate URLs without a query string.
+ */
+export const expandUrlTemplate = (
+  template: string,
+  values: UrlTemplateValues
+): string => {
+  const expanded = template.replace(
+    PLACEHOLDER_PATTERN,
+    (match, name: string) => {
+      if (!isPlaceholder(name)) return match;
+      const value = values[name] ?? '';
+      return name === 'affiliate_url' ? value : encodeURIComponent(value);
+    }
+  );
+  return expanded.includes('?') ? expanded : expanded.replace('&', '?');
+};
+
+// Why a template can't be saved, or null when it's fine
+export const validateUrlTemplate = (template: string): string | null => {
+  if (template.length > URL_TEMPLATE_MAX_LENGTH) {
+    return `URL template must be at most ${URL_TEMPLATE_MAX_LENGTH} characters`;
+  }
+
+  for (const [, name] of template.matchAll(PLACEHOLDER_PATTERN)) {
+    if (!isPlaceholder(name)) {
+      return `Unknown URL template placeholder {${name}}`;
+    }
+  }
+
+  const sample = expandUrlTemplate(template, {
+    affiliate_url: 'https://affiliate.example.com/product?ref=sample',
+  });
+  return isHttpUrl(sample)
+    ? null
+    : 'URL template must expand to an http(s) URL';
+};
+
+export const referrerHost = (referrer: string | null | undefined): string => {
+  if (!referrer) return '';
+  try {
+    return new URL(referrer).hostname;
+  } catch {
+    return '';
+  }
+};
+
+// utm_* parameters of the tracked redirect request, passed on to the network
+export const campaignValues = (
+  query: Record<string, unknown>
+): UrlTemplateValues =>
+  Object.fromEntries(
+    CAMPAIGN_PARAMS.map((name) => [
+      name,
+      typeof query[name] === 'string' ? query[name] : '',
+    ])
+  );
+
+// The link's own template, else its category's
+export const resolveUrlTemplate = async (
+  link: Pick<AffiliateLink, 'url_template' | 'category_id'>
+): Promise<string | null> => {
+  if (link.url_template) return link.url_template;
+  const category = await CategoryModel.findById(link.category_id);
+  return category?.url_template || null;
+};
+
+/**
+ * Where a click on the link is sent. Falls back to the plain affiliate URL
+ * when the link has no template or it doesn't expand to a usable URL.
+ */
+export const buildDestinationUrl = (
+  affiliateUrl: string,
+  template: string | null,
+  values: Omit<UrlTemplateValues, 'affiliate_url'>
+): string => {
+  if (!template) return affiliateUrl;
+  const url = expandUrlTemplate(template, {
+    ...values,
+    affiliate_url: affiliateUrl,
+  });
+  return isHttpUrl(url) ? url : affiliateUrl;
+};
@@ -5,6 +5,7 @@ import {
   ErrorBoundary,
   ToastProvider,
   LoadingSpinner,
+  withAdminRoute,
 } from './components';
 import { AppProvider } from './contexts';
 import { AuthProvider } from './contexts';
@@ -37,6 +38,16 @@ const AnalyticsDashboard = lazy(() =>
     default: module.AnalyticsDashboard,
   }))
 );
+const UserManagementPage = lazy(() =>
+  import('./components/UserManagement').then((module) => ({
+    default: withAdminRoute(module.UserManagement, {
+      requiredRole: 'admin',
+      title: 'ユーザー管理',
+      subtitle: '管理者・編集者アカウントを管理します',
+      fallbackPath: '/login',
+    }),
+  }))
+);
 const Login = lazy(() =>
   import('./components/Login').then((module) => ({ default: module.Login }))
 );
@@ -101,6 +112,7 @@ function AppContent() {
           <Route path="/featured" element={<FeaturedPage />} />
           <Route path="/admin" element={<AdminDashboard />} />
           <Route path="/admin/analytics" element={<AnalyticsDashboard />} />
+          <Route path="/admin/users" element={<UserManagementPage />} />
           <Route path="/login" element={<Login />} />
         </Routes>
       </Suspense>
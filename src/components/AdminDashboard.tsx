@@ -2,11 +2,27 @@ import { useState, useEffect } from 'react';
 import { AdminLayout } from './AdminLayout';
 import { LinkManagementTable } from './LinkManagementTable';
 import { LinkForm } from './LinkForm';
+import { CategoryManagement } from './CategoryManagement';
+import { LinkTrash } from './LinkTrash';
+import { LinkImportWizard } from './LinkImportWizard';
 import { useAuth } from '../contexts/AuthContext';
-import { affiliateLinksApi } from '../services';
-import type { AffiliateLink, CreateLinkRequest } from '../types';
-
-type ViewMode = 'dashboard' | 'links' | 'create' | 'edit';
+import { affiliateLinksApi, categoriesApi } from '../services';
+import type { ApiError, CreateCategoryRequest } from '../services';
+import type {
+  AffiliateLink,
+  Category,
+  CreateLinkRequest,
+  LinkHealth,
+} from '../types';
+
+type ViewMode =
+  | 'dashboard'
+  | 'links'
+  | 'create'
+  | 'edit'
+  | 'import'
+  | 'categories'
+  | 'trash';
 
 interface AdminDashboardProps {
   initialView?: ViewMode;
@@ -19,6 +35,8 @@ export function AdminDashboard({
   const { user } = state;
   const [currentView, setCurrentView] = useState<ViewMode>(initialView);
   const [links, setLinks] = useState<AffiliateLink[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [linkHealth, setLinkHealth] = useState<Record<string, LinkHealth>>({});
   const [editingLink, setEditingLink] = useState<AffiliateLink | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -34,6 +52,20 @@ export function AdminDashboard({
     loadDashboardData();
   }, []);
 
+  // Categories are only needed by the category management view
+  useEffect(() => {
+    if (currentView === 'categories') {
+      loadCategories();
+    }
+  }, [currentView]);
+
+  // Health badges are only shown in the link list
+  useEffect(() => {
+    if (currentView === 'links') {
+      loadLinkHealth();
+    }
+  }, [currentView]);
+
   const loadDashboardData = async () => {
     try {
       setIsLoading(true);
@@ -73,6 +105,22 @@ export function AdminDashboard({
     }
   };
 
+  // Health results are informational, so a failure only hides the badges
+  const loadLinkHealth = async () => {
+    try {
+      const response = await affiliateLinksApi.getLinkHealth();
+      if (response.success) {
+        setLinkHealth(
+          Object.fromEntries(
+            response.data.links.map((health) => [health.linkId, health])
+          )
+        );
+      }
+    } catch (err) {
+      console.error('Link health loading error:', err);
+    }
+  };
+
   const handleCreateLink = async (linkData: CreateLinkRequest) => {
     try {
       setIsLoading(true);
@@ -138,6 +186,102 @@ export function AdminDashboard({
     }
   };
 
+  const loadCategories = async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const response = await categoriesApi.getAllCategories();
+      if (response.success) {
+        setCategories(response.data);
+      } else {
+        setError('カテゴリの読み込みに失敗しました');
+      }
+    } catch (err) {
+      setError('カテゴリの読み込み中にエラーが発生しました');
+      console.error('Category loading error:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // The category handlers return the error of a failed request, so that the
+  // form or dialog can stay open
+  const handleCreateCategory = async (
+    categoryData: CreateCategoryRequest
+  ): Promise<ApiError | null> => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const response = await categoriesApi.createCategory(categoryData);
+      if (response.success) {
+        await loadCategories(); // Refresh data
+        return null;
+      }
+      setError('カテゴリの作成に失敗しました');
+      return response.error ?? { message: 'Failed to create category' };
+    } catch (err) {
+      setError('カテゴリの作成中にエラーが発生しました');
+      console.error('Category creation error:', err);
+      return { message: 'Failed to create category' };
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleUpdateCategory = async (
+    id: string,
+    categoryData: CreateCategoryRequest
+  ): Promise<ApiError | null> => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const response = await categoriesApi.updateCategory(id, categoryData);
+      if (response.success) {
+        await loadCategories(); // Refresh data
+        return null;
+      }
+      setError('カテゴリの更新に失敗しました');
+      return response.error ?? { message: 'Failed to update category' };
+    } catch (err) {
+      setError('カテゴリの更新中にエラーが発生しました');
+      console.error('Category update error:', err);
+      return { message: 'Failed to update category' };
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleDeleteCategory = async (
+    id: string,
+    reassignTo?: string
+  ): Promise<ApiError | null> => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const response = await categoriesApi.deleteCategory(id, reassignTo);
+      if (response.success) {
+        // Links may have moved to another category
+        await Promise.all([loadCategories(), loadDashboardData()]);
+        return null;
+      }
+      // A conflict is resolved in the dialog by picking a category to move to
+      if (response.error?.status !== 409) {
+        setError('カテゴリの削除に失敗しました');
+      }
+      return response.error ?? { message: 'Failed to delete category' };
+    } catch (err) {
+      setError('カテゴリの削除中にエラーが発生しました');
+      console.error('Category deletion error:', err);
+      return { message: 'Failed to delete category' };
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const handleEditLink = (link: AffiliateLink) => {
     setEditingLink(link);
     setCurrentView('edit');
@@ -215,6 +359,62 @@ export function AdminDashboard({
             リンク管理
           </div>
         </button>
+
+        {user?.role === 'admin' && (
+          <button
+            onClick={() => setCurrentView('categories')}
+            className={`py-4 px-1 border-b-2 font-medium text-sm ${
+              currentView === 'categories'
+                ? 'border-blue-500 text-blue-600'
+                : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+            }`}
+          >
+            <div className="flex items-center">
+              <svg
+                className="h-5 w-5 mr-2"
+                fill="none"
+                viewBox="0 0 24 24"
+                stroke="currentColor"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M7 7h.01M7 3h5c.512 0 1.024.195 1.414.586l7 7a2 2 0 010 2.828l-7 7a2 2 0 01-2.828 0l-7-7A1.994 1.994 0 013 12V7a4 4 0 014-4z"
+                />
+              </svg>
+              カテゴリ管理
+            </div>
+          </button>
+        )}
+
+        {user?.role === 'admin' && (
+          <button
+            onClick={() => setCurrentView('trash')}
+            className={`py-4 px-1 border-b-2 font-medium text-sm ${
+              currentView === 'trash'
+                ? 'border-blue-500 text-blue-600'
+                : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+            }`}
+          >
+            <div className="flex items-center">
+              <svg
+                className="h-5 w-5 mr-2"
+                fill="none"
+                viewBox="0 0 24 24"
+                stroke="currentColor"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
+                />
+              </svg>
+              ゴミ箱
+            </div>
+          </button>
+        )}
       </div>
     </nav>
   );
@@ -523,31 +723,40 @@ export function AdminDashboard({
               <h2 className="text-xl font-semibold text-gray-900">
                 リンク管理
               </h2>
-              <button
-                onClick={() => setCurrentView('create')}
-                className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
-              >
-                <svg
-                  className="h-4 w-4 mr-2"
-                  fill="none"
-                  viewBox="0 0 24 24"
-                  stroke="currentColor"
+              <div className="flex space-x-3">
+                <button
+                  onClick={() => setCurrentView('import')}
+                  className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
                 >
-                  <path
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    strokeWidth={2}
-                    d="M12 4v16m8-8H4"
-                  />
-                </svg>
-                新しいリンクを追加
-              </button>
+                  一括インポート
+                </button>
+                <button
+                  onClick={() => setCurrentView('create')}
+                  className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                >
+                  <svg
+                    className="h-4 w-4 mr-2"
+                    fill="none"
+                    viewBox="0 0 24 24"
+                    stroke="currentColor"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M12 4v16m8-8H4"
+                    />
+                  </svg>
+                  新しいリンクを追加
+                </button>
+              </div>
             </div>
             <LinkManagementTable
               links={links}
               onEdit={handleEditLink}
               onDelete={handleDeleteLink}
               isLoading={isLoading}
+              health={linkHealth}
             />
           </div>
         );
@@ -571,6 +780,14 @@ export function AdminDashboard({
           </div>
         );
 
+      case 'import':
+        return (
+          <LinkImportWizard
+            onComplete={loadDashboardData}
+            onCancel={() => setCurrentView('links')}
+          />
+        );
+
       case 'edit':
         return (
           <div>
@@ -591,6 +808,20 @@ export function AdminDashboard({
           </div>
         );
 
+      case 'categories':
+        return (
+          <CategoryManagement
+            categories={categories}
+            onCreate={handleCreateCategory}
+            onUpdate={handleUpdateCategory}
+            onDelete={handleDeleteCategory}
+            isLoading={isLoading}
+          />
+        );
+
+      case 'trash':
+        return <LinkTrash onRestore={loadDashboardData} />;
+
       default:
         return renderDashboardOverview();
     }
@@ -607,7 +838,13 @@ export function AdminDashboard({
               ? '新規リンクを作成'
               : currentView === 'edit'
                 ? 'リンクを編集'
-                : '管理ダッシュボード'
+                : currentView === 'import'
+                  ? '一括インポート'
+                  : currentView === 'categories'
+                    ? 'カテゴリ管理'
+                    : currentView === 'trash'
+                      ? 'ゴミ箱'
+                      : '管理ダッシュボード'
       }
       subtitle={
         currentView === 'dashboard'
@@ -618,7 +855,13 @@ export function AdminDashboard({
               ? '新しいアフィリエイトリンクを追加します'
               : currentView === 'edit'
                 ? '既存のリンク情報を更新します'
-                : undefined
+                : currentView === 'import'
+                  ? 'CSV・JSONからリンクをまとめて登録します'
+                  : currentView === 'categories'
+                    ? 'カテゴリの追加・編集・削除を行います'
+                    : currentView === 'trash'
+                      ? '削除したリンクの復元・完全削除を行います'
+                      : undefined
       }
     >
       {renderNavigation()}
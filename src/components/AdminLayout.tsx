@@ -2,6 +2,18 @@ import React from 'react';
 import { useAuth } from '../contexts/AuthContext';
 import { usePermissions } from './ProtectedRoute';
 
+interface AdminSection {
+  href: string;
+  label: string;
+  adminOnly?: boolean;
+}
+
+const adminSections: AdminSection[] = [
+  { href: '/admin', label: 'ダッシュボード' },
+  { href: '/admin/analytics', label: 'アナリティクス' },
+  { href: '/admin/users', label: 'ユーザー', adminOnly: true },
+];
+
 interface AdminLayoutProps {
   children: React.ReactNode;
   title?: string;
@@ -16,6 +28,11 @@ export function AdminLayout({
   const { logout } = useAuth();
   const { user } = usePermissions();
 
+  const sections = adminSections.filter(
+    (section) => !section.adminOnly || user?.role === 'admin'
+  );
+  const currentPath = window.location.pathname;
+
   const handleLogout = async () => {
     try {
       await logout();
@@ -81,6 +98,29 @@ export function AdminLayout({
         </div>
       </header>
 
+      {/* Section Navigation */}
+      <nav
+        aria-label="管理メニュー"
+        className="bg-white border-b border-gray-200"
+      >
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 flex space-x-6">
+          {sections.map((section) => (
+            <a
+              key={section.href}
+              href={section.href}
+              aria-current={currentPath === section.href ? 'page' : undefined}
+              className={`py-3 text-sm font-medium border-b-2 ${
+                currentPath === section.href
+                  ? 'border-blue-500 text-blue-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+              }`}
+            >
+              {section.label}
+            </a>
+          ))}
+        </div>
+      </nav>
+
       {/* Main Content */}
       <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
         {/* Page Header */}
@@ -4,8 +4,14 @@ import {
   useClickAnalytics,
   useRevenueAnalytics,
   useLinkPerformance,
+  useRealTimeAnalytics,
 } from '../hooks';
-import type { AnalyticsParams } from '../services';
+import type {
+  AnalyticsParams,
+  LiveClick,
+  MinuteAggregate,
+  RealTimeAnalytics,
+} from '../services';
 
 interface AnalyticsDashboardProps {
   className?: string;
@@ -59,6 +65,8 @@ export function AnalyticsDashboard({
     loading: linksLoading,
     refetch: refetchLinks,
   } = useLinkPerformance(analyticsParams);
+  const { realTimeData, isLive, liveClicks, minuteAggregates } =
+    useRealTimeAnalytics();
 
   const isLoading =
     analyticsLoading || clickLoading || revenueLoading || linksLoading;
@@ -215,6 +223,14 @@ export function AnalyticsDashboard({
         />
       </div>
 
+      {/* Live Clicks */}
+      <LiveClicksPanel
+        realTimeData={realTimeData}
+        isLive={isLive}
+        clicks={liveClicks}
+        aggregates={minuteAggregates}
+      />
+
       {/* Charts Section */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Clicks Over Time Chart */}
@@ -314,6 +330,123 @@ function MetricCard({ title, value, change, icon, loading }: MetricCardProps) {
   );
 }
 
+// Helper component for the live click ticker
+interface LiveClicksPanelProps {
+  realTimeData: RealTimeAnalytics | null;
+  isLive: boolean;
+  clicks: LiveClick[];
+  aggregates: MinuteAggregate[];
+}
+
+const CLASSIFICATION_LABELS: Record<LiveClick['classification'], string> = {
+  valid: '有効',
+  bot: 'ボット',
+  duplicate: '重複',
+};
+
+function LiveClicksPanel({
+  realTimeData,
+  isLive,
+  clicks,
+  aggregates,
+}: LiveClicksPanelProps) {
+  // Valid clicks in the last 5 minutes of the rolling aggregates
+  const recentClicks = aggregates
+    .slice(-5)
+    .reduce((sum, aggregate) => sum + aggregate.valid, 0);
+  const peak = Math.max(1, ...aggregates.map((aggregate) => aggregate.valid));
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-medium text-gray-900">ライブクリック</h3>
+        <span
+          className={`flex items-center text-xs font-medium ${
+            isLive ? 'text-green-600' : 'text-gray-500'
+          }`}
+        >
+          <span
+            className={`h-2 w-2 rounded-full mr-1 ${
+              isLive ? 'bg-green-500 animate-pulse' : 'bg-gray-400'
+            }`}
+          ></span>
+          {isLive ? 'ライブ' : '定期更新'}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-3 gap-4 mb-4 text-center">
+        <div>
+          <p className="text-xs text-gray-500">アクティブユーザー</p>
+          <p className="text-xl font-semibold text-gray-900">
+            {realTimeData?.activeUsers ?? 0}
+          </p>
+        </div>
+        <div>
+          <p className="text-xs text-gray-500">本日のクリック</p>
+          <p className="text-xl font-semibold text-gray-900">
+            {realTimeData?.clicksToday ?? 0}
+          </p>
+        </div>
+        <div>
+          <p className="text-xs text-gray-500">直近5分</p>
+          <p className="text-xl font-semibold text-gray-900">{recentClicks}</p>
+        </div>
+      </div>
+
+      {aggregates.length > 0 && (
+        <div
+          className="flex items-end h-12 gap-px mb-4"
+          aria-label="1分ごとのクリック数"
+        >
+          {aggregates.map((aggregate) => (
+            <div
+              key={aggregate.minute}
+              className="flex-1 bg-blue-400 rounded-t"
+              style={{ height: `${(aggregate.valid / peak) * 100}%` }}
+              title={`${new Date(aggregate.minute).toLocaleTimeString('ja-JP')}: ${aggregate.valid}`}
+            ></div>
+          ))}
+        </div>
+      )}
+
+      {clicks.length > 0 ? (
+        <ul className="divide-y divide-gray-100" aria-live="polite">
+          {clicks.map((click) => (
+            <li
+              key={click.id}
+              className="flex items-center justify-between py-2 text-sm"
+            >
+              <span className="truncate text-gray-900">
+                {click.title || `リンク ${click.linkId}`}
+                {click.variant && (
+                  <span className="ml-2 text-xs text-gray-500">
+                    {click.variant}
+                  </span>
+                )}
+              </span>
+              <span className="ml-4 flex-shrink-0 text-xs text-gray-500">
+                {click.classification !== 'valid' && (
+                  <span className="mr-2 text-orange-600">
+                    {CLASSIFICATION_LABELS[click.classification]}
+                  </span>
+                )}
+                {click.countryCode && (
+                  <span className="mr-2">{click.countryCode}</span>
+                )}
+                {new Date(click.timestamp).toLocaleTimeString('ja-JP')}
+              </span>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-center text-sm text-gray-500 py-4">
+          クリックを待っています…
+        </p>
+      )}
+    </div>
+  );
+}
+
 // Helper component for charts
 interface ChartCardProps {
   title: string;
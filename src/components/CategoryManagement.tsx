@@ -0,0 +1,473 @@
+import React, { useState } from 'react';
+import type { Category } from '../types';
+import type { ApiError, CreateCategoryRequest } from '../services';
+import { validateCategory, generateSlug } from '../utils/validation';
+
+interface CategoryManagementProps {
+  categories: Category[];
+  // Each resolves to the error of a failed request, or null
+  onCreate: (categoryData: CreateCategoryRequest) => Promise<ApiError | null>;
+  onUpdate: (
+    id: string,
+    categoryData: CreateCategoryRequest
+  ) => Promise<ApiError | null>;
+  onDelete: (id: string, reassignTo?: string) => Promise<ApiError | null>;
+  isLoading?: boolean;
+}
+
+interface FormData {
+  name: string;
+  slug: string;
+  description: string;
+  color: string;
+  icon: string;
+  urlTemplate: string;
+}
+
+const emptyForm: FormData = {
+  name: '',
+  slug: '',
+  description: '',
+  color: '#3B82F6',
+  icon: '',
+  urlTemplate: '',
+};
+
+export function CategoryManagement({
+  categories,
+  onCreate,
+  onUpdate,
+  onDelete,
+  isLoading = false,
+}: CategoryManagementProps) {
+  const [editingCategory, setEditingCategory] = useState<Category | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [formData, setFormData] = useState<FormData>(emptyForm);
+  const [slugEdited, setSlugEdited] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [deletingCategory, setDeletingCategory] = useState<Category | null>(
+    null
+  );
+  const [reassignTo, setReassignTo] = useState('');
+  // Links the server reported when deleting failed. linkCount leaves out
+  // inactive and trashed links, which block deletion as well.
+  const [blockingLinkCount, setBlockingLinkCount] = useState<number | null>(
+    null
+  );
+
+  const openCreateForm = () => {
+    setEditingCategory(null);
+    setFormData(emptyForm);
+    setSlugEdited(false);
+    setErrors([]);
+    setShowForm(true);
+  };
+
+  const openEditForm = (category: Category) => {
+    setEditingCategory(category);
+    setFormData({
+      name: category.name,
+      slug: category.slug,
+      description: category.description,
+      color: category.color,
+      icon: category.icon || '',
+      urlTemplate: category.urlTemplate || '',
+    });
+    setSlugEdited(true);
+    setErrors([]);
+    setShowForm(true);
+  };
+
+  const closeForm = () => {
+    setShowForm(false);
+    setEditingCategory(null);
+    setErrors([]);
+  };
+
+  const handleNameChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const name = e.target.value;
+    setFormData((prev) => ({
+      ...prev,
+      name,
+      // Keep the slug in sync with the name until the user edits it directly
+      slug: slugEdited ? prev.slug : generateSlug(name),
+    }));
+  };
+
+  const handleInputChange = (
+    e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>
+  ) => {
+    const { name, value } = e.target;
+    if (name === 'slug') {
+      setSlugEdited(true);
+    }
+    setFormData((prev) => ({ ...prev, [name]: value }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const validationErrors = validateCategory(formData);
+    if (validationErrors.length > 0) {
+      setErrors(validationErrors);
+      return;
+    }
+
+    const categoryData: CreateCategoryRequest = {
+      name: formData.name.trim(),
+      slug: formData.slug.trim(),
+      description: formData.description.trim(),
+      color: formData.color,
+      icon: formData.icon.trim() || undefined,
+      // When editing, an emptied template is sent as null so it gets removed
+      urlTemplate:
+        formData.urlTemplate.trim() || (editingCategory ? null : undefined),
+    };
+
+    try {
+      const failure = editingCategory
+        ? await onUpdate(editingCategory.id, categoryData)
+        : await onCreate(categoryData);
+      // Keep the form open so the input isn't lost
+      if (!failure) {
+        closeForm();
+      }
+    } catch (error) {
+      console.error('Category save error:', error);
+    }
+  };
+
+  const openDeleteConfirm = (category: Category) => {
+    setDeletingCategory(category);
+    setReassignTo('');
+    setBlockingLinkCount(null);
+  };
+
+  const handleDelete = async () => {
+    if (!deletingCategory) return;
+
+    const failure = await onDelete(
+      deletingCategory.id,
+      reassignTo || undefined
+    );
+    if (failure?.status === 409) {
+      const linkCount = failure.details?.link_count;
+      setBlockingLinkCount(typeof linkCount === 'number' ? linkCount : 0);
+      return;
+    }
+    setDeletingCategory(null);
+    setReassignTo('');
+  };
+
+  const reassignmentRequired =
+    deletingCategory !== null &&
+    (deletingCategory.linkCount > 0 || blockingLinkCount !== null);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-semibold text-gray-900">カテゴリ管理</h2>
+        <button
+          onClick={openCreateForm}
+          disabled={isLoading}
+          className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+        >
+          新しいカテゴリを追加
+        </button>
+      </div>
+
+      {showForm && (
+        <form
+          onSubmit={handleSubmit}
+          className="bg-white shadow rounded-lg p-6 space-y-4"
+        >
+          <h3 className="text-lg font-medium text-gray-900">
+            {editingCategory ? 'カテゴリを編集' : '新規カテゴリを作成'}
+          </h3>
+
+          {errors.length > 0 && (
+            <div className="bg-red-50 border border-red-200 rounded-md p-3">
+              <ul className="list-disc list-inside text-sm text-red-700">
+                {errors.map((error) => (
+                  <li key={error}>{error}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label
+                htmlFor="category-name"
+                className="block text-sm font-medium text-gray-700"
+              >
+                名前 *
+              </label>
+              <input
+                type="text"
+                id="category-name"
+                name="name"
+                value={formData.name}
+                onChange={handleNameChange}
+                className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+
+            <div>
+              <label
+                htmlFor="category-slug"
+                className="block text-sm font-medium text-gray-700"
+              >
+                スラッグ *
+              </label>
+              <input
+                type="text"
+                id="category-slug"
+                name="slug"
+                value={formData.slug}
+                onChange={handleInputChange}
+                className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+
+            <div className="md:col-span-2">
+              <label
+                htmlFor="category-description"
+                className="block text-sm font-medium text-gray-700"
+              >
+                説明 *
+              </label>
+              <textarea
+                id="category-description"
+                name="description"
+                rows={2}
+                value={formData.description}
+                onChange={handleInputChange}
+                className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+
+            <div>
+              <label
+                htmlFor="category-color"
+                className="block text-sm font-medium text-gray-700"
+              >
+                カラー *
+              </label>
+              <div className="mt-1 flex items-center space-x-2">
+                <input
+                  type="color"
+                  aria-label="カラーピッカー"
+                  name="color"
+                  value={formData.color}
+                  onChange={handleInputChange}
+                  className="h-9 w-12 border border-gray-300 rounded"
+                />
+                <input
+                  type="text"
+                  id="category-color"
+                  name="color"
+                  value={formData.color}
+                  onChange={handleInputChange}
+                  className="block w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+            </div>
+
+            <div>
+              <label
+                htmlFor="category-icon"
+                className="block text-sm font-medium text-gray-700"
+              >
+                アイコン
+              </label>
+              <input
+                type="text"
+                id="category-icon"
+                name="icon"
+                value={formData.icon}
+                onChange={handleInputChange}
+                className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+
+            <div className="md:col-span-2">
+              <label
+                htmlFor="category-url-template"
+                className="block text-sm font-medium text-gray-700"
+              >
+                URLテンプレート
+              </label>
+              <input
+                type="text"
+                id="category-url-template"
+                name="urlTemplate"
+                value={formData.urlTemplate}
+                onChange={handleInputChange}
+                placeholder="{affiliate_url}&subid={click_id}"
+                className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 text-sm font-mono focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              />
+              <p className="mt-1 text-sm text-gray-500">
+                （任意）独自のテンプレートがないリンクの遷移先URLに適用されます
+              </p>
+            </div>
+          </div>
+
+          <div className="flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={closeForm}
+              className="px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+            >
+              キャンセル
+            </button>
+            <button
+              type="submit"
+              disabled={isLoading}
+              className="px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+            >
+              {editingCategory ? '更新' : '作成'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      <div className="bg-white shadow rounded-lg overflow-hidden">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                カテゴリ
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                スラッグ
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                リンク数
+              </th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                操作
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {categories.length === 0 ? (
+              <tr>
+                <td
+                  colSpan={4}
+                  className="px-6 py-4 text-center text-sm text-gray-500"
+                >
+                  カテゴリがありません
+                </td>
+              </tr>
+            ) : (
+              categories.map((category) => (
+                <tr key={category.id}>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="flex items-center">
+                      <span
+                        className="h-4 w-4 rounded-full mr-3"
+                        style={{ backgroundColor: category.color }}
+                      />
+                      <div>
+                        <div className="text-sm font-medium text-gray-900">
+                          {category.name}
+                        </div>
+                        <div className="text-sm text-gray-500">
+                          {category.description}
+                        </div>
+                      </div>
+                    </div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {category.slug}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {category.linkCount}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium space-x-3">
+                    <button
+                      onClick={() => openEditForm(category)}
+                      className="text-blue-600 hover:text-blue-900"
+                    >
+                      編集
+                    </button>
+                    <button
+                      onClick={() => openDeleteConfirm(category)}
+                      className="text-red-600 hover:text-red-900"
+                    >
+                      削除
+                    </button>
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Delete Confirmation Modal */}
+      {deletingCategory && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+          <div className="relative top-20 mx-auto p-5 border w-96 shadow-lg rounded-md bg-white">
+            <div className="mt-3 text-center">
+              <h3 className="text-lg font-medium text-gray-900 mt-2">
+                カテゴリを削除
+              </h3>
+              <div className="mt-2 px-7 py-3 space-y-3">
+                <p className="text-sm text-gray-500">
+                  「{deletingCategory.name}」を削除しますか？
+                </p>
+                {reassignmentRequired && (
+                  <div className="text-left">
+                    <p className="text-sm text-gray-500 mb-2">
+                      このカテゴリには
+                      {blockingLinkCount ?? deletingCategory.linkCount}
+                      件のリンク
+                      {blockingLinkCount !== null &&
+                        '（非公開・ゴミ箱内を含む）'}
+                      があります。移動先のカテゴリを選択してください。
+                    </p>
+                    <label htmlFor="reassign-category" className="sr-only">
+                      移動先カテゴリ
+                    </label>
+                    <select
+                      id="reassign-category"
+                      value={reassignTo}
+                      onChange={(e) => setReassignTo(e.target.value)}
+                      className="block w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+                    >
+                      <option value="">移動先を選択</option>
+                      {categories
+                        .filter((c) => c.id !== deletingCategory.id)
+                        .map((c) => (
+                          <option key={c.id} value={c.id}>
+                            {c.name}
+                          </option>
+                        ))}
+                    </select>
+                  </div>
+                )}
+              </div>
+              <div className="items-center px-4 py-3">
+                <button
+                  onClick={handleDelete}
+                  disabled={isLoading || (reassignmentRequired && !reassignTo)}
+                  className="px-4 py-2 bg-red-500 text-white text-base font-medium rounded-md w-24 mr-2 hover:bg-red-600 focus:outline-none focus:ring-2 focus:ring-red-300 disabled:opacity-50"
+                >
+                  削除
+                </button>
+                <button
+                  onClick={() => setDeletingCategory(null)}
+                  className="px-4 py-2 bg-gray-500 text-white text-base font-medium rounded-md w-24 hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-gray-300"
+                >
+                  キャンセル
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
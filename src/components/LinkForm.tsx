@@ -1,6 +1,17 @@
 import React, { useState, useEffect } from 'react';
 import type { AffiliateLink, Category, CreateLinkRequest } from '../types';
 import { categoriesApi } from '../services';
+import {
+  generateSlug,
+  isValidLinkSlug,
+  isValidLinkVariant,
+} from '../utils/validation';
+import {
+  SAMPLE_URL_TEMPLATE_VALUES,
+  URL_TEMPLATE_PLACEHOLDERS,
+  expandUrlTemplate,
+  isValidUrlTemplate,
+} from '../utils/urlTemplate';
 
 interface LinkFormProps {
   link?: AffiliateLink;
@@ -9,6 +20,15 @@ interface LinkFormProps {
   isLoading?: boolean;
 }
 
+// Matches the API limit
+const MAX_DESTINATIONS = 10;
+
+interface DestinationRow {
+  variant: string;
+  url: string;
+  weight: string;
+}
+
 interface FormData {
   title: string;
   description: string;
@@ -19,6 +39,13 @@ interface FormData {
   imageUrl: string;
   commissionRate: string;
   featured: boolean;
+  // datetime-local values in the browser's time zone
+  publishAt: string;
+  expiresAt: string;
+  slug: string;
+  urlTemplate: string;
+  destinations: DestinationRow[];
+  stickyDestinations: boolean;
 }
 
 interface FormErrors {
@@ -30,8 +57,20 @@ interface FormErrors {
   tags?: string;
   imageUrl?: string;
   commissionRate?: string;
+  expiresAt?: string;
+  slug?: string;
+  urlTemplate?: string;
+  destinations?: string;
 }
 
+// datetime-local inputs take local time without a zone suffix
+const toDateTimeLocal = (date?: Date): string => {
+  if (!date) return '';
+  const value = new Date(date);
+  const offset = value.getTimezoneOffset() * 60000;
+  return new Date(value.getTime() - offset).toISOString().slice(0, 16);
+};
+
 export function LinkForm({
   link,
   onSubmit,
@@ -49,7 +88,14 @@ export function LinkForm({
     imageUrl: '',
     commissionRate: '',
     featured: false,
+    publishAt: '',
+    expiresAt: '',
+    slug: '',
+    urlTemplate: '',
+    destinations: [],
+    stickyDestinations: false,
   });
+  const [slugEdited, setSlugEdited] = useState(false);
   const [errors, setErrors] = useState<FormErrors>({});
   const [tagInput, setTagInput] = useState('');
   const [isDraft, setIsDraft] = useState(false);
@@ -83,7 +129,18 @@ export function LinkForm({
         imageUrl: link.imageUrl || '',
         commissionRate: link.commissionRate?.toString() || '',
         featured: link.featured,
+        publishAt: toDateTimeLocal(link.publishAt),
+        expiresAt: toDateTimeLocal(link.expiresAt),
+        slug: link.slug || '',
+        urlTemplate: link.urlTemplate || '',
+        destinations: (link.destinations || []).map((destination) => ({
+          ...destination,
+          weight: destination.weight.toString(),
+        })),
+        stickyDestinations: link.stickyDestinations || false,
       });
+      // Existing short links are already shared; never rename them
+      setSlugEdited(true);
     }
   }, [link]);
 
@@ -101,7 +158,11 @@ export function LinkForm({
       if (savedDraft) {
         try {
           const draftData = JSON.parse(savedDraft);
-          setFormData(draftData);
+          setFormData((prev) => ({ ...prev, ...draftData }));
+          setSlugEdited(
+            Boolean(draftData.slug) &&
+              draftData.slug !== generateSlug(draftData.title || '')
+          );
           setIsDraft(true);
         } catch (error) {
           console.error('Failed to load draft:', error);
@@ -158,6 +219,44 @@ export function LinkForm({
       }
     }
 
+    if (
+      formData.publishAt &&
+      formData.expiresAt &&
+      new Date(formData.expiresAt) <= new Date(formData.publishAt)
+    ) {
+      newErrors.expiresAt =
+        '公開終了日時は公開開始日時より後に設定してください';
+    }
+
+    if (formData.slug && !isValidLinkSlug(formData.slug.trim())) {
+      newErrors.slug =
+        'スラッグは半角英小文字・数字・ハイフンのみで入力してください';
+    }
+
+    if (
+      formData.urlTemplate.trim() &&
+      !isValidUrlTemplate(formData.urlTemplate.trim())
+    ) {
+      newErrors.urlTemplate =
+        'URLテンプレートは使用可能なプレースホルダーを使い、有効なURLになるように入力してください';
+    }
+
+    const variants = formData.destinations.map((row) => row.variant.trim());
+    if (
+      formData.destinations.some(
+        (row) =>
+          !isValidLinkVariant(row.variant.trim()) ||
+          !isValidUrl(row.url.trim()) ||
+          !/^\d+$/.test(row.weight.trim()) ||
+          parseInt(row.weight, 10) > 1000
+      )
+    ) {
+      newErrors.destinations =
+        'バリアント名は半角英小文字・数字・ハイフン、URLは有効なURL、重みは0〜1000の整数で入力してください';
+    } else if (new Set(variants).size !== variants.length) {
+      newErrors.destinations = 'バリアント名が重複しています';
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -184,6 +283,66 @@ export function LinkForm({
     }
   };
 
+  const handleTitleChange = (title: string) => {
+    handleInputChange('title', title);
+    // Keep the slug in sync with the title until the user edits it directly
+    if (!slugEdited) {
+      setFormData((prev) => ({ ...prev, slug: generateSlug(title) }));
+    }
+  };
+
+  const handleSlugChange = (slug: string) => {
+    setSlugEdited(true);
+    handleInputChange('slug', slug);
+  };
+
+  const handleDestinationChange = (
+    index: number,
+    field: keyof DestinationRow,
+    value: string
+  ) => {
+    setFormData((prev) => ({
+      ...prev,
+      destinations: prev.destinations.map((row, i) =>
+        i === index ? { ...row, [field]: value } : row
+      ),
+    }));
+    setIsDraft(true);
+    if (errors.destinations) {
+      setErrors((prev) => ({ ...prev, destinations: undefined }));
+    }
+  };
+
+  const handleDestinationAdd = () => {
+    setFormData((prev) => ({
+      ...prev,
+      destinations: [
+        ...prev.destinations,
+        {
+          // a, b, c, ... for the next unused letter
+          variant:
+            'abcdefghij'
+              .split('')
+              .find(
+                (letter) =>
+                  !prev.destinations.some((row) => row.variant === letter)
+              ) || '',
+          url: '',
+          weight: '50',
+        },
+      ],
+    }));
+    setIsDraft(true);
+  };
+
+  const handleDestinationRemove = (index: number) => {
+    setFormData((prev) => ({
+      ...prev,
+      destinations: prev.destinations.filter((_, i) => i !== index),
+    }));
+    setIsDraft(true);
+  };
+
   const handleTagAdd = () => {
     const tag = tagInput.trim().toLowerCase();
     if (tag && !formData.tags.includes(tag)) {
@@ -227,6 +386,25 @@ export function LinkForm({
         ? parseFloat(formData.commissionRate)
         : undefined,
       featured: formData.featured,
+      // When editing, an emptied date is sent as null so it gets cleared
+      publishAt: formData.publishAt
+        ? new Date(formData.publishAt).toISOString()
+        : link
+          ? null
+          : undefined,
+      expiresAt: formData.expiresAt
+        ? new Date(formData.expiresAt).toISOString()
+        : link
+          ? null
+          : undefined,
+      slug: formData.slug.trim() || (link ? null : undefined),
+      urlTemplate: formData.urlTemplate.trim() || (link ? null : undefined),
+      destinations: formData.destinations.map((row) => ({
+        variant: row.variant.trim(),
+        url: row.url.trim(),
+        weight: parseInt(row.weight, 10),
+      })),
+      stickyDestinations: formData.stickyDestinations,
     };
 
     try {
@@ -257,10 +435,33 @@ export function LinkForm({
         imageUrl: '',
         commissionRate: '',
         featured: false,
+        publishAt: '',
+        expiresAt: '',
+        slug: '',
+        urlTemplate: '',
+        destinations: [],
+        stickyDestinations: false,
       });
+      setSlugEdited(false);
     }
   };
 
+  // Where a click will be sent, filled in with sample click details. Links
+  // without their own template use their category's.
+  const categoryUrlTemplate =
+    categories.find((category) => category.id === formData.categoryId)
+      ?.urlTemplate || '';
+  const effectiveUrlTemplate =
+    formData.urlTemplate.trim() || categoryUrlTemplate;
+  const destinationPreview =
+    effectiveUrlTemplate && isValidUrlTemplate(effectiveUrlTemplate)
+      ? expandUrlTemplate(effectiveUrlTemplate, {
+          ...SAMPLE_URL_TEMPLATE_VALUES,
+          link_id: link?.id || SAMPLE_URL_TEMPLATE_VALUES.link_id,
+          affiliate_url: formData.affiliateUrl.trim(),
+        })
+      : formData.affiliateUrl.trim();
+
   return (
     <div className="max-w-4xl mx-auto">
       <form onSubmit={handleSubmit} className="space-y-6">
@@ -312,7 +513,7 @@ export function LinkForm({
                 type="text"
                 id="title"
                 value={formData.title}
-                onChange={(e) => handleInputChange('title', e.target.value)}
+                onChange={(e) => handleTitleChange(e.target.value)}
                 className={`mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 ${
                   errors.title ? 'border-red-300' : ''
                 }`}
@@ -408,6 +609,175 @@ export function LinkForm({
                 )}
               </div>
             </div>
+
+            {/* Short link slug */}
+            <div>
+              <label
+                htmlFor="slug"
+                className="block text-sm font-medium text-gray-700"
+              >
+                短縮URLスラッグ
+              </label>
+              <div className="mt-1 flex rounded-md shadow-sm">
+                <span className="inline-flex items-center rounded-l-md border border-r-0 border-gray-300 bg-gray-50 px-3 text-sm text-gray-500">
+                  /go/
+                </span>
+                <input
+                  type="text"
+                  id="slug"
+                  value={formData.slug}
+                  onChange={(e) => handleSlugChange(e.target.value)}
+                  className={`block w-full rounded-none rounded-r-md border-gray-300 focus:border-blue-500 focus:ring-blue-500 ${
+                    errors.slug ? 'border-red-300' : ''
+                  }`}
+                  placeholder="summer-sale"
+                  maxLength={100}
+                />
+              </div>
+              {errors.slug && (
+                <p className="mt-1 text-sm text-red-600">{errors.slug}</p>
+              )}
+              <p className="mt-1 text-sm text-gray-500">
+                タイトルから自動生成されます。空欄の場合、短縮URLは作成されません
+              </p>
+            </div>
+
+            {/* Outbound URL template */}
+            <div>
+              <label
+                htmlFor="urlTemplate"
+                className="block text-sm font-medium text-gray-700"
+              >
+                URLテンプレート
+              </label>
+              <input
+                type="text"
+                id="urlTemplate"
+                value={formData.urlTemplate}
+                onChange={(e) =>
+                  handleInputChange('urlTemplate', e.target.value)
+                }
+                className={`mt-1 block w-full rounded-md border-gray-300 shadow-sm font-mono focus:border-blue-500 focus:ring-blue-500 ${
+                  errors.urlTemplate ? 'border-red-300' : ''
+                }`}
+                placeholder={
+                  categoryUrlTemplate || '{affiliate_url}&subid={click_id}'
+                }
+              />
+              {errors.urlTemplate && (
+                <p className="mt-1 text-sm text-red-600">
+                  {errors.urlTemplate}
+                </p>
+              )}
+              <p className="mt-1 text-sm text-gray-500">
+                （任意）空欄の場合はカテゴリのテンプレートが使われます。使用可能なプレースホルダー:{' '}
+                {URL_TEMPLATE_PLACEHOLDERS.map((name) => `{${name}}`).join(' ')}
+              </p>
+              {destinationPreview && (
+                <div
+                  className="mt-2 rounded-md bg-gray-50 p-3"
+                  data-testid="destination-preview"
+                >
+                  <p className="text-xs font-medium text-gray-500">
+                    遷移先URLのプレビュー
+                    {!formData.urlTemplate.trim() &&
+                      categoryUrlTemplate &&
+                      '（カテゴリのテンプレートを使用）'}
+                  </p>
+                  <p className="mt-1 break-all font-mono text-sm text-gray-900">
+                    {destinationPreview}
+                  </p>
+                </div>
+              )}
+            </div>
+
+            {/* A/B destinations */}
+            <div>
+              <span className="block text-sm font-medium text-gray-700">
+                A/Bテスト（遷移先の振り分け）
+              </span>
+              <p className="mt-1 text-sm text-gray-500">
+                （任意）クリックを重みに応じて複数の遷移先に振り分けます。設定しない場合はアフィリエイトURLに遷移します
+              </p>
+              {formData.destinations.map((row, index) => (
+                <div
+                  key={index}
+                  className="mt-2 flex items-center gap-2"
+                  data-testid="destination-row"
+                >
+                  <input
+                    type="text"
+                    value={row.variant}
+                    onChange={(e) =>
+                      handleDestinationChange(index, 'variant', e.target.value)
+                    }
+                    aria-label={`バリアント名 ${index + 1}`}
+                    className="block w-24 rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                    placeholder="a"
+                  />
+                  <input
+                    type="url"
+                    value={row.url}
+                    onChange={(e) =>
+                      handleDestinationChange(index, 'url', e.target.value)
+                    }
+                    aria-label={`遷移先URL ${index + 1}`}
+                    className="block flex-1 rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                    placeholder="https://affiliate.example.com/ref123"
+                  />
+                  <input
+                    type="number"
+                    min="0"
+                    max="1000"
+                    value={row.weight}
+                    onChange={(e) =>
+                      handleDestinationChange(index, 'weight', e.target.value)
+                    }
+                    aria-label={`重み ${index + 1}`}
+                    className="block w-20 rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => handleDestinationRemove(index)}
+                    className="text-sm text-red-600 hover:text-red-800"
+                  >
+                    削除
+                  </button>
+                </div>
+              ))}
+              {errors.destinations && (
+                <p className="mt-1 text-sm text-red-600">
+                  {errors.destinations}
+                </p>
+              )}
+              <div className="mt-2 flex items-center gap-4">
+                {formData.destinations.length < MAX_DESTINATIONS && (
+                  <button
+                    type="button"
+                    onClick={handleDestinationAdd}
+                    className="text-sm text-blue-600 hover:text-blue-800"
+                  >
+                    ＋ 遷移先を追加
+                  </button>
+                )}
+                {formData.destinations.length > 0 && (
+                  <label className="flex items-center text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={formData.stickyDestinations}
+                      onChange={(e) =>
+                        handleInputChange(
+                          'stickyDestinations',
+                          e.target.checked
+                        )
+                      }
+                      className="mr-2 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                    />
+                    同じセッションには同じ遷移先を表示する
+                  </label>
+                )}
+              </div>
+            </div>
           </div>
         </div>
 
@@ -567,6 +937,57 @@ export function LinkForm({
               </p>
             </div>
 
+            {/* Publish Window */}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div>
+                <label
+                  htmlFor="publishAt"
+                  className="block text-sm font-medium text-gray-700"
+                >
+                  公開開始日時
+                </label>
+                <input
+                  type="datetime-local"
+                  id="publishAt"
+                  value={formData.publishAt}
+                  onChange={(e) =>
+                    handleInputChange('publishAt', e.target.value)
+                  }
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                />
+                <p className="mt-1 text-sm text-gray-500">
+                  （任意）未設定の場合はすぐに公開されます
+                </p>
+              </div>
+              <div>
+                <label
+                  htmlFor="expiresAt"
+                  className="block text-sm font-medium text-gray-700"
+                >
+                  公開終了日時
+                </label>
+                <input
+                  type="datetime-local"
+                  id="expiresAt"
+                  value={formData.expiresAt}
+                  onChange={(e) =>
+                    handleInputChange('expiresAt', e.target.value)
+                  }
+                  className={`mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 ${
+                    errors.expiresAt ? 'border-red-300' : ''
+                  }`}
+                />
+                {errors.expiresAt && (
+                  <p className="mt-1 text-sm text-red-600">
+                    {errors.expiresAt}
+                  </p>
+                )}
+                <p className="mt-1 text-sm text-gray-500">
+                  （任意）この日時を過ぎるとリンクは非公開になり、リダイレクトも停止します
+                </p>
+              </div>
+            </div>
+
             {/* Featured */}
             <div className="flex items-center">
               <input
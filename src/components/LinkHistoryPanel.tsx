@@ -0,0 +1,204 @@
+import { useState, useEffect } from 'react';
+import { auditApi } from '../services';
+import type { AffiliateLink, AuditAction, AuditEvent } from '../types';
+
+interface LinkHistoryPanelProps {
+  link: AffiliateLink;
+  onClose: () => void;
+}
+
+const actionLabels: Record<AuditAction, string> = {
+  create: '作成',
+  update: '更新',
+  delete: 'ゴミ箱へ移動',
+  bulk_update: '一括更新',
+  bulk_delete: '一括でゴミ箱へ移動',
+  restore: '復元',
+  purge: '完全削除',
+  reset_password: 'パスワード再設定',
+  deactivate: '無効化',
+  reactivate: '再有効化',
+};
+
+// Diff keys are database column names
+const fieldLabels: Record<string, string> = {
+  title: 'タイトル',
+  description: '説明',
+  url: 'URL',
+  affiliate_url: 'アフィリエイトURL',
+  category_id: 'カテゴリ',
+  tags: 'タグ',
+  image_url: '画像URL',
+  commission_rate: '報酬率',
+  featured: '注目',
+  status: 'ステータス',
+};
+
+// Snapshot-only fields that are noise in a link's history
+const hiddenFields = ['id', 'click_count', 'created_at', 'deleted_at'];
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '（なし）';
+  if (Array.isArray(value)) return value.join(', ');
+  if (typeof value === 'boolean') return value ? 'はい' : 'いいえ';
+  return String(value);
+};
+
+const formatDate = (date: Date) =>
+  new Intl.DateTimeFormat('ja-JP', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  }).format(date);
+
+/**
+ * Modal listing who changed a link and what changed, newest first
+ */
+export function LinkHistoryPanel({ link, onClose }: LinkHistoryPanelProps) {
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadHistory = async () => {
+      try {
+        const response = await auditApi.getLinkHistory(link.id);
+        if (cancelled) return;
+        if (response.success) {
+          setEvents(response.data.events);
+        } else {
+          setError('履歴の読み込みに失敗しました');
+        }
+      } catch (err) {
+        if (cancelled) return;
+        setError('履歴の読み込み中にエラーが発生しました');
+        console.error('Link history loading error:', err);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    loadHistory();
+    return () => {
+      cancelled = true;
+    };
+  }, [link.id]);
+
+  const renderChanges = (event: AuditEvent) => {
+    // Trashing only sets deleted_at and a purge's diff is the whole final
+    // state, so neither adds anything here
+    if (event.action.endsWith('delete') || event.action === 'purge') {
+      return null;
+    }
+
+    // A creation diffs every column, so only list the editable ones
+    const fields = Object.keys(event.diff).filter(
+      (field) =>
+        !hiddenFields.includes(field) &&
+        (event.action !== 'create' || field in fieldLabels)
+    );
+    if (fields.length === 0) return null;
+
+    return (
+      <ul className="mt-2 space-y-1 text-sm text-gray-600">
+        {fields.map((field) => (
+          <li key={field}>
+            <span className="font-medium text-gray-700">
+              {fieldLabels[field] ?? field}
+            </span>
+            :{' '}
+            {event.action === 'create' ? (
+              formatValue(event.diff[field].to)
+            ) : (
+              <>
+                <span className="line-through text-red-600">
+                  {formatValue(event.diff[field].from)}
+                </span>{' '}
+                →{' '}
+                <span className="text-green-700">
+                  {formatValue(event.diff[field].to)}
+                </span>
+              </>
+            )}
+          </li>
+        ))}
+      </ul>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+      <div
+        role="dialog"
+        aria-labelledby="link-history-title"
+        className="relative top-20 mx-auto p-5 border w-full max-w-2xl shadow-lg rounded-md bg-white"
+      >
+        <div className="flex items-start justify-between">
+          <div>
+            <h3
+              id="link-history-title"
+              className="text-lg font-medium text-gray-900"
+            >
+              変更履歴
+            </h3>
+            <p className="text-sm text-gray-500">{link.title}</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600"
+            aria-label="閉じる"
+          >
+            <svg
+              className="h-5 w-5"
+              fill="none"
+              viewBox="0 0 24 24"
+              stroke="currentColor"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M6 18L18 6M6 6l12 12"
+              />
+            </svg>
+          </button>
+        </div>
+
+        <div className="mt-4 max-h-96 overflow-y-auto">
+          {isLoading ? (
+            <p className="text-sm text-gray-500">読み込み中...</p>
+          ) : error ? (
+            <p className="text-sm text-red-600">{error}</p>
+          ) : events.length === 0 ? (
+            <p className="text-sm text-gray-500">変更履歴はありません</p>
+          ) : (
+            <ol className="divide-y divide-gray-200">
+              {events.map((event) => (
+                <li key={event.id} className="py-3">
+                  <div className="flex items-center justify-between text-sm">
+                    <span>
+                      <span className="font-medium text-gray-900">
+                        {actionLabels[event.action]}
+                      </span>
+                      <span className="ml-2 text-gray-600">
+                        {event.actorEmail ?? '削除されたユーザー'}
+                      </span>
+                    </span>
+                    <span className="text-gray-500">
+                      {formatDate(event.createdAt)}
+                    </span>
+                  </div>
+                  {renderChanges(event)}
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
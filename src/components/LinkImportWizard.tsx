@@ -0,0 +1,299 @@
+import { useState } from 'react';
+import { affiliateLinksApi } from '../services';
+import type { LinkImportReport, LinkImportSource } from '../types';
+
+type ImportFormat = 'csv' | 'json';
+
+interface LinkImportWizardProps {
+  // Called after links are imported so the link list can be refreshed
+  onComplete?: () => void;
+  onCancel?: () => void;
+}
+
+// Row errors are reported against the import columns; array items as tags[0]
+const fieldLabels: Record<string, string> = {
+  title: 'タイトル',
+  description: '説明',
+  url: 'URL',
+  affiliate_url: 'アフィリエイトURL',
+  category_slug: 'カテゴリ',
+  tags: 'タグ',
+  image_url: '画像URL',
+  commission_rate: '報酬率',
+  featured: '注目',
+  status: 'ステータス',
+};
+
+const CSV_COLUMNS =
+  'title,description,url,affiliate_url,category_slug,tags,image_url,commission_rate,featured,status';
+
+// JSON imports are either an array of links or an object with `links`
+const toImportSource = (
+  format: ImportFormat,
+  content: string
+): LinkImportSource => {
+  if (format === 'csv') return { csv: content };
+
+  const parsed = JSON.parse(content);
+  const links = Array.isArray(parsed) ? parsed : parsed?.links;
+  if (!Array.isArray(links)) {
+    throw new Error('JSON must be an array of links');
+  }
+  return { links };
+};
+
+/**
+ * Upload or paste links, review the per-row validation report, then import
+ * them all at once
+ */
+export function LinkImportWizard({
+  onComplete,
+  onCancel,
+}: LinkImportWizardProps) {
+  const [format, setFormat] = useState<ImportFormat>('csv');
+  const [content, setContent] = useState('');
+  const [report, setReport] = useState<LinkImportReport | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFileChange = async (
+    event: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    if (file.name.toLowerCase().endsWith('.json')) setFormat('json');
+    else if (file.name.toLowerCase().endsWith('.csv')) setFormat('csv');
+    setContent(await file.text());
+    setReport(null);
+  };
+
+  const runImport = async (dryRun: boolean) => {
+    let source: LinkImportSource;
+    try {
+      source = toImportSource(format, content);
+    } catch {
+      setError('JSONの形式が正しくありません');
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const response = await affiliateLinksApi.importLinks(source, dryRun);
+      if (response.success) {
+        setReport(response.data);
+        if (!dryRun) onComplete?.();
+      } else {
+        setError(
+          dryRun
+            ? `検証に失敗しました: ${response.error?.message}`
+            : `インポートに失敗しました: ${response.error?.message}`
+        );
+      }
+    } catch (err) {
+      setError('インポート中にエラーが発生しました');
+      console.error('Link import error:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleReset = () => {
+    setContent('');
+    setReport(null);
+    setError(null);
+  };
+
+  const renderInput = () => (
+    <div className="bg-white shadow rounded-lg p-6 space-y-4">
+      <div className="flex items-center space-x-6">
+        {(['csv', 'json'] as const).map((value) => (
+          <label key={value} className="inline-flex items-center text-sm">
+            <input
+              type="radio"
+              name="import-format"
+              value={value}
+              checked={format === value}
+              onChange={() => {
+                setFormat(value);
+                setReport(null);
+              }}
+              className="mr-2"
+            />
+            {value.toUpperCase()}
+          </label>
+        ))}
+      </div>
+
+      <div>
+        <label
+          htmlFor="import-file"
+          className="block text-sm font-medium text-gray-700"
+        >
+          ファイルを選択
+        </label>
+        <input
+          id="import-file"
+          type="file"
+          accept=".csv,.json,text/csv,application/json"
+          onChange={handleFileChange}
+          className="mt-1 block text-sm text-gray-600"
+        />
+      </div>
+
+      <div>
+        <label
+          htmlFor="import-content"
+          className="block text-sm font-medium text-gray-700"
+        >
+          または内容を貼り付け
+        </label>
+        <textarea
+          id="import-content"
+          rows={10}
+          value={content}
+          onChange={(event) => {
+            setContent(event.target.value);
+            setReport(null);
+          }}
+          placeholder={format === 'csv' ? CSV_COLUMNS : '[{ "title": ... }]'}
+          className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 font-mono text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+        />
+        <p className="mt-1 text-xs text-gray-500">
+          カテゴリはスラッグで指定します。CSVのタグは「|」で区切ってください。
+        </p>
+      </div>
+
+      <div className="flex justify-end space-x-3">
+        {onCancel && (
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+          >
+            キャンセル
+          </button>
+        )}
+        <button
+          onClick={() => runImport(true)}
+          disabled={!content.trim() || isLoading}
+          className="px-4 py-2 border border-transparent rounded-md text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+        >
+          {isLoading ? '検証中...' : '内容を検証'}
+        </button>
+      </div>
+    </div>
+  );
+
+  const renderReport = (current: LinkImportReport) => (
+    <div className="bg-white shadow rounded-lg overflow-hidden">
+      <div className="px-6 py-4 border-b border-gray-200 text-sm text-gray-700">
+        全{current.total}行 ・ 有効 {current.valid}行 ・{' '}
+        <span className={current.invalid > 0 ? 'text-red-600' : undefined}>
+          エラー {current.invalid}行
+        </span>
+      </div>
+      <table className="min-w-full divide-y divide-gray-200">
+        <thead className="bg-gray-50">
+          <tr>
+            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+              行
+            </th>
+            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+              タイトル
+            </th>
+            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+              結果
+            </th>
+          </tr>
+        </thead>
+        <tbody className="bg-white divide-y divide-gray-200">
+          {current.rows.map((row) => (
+            <tr
+              key={row.row}
+              className={row.status === 'invalid' ? 'bg-red-50' : undefined}
+            >
+              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                {row.row}
+              </td>
+              <td className="px-6 py-4 text-sm text-gray-900">
+                {row.title ?? '（タイトルなし）'}
+              </td>
+              <td className="px-6 py-4 text-sm">
+                {row.status === 'valid' ? (
+                  <span className="text-green-700">OK</span>
+                ) : (
+                  <ul className="space-y-1 text-red-700">
+                    {row.errors.map((rowError, index) => (
+                      <li key={index}>
+                        <span className="font-medium">
+                          {fieldLabels[
+                            rowError.field.replace(/\[\d+\]$/, '')
+                          ] ?? rowError.field}
+                        </span>
+                        : {rowError.message}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div className="px-6 py-4 border-t border-gray-200 flex justify-end space-x-3">
+        <button
+          onClick={() => setReport(null)}
+          className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+        >
+          戻って修正
+        </button>
+        <button
+          onClick={() => runImport(false)}
+          disabled={current.invalid > 0 || isLoading}
+          className="px-4 py-2 border border-transparent rounded-md text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+        >
+          {isLoading ? 'インポート中...' : `${current.valid}件をインポート`}
+        </button>
+      </div>
+    </div>
+  );
+
+  const renderDone = (created: number) => (
+    <div className="bg-white shadow rounded-lg p-6 space-y-4">
+      <p className="text-sm text-green-700">
+        {created}件のリンクをインポートしました
+      </p>
+      <button
+        onClick={handleReset}
+        className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+      >
+        続けてインポート
+      </button>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-xl font-semibold text-gray-900">一括インポート</h2>
+        <p className="text-sm text-gray-600">
+          CSVまたはJSONからリンクをまとめて登録します。すべての行が有効な場合のみ登録されます
+        </p>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <p className="text-sm text-red-700">{error}</p>
+        </div>
+      )}
+
+      {report === null
+        ? renderInput()
+        : report.created !== undefined
+          ? renderDone(report.created)
+          : renderReport(report)}
+    </div>
+  );
+}
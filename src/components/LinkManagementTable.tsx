@@ -1,13 +1,36 @@
 import { useState, useMemo } from 'react';
-import type { AffiliateLink } from '../types';
+import { LinkHistoryPanel } from './LinkHistoryPanel';
+import { getLinkSchedule } from '../utils/helpers';
+import type { AffiliateLink, LinkHealth, LinkHealthTarget } from '../types';
 
 interface LinkManagementTableProps {
   links: AffiliateLink[];
   onEdit: (link: AffiliateLink) => void;
   onDelete: (linkId: string) => void;
   isLoading?: boolean;
+  // Latest health check results keyed by link id; unchecked links have none
+  health?: Record<string, LinkHealth>;
 }
 
+const healthTargetLabels: Record<LinkHealthTarget, string> = {
+  url: 'URL',
+  affiliate_url: 'アフィリエイトURL',
+  image_url: '画像URL',
+};
+
+// Tooltip listing each checked destination and its result
+const describeHealth = (health: LinkHealth) =>
+  health.checks
+    .map((check) => {
+      const result = check.healthy
+        ? `OK (${check.statusCode})`
+        : check.statusCode !== null
+          ? `エラー ${check.statusCode}`
+          : `エラー: ${check.error}`;
+      return `${healthTargetLabels[check.target]}: ${result}（${check.checkedAt.toLocaleString('ja-JP')}）`;
+    })
+    .join('\n');
+
 type SortField =
   | 'title'
   | 'category'
@@ -27,6 +50,7 @@ export function LinkManagementTable({
   onEdit,
   onDelete,
   isLoading = false,
+  health = {},
 }: LinkManagementTableProps) {
   const [selectedLinks, setSelectedLinks] = useState<Set<string>>(new Set());
   const [sortConfig, setSortConfig] = useState<SortConfig>({
@@ -35,11 +59,13 @@ export function LinkManagementTable({
   });
   const [filterStatus, setFilterStatus] = useState<string>('all');
   const [filterCategory, setFilterCategory] = useState<string>('all');
+  const [filterSchedule, setFilterSchedule] = useState<string>('all');
   const [searchQuery, setSearchQuery] = useState('');
   const [showDeleteConfirm, setShowDeleteConfirm] = useState<string | null>(
     null
   );
   const [showBulkDeleteConfirm, setShowBulkDeleteConfirm] = useState(false);
+  const [historyLink, setHistoryLink] = useState<AffiliateLink | null>(null);
 
   // Get unique categories for filter
   const categories = useMemo(() => {
@@ -70,6 +96,13 @@ export function LinkManagementTable({
       filtered = filtered.filter((link) => link.status === filterStatus);
     }
 
+    // Apply publish window filter
+    if (filterSchedule !== 'all') {
+      filtered = filtered.filter(
+        (link) => getLinkSchedule(link) === filterSchedule
+      );
+    }
+
     // Apply category filter
     if (filterCategory !== 'all') {
       filtered = filtered.filter(
@@ -121,7 +154,14 @@ export function LinkManagementTable({
     });
 
     return filtered;
-  }, [links, searchQuery, filterStatus, filterCategory, sortConfig]);
+  }, [
+    links,
+    searchQuery,
+    filterStatus,
+    filterCategory,
+    filterSchedule,
+    sortConfig,
+  ]);
 
   const handleSort = (field: SortField) => {
     setSortConfig((prev) => ({
@@ -304,6 +344,21 @@ export function LinkManagementTable({
             </select>
           </div>
 
+          {/* Publish Window Filter */}
+          <div>
+            <select
+              value={filterSchedule}
+              onChange={(e) => setFilterSchedule(e.target.value)}
+              aria-label="公開期間"
+              className="block w-full pl-3 pr-10 py-2 text-base border border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 rounded-md"
+            >
+              <option value="all">すべての公開期間</option>
+              <option value="live">公開中</option>
+              <option value="scheduled">公開予定</option>
+              <option value="expired">期限切れ</option>
+            </select>
+          </div>
+
           {/* Category Filter */}
           <div>
             <select
@@ -444,7 +499,8 @@ export function LinkManagementTable({
                     <p className="mt-1 text-sm text-gray-500">
                       {searchQuery ||
                       filterStatus !== 'all' ||
-                      filterCategory !== 'all'
+                      filterCategory !== 'all' ||
+                      filterSchedule !== 'all'
                         ? '検索条件やフィルターを調整してください。'
                         : 'まずは新しいアフィリエイトリンクを作成してみましょう。'}
                     </p>
@@ -530,6 +586,32 @@ export function LinkManagementTable({
                     >
                       {formatStatus(link.status)}
                     </span>
+                    {getLinkSchedule(link) === 'scheduled' &&
+                      link.publishAt && (
+                        <div className="mt-1 text-xs text-blue-700">
+                          {new Date(link.publishAt).toLocaleString('ja-JP')}{' '}
+                          公開予定
+                        </div>
+                      )}
+                    {getLinkSchedule(link) === 'expired' && (
+                      <div className="mt-1 text-xs text-gray-500">期限切れ</div>
+                    )}
+                    {health[link.id] && (
+                      <div className="mt-1">
+                        <span
+                          title={describeHealth(health[link.id])}
+                          className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${
+                            health[link.id].healthy
+                              ? 'bg-green-50 text-green-700'
+                              : 'bg-red-50 text-red-700'
+                          }`}
+                        >
+                          {health[link.id].healthy
+                            ? 'リンク正常'
+                            : 'リンク切れ'}
+                        </span>
+                      </div>
+                    )}
                   </td>
 
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
@@ -562,6 +644,12 @@ export function LinkManagementTable({
                       >
                         編集
                       </button>
+                      <button
+                        onClick={() => setHistoryLink(link)}
+                        className="text-gray-600 hover:text-gray-900"
+                      >
+                        履歴
+                      </button>
                       <button
                         onClick={() => setShowDeleteConfirm(link.id)}
                         className="text-red-600 hover:text-red-900"
@@ -577,6 +665,14 @@ export function LinkManagementTable({
         </table>
       </div>
 
+      {/* Change History */}
+      {historyLink && (
+        <LinkHistoryPanel
+          link={historyLink}
+          onClose={() => setHistoryLink(null)}
+        />
+      )}
+
       {/* Delete Confirmation Modal */}
       {showDeleteConfirm && (
         <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
@@ -602,7 +698,7 @@ export function LinkManagementTable({
               </h3>
               <div className="mt-2 px-7 py-3">
                 <p className="text-sm text-gray-500">
-                  このアフィリエイトリンクを削除しますか？この操作は元に戻せません。
+                  このアフィリエイトリンクをゴミ箱に移動しますか？ゴミ箱から復元できます。
                 </p>
               </div>
               <div className="items-center px-4 py-3">
@@ -650,7 +746,7 @@ export function LinkManagementTable({
               <div className="mt-2 px-7 py-3">
                 <p className="text-sm text-gray-500">
                   選択した{selectedLinks.size}
-                  件のリンクを削除しますか？この操作は取り消せません。
+                  件のリンクをゴミ箱に移動しますか？ゴミ箱から復元できます。
                 </p>
               </div>
               <div className="items-center px-4 py-3">
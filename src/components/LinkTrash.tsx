@@ -0,0 +1,188 @@
+import { useState, useEffect, useCallback } from 'react';
+import { ConfirmDialog } from './ConfirmDialog';
+import { affiliateLinksApi } from '../services';
+import type { TrashedLink } from '../types';
+
+type PendingAction = {
+  kind: 'restore' | 'purge';
+  link: TrashedLink;
+};
+
+interface LinkTrashProps {
+  // Called after a link is restored so the link list can be refreshed
+  onRestore?: () => void;
+}
+
+export function LinkTrash({ onRestore }: LinkTrashProps) {
+  const [links, setLinks] = useState<TrashedLink[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [pendingAction, setPendingAction] = useState<PendingAction | null>(
+    null
+  );
+
+  const loadTrash = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const response = await affiliateLinksApi.getTrashedLinks();
+      if (response.success) {
+        setLinks(response.data);
+      } else {
+        setError('ゴミ箱の読み込みに失敗しました');
+      }
+    } catch (err) {
+      setError('ゴミ箱の読み込み中にエラーが発生しました');
+      console.error('Trash loading error:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTrash();
+  }, [loadTrash]);
+
+  const handleConfirmAction = async () => {
+    if (!pendingAction) return;
+    const { kind, link } = pendingAction;
+
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const response =
+        kind === 'restore'
+          ? await affiliateLinksApi.restoreLink(link.id)
+          : await affiliateLinksApi.purgeLink(link.id);
+      if (response.success) {
+        setLinks((prev) => prev.filter((item) => item.id !== link.id));
+        if (kind === 'restore') onRestore?.();
+      } else {
+        setError(
+          kind === 'restore'
+            ? 'リンクの復元に失敗しました'
+            : 'リンクの完全削除に失敗しました'
+        );
+      }
+    } catch (err) {
+      setError('操作中にエラーが発生しました');
+      console.error('Trash action error:', err);
+    } finally {
+      setIsLoading(false);
+      setPendingAction(null);
+    }
+  };
+
+  const getConfirmProps = (action: PendingAction) =>
+    action.kind === 'restore'
+      ? {
+          title: 'リンクを復元',
+          message: `「${action.link.title}」を復元しますか？リンクは再び公開・リダイレクトされます。`,
+          confirmText: '復元',
+          confirmVariant: 'primary' as const,
+        }
+      : {
+          title: 'リンクを完全に削除',
+          message: `「${action.link.title}」を完全に削除しますか？${action.link.clickCount.toLocaleString()}件のクリック履歴も削除され、この操作は元に戻せません。`,
+          confirmText: '完全に削除',
+          confirmVariant: 'danger' as const,
+        };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-xl font-semibold text-gray-900">ゴミ箱</h2>
+        <p className="text-sm text-gray-600">
+          削除したリンクはクリック履歴を保持したままここに残ります
+        </p>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <p className="text-sm text-red-700">{error}</p>
+        </div>
+      )}
+
+      <div className="bg-white shadow rounded-lg overflow-hidden">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                タイトル
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                クリック数
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                削除日時
+              </th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                操作
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {links.length === 0 ? (
+              <tr>
+                <td
+                  colSpan={4}
+                  className="px-6 py-4 text-center text-sm text-gray-500"
+                >
+                  {isLoading ? '読み込み中...' : 'ゴミ箱は空です'}
+                </td>
+              </tr>
+            ) : (
+              links.map((link) => (
+                <tr key={link.id}>
+                  <td className="px-6 py-4">
+                    <div className="text-sm font-medium text-gray-900 max-w-xs truncate">
+                      {link.title}
+                    </div>
+                    <div className="text-sm text-gray-500 max-w-xs truncate">
+                      {link.url}
+                    </div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {link.clickCount.toLocaleString()} 件
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {link.deletedAt.toLocaleString('ja-JP')}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium space-x-3">
+                    <button
+                      onClick={() =>
+                        setPendingAction({ kind: 'restore', link })
+                      }
+                      className="text-blue-600 hover:text-blue-900"
+                    >
+                      復元
+                    </button>
+                    <button
+                      onClick={() => setPendingAction({ kind: 'purge', link })}
+                      className="text-red-600 hover:text-red-900"
+                    >
+                      完全に削除
+                    </button>
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {pendingAction && (
+        <ConfirmDialog
+          isOpen
+          {...getConfirmProps(pendingAction)}
+          cancelText="キャンセル"
+          onConfirm={handleConfirmAction}
+          onCancel={() => setPendingAction(null)}
+          isLoading={isLoading}
+        />
+      )}
+    </div>
+  );
+}
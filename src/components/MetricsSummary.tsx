@@ -191,14 +191,14 @@ export function ClickMetrics({
 
 interface RevenueMetricsProps {
   totalRevenue: number;
-  estimatedRevenue: number;
+  earningsPerClick: number;
   revenueTrend?: Array<{ date: string; value: number }>;
   loading?: boolean;
 }
 
 export function RevenueMetrics({
   totalRevenue,
-  estimatedRevenue,
+  earningsPerClick,
   revenueTrend,
   loading,
 }: RevenueMetricsProps) {
@@ -211,9 +211,8 @@ export function RevenueMetrics({
       format: 'currency',
     },
     {
-      value: estimatedRevenue,
-      label: 'Estimated Revenue',
-      trend: revenueTrend?.map((d) => ({ ...d, value: d.value * 1.2 })), // Estimated is typically higher
+      value: earningsPerClick,
+      label: 'Earnings Per Click',
       icon: '📈',
       format: 'currency',
     },
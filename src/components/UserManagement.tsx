@@ -0,0 +1,505 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { ConfirmDialog } from './ConfirmDialog';
+import { usePermissions } from './ProtectedRoute';
+import { usersApi } from '../services';
+import type { ApiError } from '../services';
+import { validateAdminUser } from '../utils/validation';
+import type { AdminUser, ManagedAdminUser } from '../types';
+
+type PendingAction = {
+  kind: 'reset' | 'deactivate' | 'delete';
+  user: ManagedAdminUser;
+};
+
+interface InviteFormData {
+  email: string;
+  name: string;
+  role: AdminUser['role'];
+}
+
+const emptyInviteForm: InviteFormData = {
+  email: '',
+  name: '',
+  role: 'editor',
+};
+
+const roleLabels: Record<AdminUser['role'], string> = {
+  admin: '管理者',
+  editor: '編集者',
+};
+
+// The server refuses (409) to remove the last active admin
+const getErrorMessage = (error: ApiError | undefined, fallback: string) =>
+  error?.status === 409
+    ? '最後の管理者を降格・無効化・削除することはできません'
+    : fallback;
+
+export function UserManagement() {
+  const { user: currentUser } = usePermissions();
+  const [users, setUsers] = useState<ManagedAdminUser[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [showInviteForm, setShowInviteForm] = useState(false);
+  const [inviteForm, setInviteForm] = useState<InviteFormData>(emptyInviteForm);
+  const [formErrors, setFormErrors] = useState<string[]>([]);
+  const [pendingAction, setPendingAction] = useState<PendingAction | null>(
+    null
+  );
+  const [temporaryPassword, setTemporaryPassword] = useState<{
+    email: string;
+    password: string;
+  } | null>(null);
+
+  const loadUsers = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const response = await usersApi.getUsers();
+      if (response.success) {
+        setUsers(response.data);
+      } else {
+        setError('ユーザーの読み込みに失敗しました');
+      }
+    } catch (err) {
+      setError('ユーザーの読み込み中にエラーが発生しました');
+      console.error('User loading error:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadUsers();
+  }, [loadUsers]);
+
+  const handleInputChange = (
+    e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>
+  ) => {
+    const { name, value } = e.target;
+    setInviteForm((prev) => ({ ...prev, [name]: value }));
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const validationErrors = validateAdminUser(inviteForm);
+    if (validationErrors.length > 0) {
+      setFormErrors(validationErrors);
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const response = await usersApi.inviteUser({
+        email: inviteForm.email.trim(),
+        name: inviteForm.name.trim(),
+        role: inviteForm.role,
+      });
+      if (response.success) {
+        if (response.data.temporaryPassword) {
+          setTemporaryPassword({
+            email: response.data.user.email,
+            password: response.data.temporaryPassword,
+          });
+        }
+        setShowInviteForm(false);
+        setInviteForm(emptyInviteForm);
+        setFormErrors([]);
+        await loadUsers();
+      } else {
+        setError(
+          response.error?.status === 409
+            ? 'このメールアドレスは既に登録されています'
+            : 'ユーザーの招待に失敗しました'
+        );
+      }
+    } catch (err) {
+      setError('ユーザーの招待中にエラーが発生しました');
+      console.error('User invite error:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRoleChange = async (
+    user: ManagedAdminUser,
+    role: AdminUser['role']
+  ) => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const response = await usersApi.updateUser(user.id, { role });
+      if (response.success) {
+        await loadUsers();
+      } else {
+        setError(getErrorMessage(response.error, '権限の変更に失敗しました'));
+      }
+    } catch (err) {
+      setError('権限の変更中にエラーが発生しました');
+      console.error('User role change error:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleReactivate = async (user: ManagedAdminUser) => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const response = await usersApi.reactivateUser(user.id);
+      if (response.success) {
+        await loadUsers();
+      } else {
+        setError('ユーザーの有効化に失敗しました');
+      }
+    } catch (err) {
+      setError('ユーザーの有効化中にエラーが発生しました');
+      console.error('User reactivate error:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleConfirmAction = async () => {
+    if (!pendingAction) return;
+    const { kind, user } = pendingAction;
+
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      if (kind === 'reset') {
+        const response = await usersApi.resetPassword(user.id);
+        if (response.success && response.data.temporaryPassword) {
+          setTemporaryPassword({
+            email: user.email,
+            password: response.data.temporaryPassword,
+          });
+        } else if (!response.success) {
+          setError('パスワードのリセットに失敗しました');
+        }
+      } else {
+        const response =
+          kind === 'deactivate'
+            ? await usersApi.deactivateUser(user.id)
+            : await usersApi.deleteUser(user.id);
+        if (response.success) {
+          await loadUsers();
+        } else {
+          setError(
+            getErrorMessage(
+              response.error,
+              kind === 'deactivate'
+                ? 'ユーザーの無効化に失敗しました'
+                : 'ユーザーの削除に失敗しました'
+            )
+          );
+        }
+      }
+    } catch (err) {
+      setError('操作中にエラーが発生しました');
+      console.error('User action error:', err);
+    } finally {
+      setIsLoading(false);
+      setPendingAction(null);
+    }
+  };
+
+  const getConfirmProps = (action: PendingAction) => {
+    switch (action.kind) {
+      case 'reset':
+        return {
+          title: 'パスワードをリセット',
+          message: `「${action.user.name}」のパスワードをリセットしますか？一時パスワードが発行され、すべてのセッションがログアウトされます。`,
+          confirmText: 'リセット',
+          confirmVariant: 'warning' as const,
+        };
+      case 'deactivate':
+        return {
+          title: 'ユーザーを無効化',
+          message: `「${action.user.name}」を無効化しますか？このユーザーはログインできなくなります。`,
+          confirmText: '無効化',
+          confirmVariant: 'warning' as const,
+        };
+      case 'delete':
+        return {
+          title: 'ユーザーを削除',
+          message: `「${action.user.name}」を削除しますか？この操作は元に戻せません。`,
+          confirmText: '削除',
+          confirmVariant: 'danger' as const,
+        };
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-semibold text-gray-900">ユーザー管理</h2>
+        <button
+          onClick={() => setShowInviteForm(true)}
+          disabled={isLoading}
+          className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+        >
+          ユーザーを招待
+        </button>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <p className="text-sm text-red-700">{error}</p>
+        </div>
+      )}
+
+      {temporaryPassword && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-md p-4">
+          <p className="text-sm text-yellow-800">
+            {temporaryPassword.email} の一時パスワード:{' '}
+            <code className="font-mono font-semibold">
+              {temporaryPassword.password}
+            </code>
+          </p>
+          <p className="mt-1 text-xs text-yellow-700">
+            このパスワードは再表示されません。ユーザーに安全な方法で伝えてください。
+          </p>
+          <button
+            onClick={() => setTemporaryPassword(null)}
+            className="mt-2 text-sm text-yellow-800 underline"
+          >
+            閉じる
+          </button>
+        </div>
+      )}
+
+      {showInviteForm && (
+        <form
+          onSubmit={handleInvite}
+          className="bg-white shadow rounded-lg p-6 space-y-4"
+        >
+          <h3 className="text-lg font-medium text-gray-900">
+            新しいユーザーを招待
+          </h3>
+
+          {formErrors.length > 0 && (
+            <div className="bg-red-50 border border-red-200 rounded-md p-3">
+              <ul className="list-disc list-inside text-sm text-red-700">
+                {formErrors.map((formError) => (
+                  <li key={formError}>{formError}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label
+                htmlFor="invite-email"
+                className="block text-sm font-medium text-gray-700"
+              >
+                メールアドレス *
+              </label>
+              <input
+                type="email"
+                id="invite-email"
+                name="email"
+                value={inviteForm.email}
+                onChange={handleInputChange}
+                className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+
+            <div>
+              <label
+                htmlFor="invite-name"
+                className="block text-sm font-medium text-gray-700"
+              >
+                名前 *
+              </label>
+              <input
+                type="text"
+                id="invite-name"
+                name="name"
+                value={inviteForm.name}
+                onChange={handleInputChange}
+                className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+
+            <div>
+              <label
+                htmlFor="invite-role"
+                className="block text-sm font-medium text-gray-700"
+              >
+                権限
+              </label>
+              <select
+                id="invite-role"
+                name="role"
+                value={inviteForm.role}
+                onChange={handleInputChange}
+                className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="editor">{roleLabels.editor}</option>
+                <option value="admin">{roleLabels.admin}</option>
+              </select>
+            </div>
+          </div>
+
+          <div className="flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={() => {
+                setShowInviteForm(false);
+                setFormErrors([]);
+              }}
+              className="px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+            >
+              キャンセル
+            </button>
+            <button
+              type="submit"
+              disabled={isLoading}
+              className="px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+            >
+              招待
+            </button>
+          </div>
+        </form>
+      )}
+
+      <div className="bg-white shadow rounded-lg overflow-hidden">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                ユーザー
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                権限
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                ステータス
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                最終ログイン
+              </th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                操作
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {users.length === 0 ? (
+              <tr>
+                <td
+                  colSpan={5}
+                  className="px-6 py-4 text-center text-sm text-gray-500"
+                >
+                  {isLoading ? '読み込み中...' : 'ユーザーがいません'}
+                </td>
+              </tr>
+            ) : (
+              users.map((user) => (
+                <tr key={user.id}>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="text-sm font-medium text-gray-900">
+                      {user.name}
+                      {user.id === currentUser?.id && (
+                        <span className="ml-2 text-xs text-gray-500">
+                          (あなた)
+                        </span>
+                      )}
+                    </div>
+                    <div className="text-sm text-gray-500">{user.email}</div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <label htmlFor={`role-${user.id}`} className="sr-only">
+                      {user.name}の権限
+                    </label>
+                    <select
+                      id={`role-${user.id}`}
+                      value={user.role}
+                      disabled={isLoading}
+                      onChange={(e) =>
+                        handleRoleChange(
+                          user,
+                          e.target.value as AdminUser['role']
+                        )
+                      }
+                      className="border border-gray-300 rounded-md px-2 py-1 text-sm"
+                    >
+                      <option value="editor">{roleLabels.editor}</option>
+                      <option value="admin">{roleLabels.admin}</option>
+                    </select>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <span
+                      className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
+                        user.isActive
+                          ? 'bg-green-100 text-green-800'
+                          : 'bg-gray-100 text-gray-800'
+                      }`}
+                    >
+                      {user.isActive ? '有効' : '無効'}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {user.lastLogin
+                      ? new Date(user.lastLogin).toLocaleString('ja-JP')
+                      : '未ログイン'}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium space-x-3">
+                    <button
+                      onClick={() => setPendingAction({ kind: 'reset', user })}
+                      className="text-blue-600 hover:text-blue-900"
+                    >
+                      パスワードリセット
+                    </button>
+                    {user.isActive ? (
+                      <button
+                        onClick={() =>
+                          setPendingAction({ kind: 'deactivate', user })
+                        }
+                        className="text-yellow-600 hover:text-yellow-900"
+                      >
+                        無効化
+                      </button>
+                    ) : (
+                      <button
+                        onClick={() => handleReactivate(user)}
+                        className="text-green-600 hover:text-green-900"
+                      >
+                        有効化
+                      </button>
+                    )}
+                    <button
+                      onClick={() => setPendingAction({ kind: 'delete', user })}
+                      className="text-red-600 hover:text-red-900"
+                    >
+                      削除
+                    </button>
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {pendingAction && (
+        <ConfirmDialog
+          isOpen
+          {...getConfirmProps(pendingAction)}
+          cancelText="キャンセル"
+          onConfirm={handleConfirmAction}
+          onCancel={() => setPendingAction(null)}
+          isLoading={isLoading}
+        />
+      )}
+    </div>
+  );
+}
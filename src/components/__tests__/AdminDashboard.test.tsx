@@ -14,6 +14,7 @@ vi.mock('../../services', () => ({
     createLink: vi.fn(),
     updateLink: vi.fn(),
     deleteLink: vi.fn(),
+    getLinkHealth: vi.fn(),
   },
 }));
 
@@ -151,6 +152,19 @@ describe('AdminDashboard', () => {
       success: true,
       data: mockLinks,
     });
+    vi.mocked(affiliateLinksApi.getLinkHealth).mockResolvedValue({
+      success: true,
+      data: {
+        summary: {
+          totalLinks: 2,
+          healthy: 0,
+          unhealthy: 0,
+          unchecked: 2,
+          lastCheckedAt: null,
+        },
+        links: [],
+      },
+    });
   });
 
   it('renders dashboard overview by default', async () => {
@@ -180,4 +180,40 @@ describe('AdminLayout', () => {
 
     expect(screen.getByText('editor')).toBeInTheDocument();
   });
+
+  it('should link to the users section for admins', () => {
+    render(
+      <AdminLayout>
+        <div>Test Content</div>
+      </AdminLayout>
+    );
+
+    expect(screen.getByRole('link', { name: 'ユーザー' })).toHaveAttribute(
+      'href',
+      '/admin/users'
+    );
+  });
+
+  it('should hide the users section from editors', () => {
+    vi.mocked(usePermissions).mockReturnValue({
+      user: { ...mockUser, role: 'editor' },
+      isAuthenticated: true,
+      hasRole: vi.fn(),
+      hasAnyRole: vi.fn(),
+      canAccess: vi.fn(),
+    });
+
+    render(
+      <AdminLayout>
+        <div>Test Content</div>
+      </AdminLayout>
+    );
+
+    expect(
+      screen.queryByRole('link', { name: 'ユーザー' })
+    ).not.toBeInTheDocument();
+    expect(
+      screen.getByRole('link', { name: 'ダッシュボード' })
+    ).toBeInTheDocument();
+  });
 });
@@ -8,6 +8,7 @@ vi.mock('../../hooks', () => ({
   useClickAnalytics: vi.fn(),
   useRevenueAnalytics: vi.fn(),
   useLinkPerformance: vi.fn(),
+  useRealTimeAnalytics: vi.fn(),
 }));
 
 import {
@@ -15,6 +16,7 @@ import {
   useClickAnalytics,
   useRevenueAnalytics,
   useLinkPerformance,
+  useRealTimeAnalytics,
 } from '../../hooks';
 
 describe('AnalyticsDashboard', () => {
@@ -50,7 +52,9 @@ describe('AnalyticsDashboard', () => {
 
   const mockRevenueAnalytics = {
     totalRevenue: 2500.5,
-    estimatedRevenue: 3000.0,
+    totalConversions: 100,
+    conversionRate: 6.67,
+    earningsPerClick: 1.67,
     revenueByDate: [
       { date: '2024-01-01', revenue: 100 },
       { date: '2024-01-02', revenue: 150 },
@@ -82,6 +86,24 @@ describe('AnalyticsDashboard', () => {
     },
   ];
 
+  const mockRealTimeAnalytics: ReturnType<typeof useRealTimeAnalytics> = {
+    realTimeData: {
+      activeUsers: 3,
+      clicksToday: 42,
+      revenueToday: 12.5,
+      topLinksToday: [],
+    },
+    isLive: true,
+    liveClicks: [],
+    minuteAggregates: [
+      { minute: '2024-01-02T10:00:00.000Z', valid: 4, bot: 1, duplicate: 0 },
+      { minute: '2024-01-02T10:01:00.000Z', valid: 3, bot: 0, duplicate: 2 },
+    ],
+    loading: false,
+    error: null,
+    refetch: vi.fn(),
+  };
+
   beforeEach(() => {
     vi.clearAllMocks();
 
@@ -109,6 +131,8 @@ describe('AnalyticsDashboard', () => {
       loading: false,
       refetch: vi.fn(),
     });
+
+    vi.mocked(useRealTimeAnalytics).mockReturnValue(mockRealTimeAnalytics);
   });
 
   it('should render dashboard with analytics data', () => {
@@ -260,6 +284,55 @@ describe('AnalyticsDashboard', () => {
     expect(screen.getByText('$0.00')).toBeInTheDocument(); // Total revenue
   });
 
+  it('should show live clicks as they arrive', () => {
+    vi.mocked(useRealTimeAnalytics).mockReturnValue({
+      ...mockRealTimeAnalytics,
+      liveClicks: [
+        {
+          id: 'click-2',
+          linkId: '2',
+          title: 'Streamed Link',
+          timestamp: '2024-01-02T10:01:30.000Z',
+          classification: 'bot',
+          variant: null,
+          countryCode: 'JP',
+        },
+        {
+          id: 'click-1',
+          linkId: '1',
+          title: null,
+          timestamp: '2024-01-02T10:01:10.000Z',
+          classification: 'valid',
+          variant: 'merchant-b',
+          countryCode: null,
+        },
+      ],
+    });
+
+    render(<AnalyticsDashboard />);
+
+    expect(screen.getByText('ライブクリック')).toBeInTheDocument();
+    expect(screen.getByText('ライブ')).toBeInTheDocument();
+    expect(screen.getByText('42')).toBeInTheDocument();
+    expect(screen.getByText('7')).toBeInTheDocument(); // Valid clicks, last 5 min
+    expect(screen.getByText('Streamed Link')).toBeInTheDocument();
+    expect(screen.getByText('ボット')).toBeInTheDocument();
+    expect(screen.getByText('リンク 1')).toBeInTheDocument();
+    expect(screen.getByText('merchant-b')).toBeInTheDocument();
+  });
+
+  it('should show when live clicks fall back to polling', () => {
+    vi.mocked(useRealTimeAnalytics).mockReturnValue({
+      ...mockRealTimeAnalytics,
+      isLive: false,
+    });
+
+    render(<AnalyticsDashboard />);
+
+    expect(screen.getByText('定期更新')).toBeInTheDocument();
+    expect(screen.getByText('クリックを待っています…')).toBeInTheDocument();
+  });
+
   it('should apply custom className', () => {
     const { container } = render(
       <AnalyticsDashboard className="custom-class" />
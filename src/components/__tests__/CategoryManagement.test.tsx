@@ -0,0 +1,201 @@
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+import { CategoryManagement } from '../CategoryManagement';
+import type { Category } from '../../types';
+
+const mockCategories: Category[] = [
+  {
+    id: '1',
+    name: 'Web Development',
+    slug: 'web-dev',
+    description: 'Tools for web developers',
+    color: '#3B82F6',
+    linkCount: 3,
+  },
+  {
+    id: '2',
+    name: 'Design Tools',
+    slug: 'design',
+    description: 'Tools for designers',
+    color: '#EF4444',
+    linkCount: 0,
+  },
+];
+
+describe('CategoryManagement', () => {
+  const mockOnCreate = vi.fn();
+  const mockOnUpdate = vi.fn();
+  const mockOnDelete = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockOnCreate.mockResolvedValue(null);
+    mockOnUpdate.mockResolvedValue(null);
+    mockOnDelete.mockResolvedValue(null);
+  });
+
+  const renderComponent = () =>
+    render(
+      <CategoryManagement
+        categories={mockCategories}
+        onCreate={mockOnCreate}
+        onUpdate={mockOnUpdate}
+        onDelete={mockOnDelete}
+      />
+    );
+
+  it('renders categories with their link counts', () => {
+    renderComponent();
+
+    expect(screen.getByText('Web Development')).toBeInTheDocument();
+    expect(screen.getByText('Design Tools')).toBeInTheDocument();
+    expect(screen.getByText('web-dev')).toBeInTheDocument();
+    expect(screen.getByText('3')).toBeInTheDocument();
+  });
+
+  it('generates the slug from the name and creates a category', async () => {
+    const user = userEvent.setup();
+    renderComponent();
+
+    await user.click(screen.getByText('新しいカテゴリを追加'));
+    await user.type(screen.getByLabelText('名前 *'), 'Cloud Hosting');
+    await user.type(screen.getByLabelText('説明 *'), 'Hosting providers');
+
+    expect(screen.getByLabelText('スラッグ *')).toHaveValue('cloud-hosting');
+
+    await user.click(screen.getByRole('button', { name: '作成' }));
+
+    await waitFor(() => {
+      expect(mockOnCreate).toHaveBeenCalledWith({
+        name: 'Cloud Hosting',
+        slug: 'cloud-hosting',
+        description: 'Hosting providers',
+        color: '#3B82F6',
+        icon: undefined,
+      });
+    });
+  });
+
+  it('keeps the form open when saving fails', async () => {
+    const user = userEvent.setup();
+    mockOnCreate.mockResolvedValue({
+      message: 'HTTP 409: Conflict',
+      status: 409,
+    });
+    renderComponent();
+
+    await user.click(screen.getByText('新しいカテゴリを追加'));
+    await user.type(screen.getByLabelText('名前 *'), 'Cloud Hosting');
+    await user.type(screen.getByLabelText('説明 *'), 'Hosting providers');
+    await user.click(screen.getByRole('button', { name: '作成' }));
+
+    await waitFor(() => {
+      expect(mockOnCreate).toHaveBeenCalled();
+    });
+    expect(screen.getByLabelText('名前 *')).toHaveValue('Cloud Hosting');
+  });
+
+  it('shows validation errors and does not submit invalid data', async () => {
+    const user = userEvent.setup();
+    renderComponent();
+
+    await user.click(screen.getByText('新しいカテゴリを追加'));
+    await user.type(screen.getByLabelText('名前 *'), 'Cloud');
+    await user.clear(screen.getByLabelText('カラー *'));
+    await user.type(screen.getByLabelText('カラー *'), 'blue');
+    await user.click(screen.getByRole('button', { name: '作成' }));
+
+    expect(
+      screen.getByText('Category description is required')
+    ).toBeInTheDocument();
+    expect(
+      screen.getByText('Category color must be a valid hex color code')
+    ).toBeInTheDocument();
+    expect(mockOnCreate).not.toHaveBeenCalled();
+  });
+
+  it('keeps the existing slug when editing a category', async () => {
+    const user = userEvent.setup();
+    renderComponent();
+
+    await user.click(screen.getAllByText('編集')[0]);
+    await user.type(screen.getByLabelText('名前 *'), ' Tools');
+
+    expect(screen.getByLabelText('スラッグ *')).toHaveValue('web-dev');
+
+    await user.click(screen.getByRole('button', { name: '更新' }));
+
+    await waitFor(() => {
+      expect(mockOnUpdate).toHaveBeenCalledWith(
+        '1',
+        expect.objectContaining({
+          name: 'Web Development Tools',
+          slug: 'web-dev',
+        })
+      );
+    });
+  });
+
+  it('requires a reassignment category before deleting a category with links', async () => {
+    const user = userEvent.setup();
+    renderComponent();
+
+    await user.click(screen.getAllByText('削除')[0]);
+
+    const confirmButton = screen
+      .getAllByRole('button', { name: '削除' })
+      .pop()!;
+    expect(confirmButton).toBeDisabled();
+
+    await user.selectOptions(screen.getByLabelText('移動先カテゴリ'), '2');
+    expect(confirmButton).toBeEnabled();
+
+    await user.click(confirmButton);
+
+    await waitFor(() => {
+      expect(mockOnDelete).toHaveBeenCalledWith('1', '2');
+    });
+  });
+
+  it('deletes an empty category without reassignment', async () => {
+    const user = userEvent.setup();
+    renderComponent();
+
+    await user.click(screen.getAllByText('削除')[1]);
+
+    expect(screen.queryByLabelText('移動先カテゴリ')).not.toBeInTheDocument();
+
+    await user.click(screen.getAllByRole('button', { name: '削除' }).pop()!);
+
+    await waitFor(() => {
+      expect(mockOnDelete).toHaveBeenCalledWith('2', undefined);
+    });
+  });
+
+  it('asks for a reassignment category when the server reports hidden links', async () => {
+    const user = userEvent.setup();
+    mockOnDelete.mockResolvedValueOnce({
+      message: 'HTTP 409: Conflict',
+      status: 409,
+      details: { link_count: 2 },
+    });
+    renderComponent();
+
+    await user.click(screen.getAllByText('削除')[1]);
+    await user.click(screen.getAllByRole('button', { name: '削除' }).pop()!);
+
+    await user.selectOptions(
+      await screen.findByLabelText('移動先カテゴリ'),
+      '1'
+    );
+    expect(screen.getByText(/2\s*件のリンク/)).toBeInTheDocument();
+
+    await user.click(screen.getAllByRole('button', { name: '削除' }).pop()!);
+
+    await waitFor(() => {
+      expect(mockOnDelete).toHaveBeenLastCalledWith('2', '1');
+    });
+    expect(screen.queryByLabelText('移動先カテゴリ')).not.toBeInTheDocument();
+  });
+});
@@ -392,10 +392,179 @@ describe('LinkForm', () => {
         imageUrl: undefined,
         commissionRate: 5.5,
         featured: true,
+        slug: 'test-affiliate-link',
       });
     });
   });
 
+  it('generates the short link slug from the title until it is edited', async () => {
+    const user = userEvent.setup();
+
+    render(<LinkForm onSubmit={mockOnSubmit} onCancel={mockOnCancel} />);
+
+    const titleInput = screen.getByLabelText(/タイトル/);
+    const slugInput = screen.getByLabelText('短縮URLスラッグ');
+
+    await user.type(titleInput, 'Summer Sale 2024!');
+    expect(slugInput).toHaveValue('summer-sale-2024');
+
+    await user.clear(slugInput);
+    await user.type(slugInput, 'sale');
+    await user.type(titleInput, ' Extra');
+    expect(slugInput).toHaveValue('sale');
+  });
+
+  it('keeps the slug of an existing link', async () => {
+    const user = userEvent.setup();
+
+    render(
+      <LinkForm
+        link={{ ...mockAffiliateLink, slug: 'test-link' }}
+        onSubmit={mockOnSubmit}
+        onCancel={mockOnCancel}
+      />
+    );
+
+    const slugInput = screen.getByLabelText('短縮URLスラッグ');
+    await waitFor(() => {
+      expect(slugInput).toHaveValue('test-link');
+    });
+
+    await user.type(screen.getByLabelText(/タイトル/), ' Renamed');
+    expect(slugInput).toHaveValue('test-link');
+  });
+
+  it('validates the slug format', async () => {
+    const user = userEvent.setup();
+
+    render(<LinkForm onSubmit={mockOnSubmit} onCancel={mockOnCancel} />);
+
+    await user.type(screen.getByLabelText('短縮URLスラッグ'), 'Not A Slug');
+    await user.click(screen.getByRole('button', { name: /作成|保存/ }));
+
+    expect(
+      await screen.findByText(
+        'スラッグは半角英小文字・数字・ハイフンのみで入力してください'
+      )
+    ).toBeInTheDocument();
+    expect(mockOnSubmit).not.toHaveBeenCalled();
+  });
+
+  it('previews the destination URL with the link template filled in', async () => {
+    const user = userEvent.setup();
+
+    render(
+      <LinkForm
+        link={mockAffiliateLink}
+        onSubmit={mockOnSubmit}
+        onCancel={mockOnCancel}
+      />
+    );
+
+    await user.click(screen.getByLabelText('URLテンプレート'));
+    await user.paste('{affiliate_url}&subid={click_id}&src={utm_source}');
+
+    expect(screen.getByTestId('destination-preview')).toHaveTextContent(
+      'https://affiliate.example.com/ref=123?subid=9b2f6c1e-4a7d-4f3b-8e21-5d6c7b8a9f00&src=newsletter'
+    );
+  });
+
+  it("falls back to the category's URL template in the preview", async () => {
+    vi.mocked(categoriesApi.getAllCategories).mockResolvedValue({
+      success: true,
+      data: [
+        { ...mockCategories[0], urlTemplate: '{affiliate_url}&l={link_id}' },
+      ],
+    });
+
+    render(
+      <LinkForm
+        link={mockAffiliateLink}
+        onSubmit={mockOnSubmit}
+        onCancel={mockOnCancel}
+      />
+    );
+
+    const preview = await screen.findByText(
+      'https://affiliate.example.com/ref=123?l=1'
+    );
+    expect(preview.parentElement).toHaveTextContent(
+      'カテゴリのテンプレートを使用'
+    );
+  });
+
+  it('submits weighted A/B destinations', async () => {
+    const user = userEvent.setup();
+
+    render(
+      <LinkForm
+        link={mockAffiliateLink}
+        onSubmit={mockOnSubmit}
+        onCancel={mockOnCancel}
+      />
+    );
+
+    await user.click(screen.getByRole('button', { name: '＋ 遷移先を追加' }));
+    await user.click(screen.getByRole('button', { name: '＋ 遷移先を追加' }));
+    await user.type(
+      screen.getByLabelText('遷移先URL 1'),
+      'https://merchant-a.example.com'
+    );
+    await user.type(
+      screen.getByLabelText('遷移先URL 2'),
+      'https://merchant-b.example.com'
+    );
+    await user.clear(screen.getByLabelText('重み 2'));
+    await user.type(screen.getByLabelText('重み 2'), '25');
+    await user.click(
+      screen.getByLabelText('同じセッションには同じ遷移先を表示する')
+    );
+    await user.click(screen.getByRole('button', { name: /作成|保存|更新/ }));
+
+    await waitFor(() => {
+      expect(mockOnSubmit).toHaveBeenCalledWith(
+        expect.objectContaining({
+          destinations: [
+            { variant: 'a', url: 'https://merchant-a.example.com', weight: 50 },
+            { variant: 'b', url: 'https://merchant-b.example.com', weight: 25 },
+          ],
+          stickyDestinations: true,
+        })
+      );
+    });
+  });
+
+  it('rejects duplicate destination variants', async () => {
+    const user = userEvent.setup();
+
+    render(
+      <LinkForm
+        link={{
+          ...mockAffiliateLink,
+          destinations: [
+            { variant: 'a', url: 'https://merchant-a.example.com', weight: 1 },
+          ],
+        }}
+        onSubmit={mockOnSubmit}
+        onCancel={mockOnCancel}
+      />
+    );
+
+    await user.click(screen.getByRole('button', { name: '＋ 遷移先を追加' }));
+    await user.clear(screen.getByLabelText('バリアント名 2'));
+    await user.type(screen.getByLabelText('バリアント名 2'), 'a');
+    await user.type(
+      screen.getByLabelText('遷移先URL 2'),
+      'https://merchant-b.example.com'
+    );
+    await user.click(screen.getByRole('button', { name: /作成|保存|更新/ }));
+
+    expect(
+      await screen.findByText('バリアント名が重複しています')
+    ).toBeInTheDocument();
+    expect(mockOnSubmit).not.toHaveBeenCalled();
+  });
+
   it('calls onCancel when cancel button is clicked', async () => {
     const user = userEvent.setup();
 
@@ -0,0 +1,114 @@
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+import { LinkImportWizard } from '../LinkImportWizard';
+import { affiliateLinksApi } from '../../services';
+import type { LinkImportReport } from '../../types';
+
+vi.mock('../../services', () => ({
+  affiliateLinksApi: {
+    importLinks: vi.fn(),
+  },
+}));
+
+const csv = 'title,url\nGood,https://example.com\nBad,nope';
+
+const invalidReport: LinkImportReport = {
+  dryRun: true,
+  total: 2,
+  valid: 1,
+  invalid: 1,
+  rows: [
+    { row: 1, status: 'valid', title: 'Good', errors: [] },
+    {
+      row: 2,
+      status: 'invalid',
+      title: 'Bad',
+      errors: [{ field: 'url', message: 'URL must be a valid URL' }],
+    },
+  ],
+};
+
+const validReport: LinkImportReport = {
+  dryRun: true,
+  total: 1,
+  valid: 1,
+  invalid: 0,
+  rows: [{ row: 1, status: 'valid', title: 'Good', errors: [] }],
+};
+
+describe('LinkImportWizard', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('shows row errors inline and blocks the import', async () => {
+    vi.mocked(affiliateLinksApi.importLinks).mockResolvedValue({
+      success: true,
+      data: invalidReport,
+    });
+    const user = userEvent.setup();
+
+    render(<LinkImportWizard />);
+
+    await user.type(screen.getByLabelText('または内容を貼り付け'), csv);
+    await user.click(screen.getByRole('button', { name: '内容を検証' }));
+
+    expect(affiliateLinksApi.importLinks).toHaveBeenCalledWith({ csv }, true);
+    expect(
+      await screen.findByText(': URL must be a valid URL', { exact: false })
+    ).toBeInTheDocument();
+    expect(screen.getByText('エラー 1行')).toBeInTheDocument();
+    expect(
+      screen.getByRole('button', { name: '1件をインポート' })
+    ).toBeDisabled();
+  });
+
+  it('imports after a clean dry run', async () => {
+    vi.mocked(affiliateLinksApi.importLinks)
+      .mockResolvedValueOnce({ success: true, data: validReport })
+      .mockResolvedValueOnce({
+        success: true,
+        data: { ...validReport, dryRun: false, created: 1 },
+      });
+    const onComplete = vi.fn();
+    const user = userEvent.setup();
+
+    render(<LinkImportWizard onComplete={onComplete} />);
+
+    await user.type(
+      screen.getByLabelText('または内容を貼り付け'),
+      'title,url\nGood,https://example.com'
+    );
+    await user.click(screen.getByRole('button', { name: '内容を検証' }));
+    await user.click(
+      await screen.findByRole('button', { name: '1件をインポート' })
+    );
+
+    await waitFor(() => {
+      expect(affiliateLinksApi.importLinks).toHaveBeenLastCalledWith(
+        { csv: 'title,url\nGood,https://example.com' },
+        false
+      );
+    });
+    expect(
+      await screen.findByText('1件のリンクをインポートしました')
+    ).toBeInTheDocument();
+    expect(onComplete).toHaveBeenCalled();
+  });
+
+  it('rejects malformed JSON before calling the API', async () => {
+    const user = userEvent.setup();
+
+    render(<LinkImportWizard />);
+
+    await user.click(screen.getByLabelText('JSON'));
+    await user.type(screen.getByLabelText('または内容を貼り付け'), 'not json');
+    await user.click(screen.getByRole('button', { name: '内容を検証' }));
+
+    expect(
+      screen.getByText('JSONの形式が正しくありません')
+    ).toBeInTheDocument();
+    expect(affiliateLinksApi.importLinks).not.toHaveBeenCalled();
+  });
+});
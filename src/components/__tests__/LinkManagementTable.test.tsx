@@ -1,9 +1,16 @@
-import { render, screen, fireEvent } from '@testing-library/react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { vi, describe, it, expect, beforeEach } from 'vitest';
 import { LinkManagementTable } from '../LinkManagementTable';
+import { auditApi } from '../../services';
 import type { AffiliateLink } from '../../types';
 
+vi.mock('../../services', () => ({
+  auditApi: {
+    getLinkHistory: vi.fn(),
+  },
+}));
+
 const mockLinks: AffiliateLink[] = [
   {
     id: '1',
@@ -175,6 +182,91 @@ describe('LinkManagementTable', () => {
     expect(screen.queryByText('Test Link 3')).not.toBeInTheDocument();
   });
 
+  it('filters links by publish window', async () => {
+    const user = userEvent.setup();
+    // Sorting reorders the shared fixture, so match links by id
+    const scheduledLinks: AffiliateLink[] = mockLinks.map((link) =>
+      link.id === '2'
+        ? { ...link, publishAt: new Date(Date.now() + 86400000) }
+        : link.id === '3'
+          ? { ...link, expiresAt: new Date(Date.now() - 86400000) }
+          : link
+    );
+
+    render(
+      <LinkManagementTable
+        links={scheduledLinks}
+        onEdit={mockOnEdit}
+        onDelete={mockOnDelete}
+      />
+    );
+
+    expect(screen.getByText(/\d+.* 公開予定$/)).toBeInTheDocument();
+
+    await user.selectOptions(screen.getByLabelText('公開期間'), 'expired');
+
+    expect(screen.queryByText('Test Link 1')).not.toBeInTheDocument();
+    expect(screen.queryByText('Test Link 2')).not.toBeInTheDocument();
+    expect(screen.getByText('Test Link 3')).toBeInTheDocument();
+
+    await user.selectOptions(screen.getByLabelText('公開期間'), 'scheduled');
+
+    expect(screen.getByText('Test Link 2')).toBeInTheDocument();
+    expect(screen.queryByText('Test Link 3')).not.toBeInTheDocument();
+  });
+
+  it('shows a health badge for checked links', () => {
+    const checkedAt = new Date('2024-01-20T10:00:00Z');
+
+    render(
+      <LinkManagementTable
+        links={mockLinks}
+        onEdit={mockOnEdit}
+        onDelete={mockOnDelete}
+        health={{
+          '1': {
+            linkId: '1',
+            healthy: true,
+            checks: [
+              {
+                target: 'url',
+                statusCode: 200,
+                finalUrl: 'https://example1.com/',
+                error: null,
+                healthy: true,
+                consecutiveFailures: 0,
+                checkedAt,
+              },
+            ],
+          },
+          '2': {
+            linkId: '2',
+            healthy: false,
+            checks: [
+              {
+                target: 'affiliate_url',
+                statusCode: 404,
+                finalUrl: 'https://affiliate2.example.com/missing',
+                error: null,
+                healthy: false,
+                consecutiveFailures: 3,
+                checkedAt,
+              },
+            ],
+          },
+        }}
+      />
+    );
+
+    expect(screen.getByText('リンク正常')).toBeInTheDocument();
+    expect(screen.getByText('リンク切れ')).toHaveAttribute(
+      'title',
+      expect.stringContaining('アフィリエイトURL: エラー 404')
+    );
+    // Link 3 has not been checked yet
+    expect(screen.getAllByText(/^リンク(正常|切れ)$/)).toHaveLength(2);
+  });
+
   it('filters links by category', async () => {
     const user = userEvent.setup();
 
@@ -296,7 +388,7 @@ describe('LinkManagementTable', () => {
     expect(screen.getByText('リンクを削除')).toBeInTheDocument();
     expect(
       screen.getByText(
-        'このアフィリエイトリンクを削除しますか？この操作は元に戻せません。'
+        'このアフィリエイトリンクをゴミ箱に移動しますか？ゴミ箱から復元できます。'
       )
     ).toBeInTheDocument();
   });
@@ -368,7 +460,7 @@ describe('LinkManagementTable', () => {
     expect(screen.getByText('複数のリンクを削除')).toBeInTheDocument();
     expect(
       screen.getByText(
-        '選択した2件のリンクを削除しますか？この操作は取り消せません。'
+        '選択した2件のリンクをゴミ箱に移動しますか？ゴミ箱から復元できます。'
       )
     ).toBeInTheDocument();
 
@@ -484,4 +576,84 @@ describe('LinkManagementTable', () => {
     // Commission rate should be visible in the link details or tooltip
     expect(screen.getByText('Test Link 1')).toBeInTheDocument();
   });
+
+  it('shows who changed a link in the history panel', async () => {
+    vi.mocked(auditApi.getLinkHistory).mockResolvedValue({
+      success: true,
+      data: {
+        events: [
+          {
+            id: 'event-2',
+            actorId: 'user-2',
+            actorEmail: 'editor@example.com',
+            action: 'update',
+            entityType: 'link',
+            entityId: '1',
+            diff: {
+              status: { from: 'active', to: 'inactive' },
+            },
+            metadata: null,
+            createdAt: new Date('2024-01-02T00:00:00Z'),
+          },
+          {
+            id: 'event-1',
+            actorId: null,
+            actorEmail: null,
+            action: 'create',
+            entityType: 'link',
+            entityId: '1',
+            diff: { title: { from: null, to: 'Test Link 1' } },
+            metadata: null,
+            createdAt: new Date('2024-01-01T00:00:00Z'),
+          },
+        ],
+        total: 2,
+        hasMore: false,
+      },
+    });
+    const user = userEvent.setup();
+
+    render(
+      <LinkManagementTable
+        links={mockLinks}
+        onEdit={mockOnEdit}
+        onDelete={mockOnDelete}
+      />
+    );
+
+    await user.click(screen.getAllByText('履歴')[0]);
+
+    expect(await screen.findByText('editor@example.com')).toBeInTheDocument();
+    expect(screen.getByText('削除されたユーザー')).toBeInTheDocument();
+    expect(screen.getByText('active')).toBeInTheDocument();
+    expect(screen.getByText('inactive')).toBeInTheDocument();
+  });
+
+  it('reports when history cannot be loaded', async () => {
+    vi.mocked(auditApi.getLinkHistory).mockResolvedValue({
+      success: false,
+      data: { events: [], total: 0, hasMore: false },
+      error: { message: 'HTTP 403', status: 403 },
+    });
+    const user = userEvent.setup();
+
+    render(
+      <LinkManagementTable
+        links={mockLinks}
+        onEdit={mockOnEdit}
+        onDelete={mockOnDelete}
+      />
+    );
+
+    await user.click(screen.getAllByText('履歴')[0]);
+
+    await waitFor(() => {
+      expect(
+        screen.getByText('履歴の読み込みに失敗しました')
+      ).toBeInTheDocument();
+    });
+
+    await user.click(screen.getByLabelText('閉じる'));
+    expect(screen.queryByText('変更履歴')).not.toBeInTheDocument();
+  });
 });
@@ -0,0 +1,107 @@
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+import { LinkTrash } from '../LinkTrash';
+import { affiliateLinksApi } from '../../services';
+import type { TrashedLink } from '../../types';
+
+vi.mock('../../services', () => ({
+  affiliateLinksApi: {
+    getTrashedLinks: vi.fn(),
+    restoreLink: vi.fn(),
+    purgeLink: vi.fn(),
+  },
+}));
+
+const mockTrashedLinks: TrashedLink[] = [
+  {
+    id: '1',
+    title: 'Deleted Link',
+    url: 'https://example.com',
+    clickCount: 1234,
+    deletedAt: new Date('2024-01-20T10:00:00Z'),
+  },
+];
+
+describe('LinkTrash', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(affiliateLinksApi.getTrashedLinks).mockResolvedValue({
+      success: true,
+      data: mockTrashedLinks,
+    });
+  });
+
+  it('lists trashed links with their click history', async () => {
+    render(<LinkTrash />);
+
+    expect(await screen.findByText('Deleted Link')).toBeInTheDocument();
+    expect(screen.getByText('1,234 件')).toBeInTheDocument();
+  });
+
+  it('shows an empty state', async () => {
+    vi.mocked(affiliateLinksApi.getTrashedLinks).mockResolvedValue({
+      success: true,
+      data: [],
+    });
+
+    render(<LinkTrash />);
+
+    expect(await screen.findByText('ゴミ箱は空です')).toBeInTheDocument();
+  });
+
+  it('restores a link after confirmation', async () => {
+    vi.mocked(affiliateLinksApi.restoreLink).mockResolvedValue({
+      success: true,
+      data: { success: true },
+    });
+    const onRestore = vi.fn();
+    const user = userEvent.setup();
+
+    render(<LinkTrash onRestore={onRestore} />);
+
+    await user.click(await screen.findByRole('button', { name: '復元' }));
+    expect(screen.getByText('リンクを復元')).toBeInTheDocument();
+    await user.click(screen.getAllByRole('button', { name: '復元' }).at(-1)!);
+
+    await waitFor(() => {
+      expect(affiliateLinksApi.restoreLink).toHaveBeenCalledWith('1');
+    });
+    expect(onRestore).toHaveBeenCalled();
+    expect(screen.queryByText('Deleted Link')).not.toBeInTheDocument();
+  });
+
+  it('warns that purging removes click history', async () => {
+    vi.mocked(affiliateLinksApi.purgeLink).mockResolvedValue({
+      success: true,
+      data: { success: true },
+    });
+    const user = userEvent.setup();
+
+    render(<LinkTrash />);
+
+    await user.click(await screen.findByRole('button', { name: '完全に削除' }));
+    expect(
+      screen.getByText(/1,234件のクリック履歴も削除され/)
+    ).toBeInTheDocument();
+    await user.click(
+      screen.getAllByRole('button', { name: '完全に削除' }).at(-1)!
+    );
+
+    await waitFor(() => {
+      expect(affiliateLinksApi.purgeLink).toHaveBeenCalledWith('1');
+    });
+  });
+
+  it('does nothing when the confirmation is cancelled', async () => {
+    const user = userEvent.setup();
+
+    render(<LinkTrash />);
+
+    await user.click(await screen.findByRole('button', { name: '完全に削除' }));
+    await user.click(screen.getByRole('button', { name: 'キャンセル' }));
+
+    expect(affiliateLinksApi.purgeLink).not.toHaveBeenCalled();
+    expect(screen.getByText('Deleted Link')).toBeInTheDocument();
+  });
+});
@@ -149,7 +149,7 @@ describe('RevenueMetrics', () => {
     render(
       <RevenueMetrics
         totalRevenue={2500.5}
-        estimatedRevenue={3000.0}
+        earningsPerClick={1.25}
         revenueTrend={mockRevenueTrend}
       />
     );
@@ -158,8 +158,8 @@ describe('RevenueMetrics', () => {
     expect(screen.getByText('$2,500.5')).toBeInTheDocument();
     expect(screen.getByText('💰')).toBeInTheDocument();
 
-    expect(screen.getByText('Estimated Revenue')).toBeInTheDocument();
-    expect(screen.getByText('$3,000')).toBeInTheDocument();
+    expect(screen.getByText('Earnings Per Click')).toBeInTheDocument();
+    expect(screen.getByText('$1.25')).toBeInTheDocument();
     expect(screen.getByText('📈')).toBeInTheDocument();
   });
 
@@ -167,7 +167,7 @@ describe('RevenueMetrics', () => {
     render(
       <RevenueMetrics
         totalRevenue={2500}
-        estimatedRevenue={3000}
+        earningsPerClick={1.25}
         loading={true}
       />
     );
@@ -0,0 +1,190 @@
+import { render, screen, waitFor, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+import { UserManagement } from '../UserManagement';
+import { usePermissions } from '../ProtectedRoute';
+import { usersApi } from '../../services';
+import type { ManagedAdminUser } from '../../types';
+
+vi.mock('../ProtectedRoute', () => ({
+  usePermissions: vi.fn(),
+}));
+
+vi.mock('../../services', () => ({
+  usersApi: {
+    getUsers: vi.fn(),
+    inviteUser: vi.fn(),
+    updateUser: vi.fn(),
+    resetPassword: vi.fn(),
+    deactivateUser: vi.fn(),
+    reactivateUser: vi.fn(),
+    deleteUser: vi.fn(),
+  },
+}));
+
+const mockUsers: ManagedAdminUser[] = [
+  {
+    id: '1',
+    email: 'admin@example.com',
+    name: 'Admin User',
+    role: 'admin',
+    isActive: true,
+    lastLogin: new Date('2024-01-20T10:00:00Z'),
+    createdAt: new Date('2024-01-01T00:00:00Z'),
+  },
+  {
+    id: '2',
+    email: 'editor@example.com',
+    name: 'Editor User',
+    role: 'editor',
+    isActive: false,
+    lastLogin: new Date('2024-01-18T10:00:00Z'),
+    createdAt: new Date('2024-01-02T00:00:00Z'),
+  },
+];
+
+describe('UserManagement', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(usePermissions).mockReturnValue({
+      user: mockUsers[0],
+      isAuthenticated: true,
+      hasRole: vi.fn(),
+      hasAnyRole: vi.fn(),
+      canAccess: vi.fn(),
+    });
+    vi.mocked(usersApi.getUsers).mockResolvedValue({
+      data: mockUsers,
+      success: true,
+    });
+  });
+
+  it('lists users with their role and status', async () => {
+    render(<UserManagement />);
+
+    expect(await screen.findByText('Editor User')).toBeInTheDocument();
+    expect(screen.getByText('admin@example.com')).toBeInTheDocument();
+    expect(screen.getByText('(あなた)')).toBeInTheDocument();
+    expect(screen.getByLabelText('Editor Userの権限')).toHaveValue('editor');
+    expect(screen.getByText('無効')).toBeInTheDocument();
+  });
+
+  it('invites a user and shows the temporary password', async () => {
+    const user = userEvent.setup();
+    vi.mocked(usersApi.inviteUser).mockResolvedValue({
+      data: {
+        user: { ...mockUsers[1], id: '3', email: 'new@example.com' },
+        temporaryPassword: 'temp-pass-123',
+      },
+      success: true,
+    });
+
+    render(<UserManagement />);
+    await screen.findByText('Editor User');
+
+    await user.click(screen.getByText('ユーザーを招待'));
+    await user.type(
+      screen.getByLabelText('メールアドレス *'),
+      'new@example.com'
+    );
+    await user.type(screen.getByLabelText('名前 *'), 'New Editor');
+    await user.click(screen.getByRole('button', { name: '招待' }));
+
+    await waitFor(() => {
+      expect(usersApi.inviteUser).toHaveBeenCalledWith({
+        email: 'new@example.com',
+        name: 'New Editor',
+        role: 'editor',
+      });
+    });
+    expect(await screen.findByText('temp-pass-123')).toBeInTheDocument();
+  });
+
+  it('validates the invite form', async () => {
+    const user = userEvent.setup();
+    render(<UserManagement />);
+    await screen.findByText('Editor User');
+
+    await user.click(screen.getByText('ユーザーを招待'));
+    await user.click(screen.getByRole('button', { name: '招待' }));
+
+    expect(screen.getByText('Valid email is required')).toBeInTheDocument();
+    expect(usersApi.inviteUser).not.toHaveBeenCalled();
+  });
+
+  it('changes a user role', async () => {
+    const user = userEvent.setup();
+    vi.mocked(usersApi.updateUser).mockResolvedValue({
+      data: { ...mockUsers[1], role: 'admin' },
+      success: true,
+    });
+
+    render(<UserManagement />);
+    await user.selectOptions(
+      await screen.findByLabelText('Editor Userの権限'),
+      'admin'
+    );
+
+    await waitFor(() => {
+      expect(usersApi.updateUser).toHaveBeenCalledWith('2', { role: 'admin' });
+    });
+  });
+
+  it('explains when the last admin cannot be demoted', async () => {
+    const user = userEvent.setup();
+    vi.mocked(usersApi.updateUser).mockResolvedValue({
+      data: null as unknown as ManagedAdminUser,
+      success: false,
+      error: { message: 'HTTP 409: Conflict', status: 409 },
+    });
+
+    render(<UserManagement />);
+    await user.selectOptions(
+      await screen.findByLabelText('Admin Userの権限'),
+      'editor'
+    );
+
+    expect(
+      await screen.findByText(
+        '最後の管理者を降格・無効化・削除することはできません'
+      )
+    ).toBeInTheDocument();
+  });
+
+  it('deactivates a user after confirmation', async () => {
+    const user = userEvent.setup();
+    vi.mocked(usersApi.deactivateUser).mockResolvedValue({
+      data: { ...mockUsers[0], isActive: false },
+      success: true,
+    });
+
+    render(<UserManagement />);
+    const row = (await screen.findByText('admin@example.com')).closest('tr')!;
+    await user.click(within(row).getByText('無効化'));
+
+    expect(usersApi.deactivateUser).not.toHaveBeenCalled();
+    expect(screen.getByText('ユーザーを無効化')).toBeInTheDocument();
+    // The dialog's confirm button is rendered after the table row's button
+    const buttons = screen.getAllByRole('button', { name: '無効化' });
+    await user.click(buttons[buttons.length - 1]);
+
+    await waitFor(() => {
+      expect(usersApi.deactivateUser).toHaveBeenCalledWith('1');
+    });
+  });
+
+  it('reactivates a deactivated user', async () => {
+    const user = userEvent.setup();
+    vi.mocked(usersApi.reactivateUser).mockResolvedValue({
+      data: { ...mockUsers[1], isActive: true },
+      success: true,
+    });
+
+    render(<UserManagement />);
+    await user.click(await screen.findByText('有効化'));
+
+    await waitFor(() => {
+      expect(usersApi.reactivateUser).toHaveBeenCalledWith('2');
+    });
+  });
+});
@@ -45,6 +45,11 @@ export { SessionWarning } from './SessionWarning';
 export { AdminDashboard } from './AdminDashboard';
 export { LinkForm } from './LinkForm';
 export { LinkManagementTable } from './LinkManagementTable';
+export { LinkHistoryPanel } from './LinkHistoryPanel';
+export { LinkTrash } from './LinkTrash';
+export { LinkImportWizard } from './LinkImportWizard';
+export { CategoryManagement } from './CategoryManagement';
+export { UserManagement } from './UserManagement';
 
 // Utility components
 export {
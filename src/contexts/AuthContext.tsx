@@ -122,6 +122,20 @@ export function AuthProvider({ children }: AuthProviderProps) {
     initializeAuth();
   }, []);
 
+  // Keep state in sync with token refreshes made in the background
+  useEffect(() => {
+    return authService.onSessionChange((auth) => {
+      if (auth) {
+        dispatch({
+          type: 'AUTH_SUCCESS',
+          payload: { user: auth.user, token: auth.token },
+        });
+      } else {
+        dispatch({ type: 'AUTH_LOGOUT' });
+      }
+    });
+  }, []);
+
   // Login function
   const login = async (credentials: LoginCredentials): Promise<void> => {
     try {
@@ -12,6 +12,7 @@ vi.mock('../../services/authService', () => ({
     login: vi.fn(),
     logout: vi.fn(),
     getToken: vi.fn(),
+    onSessionChange: vi.fn(() => () => {}),
   },
 }));
 
@@ -258,6 +259,36 @@ describe('AuthContext', () => {
     consoleSpy.mockRestore();
   });
 
+  it('should log out when the session ends in the background', async () => {
+    let sessionListener: ((auth: null) => void) | undefined;
+    vi.mocked(authService.onSessionChange).mockImplementationOnce(
+      (listener) => {
+        sessionListener = listener;
+        return () => {};
+      }
+    );
+    vi.mocked(authService.initialize).mockResolvedValueOnce(mockUser);
+    vi.mocked(authService.getToken).mockReturnValue('mock-token');
+
+    render(
+      <AuthProvider>
+        <TestComponent />
+      </AuthProvider>
+    );
+
+    await waitFor(() => {
+      expect(screen.getByTestId('authenticated')).toHaveTextContent('true');
+    });
+
+    // A failed refresh reports the end of the session
+    act(() => {
+      sessionListener?.(null);
+    });
+
+    expect(screen.getByTestId('authenticated')).toHaveTextContent('false');
+    expect(screen.getByTestId('user')).toHaveTextContent('null');
+  });
+
   it('should clear error', async () => {
     vi.mocked(authService.initialize).mockResolvedValueOnce(null);
     vi.mocked(authService.login).mockRejectedValueOnce(
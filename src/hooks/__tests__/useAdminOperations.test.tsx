@@ -353,13 +353,28 @@ describe('useAdminOperations', () => {
         );
       });
 
-      expect(categoriesApi.deleteCategory).toHaveBeenCalledWith('1');
+      expect(categoriesApi.deleteCategory).toHaveBeenCalledWith('1', undefined);
       expect(notificationService.success).toHaveBeenCalledWith(
         'Category Deleted',
         '"Test Category" has been deleted successfully.'
       );
       expect(deleteResult).toBe(true);
     });
+
+    it('should pass the reassignment category when deleting', async () => {
+      vi.mocked(categoriesApi.deleteCategory).mockResolvedValue({
+        success: true,
+        data: { success: true },
+      });
+
+      const { result } = renderHook(() => useAdminOperations());
+
+      await act(async () => {
+        await result.current.deleteCategory('1', 'Test Category', '2');
+      });
+
+      expect(categoriesApi.deleteCategory).toHaveBeenCalledWith('1', '2');
+    });
   });
 
   describe('Error Handling', () => {
@@ -0,0 +1,99 @@
+/**
+ * Tests for useRealTimeAnalytics hook
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useRealTimeAnalytics } from '../useAnalytics';
+import { analyticsApi } from '../../services';
+import type { LiveAnalyticsEvent } from '../../services';
+
+vi.mock('../../services', () => ({
+  analyticsApi: {
+    getRealTimeAnalytics: vi.fn(),
+    streamLiveAnalytics: vi.fn(),
+  },
+}));
+
+const summary = {
+  activeUsers: 2,
+  clicksToday: 10,
+  revenueToday: 5,
+  topLinksToday: [{ linkId: 'link-1', title: 'Test Link', clicks: 10 }],
+};
+
+const liveClick = {
+  id: 'click-1',
+  linkId: 'link-2',
+  title: 'Other Link',
+  timestamp: '2024-01-01T10:00:05.000Z',
+  classification: 'valid' as const,
+  variant: null,
+  countryCode: null,
+};
+
+describe('useRealTimeAnalytics', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    vi.mocked(analyticsApi.getRealTimeAnalytics).mockResolvedValue({
+      success: true,
+      data: summary,
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should count streamed clicks into the summary', async () => {
+    let emit: (event: LiveAnalyticsEvent) => void = () => undefined;
+    vi.mocked(analyticsApi.streamLiveAnalytics).mockImplementation(
+      (onEvent) => {
+        emit = onEvent;
+        return new Promise(() => undefined);
+      }
+    );
+
+    const { result } = renderHook(() => useRealTimeAnalytics(30000));
+    await act(async () => {});
+
+    act(() => emit({ type: 'click', click: liveClick }));
+
+    expect(result.current.isLive).toBe(true);
+    expect(result.current.liveClicks).toEqual([liveClick]);
+    expect(result.current.realTimeData?.clicksToday).toBe(11);
+    expect(result.current.realTimeData?.topLinksToday).toEqual([
+      { linkId: 'link-1', title: 'Test Link', clicks: 10 },
+      { linkId: 'link-2', title: 'Other Link', clicks: 1 },
+    ]);
+
+    // The summary is no longer polled every refresh interval
+    await act(async () => {
+      vi.advanceTimersByTime(60000);
+    });
+    expect(analyticsApi.getRealTimeAnalytics).toHaveBeenCalledTimes(1);
+  });
+
+  it('should poll and reconnect when the stream is unavailable', async () => {
+    vi.mocked(analyticsApi.streamLiveAnalytics).mockRejectedValue(
+      new Error('HTTP 502: Bad Gateway')
+    );
+
+    const { result } = renderHook(() => useRealTimeAnalytics(30000));
+    await act(async () => {});
+
+    expect(result.current.isLive).toBe(false);
+    expect(result.current.realTimeData).toEqual(summary);
+
+    await act(async () => {
+      vi.advanceTimersByTime(30000);
+    });
+    expect(analyticsApi.getRealTimeAnalytics).toHaveBeenCalledTimes(2);
+
+    await act(async () => {
+      vi.advanceTimersByTime(30000);
+    });
+    expect(analyticsApi.streamLiveAnalytics).toHaveBeenCalledTimes(2);
+  });
+});
@@ -32,7 +32,11 @@ export interface UseAdminOperationsReturn {
   // Category operations
   createCategory: (categoryData: any) => Promise<Category | null>;
   updateCategory: (id: string, categoryData: any) => Promise<Category | null>;
-  deleteCategory: (id: string, name: string) => Promise<boolean>;
+  deleteCategory: (
+    id: string,
+    name: string,
+    reassignTo?: string
+  ) => Promise<boolean>;
 
   // State
   isLoading: boolean;
@@ -252,12 +256,12 @@ export function useAdminOperations(): UseAdminOperationsReturn {
   );
 
   const deleteCategory = useCallback(
-    async (id: string, name: string): Promise<boolean> => {
+    async (id: string, name: string, reassignTo?: string): Promise<boolean> => {
       try {
         setIsLoading(true);
         setError(null);
 
-        const response = await categoriesApi.deleteCategory(id);
+        const response = await categoriesApi.deleteCategory(id, reassignTo);
 
         if (response.success) {
           notificationService.success(
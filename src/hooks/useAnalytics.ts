@@ -5,6 +5,10 @@ import type {
   ClickAnalyticsType as ClickAnalytics,
   RevenueAnalytics,
   LinkPerformance,
+  RealTimeAnalytics,
+  LiveClick,
+  MinuteAggregate,
+  LiveAnalyticsEvent,
 } from '../services';
 import type { AnalyticsResponse } from '../types';
 
@@ -283,14 +287,54 @@ export function useLinkPerformance(params: AnalyticsParams = {}) {
   };
 }
 
+// Most recent clicks kept for the live ticker
+const LIVE_CLICKS_LIMIT = 20;
+
+// While the stream is up, the summary (active users, revenue) only needs an
+// occasional refresh; clicks are counted as they arrive
+const LIVE_SUMMARY_REFRESH_MS = 5 * 60 * 1000;
+
+// After the stream drops, poll and try to reconnect this much later
+const STREAM_RECONNECT_MS = 60 * 1000;
+
+// Counts a streamed click into today's totals
+function countLiveClick(
+  data: RealTimeAnalytics,
+  click: LiveClick
+): RealTimeAnalytics {
+  const known = data.topLinksToday.some((link) => link.linkId === click.linkId);
+  const topLinksToday = known
+    ? data.topLinksToday.map((link) =>
+        link.linkId === click.linkId
+          ? { ...link, clicks: link.clicks + 1 }
+          : link
+      )
+    : [
+        ...data.topLinksToday,
+        { linkId: click.linkId, title: click.title ?? '', clicks: 1 },
+      ];
+
+  return {
+    ...data,
+    clicksToday: data.clicksToday + 1,
+    topLinksToday: topLinksToday
+      .sort((a, b) => b.clicks - a.clicks)
+      .slice(0, Math.max(data.topLinksToday.length, 5)),
+  };
+}
+
 /**
- * Hook for real-time analytics with auto-refresh
+ * Hook for real-time analytics. Follows the live click stream and falls
+ * back to polling every refreshInterval while the stream is unavailable.
  */
 export function useRealTimeAnalytics(refreshInterval: number = 30000) {
   const [state, setState] = useState({
-    realTimeData: null as any,
+    realTimeData: null as RealTimeAnalytics | null,
     loading: false,
     error: null as string | null,
+    isLive: false,
+    liveClicks: [] as LiveClick[],
+    minuteAggregates: [] as MinuteAggregate[],
   });
 
   const intervalRef = useRef<NodeJS.Timeout | null>(null);
@@ -326,12 +370,68 @@ export function useRealTimeAnalytics(refreshInterval: number = 30000) {
   }, []);
 
   useEffect(() => {
-    fetchRealTimeAnalytics();
+    const controller = new AbortController();
+    let reconnectTimeout: NodeJS.Timeout | null = null;
+    let live = false;
 
-    // Set up auto-refresh
-    intervalRef.current = setInterval(fetchRealTimeAnalytics, refreshInterval);
+    const poll = (interval: number) => {
+      if (intervalRef.current) {
+        clearInterval(intervalRef.current);
+      }
+      intervalRef.current = setInterval(fetchRealTimeAnalytics, interval);
+    };
+
+    const handleEvent = (event: LiveAnalyticsEvent) => {
+      if (!live) {
+        live = true;
+        poll(LIVE_SUMMARY_REFRESH_MS);
+      }
+
+      setState((prev) =>
+        event.type === 'aggregates'
+          ? { ...prev, isLive: true, minuteAggregates: event.aggregates }
+          : {
+              ...prev,
+              isLive: true,
+              liveClicks: [event.click, ...prev.liveClicks].slice(
+                0,
+                LIVE_CLICKS_LIMIT
+              ),
+              realTimeData:
+                prev.realTimeData && event.click.classification === 'valid'
+                  ? countLiveClick(prev.realTimeData, event.click)
+                  : prev.realTimeData,
+            }
+      );
+    };
+
+    const connect = () => {
+      analyticsApi
+        .streamLiveAnalytics(handleEvent, controller.signal)
+        .catch(() => undefined)
+        .then(() => {
+          if (controller.signal.aborted) return;
+
+          // Catch up on what the stream missed, then poll until it's back
+          if (live) {
+            live = false;
+            setState((prev) => ({ ...prev, isLive: false }));
+            fetchRealTimeAnalytics();
+          }
+          poll(refreshInterval);
+          reconnectTimeout = setTimeout(connect, STREAM_RECONNECT_MS);
+        });
+    };
+
+    fetchRealTimeAnalytics();
+    poll(refreshInterval);
+    connect();
 
     return () => {
+      controller.abort();
+      if (reconnectTimeout) {
+        clearTimeout(reconnectTimeout);
+      }
       if (intervalRef.current) {
         clearInterval(intervalRef.current);
       }
@@ -10,7 +10,7 @@ interface UseSessionManagementOptions {
   checkInterval?: number;
 
   /**
-   * How long before token expiry to attempt refresh (in milliseconds)
+   * How long before access token expiry to attempt refresh (in milliseconds)
    * Default: 5 minutes
    */
   refreshThreshold?: number;
@@ -22,7 +22,8 @@ interface UseSessionManagementOptions {
   showWarnings?: boolean;
 
   /**
-   * How long before expiry to show warning (in milliseconds)
+   * How long before the session (refresh token) expires to show warning
+   * (in milliseconds)
    * Default: 10 minutes
    */
   warningThreshold?: number;
@@ -67,6 +68,17 @@ export function useSessionManagement(
     }
   }, []);
 
+  const getTimeUntilExpiry = useCallback((): number | null => {
+    // Access tokens are renewed silently, so the session lasts as long as
+    // the refresh token; fall back to the access token for older logins
+    const sessionExpiration = authService.getSessionExpiration();
+    const expirationTime =
+      sessionExpiration?.getTime() ?? getTokenExpirationTime();
+    if (!expirationTime) return null;
+
+    return Math.max(0, expirationTime - Date.now());
+  }, [getTokenExpirationTime]);
+
   const checkTokenValidity = useCallback(async () => {
     if (!state.isAuthenticated || !state.token) {
       return;
@@ -85,16 +97,8 @@ export function useSessionManagement(
     const currentTime = Date.now();
     const timeUntilExpiry = expirationTime - currentTime;
 
-    // Check if token has already expired
-    if (timeUntilExpiry <= 0) {
-      await logout();
-      if (onSessionExpired) {
-        onSessionExpired();
-      }
-      return;
-    }
-
-    // Check if we should refresh the token
+    // Refresh if the access token has expired or is about to; only a failed
+    // refresh (revoked or expired session) ends the session
     if (timeUntilExpiry <= refreshThreshold) {
       try {
         await authService.refreshToken();
@@ -110,20 +114,23 @@ export function useSessionManagement(
     }
 
     // Check if we should show a warning
+    const timeUntilSessionExpiry = getTimeUntilExpiry();
     if (
       showWarnings &&
-      timeUntilExpiry <= warningThreshold &&
+      timeUntilSessionExpiry !== null &&
+      timeUntilSessionExpiry <= warningThreshold &&
       !warningShownRef.current
     ) {
       warningShownRef.current = true;
       if (onSessionWarning) {
-        onSessionWarning(timeUntilExpiry);
+        onSessionWarning(timeUntilSessionExpiry);
       }
     }
   }, [
     state.isAuthenticated,
     state.token,
     getTokenExpirationTime,
+    getTimeUntilExpiry,
     logout,
     refreshThreshold,
     showWarnings,
@@ -143,13 +150,6 @@ export function useSessionManagement(
     }
   }, []);
 
-  const getTimeUntilExpiry = useCallback((): number | null => {
-    const expirationTime = getTokenExpirationTime();
-    if (!expirationTime) return null;
-
-    return Math.max(0, expirationTime - Date.now());
-  }, [getTokenExpirationTime]);
-
   // Set up periodic token checking
   useEffect(() => {
     if (state.isAuthenticated) {
@@ -180,7 +180,8 @@ export function useSessionManagement(
     if (!state.isAuthenticated) return;
 
     const handleUserActivity = () => {
-      const timeUntilExpiry = getTimeUntilExpiry();
+      const expirationTime = getTokenExpirationTime();
+      const timeUntilExpiry = expirationTime && expirationTime - Date.now();
       if (timeUntilExpiry && timeUntilExpiry <= refreshThreshold) {
         // User is active and token is close to expiry, refresh it
         extendSession();
@@ -220,7 +221,7 @@ export function useSessionManagement(
     };
   }, [
     state.isAuthenticated,
-    getTimeUntilExpiry,
+    getTokenExpirationTime,
     refreshThreshold,
     extendSession,
   ]);
@@ -232,7 +233,7 @@ export function useSessionManagement(
     extendSession,
 
     /**
-     * Get time until token expires (in milliseconds)
+     * Get time until the session expires (in milliseconds)
      */
     getTimeUntilExpiry,
 
@@ -0,0 +1,292 @@
+/**
+ * Contract tests: every analyticsApi call must be an operation documented in
+ * docs/api/openapi.yaml, and the typed responses must match its schemas.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { load } from 'js-yaml';
+import { apiClient } from '../apiClient';
+import { analyticsApi } from '../analyticsApi';
+import type {
+  ClickAnalytics,
+  LinkPerformance,
+  RealTimeAnalytics,
+  LiveAnalyticsEvent,
+  RevenueAnalytics,
+} from '../analyticsApi';
+
+interface Schema {
+  $ref?: string;
+  type?: string;
+  required?: string[];
+  properties?: Record<string, Schema>;
+  items?: Schema;
+}
+
+interface Operation {
+  parameters?: Array<{ name: string; in: string }>;
+  responses: Record<
+    string,
+    { content?: Record<string, { schema: Schema }> } | undefined
+  >;
+}
+
+interface OpenApiSpec {
+  paths: Record<string, Record<string, Operation>>;
+  components: { schemas: Record<string, Schema> };
+}
+
+const spec = load(
+  readFileSync(resolve(process.cwd(), 'docs/api/openapi.yaml'), 'utf8')
+) as OpenApiSpec;
+
+const resolveSchema = (schema: Schema): Schema =>
+  schema.$ref
+    ? resolveSchema(
+        spec.components.schemas[
+          schema.$ref.replace('#/components/schemas/', '')
+        ]
+      )
+    : schema;
+
+// Finds the documented operation for a request the client made
+function findOperation(method: string, endpoint: string) {
+  const url = new URL(endpoint, 'http://localhost');
+  const entry = Object.entries(spec.paths).find(([template]) =>
+    new RegExp(`^${template.replace(/\{[^}]+\}/g, '[^/]+')}$`).test(
+      url.pathname
+    )
+  );
+  return {
+    path: entry?.[0],
+    operation: entry?.[1][method],
+    query: [...url.searchParams.keys()],
+  };
+}
+
+// Checks a value against a schema: required properties are present and no
+// undocumented properties are sent
+function expectToMatchSchema(value: unknown, schema: Schema, at = 'data') {
+  const resolved = resolveSchema(schema);
+
+  if (resolved.type === 'array') {
+    expect(Array.isArray(value), `${at} is an array`).toBe(true);
+    (value as unknown[]).forEach((item, index) =>
+      expectToMatchSchema(item, resolved.items!, `${at}[${index}]`)
+    );
+    return;
+  }
+
+  if (resolved.type === 'object' && resolved.properties) {
+    const record = value as Record<string, unknown>;
+    for (const key of resolved.required ?? []) {
+      expect(record, `${at} has ${key}`).toHaveProperty(key);
+    }
+    for (const [key, property] of Object.entries(record)) {
+      expect(resolved.properties, `${at}.${key} is documented`).toHaveProperty(
+        key
+      );
+      expectToMatchSchema(property, resolved.properties[key], `${at}.${key}`);
+    }
+    return;
+  }
+
+  if (resolved.type === 'integer' || resolved.type === 'number') {
+    expect(typeof value, at).toBe('number');
+  } else if (resolved.type === 'string') {
+    expect(typeof value, at).toBe('string');
+  }
+}
+
+// The schema of the `data` of an enveloped 200 response
+const responseDataSchema = (operation: Operation): Schema =>
+  resolveSchema(operation.responses['200']!.content!['application/json'].schema)
+    .properties!.data;
+
+const clickAnalytics = {
+  totalClicks: 33,
+  uniqueClicks: 20,
+  clicksByDate: [{ date: '2024-01-01', clicks: 33, uniqueClicks: 20 }],
+  clicksByCategory: [
+    { categoryId: 'category-1', categoryName: 'Electronics', clicks: 33 },
+  ],
+  topReferrers: [{ referrer: 'direct', clicks: 33 }],
+} satisfies ClickAnalytics;
+
+const revenueAnalytics = {
+  totalRevenue: 120.5,
+  totalConversions: 4,
+  conversionRate: 2,
+  earningsPerClick: 0.6,
+  revenueByDate: [{ date: '2024-01-01', revenue: 120.5 }],
+  revenueByCategory: [
+    {
+      categoryId: 'category-1',
+      categoryName: 'Electronics',
+      revenue: 120.5,
+      conversions: 4,
+      earningsPerClick: 0.6,
+    },
+  ],
+} satisfies RevenueAnalytics;
+
+const linkPerformance = [
+  {
+    linkId: 'link-1',
+    title: 'Test Link',
+    clicks: 80,
+    uniqueClicks: 60,
+    conversions: 2,
+    conversionRate: 2.5,
+    revenue: 30,
+    earningsPerClick: 0.38,
+    ctr: 75,
+  },
+] satisfies LinkPerformance[];
+
+const realTimeAnalytics = {
+  activeUsers: 3,
+  clicksToday: 42,
+  revenueToday: 12.35,
+  topLinksToday: [{ linkId: 'link-1', title: 'Test Link', clicks: 42 }],
+} satisfies RealTimeAnalytics;
+
+const params = {
+  startDate: '2024-01-01',
+  endDate: '2024-01-31',
+  categoryId: 'category-1',
+  linkId: 'link-1',
+};
+
+describe('analyticsApi contract', () => {
+  const getSpy = vi.spyOn(apiClient, 'get');
+
+  beforeEach(() => {
+    getSpy.mockReset();
+  });
+
+  const requestOf = async (call: () => Promise<unknown>, data: unknown) => {
+    getSpy.mockResolvedValue({ success: true, data: { success: true, data } });
+    const result = await call();
+    return { result, ...findOperation('get', getSpy.mock.calls[0][0]) };
+  };
+
+  it.each([
+    ['getDashboardAnalytics', () => analyticsApi.getDashboardAnalytics(params)],
+    ['getClickAnalytics', () => analyticsApi.getClickAnalytics(params)],
+    ['getRevenueAnalytics', () => analyticsApi.getRevenueAnalytics(params)],
+    ['getLinkPerformance', () => analyticsApi.getLinkPerformance(params)],
+    ['getLinkAnalytics', () => analyticsApi.getLinkAnalytics('link-1', params)],
+    [
+      'exportAnalytics',
+      () => analyticsApi.exportAnalytics({ ...params, format: 'csv' }),
+    ],
+    ['getRealTimeAnalytics', () => analyticsApi.getRealTimeAnalytics()],
+  ])('%s calls a documented operation', async (_name, call) => {
+    const { operation, query } = await requestOf(call, {});
+
+    expect(operation).toBeDefined();
+    const documented = (operation!.parameters ?? [])
+      .filter((parameter) => parameter.in === 'query')
+      .map((parameter) => parameter.name);
+    expect(documented).toEqual(expect.arrayContaining(query));
+  });
+
+  it.each([
+    [
+      '/admin/analytics/clicks',
+      () => analyticsApi.getClickAnalytics(params),
+      clickAnalytics,
+    ],
+    [
+      '/admin/analytics/revenue',
+      () => analyticsApi.getRevenueAnalytics(params),
+      revenueAnalytics,
+    ],
+    [
+      '/admin/analytics/links',
+      () => analyticsApi.getLinkPerformance(params),
+      linkPerformance,
+    ],
+    [
+      '/admin/analytics/realtime',
+      () => analyticsApi.getRealTimeAnalytics(),
+      realTimeAnalytics,
+    ],
+  ])('%s matches the documented response', async (path, call, data) => {
+    const request = await requestOf(call, data);
+
+    expect(request.path).toBe(path);
+    expectToMatchSchema(data, responseDataSchema(request.operation!));
+    expect(request.result).toEqual({ success: true, data });
+  });
+});
+
+describe('analyticsApi live stream', () => {
+  const streamOf = (chunks: string[]) => {
+    const encoder = new TextEncoder();
+    return new Response(
+      new ReadableStream({
+        start(controller) {
+          chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)));
+          controller.close();
+        },
+      })
+    );
+  };
+
+  it('follows the documented event stream', async () => {
+    const openSpy = vi
+      .spyOn(apiClient, 'openStream')
+      .mockResolvedValue(streamOf([]));
+
+    await analyticsApi.streamLiveAnalytics(() => undefined);
+
+    const { path, operation } = findOperation('get', openSpy.mock.calls[0][0]);
+    expect(path).toBe('/admin/analytics/stream');
+    expect(operation!.responses['200']!.content).toHaveProperty(
+      'text/event-stream'
+    );
+  });
+
+  it('parses clicks and aggregates split across chunks', async () => {
+    vi.spyOn(apiClient, 'openStream').mockResolvedValue(
+      streamOf([
+        'retry: 5000\n\nevent: aggregates\ndata: [{"minute":"2024-01-01T10:00:00.000Z",',
+        '"valid":2,"bot":1,"duplicate":0}]\n\n: heartbeat\n\nevent: click\n',
+        'data: {"id":"click-1","link_id":"link-1","title":"Test Link","timestamp":"2024-01-01T10:00:05.000Z","classification":"valid","variant":"b","country_code":"JP"}\n\n',
+      ])
+    );
+    const events: LiveAnalyticsEvent[] = [];
+
+    await analyticsApi.streamLiveAnalytics((event) => events.push(event));
+
+    expect(events).toEqual([
+      {
+        type: 'aggregates',
+        aggregates: [
+          {
+            minute: '2024-01-01T10:00:00.000Z',
+            valid: 2,
+            bot: 1,
+            duplicate: 0,
+          },
+        ],
+      },
+      {
+        type: 'click',
+        click: {
+          id: 'click-1',
+          linkId: 'link-1',
+          title: 'Test Link',
+          timestamp: '2024-01-01T10:00:05.000Z',
+          classification: 'valid',
+          variant: 'b',
+          countryCode: 'JP',
+        },
+      },
+    ]);
+  });
+});
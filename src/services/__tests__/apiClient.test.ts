@@ -185,6 +185,113 @@ describe('ApiClient', () => {
     });
   });
 
+  describe('Credential renewal', () => {
+    const unauthorizedResponse = {
+      ok: false,
+      status: 401,
+      statusText: 'Unauthorized',
+      json: () => Promise.resolve({ error: 'Token expired' }),
+    };
+
+    it('should retry with the new token after a successful renewal', async () => {
+      apiClient.setAuthToken('expired-token');
+      apiClient.setUnauthorizedHandler(async () => {
+        apiClient.setAuthToken('fresh-token');
+        return true;
+      });
+
+      mockFetch
+        .mockResolvedValueOnce(unauthorizedResponse)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: () => Promise.resolve({ ok: true }),
+        });
+
+      const response = await apiClient.get('/admin/links');
+
+      expect(response).toEqual({ data: { ok: true }, success: true });
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(mockFetch).toHaveBeenLastCalledWith(
+        '/api/admin/links',
+        expect.objectContaining({
+          headers: expect.objectContaining({
+            Authorization: 'Bearer fresh-token',
+          }),
+        })
+      );
+    });
+
+    it('should return the 401 when renewal fails', async () => {
+      const handler = vi.fn().mockResolvedValue(false);
+      apiClient.setUnauthorizedHandler(handler);
+
+      mockFetch.mockResolvedValueOnce(unauthorizedResponse);
+
+      const response = await apiClient.get('/admin/links');
+
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(response.success).toBe(false);
+      expect(response.error?.status).toBe(401);
+    });
+
+    it('should not renew credentials for the refresh endpoint', async () => {
+      const handler = vi.fn().mockResolvedValue(true);
+      apiClient.setUnauthorizedHandler(handler);
+
+      mockFetch.mockResolvedValueOnce(unauthorizedResponse);
+
+      await apiClient.post('/auth/refresh', { refreshToken: 'used-token' });
+
+      expect(handler).not.toHaveBeenCalled();
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Streaming', () => {
+    const streamResponse = {
+      ok: true,
+      status: 200,
+      body: new ReadableStream(),
+    };
+
+    it('should open the stream with the auth header', async () => {
+      apiClient.setAuthToken('token');
+      mockFetch.mockResolvedValueOnce(streamResponse);
+
+      await expect(
+        apiClient.openStream('/admin/analytics/stream')
+      ).resolves.toBe(streamResponse);
+      expect(mockFetch).toHaveBeenCalledWith(
+        '/api/admin/analytics/stream',
+        expect.objectContaining({
+          headers: expect.objectContaining({
+            Authorization: 'Bearer token',
+            Accept: 'text/event-stream',
+          }),
+        })
+      );
+    });
+
+    it('should renew credentials once, then fail without retrying', async () => {
+      const handler = vi.fn().mockResolvedValue(true);
+      apiClient.setUnauthorizedHandler(handler);
+
+      mockFetch.mockResolvedValue({
+        ok: false,
+        status: 401,
+        statusText: 'Unauthorized',
+      });
+
+      await expect(
+        apiClient.openStream('/admin/analytics/stream')
+      ).rejects.toMatchObject({ status: 401 });
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      mockFetch.mockReset();
+    });
+  });
+
   describe('Retry logic', () => {
     it('should retry on network errors', async () => {
       // First call fails with network error
@@ -10,6 +10,7 @@ vi.mock('../apiClient', () => ({
     get: vi.fn(),
     setAuthToken: vi.fn(),
     clearAuthToken: vi.fn(),
+    setUnauthorizedHandler: vi.fn(),
   },
 }));
 
@@ -66,7 +67,11 @@ describe('AuthService', () => {
   describe('login', () => {
     it('should login successfully and store token and user', async () => {
       vi.mocked(apiClient.post).mockResolvedValueOnce({
-        data: { token: mockAuthResponse.token, user: mockAuthResponse.user },
+        data: {
+          token: mockAuthResponse.token,
+          refreshToken: 'mock-refresh-token',
+          user: mockAuthResponse.user,
+        },
         success: true,
       });
 
@@ -80,6 +85,10 @@ describe('AuthService', () => {
         'affiliate_admin_token',
         mockAuthResponse.token
       );
+      expect(mockLocalStorage.setItem).toHaveBeenCalledWith(
+        'affiliate_admin_refresh_token',
+        'mock-refresh-token'
+      );
       expect(mockLocalStorage.setItem).toHaveBeenCalledWith(
         'affiliate_admin_user',
         JSON.stringify(mockUser)
@@ -180,19 +189,35 @@ describe('AuthService', () => {
   });
 
   describe('refreshToken', () => {
+    beforeEach(() => {
+      mockLocalStorage.getItem.mockImplementation((key: string) =>
+        key === 'affiliate_admin_refresh_token' ? 'stored-refresh-token' : null
+      );
+    });
+
     it('should refresh token successfully', async () => {
       vi.mocked(apiClient.post).mockResolvedValueOnce({
-        data: { token: mockAuthResponse.token, user: mockAuthResponse.user },
+        data: {
+          token: mockAuthResponse.token,
+          refreshToken: 'rotated-refresh-token',
+          user: mockAuthResponse.user,
+        },
         success: true,
       });
 
       const result = await authService.refreshToken();
 
-      expect(apiClient.post).toHaveBeenCalledWith('/auth/refresh');
+      expect(apiClient.post).toHaveBeenCalledWith('/auth/refresh', {
+        refreshToken: 'stored-refresh-token',
+      });
       expect(mockLocalStorage.setItem).toHaveBeenCalledWith(
         'affiliate_admin_token',
         mockAuthResponse.token
       );
+      expect(mockLocalStorage.setItem).toHaveBeenCalledWith(
+        'affiliate_admin_refresh_token',
+        'rotated-refresh-token'
+      );
       expect(mockLocalStorage.setItem).toHaveBeenCalledWith(
         'affiliate_admin_user',
         JSON.stringify(mockUser)
@@ -200,7 +225,58 @@ describe('AuthService', () => {
       expect(apiClient.setAuthToken).toHaveBeenCalledWith(
         mockAuthResponse.token
       );
-      expect(result).toEqual(mockAuthResponse);
+      expect(result).toEqual({
+        ...mockAuthResponse,
+        expiresAt: expect.any(Date),
+      });
+    });
+
+    it('should share one request between concurrent refreshes', async () => {
+      vi.mocked(apiClient.post).mockResolvedValueOnce({
+        data: {
+          token: mockAuthResponse.token,
+          refreshToken: 'rotated-refresh-token',
+          user: mockAuthResponse.user,
+        },
+        success: true,
+      });
+
+      const [first, second] = await Promise.all([
+        authService.refreshToken(),
+        authService.refreshToken(),
+      ]);
+
+      expect(apiClient.post).toHaveBeenCalledTimes(1);
+      expect(first).toBe(second);
+    });
+
+    it('should notify session listeners', async () => {
+      const listener = vi.fn();
+      const unsubscribe = authService.onSessionChange(listener);
+
+      vi.mocked(apiClient.post).mockResolvedValueOnce({
+        data: { token: mockAuthResponse.token, user: mockAuthResponse.user },
+        success: true,
+      });
+      await authService.refreshToken();
+      expect(listener).toHaveBeenCalledWith(
+        expect.objectContaining({ token: mockAuthResponse.token })
+      );
+
+      vi.mocked(apiClient.post).mockRejectedValueOnce(new Error('Revoked'));
+      await expect(authService.refreshToken()).rejects.toThrow();
+      expect(listener).toHaveBeenLastCalledWith(null);
+
+      unsubscribe();
+    });
+
+    it('should fail without calling the API when no refresh token is stored', async () => {
+      mockLocalStorage.getItem.mockReturnValue(null);
+
+      await expect(authService.refreshToken()).rejects.toThrow(
+        'Token refresh failed'
+      );
+      expect(apiClient.post).not.toHaveBeenCalled();
     });
 
     it('should clear data when refresh fails', async () => {
@@ -214,6 +290,9 @@ describe('AuthService', () => {
       expect(mockLocalStorage.removeItem).toHaveBeenCalledWith(
         'affiliate_admin_token'
       );
+      expect(mockLocalStorage.removeItem).toHaveBeenCalledWith(
+        'affiliate_admin_refresh_token'
+      );
       expect(mockLocalStorage.removeItem).toHaveBeenCalledWith(
         'affiliate_admin_user'
       );
@@ -419,9 +498,14 @@ describe('AuthService', () => {
       const expiredPayload = { exp: Math.floor(Date.now() / 1000) - 3600 };
       const expiredToken = `header.${btoa(JSON.stringify(expiredPayload))}.signature`;
 
-      mockLocalStorage.getItem
-        .mockReturnValueOnce(expiredToken)
-        .mockReturnValueOnce(JSON.stringify(mockUser));
+      const storage: Record<string, string> = {
+        affiliate_admin_token: expiredToken,
+        affiliate_admin_refresh_token: 'stored-refresh-token',
+        affiliate_admin_user: JSON.stringify(mockUser),
+      };
+      mockLocalStorage.getItem.mockImplementation(
+        (key: string) => storage[key] ?? null
+      );
 
       vi.mocked(apiClient.post).mockResolvedValueOnce({
         data: { token: mockAuthResponse.token, user: mockAuthResponse.user },
@@ -431,7 +515,9 @@ describe('AuthService', () => {
       const result = await authService.initialize();
 
       expect(apiClient.setAuthToken).toHaveBeenCalledWith(expiredToken);
-      expect(apiClient.post).toHaveBeenCalledWith('/auth/refresh');
+      expect(apiClient.post).toHaveBeenCalledWith('/auth/refresh', {
+        refreshToken: 'stored-refresh-token',
+      });
       expect(result).toEqual(mockUser);
     });
 
@@ -0,0 +1,45 @@
+import { describe, it, expect, beforeEach, vi, Mock } from 'vitest';
+import { categoriesApi } from '../categoriesApi';
+import { apiClient } from '../apiClient';
+
+vi.mock('../apiClient', () => ({
+  apiClient: {
+    post: vi.fn(),
+    put: vi.fn(),
+  },
+}));
+
+describe('CategoriesApi', () => {
+  const category = {
+    name: 'Cloud Hosting',
+    slug: 'cloud-hosting',
+    description: 'Hosting providers',
+    color: '#3B82F6',
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (apiClient.post as Mock).mockResolvedValue({ success: true });
+    (apiClient.put as Mock).mockResolvedValue({ success: true });
+  });
+
+  it('should send the URL template as url_template when creating', async () => {
+    await categoriesApi.createCategory({
+      ...category,
+      urlTemplate: '{affiliate_url}&subid={click_id}',
+    });
+
+    expect(apiClient.post).toHaveBeenCalledWith('/admin/categories', {
+      ...category,
+      url_template: '{affiliate_url}&subid={click_id}',
+    });
+  });
+
+  it('should send a removed URL template as null when updating', async () => {
+    await categoriesApi.updateCategory('1', { ...category, urlTemplate: null });
+
+    const [, body] = (apiClient.put as Mock).mock.calls[0];
+    expect(body).toEqual({ ...category, url_template: null });
+    expect(body).not.toHaveProperty('urlTemplate');
+  });
+});
@@ -16,7 +16,13 @@ const mockLocalStorage = {
   removeItem: vi.fn(),
 };
 
-const mockNavigator = {
+const mockNavigator: {
+  onLine: boolean;
+  userAgent: string;
+  sendBeacon: Mock;
+  doNotTrack?: string;
+  globalPrivacyControl?: boolean;
+} = {
   onLine: true,
   userAgent: 'Mozilla/5.0 (Test Browser)',
   sendBeacon: vi.fn(),
@@ -202,6 +208,37 @@ describe('ClickTrackingService', () => {
       });
     });
 
+    it('should give every click an idempotency key', async () => {
+      for (let i = 0; i < 5; i++) {
+        await service.trackClick(`link-${i}`);
+      }
+
+      const { clicks } = mockApiPost.mock.calls[0][1];
+      const keys = clicks.map(
+        (click: { idempotencyKey: string }) => click.idempotencyKey
+      );
+      expect(new Set(keys).size).toBe(5);
+    });
+
+    it('should send queued clicks with sendBeacon on unload', async () => {
+      mockNavigator.sendBeacon.mockReturnValue(true);
+      await service.trackClick('link-123');
+
+      const [, handleBeforeUnload] = mockAddEventListener.mock.calls
+        .filter(([event]) => event === 'beforeunload')
+        .at(-1)!;
+      handleBeforeUnload();
+
+      expect(mockNavigator.sendBeacon).toHaveBeenCalledWith(
+        expect.stringMatching(/\/clicks\/batch$/),
+        expect.stringContaining('"linkId":"link-123"')
+      );
+
+      // Already delivered, so a later flush sends nothing
+      service.destroy();
+      expect(mockApiPost).not.toHaveBeenCalled();
+    });
+
     it('should not track clicks when tracking is disabled', async () => {
       const disabledService = new ClickTrackingService({
         enableTracking: false,
@@ -247,6 +284,92 @@ describe('ClickTrackingService', () => {
     });
   });
 
+  describe('Privacy', () => {
+    afterEach(() => {
+      delete mockNavigator.doNotTrack;
+      delete mockNavigator.globalPrivacyControl;
+    });
+
+    const sentClicks = () => mockApiPost.mock.calls[0][1].clicks;
+
+    it('should track anonymously when Do Not Track is on', async () => {
+      mockNavigator.doNotTrack = '1';
+      mockLocalStorage.setItem.mockClear();
+      const anonymousService = new ClickTrackingService({ batchSize: 1 });
+
+      await anonymousService.trackClick('link-123', { category: 'test' });
+
+      expect(anonymousService.isAnonymous()).toBe(true);
+      expect(sentClicks()).toEqual([
+        {
+          linkId: 'link-123',
+          timestamp: expect.any(Date),
+          idempotencyKey: expect.any(String),
+        },
+      ]);
+      expect(sentClicks()[0].idempotencyKey).not.toContain(
+        anonymousService.getSessionData()?.sessionId
+      );
+      expect(mockLocalStorage.setItem).not.toHaveBeenCalled();
+
+      anonymousService.destroy();
+    });
+
+    it('should honor Global Privacy Control unless told not to', () => {
+      mockNavigator.globalPrivacyControl = true;
+
+      const anonymousService = new ClickTrackingService();
+      const identifiedService = new ClickTrackingService({
+        honorPrivacySignals: false,
+      });
+
+      expect(anonymousService.isAnonymous()).toBe(true);
+      expect(identifiedService.isAnonymous()).toBe(false);
+
+      anonymousService.destroy();
+      identifiedService.destroy();
+    });
+
+    it('should track anonymously until consent is given', async () => {
+      const consentService = new ClickTrackingService({
+        batchSize: 1,
+        requireConsent: true,
+      });
+      const anonymousSessionId = consentService.getSessionData()?.sessionId;
+      expect(consentService.isAnonymous()).toBe(true);
+
+      consentService.setConsent(true);
+      await consentService.trackClick('link-123');
+
+      expect(mockLocalStorage.setItem).toHaveBeenCalledWith(
+        'clickTracking_consent',
+        'granted'
+      );
+      expect(consentService.getSessionData()?.sessionId).not.toBe(
+        anonymousSessionId
+      );
+      expect(sentClicks()[0]).toMatchObject({
+        sessionId: consentService.getSessionData()?.sessionId,
+        userAgent: 'Mozilla/5.0 (Test Browser)',
+      });
+
+      consentService.destroy();
+    });
+
+    it('should forget the stored session when consent is withdrawn', () => {
+      const sessionId = service.getSessionData()?.sessionId;
+
+      service.setConsent(false);
+
+      expect(service.isAnonymous()).toBe(true);
+      expect(mockLocalStorage.removeItem).toHaveBeenCalledWith(
+        'clickTracking_session'
+      );
+      expect(service.getSessionData()?.sessionId).not.toBe(sessionId);
+      expect(service.getSessionData()?.userAgent).toBeUndefined();
+    });
+  });
+
   describe('Session Analytics', () => {
     it('should calculate session analytics', () => {
       const analytics = service.getSessionAnalytics();
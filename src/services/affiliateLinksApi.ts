@@ -5,8 +5,54 @@ import type {
   GetLinksResponse,
   CreateLinkRequest,
   FilterState,
+  LinkHealthReport,
+  LinkHealthTarget,
+  LinkImportReport,
+  LinkImportSource,
+  TrashedLink,
 } from '../types';
 
+// Trashed links are returned as raw database rows
+interface TrashedLinkRow {
+  id: string;
+  title: string;
+  url: string;
+  click_count: number;
+  deleted_at: string;
+}
+
+interface LinkImportReportBody {
+  dry_run: boolean;
+  total: number;
+  valid: number;
+  invalid: number;
+  rows: LinkImportReport['rows'];
+  created?: number;
+}
+
+interface LinkHealthBody {
+  summary: {
+    total_links: number;
+    healthy: number;
+    unhealthy: number;
+    unchecked: number;
+    last_checked_at: string | null;
+  };
+  links: {
+    link_id: string;
+    healthy: boolean;
+    checks: {
+      target: LinkHealthTarget;
+      status_code: number | null;
+      final_url: string | null;
+      error: string | null;
+      healthy: boolean;
+      consecutive_failures: number;
+      checked_at: string;
+    }[];
+  }[];
+}
+
 export interface GetLinksParams {
   page?: number;
   limit?: number;
@@ -159,6 +205,118 @@ export class AffiliateLinksApi {
     return apiClient.delete<{ success: boolean }>(`/admin/links/${id}`);
   }
 
+  /**
+   * List links in the trash, most recently deleted first (admin only)
+   */
+  async getTrashedLinks(): Promise<ApiResponse<TrashedLink[]>> {
+    const response = await apiClient.get<{ data: TrashedLinkRow[] }>(
+      '/admin/links/trash?limit=100',
+      { cache: false }
+    );
+    if (response.success) {
+      return {
+        data: response.data.data.map((row) => ({
+          id: row.id,
+          title: row.title,
+          url: row.url,
+          clickCount: row.click_count,
+          deletedAt: new Date(row.deleted_at),
+        })),
+        success: true,
+      };
+    }
+    return {
+      success: false,
+      error: response.error,
+      data: [] as TrashedLink[],
+    };
+  }
+
+  /**
+   * Get the latest link health check results (admin only)
+   */
+  async getLinkHealth(): Promise<ApiResponse<LinkHealthReport>> {
+    const response = await apiClient.get<{ data: LinkHealthBody }>(
+      '/admin/links/health',
+      { cache: false }
+    );
+    if (response.success) {
+      const { summary, links } = response.data.data;
+      return {
+        data: {
+          summary: {
+            totalLinks: summary.total_links,
+            healthy: summary.healthy,
+            unhealthy: summary.unhealthy,
+            unchecked: summary.unchecked,
+            lastCheckedAt: summary.last_checked_at
+              ? new Date(summary.last_checked_at)
+              : null,
+          },
+          links: links.map((link) => ({
+            linkId: link.link_id,
+            healthy: link.healthy,
+            checks: link.checks.map((check) => ({
+              target: check.target,
+              statusCode: check.status_code,
+              finalUrl: check.final_url,
+              error: check.error,
+              healthy: check.healthy,
+              consecutiveFailures: check.consecutive_failures,
+              checkedAt: new Date(check.checked_at),
+            })),
+          })),
+        },
+        success: true,
+      };
+    }
+    return {
+      success: false,
+      error: response.error,
+      data: null as unknown as LinkHealthReport,
+    };
+  }
+
+  /**
+   * Restore a trashed affiliate link (admin only)
+   */
+  async restoreLink(id: string): Promise<ApiResponse<{ success: boolean }>> {
+    return apiClient.post<{ success: boolean }>(`/admin/links/${id}/restore`);
+  }
+
+  /**
+   * Permanently delete a trashed link and its click history (admin only)
+   */
+  async purgeLink(id: string): Promise<ApiResponse<{ success: boolean }>> {
+    return apiClient.delete<{ success: boolean }>(`/admin/links/${id}/purge`);
+  }
+
+  /**
+   * Validate (dryRun) or import links from CSV text or JSON rows.
+   * A committed import inserts every row or none of them.
+   */
+  async importLinks(
+    source: LinkImportSource,
+    dryRun: boolean = false
+  ): Promise<ApiResponse<LinkImportReport>> {
+    const response = await apiClient.post<{ data: LinkImportReportBody }>(
+      `/admin/links/import${dryRun ? '?dry_run=true' : ''}`,
+      source
+    );
+    if (response.success) {
+      const { dry_run, ...report } = response.data.data;
+      return {
+        data: { ...report, dryRun: dry_run },
+        success: true,
+      };
+    }
+    return {
+      success: false,
+      error: response.error,
+      data: null as unknown as LinkImportReport,
+    };
+  }
+
   /**
    * Bulk update affiliate links (admin only)
    */
@@ -30,7 +30,9 @@ export interface ClickAnalytics {
 
 export interface RevenueAnalytics {
   totalRevenue: number;
-  estimatedRevenue: number;
+  totalConversions: number;
+  conversionRate: number;
+  earningsPerClick: number;
   revenueByDate: Array<{
     date: string;
     revenue: number;
@@ -39,6 +41,8 @@ export interface RevenueAnalytics {
     categoryId: string;
     categoryName: string;
     revenue: number;
+    conversions: number;
+    earningsPerClick: number;
   }>;
 }
 
@@ -47,11 +51,125 @@ export interface LinkPerformance {
   title: string;
   clicks: number;
   uniqueClicks: number;
+  conversions: number;
   conversionRate: number;
   revenue: number;
+  earningsPerClick: number;
   ctr: number; // Click-through rate
 }
 
+export interface RealTimeAnalytics {
+  activeUsers: number;
+  clicksToday: number;
+  revenueToday: number;
+  topLinksToday: Array<{
+    linkId: string;
+    title: string;
+    clicks: number;
+  }>;
+}
+
+export type ClickClassification = 'valid' | 'bot' | 'duplicate';
+
+// A click pushed by the live analytics stream
+export interface LiveClick {
+  id: string;
+  linkId: string;
+  title: string | null;
+  timestamp: string;
+  classification: ClickClassification;
+  variant: string | null;
+  countryCode: string | null;
+}
+
+// Clicks recorded in one minute, by classification
+export type MinuteAggregate = { minute: string } & Record<
+  ClickClassification,
+  number
+>;
+
+export type LiveAnalyticsEvent =
+  | { type: 'click'; click: LiveClick }
+  | { type: 'aggregates'; aggregates: MinuteAggregate[] };
+
+// The breakdown endpoints wrap their payload as { success, data }
+interface AnalyticsEnvelope<T> {
+  success: boolean;
+  data: T;
+}
+
+async function unwrap<T>(
+  request: Promise<ApiResponse<AnalyticsEnvelope<T>>>
+): Promise<ApiResponse<T>> {
+  const response = await request;
+  if (response.success) {
+    return { data: response.data.data, success: true };
+  }
+  return { data: null as T, success: false, error: response.error };
+}
+
+// The API takes snake_case query parameters
+function dateRangeParams(params: AnalyticsParams): URLSearchParams {
+  const searchParams = new URLSearchParams();
+
+  if (params.startDate) searchParams.set('start_date', params.startDate);
+  if (params.endDate) searchParams.set('end_date', params.endDate);
+
+  return searchParams;
+}
+
+function breakdownEndpoint(path: string, params: AnalyticsParams): string {
+  const searchParams = dateRangeParams(params);
+  if (params.categoryId) searchParams.set('category_id', params.categoryId);
+  return `${path}${searchParams.toString() ? `?${searchParams.toString()}` : ''}`;
+}
+
+interface StreamedClick {
+  id: string;
+  link_id: string;
+  title: string | null;
+  timestamp: string;
+  classification: ClickClassification;
+  variant: string | null;
+  country_code: string | null;
+}
+
+// Turns one Server-Sent Events message into an analytics event. Comments
+// (heartbeats), 'retry' fields and unknown events are ignored.
+function parseStreamMessage(message: string): LiveAnalyticsEvent | null {
+  let event = 'message';
+  const data: string[] = [];
+
+  for (const line of message.split('\n')) {
+    if (line.startsWith('event:')) event = line.slice(6).trim();
+    else if (line.startsWith('data:')) data.push(line.slice(5).trimStart());
+  }
+  if (data.length === 0) return null;
+
+  if (event === 'click') {
+    const click = JSON.parse(data.join('\n')) as StreamedClick;
+    return {
+      type: 'click',
+      click: {
+        id: click.id,
+        linkId: click.link_id,
+        title: click.title,
+        timestamp: click.timestamp,
+        classification: click.classification,
+        variant: click.variant,
+        countryCode: click.country_code,
+      },
+    };
+  }
+  if (event === 'aggregates') {
+    return {
+      type: 'aggregates',
+      aggregates: JSON.parse(data.join('\n')) as MinuteAggregate[],
+    };
+  }
+  return null;
+}
+
 /**
  * API service for analytics operations
  */
@@ -62,12 +180,9 @@ export class AnalyticsApi {
   async getDashboardAnalytics(
     params: AnalyticsParams = {}
   ): Promise<ApiResponse<AnalyticsResponse>> {
-    const searchParams = new URLSearchParams();
+    const searchParams = dateRangeParams(params);
 
-    if (params.startDate) searchParams.set('startDate', params.startDate);
-    if (params.endDate) searchParams.set('endDate', params.endDate);
-    if (params.categoryId) searchParams.set('categoryId', params.categoryId);
-    if (params.linkId) searchParams.set('linkId', params.linkId);
+    if (params.linkId) searchParams.set('link_id', params.linkId);
 
     const endpoint = `/admin/analytics${searchParams.toString() ? `?${searchParams.toString()}` : ''}`;
     return apiClient.get<AnalyticsResponse>(endpoint);
@@ -79,14 +194,11 @@ export class AnalyticsApi {
   async getClickAnalytics(
     params: AnalyticsParams = {}
   ): Promise<ApiResponse<ClickAnalytics>> {
-    const searchParams = new URLSearchParams();
-
-    if (params.startDate) searchParams.set('startDate', params.startDate);
-    if (params.endDate) searchParams.set('endDate', params.endDate);
-    if (params.categoryId) searchParams.set('categoryId', params.categoryId);
-
-    const endpoint = `/admin/analytics/clicks${searchParams.toString() ? `?${searchParams.toString()}` : ''}`;
-    return apiClient.get<ClickAnalytics>(endpoint);
+    return unwrap(
+      apiClient.get<AnalyticsEnvelope<ClickAnalytics>>(
+        breakdownEndpoint('/admin/analytics/clicks', params)
+      )
+    );
   }
 
   /**
@@ -95,14 +207,11 @@ export class AnalyticsApi {
   async getRevenueAnalytics(
     params: AnalyticsParams = {}
   ): Promise<ApiResponse<RevenueAnalytics>> {
-    const searchParams = new URLSearchParams();
-
-    if (params.startDate) searchParams.set('startDate', params.startDate);
-    if (params.endDate) searchParams.set('endDate', params.endDate);
-    if (params.categoryId) searchParams.set('categoryId', params.categoryId);
-
-    const endpoint = `/admin/analytics/revenue${searchParams.toString() ? `?${searchParams.toString()}` : ''}`;
-    return apiClient.get<RevenueAnalytics>(endpoint);
+    return unwrap(
+      apiClient.get<AnalyticsEnvelope<RevenueAnalytics>>(
+        breakdownEndpoint('/admin/analytics/revenue', params)
+      )
+    );
   }
 
   /**
@@ -111,14 +220,11 @@ export class AnalyticsApi {
   async getLinkPerformance(
     params: AnalyticsParams = {}
   ): Promise<ApiResponse<LinkPerformance[]>> {
-    const searchParams = new URLSearchParams();
-
-    if (params.startDate) searchParams.set('startDate', params.startDate);
-    if (params.endDate) searchParams.set('endDate', params.endDate);
-    if (params.categoryId) searchParams.set('categoryId', params.categoryId);
-
-    const endpoint = `/admin/analytics/links${searchParams.toString() ? `?${searchParams.toString()}` : ''}`;
-    return apiClient.get<LinkPerformance[]>(endpoint);
+    return unwrap(
+      apiClient.get<AnalyticsEnvelope<LinkPerformance[]>>(
+        breakdownEndpoint('/admin/analytics/links', params)
+      )
+    );
   }
 
   /**
@@ -128,10 +234,7 @@ export class AnalyticsApi {
     linkId: string,
     params: Omit<AnalyticsParams, 'linkId'> = {}
   ): Promise<ApiResponse<LinkPerformance>> {
-    const searchParams = new URLSearchParams();
-
-    if (params.startDate) searchParams.set('startDate', params.startDate);
-    if (params.endDate) searchParams.set('endDate', params.endDate);
+    const searchParams = dateRangeParams(params);
 
     const endpoint = `/admin/analytics/links/${linkId}${searchParams.toString() ? `?${searchParams.toString()}` : ''}`;
     return apiClient.get<LinkPerformance>(endpoint);
@@ -143,11 +246,8 @@ export class AnalyticsApi {
   async exportAnalytics(
     params: AnalyticsParams & { format?: 'csv' | 'json' } = {}
   ): Promise<ApiResponse<Blob>> {
-    const searchParams = new URLSearchParams();
+    const searchParams = dateRangeParams(params);
 
-    if (params.startDate) searchParams.set('startDate', params.startDate);
-    if (params.endDate) searchParams.set('endDate', params.endDate);
-    if (params.categoryId) searchParams.set('categoryId', params.categoryId);
     if (params.format) searchParams.set('format', params.format);
 
     const endpoint = `/admin/analytics/export${searchParams.toString() ? `?${searchParams.toString()}` : ''}`;
@@ -157,19 +257,52 @@ export class AnalyticsApi {
   /**
    * Get real-time analytics summary (admin only)
    */
-  async getRealTimeAnalytics(): Promise<
-    ApiResponse<{
-      activeUsers: number;
-      clicksToday: number;
-      revenueToday: number;
-      topLinksToday: Array<{
-        linkId: string;
-        title: string;
-        clicks: number;
-      }>;
-    }>
-  > {
-    return apiClient.get('/admin/analytics/realtime', { cache: false });
+  async getRealTimeAnalytics(): Promise<ApiResponse<RealTimeAnalytics>> {
+    return unwrap(
+      apiClient.get<AnalyticsEnvelope<RealTimeAnalytics>>(
+        '/admin/analytics/realtime',
+        { cache: false }
+      )
+    );
+  }
+
+  /**
+   * Follow live clicks and per-minute aggregates (admin only). Resolves when
+   * the server ends the stream or the signal aborts it; rejects when the
+   * stream can't be opened or breaks off.
+   */
+  async streamLiveAnalytics(
+    onEvent: (event: LiveAnalyticsEvent) => void,
+    signal?: AbortSignal
+  ): Promise<void> {
+    const response = await apiClient.openStream(
+      '/admin/analytics/stream',
+      signal
+    );
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    try {
+      for (;;) {
+        const { value, done } = await reader.read();
+        if (done) return;
+
+        buffer += decoder.decode(value, { stream: true });
+        const messages = buffer.split('\n\n');
+        buffer = messages.pop() ?? '';
+
+        for (const message of messages) {
+          const event = parseStreamMessage(message);
+          if (event) onEvent(event);
+        }
+      }
+    } catch (error) {
+      if (signal?.aborted) return;
+      throw error;
+    } finally {
+      reader.releaseLock();
+    }
   }
 }
 
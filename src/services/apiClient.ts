@@ -8,6 +8,8 @@ export interface ApiError {
   message: string;
   status?: number;
   code?: string;
+  // The `details` of the server's error response, e.g. conflicting counts
+  details?: Record<string, unknown>;
 }
 
 export interface ApiResponse<T> {
@@ -25,6 +27,12 @@ export interface RequestConfig {
   timeout?: number;
 }
 
+/**
+ * Called when a request is rejected with 401. Resolves true if the
+ * credentials were renewed and the request should be retried.
+ */
+export type UnauthorizedHandler = () => Promise<boolean>;
+
 export interface CacheEntry<T> {
   data: T;
   timestamp: number;
@@ -35,6 +43,7 @@ class ApiClient {
   private baseUrl: string;
   private defaultHeaders: Record<string, string>;
   private cache: Map<string, CacheEntry<any>> = new Map();
+  private unauthorizedHandler: UnauthorizedHandler | null = null;
   private readonly DEFAULT_CACHE_TTL = 5 * 60 * 1000; // 5 minutes
   private readonly DEFAULT_TIMEOUT = 10000; // 10 seconds
   private readonly DEFAULT_RETRIES = 3;
@@ -60,6 +69,29 @@ class ApiClient {
     delete this.defaultHeaders['Authorization'];
   }
 
+  /**
+   * Set handler used to renew credentials after a 401 response
+   */
+  setUnauthorizedHandler(handler: UnauthorizedHandler | null) {
+    this.unauthorizedHandler = handler;
+  }
+
+  /**
+   * Whether a failed request should be retried after renewing credentials.
+   * Login and refresh are excluded so a failed refresh can't loop.
+   */
+  private shouldRenewCredentials(
+    endpoint: string,
+    response: ApiResponse<unknown>
+  ): boolean {
+    return (
+      !!this.unauthorizedHandler &&
+      response.error?.status === 401 &&
+      !endpoint.startsWith('/auth/login') &&
+      !endpoint.startsWith('/auth/refresh')
+    );
+  }
+
   /**
    * Get cached data if available and not expired
    */
@@ -140,6 +172,7 @@ class ApiClient {
           errorData.message || `HTTP ${response.status}: ${response.statusText}`
         ) as any;
         error.status = response.status;
+        error.details = errorData.details;
         throw error;
       }
 
@@ -166,6 +199,10 @@ class ApiClient {
             error instanceof Error && 'status' in error
               ? (error as any).status
               : undefined,
+          details:
+            error instanceof Error && 'details' in error
+              ? (error as ApiError).details
+              : undefined,
         },
       };
     }
@@ -209,7 +246,15 @@ class ApiClient {
       }
     }
 
-    const response = await this.makeRequest<T>(url, config);
+    let response = await this.makeRequest<T>(url, config);
+
+    // Renew an expired or revoked access token once, then retry
+    if (
+      this.shouldRenewCredentials(endpoint, response) &&
+      (await this.unauthorizedHandler!())
+    ) {
+      response = await this.makeRequest<T>(url, config);
+    }
 
     // Cache successful GET responses
     if (
@@ -265,6 +310,41 @@ class ApiClient {
     return this.request<T>(endpoint, { ...config, method: 'DELETE' });
   }
 
+  /**
+   * Open a streaming GET (e.g. Server-Sent Events) and return the response
+   * once it is accepted. Unlike EventSource this sends the auth header.
+   * Not cached or retried; the caller decides when to reconnect.
+   */
+  async openStream(endpoint: string, signal?: AbortSignal): Promise<Response> {
+    const open = () =>
+      fetch(`${this.baseUrl}${endpoint}`, {
+        method: 'GET',
+        headers: { ...this.defaultHeaders, Accept: 'text/event-stream' },
+        signal,
+      });
+
+    let response = await open();
+
+    // Renew an expired or revoked access token once, then retry
+    if (
+      response.status === 401 &&
+      this.unauthorizedHandler &&
+      (await this.unauthorizedHandler())
+    ) {
+      response = await open();
+    }
+
+    if (!response.ok || !response.body) {
+      const error = new Error(
+        `HTTP ${response.status}: ${response.statusText}`
+      ) as Error & { status: number };
+      error.status = response.status;
+      throw error;
+    }
+
+    return response;
+  }
+
   /**
    * Clear all cached data
    */
@@ -0,0 +1,108 @@
+import { apiClient } from './apiClient';
+import type { ApiResponse } from './apiClient';
+import type { AuditAction, AuditEvent } from '../types';
+
+// Audit events are returned as raw database rows
+interface AuditEventRow {
+  id: string;
+  actor_id: string | null;
+  actor_email: string | null;
+  action: AuditAction;
+  entity_type: AuditEvent['entityType'];
+  entity_id: string | null;
+  diff: AuditEvent['diff'];
+  metadata: Record<string, unknown> | null;
+  created_at: string;
+}
+
+interface AuditEnvelope {
+  success: boolean;
+  data: AuditEventRow[];
+  pagination: { total: number; has_more: boolean };
+}
+
+export interface GetAuditEventsParams {
+  actorId?: string;
+  action?: AuditAction;
+  entityType?: AuditEvent['entityType'];
+  entityId?: string;
+  startDate?: string;
+  endDate?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface AuditEventsPage {
+  events: AuditEvent[];
+  total: number;
+  hasMore: boolean;
+}
+
+const toAuditEvent = (row: AuditEventRow): AuditEvent => ({
+  id: row.id,
+  actorId: row.actor_id,
+  actorEmail: row.actor_email,
+  action: row.action,
+  entityType: row.entity_type,
+  entityId: row.entity_id,
+  diff: row.diff ?? {},
+  metadata: row.metadata,
+  createdAt: new Date(row.created_at),
+});
+
+/**
+ * API service for the admin audit log
+ */
+export class AuditApi {
+  /**
+   * List audit events, newest first
+   */
+  async getEvents(
+    params: GetAuditEventsParams = {}
+  ): Promise<ApiResponse<AuditEventsPage>> {
+    const searchParams = new URLSearchParams();
+
+    if (params.actorId) searchParams.set('actor_id', params.actorId);
+    if (params.action) searchParams.set('action', params.action);
+    if (params.entityType) searchParams.set('entity_type', params.entityType);
+    if (params.entityId) searchParams.set('entity_id', params.entityId);
+    if (params.startDate) searchParams.set('start_date', params.startDate);
+    if (params.endDate) searchParams.set('end_date', params.endDate);
+    if (params.limit) searchParams.set('limit', params.limit.toString());
+    if (params.offset) searchParams.set('offset', params.offset.toString());
+
+    const endpoint = `/admin/audit${searchParams.toString() ? `?${searchParams.toString()}` : ''}`;
+    const response = await apiClient.get<AuditEnvelope>(endpoint, {
+      cache: false,
+    });
+
+    if (response.success) {
+      return {
+        data: {
+          events: response.data.data.map(toAuditEvent),
+          total: response.data.pagination.total,
+          hasMore: response.data.pagination.has_more,
+        },
+        success: true,
+      };
+    }
+    return {
+      data: { events: [], total: 0, hasMore: false },
+      success: false,
+      error: response.error,
+    };
+  }
+
+  /**
+   * History of a single affiliate link
+   */
+  async getLinkHistory(
+    linkId: string,
+    limit: number = 50
+  ): Promise<ApiResponse<AuditEventsPage>> {
+    return this.getEvents({ entityType: 'link', entityId: linkId, limit });
+  }
+}
+
+// Create and export singleton instance
+export const auditApi = new AuditApi();
@@ -1,16 +1,50 @@
 import { apiClient } from './apiClient';
 import type { LoginCredentials, AuthResponse, AdminUser } from '../types';
 
+interface TokenPairResponse {
+  token: string;
+  refreshToken?: string;
+  refreshExpiresAt?: string;
+  user: AdminUser;
+}
+
+type SessionListener = (auth: AuthResponse | null) => void;
+
 class AuthService {
   private readonly TOKEN_KEY = 'affiliate_admin_token';
+  private readonly REFRESH_TOKEN_KEY = 'affiliate_admin_refresh_token';
+  private readonly SESSION_EXPIRES_KEY = 'affiliate_admin_session_expires';
   private readonly USER_KEY = 'affiliate_admin_user';
+  private refreshPromise: Promise<AuthResponse> | null = null;
+  private sessionListeners = new Set<SessionListener>();
+
+  constructor() {
+    // Transparently refresh the access token when an API call is rejected
+    apiClient.setUnauthorizedHandler(() =>
+      this.refreshToken().then(
+        () => true,
+        () => false
+      )
+    );
+  }
+
+  /**
+   * Subscribe to token refreshes (with the new auth data) and
+   * session expiry (with null). Returns an unsubscribe function.
+   */
+  onSessionChange(listener: SessionListener): () => void {
+    this.sessionListeners.add(listener);
+    return () => {
+      this.sessionListeners.delete(listener);
+    };
+  }
 
   /**
    * Login with email and password
    */
   async login(credentials: LoginCredentials): Promise<AuthResponse> {
     try {
-      const response = await apiClient.post<{ token: string; user: AdminUser }>(
+      const response = await apiClient.post<TokenPairResponse>(
         '/auth/login',
         credentials
       );
@@ -18,6 +52,10 @@ class AuthService {
       if (response.success) {
         // Store token and user data
         this.setToken(response.data.token);
+        this.setRefreshToken(
+          response.data.refreshToken,
+          response.data.refreshExpiresAt
+        );
         this.setUser(response.data.user);
 
         // Set token in API client for future requests
@@ -52,41 +90,66 @@ class AuthService {
     } finally {
       // Always clear local data
       this.clearToken();
+      this.clearRefreshToken();
       this.clearUser();
       apiClient.clearAuthToken();
     }
   }
 
   /**
-   * Refresh the current token
+   * Exchange the stored refresh token for a new token pair.
+   * Concurrent callers share one request, since a refresh token is single-use.
    */
-  async refreshToken(): Promise<AuthResponse> {
+  refreshToken(): Promise<AuthResponse> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.performRefresh().finally(() => {
+        this.refreshPromise = null;
+      });
+    }
+    return this.refreshPromise;
+  }
+
+  private async performRefresh(): Promise<AuthResponse> {
     try {
-      const response = await apiClient.post<{ token: string; user: AdminUser }>(
-        '/auth/refresh'
+      const refreshToken = this.getRefreshToken();
+      if (!refreshToken) {
+        throw new Error('No refresh token');
+      }
+
+      const response = await apiClient.post<TokenPairResponse>(
+        '/auth/refresh',
+        { refreshToken }
       );
 
       if (response.success) {
-        // Update stored token and user data
+        // Update stored tokens and user data
         this.setToken(response.data.token);
+        this.setRefreshToken(
+          response.data.refreshToken,
+          response.data.refreshExpiresAt
+        );
         this.setUser(response.data.user);
 
         // Update token in API client
         apiClient.setAuthToken(response.data.token);
 
-        return {
+        const authResponse = {
           token: response.data.token,
           user: response.data.user,
           expiresAt: this.getTokenExpiration(response.data.token),
         };
+        this.notifySessionChange(authResponse);
+        return authResponse;
       } else {
         throw new Error(response.error?.message || 'Token refresh failed');
       }
     } catch (error) {
-      // If refresh fails, clear stored data
+      // If refresh fails, the session is over; clear stored data
       this.clearToken();
+      this.clearRefreshToken();
       this.clearUser();
       apiClient.clearAuthToken();
+      this.notifySessionChange(null);
       throw new Error('Token refresh failed');
     }
   }
@@ -107,6 +170,7 @@ class AuthService {
     } catch (error) {
       // If verification fails, clear stored data
       this.clearToken();
+      this.clearRefreshToken();
       this.clearUser();
       apiClient.clearAuthToken();
       throw new Error('Token verification failed');
@@ -125,6 +189,31 @@ class AuthService {
     }
   }
 
+  /**
+   * Get stored refresh token
+   */
+  getRefreshToken(): string | null {
+    try {
+      return localStorage.getItem(this.REFRESH_TOKEN_KEY);
+    } catch (error) {
+      console.warn('Failed to get refresh token from localStorage:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Get when the session ends unless the refresh token is rotated again
+   */
+  getSessionExpiration(): Date | null {
+    try {
+      const expiresAt = localStorage.getItem(this.SESSION_EXPIRES_KEY);
+      return expiresAt ? new Date(expiresAt) : null;
+    } catch (error) {
+      console.warn('Failed to get session expiry from localStorage:', error);
+      return null;
+    }
+  }
+
   /**
    * Get stored user data
    */
@@ -179,8 +268,8 @@ class AuthService {
       console.warn('Failed to decode token expiration:', error);
     }
 
-    // Fallback: assume token expires in 7 days (default JWT expiration)
-    return new Date(Date.now() + 7 * 24 * 60 * 60 * 1000);
+    // Fallback: assume token expires in 15 minutes (default access token lifetime)
+    return new Date(Date.now() + 15 * 60 * 1000);
   }
 
   /**
@@ -229,6 +318,25 @@ class AuthService {
     }
   }
 
+  /**
+   * Store refresh token in localStorage
+   */
+  private setRefreshToken(
+    refreshToken: string | undefined,
+    expiresAt: string | undefined
+  ): void {
+    if (!refreshToken) return;
+
+    try {
+      localStorage.setItem(this.REFRESH_TOKEN_KEY, refreshToken);
+      if (expiresAt) {
+        localStorage.setItem(this.SESSION_EXPIRES_KEY, expiresAt);
+      }
+    } catch (error) {
+      console.warn('Failed to store refresh token in localStorage:', error);
+    }
+  }
+
   /**
    * Store user data in localStorage
    */
@@ -251,6 +359,18 @@ class AuthService {
     }
   }
 
+  /**
+   * Clear stored refresh token
+   */
+  private clearRefreshToken(): void {
+    try {
+      localStorage.removeItem(this.REFRESH_TOKEN_KEY);
+      localStorage.removeItem(this.SESSION_EXPIRES_KEY);
+    } catch (error) {
+      console.warn('Failed to clear refresh token from localStorage:', error);
+    }
+  }
+
   /**
    * Clear stored user data
    */
@@ -261,6 +381,13 @@ class AuthService {
       console.warn('Failed to clear user from localStorage:', error);
     }
   }
+
+  /**
+   * Notify subscribers that the session was refreshed or has ended
+   */
+  private notifySessionChange(auth: AuthResponse | null): void {
+    this.sessionListeners.forEach((listener) => listener(auth));
+  }
 }
 
 export const authService = new AuthService();
@@ -8,8 +8,19 @@ export interface CreateCategoryRequest {
   description: string;
   color: string;
   icon?: string;
+  // null removes a previously set URL template
+  urlTemplate?: string | null;
 }
 
+// The admin API takes the URL template as url_template
+const toCategoryBody = ({
+  urlTemplate,
+  ...categoryData
+}: Partial<CreateCategoryRequest>) => ({
+  ...categoryData,
+  url_template: urlTemplate,
+});
+
 /**
  * API service for categories operations
  */
@@ -78,7 +89,10 @@ export class CategoriesApi {
   async createCategory(
     categoryData: CreateCategoryRequest
   ): Promise<ApiResponse<Category>> {
-    return apiClient.post<Category>('/admin/categories', categoryData);
+    return apiClient.post<Category>(
+      '/admin/categories',
+      toCategoryBody(categoryData)
+    );
   }
 
   /**
@@ -88,14 +102,26 @@ export class CategoriesApi {
     id: string,
     categoryData: Partial<CreateCategoryRequest>
   ): Promise<ApiResponse<Category>> {
-    return apiClient.put<Category>(`/admin/categories/${id}`, categoryData);
+    return apiClient.put<Category>(
+      `/admin/categories/${id}`,
+      toCategoryBody(categoryData)
+    );
   }
 
   /**
-   * Delete a category (admin only)
+   * Delete a category (admin only). Categories that still have links must be
+   * given a category to move those links to.
    */
-  async deleteCategory(id: string): Promise<ApiResponse<{ success: boolean }>> {
-    return apiClient.delete<{ success: boolean }>(`/admin/categories/${id}`);
+  async deleteCategory(
+    id: string,
+    reassignTo?: string
+  ): Promise<ApiResponse<{ success: boolean }>> {
+    const query = reassignTo
+      ? `?reassign_to=${encodeURIComponent(reassignTo)}`
+      : '';
+    return apiClient.delete<{ success: boolean }>(
+      `/admin/categories/${id}${query}`
+    );
   }
 
   /**
@@ -4,10 +4,19 @@ import type {
   ClickTrackingConfig,
 } from '../types';
 import { apiClient } from './apiClient';
+import { config } from '../config/environment';
+
+const SESSION_KEY = 'clickTracking_session';
+const CONSENT_KEY = 'clickTracking_consent';
 
 /**
  * Click tracking service for recording affiliate link clicks
  * Handles session management, user identification, and analytics data collection
+ *
+ * Without consent (when required) or with Do Not Track / Global Privacy
+ * Control on, clicks are tracked anonymously: the session only lives in
+ * memory and clicks are sent without session, user agent, referrer, user ID
+ * or metadata.
  */
 export class ClickTrackingService {
   private config: ClickTrackingConfig;
@@ -15,6 +24,7 @@ export class ClickTrackingService {
   private clickQueue: ClickTrackingData[] = [];
   private flushTimer: number | null = null;
   private isOnline: boolean = navigator.onLine;
+  private consent: boolean | null = null;
 
   constructor(config: Partial<ClickTrackingConfig> = {}) {
     this.config = {
@@ -24,9 +34,12 @@ export class ClickTrackingService {
       flushInterval: 5000, // 5 seconds
       enableLocalStorage: true,
       enableAnalytics: true,
+      honorPrivacySignals: true,
+      requireConsent: false,
       ...config,
     };
 
+    this.consent = this.getStoredConsent();
     this.initializeService();
   }
 
@@ -71,6 +84,13 @@ export class ClickTrackingService {
         ...existingSession,
         lastActivity: now,
       };
+    } else if (this.isAnonymous()) {
+      this.sessionData = {
+        sessionId: this.generateSessionId(),
+        startTime: now,
+        lastActivity: now,
+        clickCount: 0,
+      };
     } else {
       // Create new session
       this.sessionData = {
@@ -103,19 +123,96 @@ export class ClickTrackingService {
     return timeDiff < this.config.sessionTimeout;
   }
 
+  /**
+   * Whether the browser asks not to be tracked
+   */
+  private hasPrivacySignal(): boolean {
+    const nav = navigator as Navigator & { globalPrivacyControl?: boolean };
+    return nav.doNotTrack === '1' || nav.globalPrivacyControl === true;
+  }
+
+  /**
+   * Whether clicks are currently tracked anonymously
+   */
+  public isAnonymous(): boolean {
+    if (this.config.honorPrivacySignals && this.hasPrivacySignal()) {
+      return true;
+    }
+    return (
+      this.consent === false || (this.config.requireConsent && !this.consent)
+    );
+  }
+
+  /**
+   * Record the visitor's tracking consent. Withdrawing it forgets the
+   * stored session.
+   */
+  public setConsent(granted: boolean): void {
+    const wasAnonymous = this.isAnonymous();
+    this.consent = granted;
+
+    if (this.config.enableLocalStorage && typeof localStorage !== 'undefined') {
+      try {
+        localStorage.setItem(CONSENT_KEY, granted ? 'granted' : 'denied');
+      } catch (error) {
+        console.warn('Failed to store tracking consent:', error);
+      }
+    }
+
+    this.restartSessionIfModeChanged(wasAnonymous);
+  }
+
+  /**
+   * Whether the visitor has granted tracking consent (null if never asked)
+   */
+  public getConsent(): boolean | null {
+    return this.consent;
+  }
+
+  private getStoredConsent(): boolean | null {
+    if (
+      !this.config.enableLocalStorage ||
+      typeof localStorage === 'undefined'
+    ) {
+      return null;
+    }
+
+    const stored = localStorage.getItem(CONSENT_KEY);
+    if (stored === 'granted') return true;
+    if (stored === 'denied') return false;
+    return null;
+  }
+
+  /**
+   * Start over with a new session when switching between anonymous and
+   * identified tracking, so the two can't be linked
+   */
+  private restartSessionIfModeChanged(wasAnonymous: boolean): void {
+    if (this.isAnonymous() === wasAnonymous || !this.sessionData) {
+      return;
+    }
+
+    if (this.config.enableLocalStorage && typeof localStorage !== 'undefined') {
+      localStorage.removeItem(SESSION_KEY);
+    }
+    this.sessionData = null;
+    this.initializeSession();
+  }
+
   /**
    * Get stored session from localStorage
    */
   private getStoredSession(): SessionData | null {
     if (
       !this.config.enableLocalStorage ||
-      typeof localStorage === 'undefined'
+      typeof localStorage === 'undefined' ||
+      this.isAnonymous()
     ) {
       return null;
     }
 
     try {
-      const stored = localStorage.getItem('clickTracking_session');
+      const stored = localStorage.getItem(SESSION_KEY);
       if (stored) {
         const parsed = JSON.parse(stored);
         return {
@@ -138,16 +235,14 @@ export class ClickTrackingService {
     if (
       !this.config.enableLocalStorage ||
       !this.sessionData ||
-      typeof localStorage === 'undefined'
+      typeof localStorage === 'undefined' ||
+      this.isAnonymous()
     ) {
       return;
     }
 
     try {
-      localStorage.setItem(
-        'clickTracking_session',
-        JSON.stringify(this.sessionData)
-      );
+      localStorage.setItem(SESSION_KEY, JSON.stringify(this.sessionData));
     } catch (error) {
       console.warn('Failed to store session data:', error);
     }
@@ -172,15 +267,24 @@ export class ClickTrackingService {
     this.storeSession();
 
     // Create click tracking data
-    const clickData: ClickTrackingData = {
-      linkId,
-      timestamp: now,
-      userAgent: this.sessionData.userAgent,
-      referrer: this.sessionData.referrer,
-      sessionId: this.sessionData.sessionId,
-      userId: this.sessionData.userId,
-      metadata,
-    };
+    const clickData: ClickTrackingData = this.isAnonymous()
+      ? {
+          linkId,
+          timestamp: now,
+          // A key derived from the session would link the clicks together
+          idempotencyKey: this.generateSessionId(),
+        }
+      : {
+          linkId,
+          timestamp: now,
+          userAgent: this.sessionData.userAgent,
+          referrer: this.sessionData.referrer,
+          sessionId: this.sessionData.sessionId,
+          userId: this.sessionData.userId,
+          metadata,
+          // Click numbers are never reused within a session
+          idempotencyKey: `${this.sessionData.sessionId}:${this.sessionData.clickCount}`,
+        };
 
     // Add to queue
     this.clickQueue.push(clickData);
@@ -292,10 +396,13 @@ export class ClickTrackingService {
   private handleBeforeUnload(): void {
     // Synchronously flush remaining clicks
     if (this.clickQueue.length > 0) {
-      // Use sendBeacon for reliable delivery during page unload
+      // Use sendBeacon for reliable delivery during page unload. The body
+      // goes out as text/plain, which the batch endpoint accepts.
       if (navigator.sendBeacon) {
         const data = JSON.stringify({ clicks: this.clickQueue });
-        navigator.sendBeacon('/api/clicks/batch', data);
+        if (navigator.sendBeacon(`${config.apiBaseUrl}/clicks/batch`, data)) {
+          this.clickQueue = [];
+        }
       }
     }
   }
@@ -330,7 +437,7 @@ export class ClickTrackingService {
    */
   public clearSession(): void {
     if (this.config.enableLocalStorage && typeof localStorage !== 'undefined') {
-      localStorage.removeItem('clickTracking_session');
+      localStorage.removeItem(SESSION_KEY);
     }
     this.sessionData = null;
     this.initializeSession();
@@ -340,11 +447,13 @@ export class ClickTrackingService {
    * Update configuration
    */
   public updateConfig(newConfig: Partial<ClickTrackingConfig>): void {
+    const wasAnonymous = this.isAnonymous();
     this.config = { ...this.config, ...newConfig };
 
     if (!this.config.enableTracking) {
       this.destroy();
     } else {
+      this.restartSessionIfModeChanged(wasAnonymous);
       // Restart flush timer with new interval
       this.startFlushTimer();
     }
@@ -9,12 +9,22 @@ export type { GetLinksParams } from './affiliateLinksApi';
 export { categoriesApi, CategoriesApi } from './categoriesApi';
 export type { CreateCategoryRequest } from './categoriesApi';
 
+export { usersApi, UsersApi } from './usersApi';
+export type { InviteUserResult } from './usersApi';
+
+export { auditApi, AuditApi } from './auditApi';
+export type { GetAuditEventsParams, AuditEventsPage } from './auditApi';
+
 export { analyticsApi, AnalyticsApi } from './analyticsApi';
 export type {
   AnalyticsParams,
   ClickAnalytics as ClickAnalyticsType,
   RevenueAnalytics,
   LinkPerformance,
+  RealTimeAnalytics,
+  LiveClick,
+  MinuteAggregate,
+  LiveAnalyticsEvent,
 } from './analyticsApi';
 
 export {
@@ -0,0 +1,115 @@
+import { apiClient } from './apiClient';
+import type { ApiResponse } from './apiClient';
+import type { AdminUser, InviteUserRequest, ManagedAdminUser } from '../types';
+
+// Admin endpoints wrap their payload as { success, data, message }
+interface AdminEnvelope<T> {
+  success: boolean;
+  data: T;
+  message?: string;
+}
+
+export interface InviteUserResult {
+  user: ManagedAdminUser;
+  temporaryPassword?: string;
+}
+
+async function unwrap<T>(
+  request: Promise<ApiResponse<AdminEnvelope<T>>>
+): Promise<ApiResponse<T>> {
+  const response = await request;
+  if (response.success) {
+    return { data: response.data.data, success: true };
+  }
+  return { data: null as T, success: false, error: response.error };
+}
+
+/**
+ * API service for admin user management (admin only)
+ */
+export class UsersApi {
+  /**
+   * List admin users
+   */
+  async getUsers(): Promise<ApiResponse<ManagedAdminUser[]>> {
+    return unwrap(
+      apiClient.get<AdminEnvelope<ManagedAdminUser[]>>('/admin/users', {
+        cache: false,
+      })
+    );
+  }
+
+  /**
+   * Invite a new user. Without a password, the server generates a
+   * temporary one that is only returned here.
+   */
+  async inviteUser(
+    userData: InviteUserRequest
+  ): Promise<ApiResponse<InviteUserResult>> {
+    return unwrap(
+      apiClient.post<AdminEnvelope<InviteUserResult>>('/admin/users', userData)
+    );
+  }
+
+  /**
+   * Change a user's name or role
+   */
+  async updateUser(
+    id: string,
+    updates: { name?: string; role?: AdminUser['role'] }
+  ): Promise<ApiResponse<ManagedAdminUser>> {
+    return unwrap(
+      apiClient.put<AdminEnvelope<ManagedAdminUser>>(
+        `/admin/users/${id}`,
+        updates
+      )
+    );
+  }
+
+  /**
+   * Reset a user's password and sign them out everywhere
+   */
+  async resetPassword(
+    id: string,
+    password?: string
+  ): Promise<ApiResponse<{ temporaryPassword?: string }>> {
+    return unwrap(
+      apiClient.post<AdminEnvelope<{ temporaryPassword?: string }>>(
+        `/admin/users/${id}/reset-password`,
+        password ? { password } : {}
+      )
+    );
+  }
+
+  /**
+   * Deactivate a user so they can no longer sign in
+   */
+  async deactivateUser(id: string): Promise<ApiResponse<ManagedAdminUser>> {
+    return unwrap(
+      apiClient.post<AdminEnvelope<ManagedAdminUser>>(
+        `/admin/users/${id}/deactivate`
+      )
+    );
+  }
+
+  /**
+   * Allow a deactivated user to sign in again
+   */
+  async reactivateUser(id: string): Promise<ApiResponse<ManagedAdminUser>> {
+    return unwrap(
+      apiClient.post<AdminEnvelope<ManagedAdminUser>>(
+        `/admin/users/${id}/reactivate`
+      )
+    );
+  }
+
+  /**
+   * Delete a user
+   */
+  async deleteUser(id: string): Promise<ApiResponse<null>> {
+    return unwrap(apiClient.delete<AdminEnvelope<null>>(`/admin/users/${id}`));
+  }
+}
+
+// Create and export singleton instance
+export const usersApi = new UsersApi();
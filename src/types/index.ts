@@ -7,9 +7,18 @@ export interface Category {
   description: string;
   color: string;
   icon?: string;
+  // Default outbound URL template for links without their own
+  urlTemplate?: string;
   linkCount: number;
 }
 
+// One arm of a link's A/B test; clicks are split by weight
+export interface LinkDestination {
+  variant: string;
+  url: string;
+  weight: number;
+}
+
 export interface AffiliateLink {
   id: string;
   title: string;
@@ -25,8 +34,22 @@ export interface AffiliateLink {
   createdAt: Date;
   updatedAt: Date;
   status: 'active' | 'inactive' | 'pending';
+  // Optional publish window; outside it the link is hidden from the public
+  publishAt?: Date;
+  expiresAt?: Date;
+  // Vanity short link served at /go/:slug
+  slug?: string;
+  // Outbound URL template, e.g. '{affiliate_url}&subid={click_id}'
+  urlTemplate?: string;
+  // Weighted A/B destinations; empty sends every click to affiliateUrl
+  destinations?: LinkDestination[];
+  // Keep each visitor session on the same destination
+  stickyDestinations?: boolean;
 }
 
+// Where the current time falls relative to a link's publish window
+export type LinkScheduleState = 'live' | 'scheduled' | 'expired';
+
 export interface ClickEvent {
   id: string;
   linkId: string;
@@ -41,11 +64,14 @@ export interface ClickEvent {
 export interface ClickTrackingData {
   linkId: string;
   timestamp: Date;
-  userAgent: string;
+  // Left out for anonymous clicks, together with referrer, userId and metadata
+  userAgent?: string;
   referrer?: string;
-  sessionId: string;
+  sessionId?: string;
   userId?: string;
   metadata?: Record<string, any>;
+  // Lets the server record a click once even if its batch is sent twice
+  idempotencyKey: string;
 }
 
 export interface SessionData {
@@ -53,7 +79,7 @@ export interface SessionData {
   userId?: string;
   startTime: Date;
   lastActivity: Date;
-  userAgent: string;
+  userAgent?: string;
   referrer?: string;
   clickCount: number;
 }
@@ -65,6 +91,10 @@ export interface ClickTrackingConfig {
   flushInterval: number; // in milliseconds
   enableLocalStorage: boolean;
   enableAnalytics: boolean;
+  // Track anonymously when the browser sends Do Not Track or Global Privacy Control
+  honorPrivacySignals: boolean;
+  // Track anonymously until setConsent(true) is called
+  requireConsent: boolean;
 }
 
 export interface AdminUser {
@@ -75,6 +105,105 @@ export interface AdminUser {
   lastLogin: Date;
 }
 
+// Admin user as shown in user management
+export interface ManagedAdminUser extends AdminUser {
+  isActive: boolean;
+  createdAt: Date;
+}
+
+export interface InviteUserRequest {
+  email: string;
+  name: string;
+  role: AdminUser['role'];
+  password?: string;
+}
+
+// Link in the admin trash, which keeps its click history until purged
+export interface TrashedLink {
+  id: string;
+  title: string;
+  url: string;
+  clickCount: number;
+  deletedAt: Date;
+}
+
+// Bulk link import
+export type LinkImportSource = { csv: string } | { links: unknown[] };
+
+export interface LinkImportRowResult {
+  row: number;
+  status: 'valid' | 'invalid';
+  title: string | null;
+  errors: { field: string; message: string }[];
+}
+
+export interface LinkImportReport {
+  dryRun: boolean;
+  total: number;
+  valid: number;
+  invalid: number;
+  rows: LinkImportRowResult[];
+  // Only set once the import has been committed
+  created?: number;
+}
+
+// Link health checks: reachability of each destination of a link
+export type LinkHealthTarget = 'url' | 'affiliate_url' | 'image_url';
+
+export interface LinkHealthCheck {
+  target: LinkHealthTarget;
+  // null when the request failed or timed out (see error)
+  statusCode: number | null;
+  finalUrl: string | null;
+  error: string | null;
+  healthy: boolean;
+  consecutiveFailures: number;
+  checkedAt: Date;
+}
+
+export interface LinkHealth {
+  linkId: string;
+  healthy: boolean;
+  checks: LinkHealthCheck[];
+}
+
+export interface LinkHealthReport {
+  summary: {
+    totalLinks: number;
+    healthy: number;
+    unhealthy: number;
+    unchecked: number;
+    lastCheckedAt: Date | null;
+  };
+  links: LinkHealth[];
+}
+
+// Audit log of admin changes
+export type AuditAction =
+  | 'create'
+  | 'update'
+  | 'delete'
+  | 'bulk_update'
+  | 'bulk_delete'
+  | 'restore'
+  | 'purge'
+  | 'reset_password'
+  | 'deactivate'
+  | 'reactivate';
+
+export interface AuditEvent {
+  id: string;
+  actorId: string | null;
+  actorEmail: string | null;
+  action: AuditAction;
+  entityType: 'link' | 'category' | 'user';
+  entityId: string | null;
+  // Changed fields keyed by database column name
+  diff: Record<string, { from: unknown; to: unknown }>;
+  metadata: Record<string, unknown> | null;
+  createdAt: Date;
+}
+
 // Authentication types
 export interface LoginCredentials {
   email: string;
@@ -132,6 +261,15 @@ export interface CreateLinkRequest {
   imageUrl?: string;
   commissionRate?: number;
   featured: boolean;
+  // ISO timestamps; null clears a previously set date
+  publishAt?: string | null;
+  expiresAt?: string | null;
+  // null removes a previously set slug
+  slug?: string | null;
+  // null removes a previously set URL template
+  urlTemplate?: string | null;
+  destinations?: LinkDestination[];
+  stickyDestinations?: boolean;
 }
 
 export interface AnalyticsResponse {
@@ -11,6 +11,7 @@ import {
   truncateText,
   generateId,
   highlightSearchText,
+  getLinkSchedule,
 } from '../helpers';
 import {
   createMockAffiliateLink,
@@ -278,6 +279,32 @@ describe('calculateCategoryStats', () => {
   });
 });
 
+describe('getLinkSchedule', () => {
+  const now = new Date('2024-12-10T00:00:00Z');
+
+  it('treats links without dates as live', () => {
+    expect(getLinkSchedule({}, now)).toBe('live');
+  });
+
+  it('detects scheduled and expired links', () => {
+    expect(
+      getLinkSchedule({ publishAt: new Date('2024-12-20T00:00:00Z') }, now)
+    ).toBe('scheduled');
+    expect(
+      getLinkSchedule({ expiresAt: new Date('2024-12-10T00:00:00Z') }, now)
+    ).toBe('expired');
+    expect(
+      getLinkSchedule(
+        {
+          publishAt: new Date('2024-12-01T00:00:00Z'),
+          expiresAt: new Date('2024-12-26T00:00:00Z'),
+        },
+        now
+      )
+    ).toBe('live');
+  });
+});
+
 describe('formatCommissionRate', () => {
   it('should format commission rate as percentage', () => {
     expect(formatCommissionRate(15.5)).toBe('15.5%');
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import {
+  expandUrlTemplate,
+  findUnknownPlaceholders,
+  isValidUrlTemplate,
+} from '../urlTemplate';
+
+describe('expandUrlTemplate', () => {
+  it('should insert the affiliate URL as is and encode other values', () => {
+    expect(
+      expandUrlTemplate('{affiliate_url}&subid={click_id}&r={referrer}', {
+        affiliate_url: 'https://network.example.com/p?id=1',
+        click_id: 'click-1',
+        referrer: 'https://blog.example.com/a b',
+      })
+    ).toBe(
+      'https://network.example.com/p?id=1&subid=click-1&r=https%3A%2F%2Fblog.example.com%2Fa%20b'
+    );
+  });
+
+  it('should start the query string when the affiliate URL has none', () => {
+    expect(
+      expandUrlTemplate('{affiliate_url}&subid={session_id}', {
+        affiliate_url: 'https://network.example.com/p',
+        session_id: 'abc',
+      })
+    ).toBe('https://network.example.com/p?subid=abc');
+  });
+});
+
+describe('isValidUrlTemplate', () => {
+  it('should accept templates that expand to a URL', () => {
+    expect(isValidUrlTemplate('{affiliate_url}&subid={click_id}')).toBe(true);
+    expect(
+      isValidUrlTemplate('https://network.example.com/deeplink?id={link_id}')
+    ).toBe(true);
+  });
+
+  it('should reject unknown placeholders and non-URLs', () => {
+    expect(findUnknownPlaceholders('{affiliate_url}&s={clickid}')).toEqual([
+      'clickid',
+    ]);
+    expect(isValidUrlTemplate('{affiliate_url}&s={clickid}')).toBe(false);
+    expect(isValidUrlTemplate('subid={click_id}')).toBe(false);
+    expect(isValidUrlTemplate('javascript:alert({link_id})')).toBe(false);
+  });
+});
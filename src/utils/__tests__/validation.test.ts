@@ -8,6 +8,8 @@ import {
   sanitizeString,
   generateSlug,
   isValidUUID,
+  isValidLinkSlug,
+  isValidLinkVariant,
 } from '../validation';
 import {
   createMockAffiliateLink,
@@ -255,6 +257,29 @@ describe('generateSlug', () => {
   });
 });
 
+describe('isValidLinkSlug', () => {
+  it('should accept lowercase words separated by single hyphens', () => {
+    expect(isValidLinkSlug('summer-sale-2024')).toBe(true);
+    expect(isValidLinkSlug(generateSlug('Summer Sale 2024!'))).toBe(true);
+  });
+
+  it('should reject other characters and stray hyphens', () => {
+    expect(isValidLinkSlug('')).toBe(false);
+    expect(isValidLinkSlug('Summer-Sale')).toBe(false);
+    expect(isValidLinkSlug('summer--sale')).toBe(false);
+    expect(isValidLinkSlug('-summer')).toBe(false);
+    expect(isValidLinkSlug('a'.repeat(101))).toBe(false);
+  });
+});
+
+describe('isValidLinkVariant', () => {
+  it('should accept short slug-style names', () => {
+    expect(isValidLinkVariant('spring-b')).toBe(true);
+    expect(isValidLinkVariant('Spring B')).toBe(false);
+    expect(isValidLinkVariant('a'.repeat(51))).toBe(false);
+  });
+});
+
 describe('isValidUUID', () => {
   it('should return true for valid UUID', () => {
     const validUUID = '123e4567-e89b-12d3-a456-426614174000';
@@ -2,6 +2,7 @@ import type {
   AffiliateLink,
   Category,
   FilterState,
+  LinkScheduleState,
   SortOption,
 } from '../types';
 
@@ -166,6 +167,18 @@ export function calculateCategoryStats(
   }));
 }
 
+/**
+ * Where a link stands relative to its publish window
+ */
+export function getLinkSchedule(
+  link: Pick<AffiliateLink, 'publishAt' | 'expiresAt'>,
+  now: Date = new Date()
+): LinkScheduleState {
+  if (link.publishAt && new Date(link.publishAt) > now) return 'scheduled';
+  if (link.expiresAt && new Date(link.expiresAt) <= now) return 'expired';
+  return 'live';
+}
+
 /**
  * Formats commission rate as percentage
  */
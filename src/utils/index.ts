@@ -6,6 +6,9 @@ export * from './validation';
 // Helper functions
 export * from './helpers';
 
+// Outbound URL templates
+export * from './urlTemplate';
+
 // API error handling utilities
 export * from './apiErrorHandler';
 
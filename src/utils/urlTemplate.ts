@@ -0,0 +1,90 @@
+/**
+ * Outbound URL templates, e.g. '{affiliate_url}&subid={click_id}'. The API
+ * expands them on every tracked redirect (server/src/utils/urlTemplate.ts);
+ * this copy only drives the admin preview.
+ */
+
+export const URL_TEMPLATE_PLACEHOLDERS = [
+  'affiliate_url',
+  'link_id',
+  'click_id',
+  'session_id',
+  'referrer',
+  'referrer_host',
+  'utm_source',
+  'utm_medium',
+  'utm_campaign',
+  'utm_term',
+  'utm_content',
+] as const;
+
+export type UrlTemplatePlaceholder = (typeof URL_TEMPLATE_PLACEHOLDERS)[number];
+
+export type UrlTemplateValues = Partial<Record<UrlTemplatePlaceholder, string>>;
+
+const PLACEHOLDER_PATTERN = /\{([a-z_]+)\}/g;
+
+// Stand-ins for the values only known once someone clicks
+export const SAMPLE_URL_TEMPLATE_VALUES: UrlTemplateValues = {
+  link_id: '123e4567-e89b-12d3-a456-426614174000',
+  click_id: '9b2f6c1e-4a7d-4f3b-8e21-5d6c7b8a9f00',
+  session_id: 'a1b2c3d4e5f60718293a4b5c6d7e8f90',
+  referrer: 'https://blog.example.com/review',
+  referrer_host: 'blog.example.com',
+  utm_source: 'newsletter',
+  utm_medium: 'email',
+  utm_campaign: 'spring-sale',
+  utm_term: '',
+  utm_content: '',
+};
+
+const isPlaceholder = (name: string): name is UrlTemplatePlaceholder =>
+  (URL_TEMPLATE_PLACEHOLDERS as readonly string[]).includes(name);
+
+/**
+ * Returns the placeholders in a template that the API doesn't know
+ */
+export function findUnknownPlaceholders(template: string): string[] {
+  return [...template.matchAll(PLACEHOLDER_PATTERN)]
+    .map(([, name]) => name)
+    .filter((name) => !isPlaceholder(name));
+}
+
+/**
+ * Fills in a template the same way the API does: values are URL-encoded
+ * except the affiliate URL, and the first '&' starts the query string when
+ * there is none yet
+ */
+export function expandUrlTemplate(
+  template: string,
+  values: UrlTemplateValues
+): string {
+  const expanded = template.replace(
+    PLACEHOLDER_PATTERN,
+    (match, name: string) => {
+      if (!isPlaceholder(name)) return match;
+      const value = values[name] ?? '';
+      return name === 'affiliate_url' ? value : encodeURIComponent(value);
+    }
+  );
+  return expanded.includes('?') ? expanded : expanded.replace('&', '?');
+}
+
+/**
+ * Whether a template expands to an http(s) URL, as the API requires
+ */
+export function isValidUrlTemplate(template: string): boolean {
+  if (template.length > 2000 || findUnknownPlaceholders(template).length) {
+    return false;
+  }
+  try {
+    const { protocol } = new URL(
+      expandUrlTemplate(template, {
+        affiliate_url: 'https://affiliate.example.com/product?ref=sample',
+      })
+    );
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
@@ -5,6 +5,7 @@ import type {
   AdminUser,
   CreateLinkRequest,
 } from '../types';
+import { isValidUrlTemplate } from './urlTemplate';
 
 // URL validation regex
 const URL_REGEX = /^https?:\/\/.+/;
@@ -90,6 +91,12 @@ export function validateCategory(category: Partial<Category>): string[] {
     errors.push('Category color must be a valid hex color code');
   }
 
+  if (category.urlTemplate && !isValidUrlTemplate(category.urlTemplate)) {
+    errors.push(
+      'Category URL template must use known placeholders and expand to a valid URL'
+    );
+  }
+
   return errors;
 }
 
@@ -214,6 +221,22 @@ export function generateSlug(input: string): string {
     .replace(/^-+|-+$/g, '');
 }
 
+/**
+ * Validates a link's vanity slug (the part after /go/): lowercase letters
+ * and numbers, separated by single hyphens
+ */
+export function isValidLinkSlug(slug: string): boolean {
+  return slug.length <= 100 && /^[a-z0-9]+(-[a-z0-9]+)*$/.test(slug);
+}
+
+/**
+ * Validates an A/B destination variant name; same format as slugs, at most
+ * 50 characters
+ */
+export function isValidLinkVariant(variant: string): boolean {
+  return variant.length <= 50 && isValidLinkSlug(variant);
+}
+
 /**
  * Validates if a string is a valid UUID
  */
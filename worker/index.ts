@@ -1,12 +1,287 @@
 interface Env {
   ASSETS: Fetcher;
+  // Origin of the API server, e.g. https://api.example.com
+  API_ORIGIN: string;
+  // Link destinations published by the API (server/src/utils/edgeLinks.ts)
+  // and the token for pushing clicks back (the API's EDGE_TOKEN); without
+  // both, every tracked redirect is forwarded to the API
+  LINKS?: KVNamespace;
+  EDGE_TOKEN?: string;
 }
 
+// Published under link:<id> and slug:<slug>
+interface EdgeLink {
+  id: string;
+  affiliate_url: string;
+  status: 'active' | 'inactive' | 'pending';
+  publish_at: string | null;
+  expires_at: string | null;
+  // The link's or its category's outbound URL template
+  url_template: string | null;
+  // Weighted A/B destinations used instead of affiliate_url when set
+  destinations?: { variant: string; url: string; weight: number }[];
+  sticky_destinations?: boolean;
+}
+
+// A click redirected by the worker: the IDs the outbound URL was built with
+// and the destination it was sent to
+interface EdgeClick {
+  id: string;
+  sessionId: string;
+  destination: string;
+  variant: string | null;
+}
+
+// Request headers the API uses to tell prefetches from clicks, and the
+// privacy signals it honors
+const FORWARDED_HEADERS = [
+  'purpose',
+  'sec-purpose',
+  'x-purpose',
+  'x-moz',
+  'dnt',
+  'sec-gpc',
+];
+
 const hasFileExtension = (path: string) => /\.[a-zA-Z0-9]+$/.test(path);
 
+const isTrackedRedirect = (path: string) =>
+  path.startsWith('/go/') || path.startsWith('/api/redirect/');
+
+// KV key of the link a tracked redirect points at
+const redirectKey = (path: string): string | null => {
+  const slug = path.match(/^\/go\/([^/]+)\/?$/);
+  if (slug) return `slug:${slug[1].toLowerCase()}`;
+
+  const linkId = path.match(/^\/api\/redirect\/([^/]+)\/?$/);
+  if (linkId) return `link:${linkId[1].toLowerCase()}`;
+
+  return null;
+};
+
+// Same as hashToUnitInterval() in server/src/utils/linkDestinations.ts
+const hashToUnitInterval = (value: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) / 0x100000000;
+};
+
+// Same choice as chooseDestination() in server/src/utils/linkDestinations.ts
+const chooseDestination = (
+  link: EdgeLink,
+  sessionId: string
+): { url: string; variant: string | null } => {
+  const destinations = (link.destinations ?? []).filter(
+    (destination) => destination.weight > 0
+  );
+  const totalWeight = destinations.reduce(
+    (sum, destination) => sum + destination.weight,
+    0
+  );
+  if (totalWeight === 0) return { url: link.affiliate_url, variant: null };
+
+  const point =
+    (link.sticky_destinations
+      ? hashToUnitInterval(`${link.id}:${sessionId}`)
+      : Math.random()) * totalWeight;
+  let cumulative = 0;
+  const chosen =
+    destinations.find((destination) => {
+      cumulative += destination.weight;
+      return point < cumulative;
+    }) ?? destinations[destinations.length - 1];
+  return { url: chosen.url, variant: chosen.variant };
+};
+
+const TEMPLATE_PLACEHOLDER_PATTERN = /\{([a-z_]+)\}/g;
+
+const referrerHost = (referrer: string) => {
+  try {
+    return new URL(referrer).hostname;
+  } catch {
+    return '';
+  }
+};
+
+const isHttpUrl = (value: string) => {
+  try {
+    return ['http:', 'https:'].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
+
+// Same expansion as buildDestinationUrl() in server/src/utils/urlTemplate.ts
+const destinationUrl = (
+  link: EdgeLink,
+  request: Request,
+  url: URL,
+  click: EdgeClick
+): string => {
+  if (!link.url_template) return click.destination;
+
+  const referrer = request.headers.get('Referer') || '';
+  const values: Record<string, string> = {
+    link_id: link.id,
+    click_id: click.id,
+    session_id: click.sessionId,
+    referrer,
+    referrer_host: referrerHost(referrer),
+  };
+  for (const name of [
+    'utm_source',
+    'utm_medium',
+    'utm_campaign',
+    'utm_term',
+    'utm_content',
+  ]) {
+    values[name] = url.searchParams.get(name) || '';
+  }
+
+  let expanded = link.url_template.replace(
+    TEMPLATE_PLACEHOLDER_PATTERN,
+    (match, name: string) => {
+      if (name === 'affiliate_url') return click.destination;
+      return name in values ? encodeURIComponent(values[name]) : match;
+    }
+  );
+  if (!expanded.includes('?')) expanded = expanded.replace('&', '?');
+  return isHttpUrl(expanded) ? expanded : click.destination;
+};
+
+// Same rules as getLinkAvailability() on the API
+const isAvailable = (link: EdgeLink, now = Date.now()) =>
+  link.status === 'active' &&
+  (!link.publish_at || Date.parse(link.publish_at) <= now) &&
+  (!link.expires_at || Date.parse(link.expires_at) > now);
+
+const lookupLink = async (env: Env, key: string): Promise<EdgeLink | null> => {
+  if (!env.LINKS || !env.EDGE_TOKEN) return null;
+  try {
+    return await env.LINKS.get<EdgeLink>(key, 'json');
+  } catch (error) {
+    console.error('Link lookup failed', key, error);
+    return null;
+  }
+};
+
+// Record the click on the API once the visitor is on their way. The
+// idempotency key makes a retried push count once; the click ID is the one
+// the outbound URL was built with.
+const pushClick = async (
+  request: Request,
+  url: URL,
+  link: EdgeLink,
+  click: EdgeClick,
+  env: Env
+) => {
+  const headers = request.headers;
+  const body = {
+    link_id: link.id,
+    timestamp: new Date().toISOString(),
+    ip_address: headers.get('CF-Connecting-IP') || undefined,
+    user_agent: headers.get('User-Agent') || undefined,
+    referrer: headers.get('Referer') || undefined,
+    session_id: click.sessionId,
+    country_code:
+      (request.cf?.country as string | undefined) ||
+      url.searchParams.get('country') ||
+      undefined,
+    idempotency_key: click.id,
+    click_id: click.id,
+    variant: click.variant || undefined,
+    headers: Object.fromEntries(
+      FORWARDED_HEADERS.filter((name) => headers.has(name)).map((name) => [
+        name,
+        headers.get(name) as string,
+      ])
+    ),
+  };
+
+  try {
+    const response = await fetch(new URL('/api/clicks/edge', env.API_ORIGIN), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${env.EDGE_TOKEN}`,
+      },
+      body: JSON.stringify(body),
+    });
+    if (!response.ok) {
+      console.error('Click push rejected', response.status);
+    }
+  } catch (error) {
+    console.error('Click push failed', error);
+  }
+};
+
+// Redirect straight from the edge when the link is known and live
+const redirectFromEdge = async (
+  request: Request,
+  url: URL,
+  env: Env,
+  ctx: ExecutionContext
+): Promise<Response | null> => {
+  const key = request.method === 'GET' ? redirectKey(url.pathname) : null;
+  const link = key ? await lookupLink(env, key) : null;
+  if (!link || !isAvailable(link)) return null;
+
+  // Same format as the API's generated session IDs
+  const sessionId =
+    url.searchParams.get('session_id') || crypto.randomUUID().replace(/-/g, '');
+  const { url: destination, variant } = chooseDestination(link, sessionId);
+  const click: EdgeClick = {
+    id: crypto.randomUUID(),
+    sessionId,
+    destination,
+    variant,
+  };
+  ctx.waitUntil(pushClick(request, url, link, click, env));
+
+  return new Response(null, {
+    status: 302,
+    headers: {
+      Location: destinationUrl(link, request, url, click),
+      // Every click has to reach the worker to be counted
+      'Cache-Control': 'no-store',
+    },
+  });
+};
+
+// Tracked redirects the edge can't answer (unknown, unavailable or not yet
+// published links) are served by the API; pass its response through
+// untouched and tell the API who the visitor is
+const forwardToApi = (request: Request, url: URL, env: Env) => {
+  const apiUrl = new URL(url.pathname + url.search, env.API_ORIGIN);
+  const headers = new Headers(request.headers);
+  const clientIp = request.headers.get('CF-Connecting-IP');
+  if (clientIp) {
+    headers.set('X-Forwarded-For', clientIp);
+  }
+
+  return fetch(apiUrl.toString(), {
+    method: request.method,
+    headers,
+    redirect: 'manual',
+  });
+};
+
 export default {
-  async fetch(request: Request, env: Env): Promise<Response> {
+  async fetch(
+    request: Request,
+    env: Env,
+    ctx: ExecutionContext
+  ): Promise<Response> {
     const url = new URL(request.url);
+
+    if (isTrackedRedirect(url.pathname)) {
+      const edgeResponse = await redirectFromEdge(request, url, env, ctx);
+      return edgeResponse ?? forwardToApi(request, url, env);
+    }
+
     const assetResponse = await env.ASSETS.fetch(request);
 
     const shouldServeSpaFallback =
@@ -18,7 +293,10 @@ export default {
       return assetResponse;
     }
 
-    const indexRequest = new Request(new URL('/index.html', url).toString(), request);
+    const indexRequest = new Request(
+      new URL('/index.html', url).toString(),
+      request
+    );
     const indexResponse = await env.ASSETS.fetch(indexRequest);
 
     // Ensure HTML isn't cached aggressively by end-users